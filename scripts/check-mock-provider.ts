@@ -0,0 +1,216 @@
+// End-to-end check of the offline AI provider (AI_PROVIDER=mock) against a
+// local Supabase stack. It creates a throwaway user, adds a copied-text source
+// through process-additional-sources, waits for it to be chunked and embedded,
+// then asks about it through send-chat-message and checks that the streamed
+// and stored answers cite the source. The user and their data are deleted
+// afterwards. Exits non-zero when a step fails.
+//
+//   supabase start
+//   supabase functions serve --env-file supabase/functions/.env   (with AI_PROVIDER=mock)
+//   SUPABASE_URL=... SUPABASE_ANON_KEY=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-net --allow-env scripts/check-mock-provider.ts
+//
+// The URL and keys are the ones `supabase status` prints.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const PROCESSING_TIMEOUT_MS = 60 * 1000
+const POLL_INTERVAL_MS = 1000
+
+// A word that only appears in the source, so a cited answer must have come from it
+const MARKER = 'quokkaberry'
+const SOURCE_TEXT = [
+  'Mock provider check',
+  `The ${MARKER} harvest starts in early spring on the northern slopes.`,
+  'Pickers work in pairs and weigh every basket before noon.',
+].join('\n')
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name)
+  if (!value) {
+    throw new Error(`${name} environment variable not set`)
+  }
+  return value
+}
+
+const step = (message: string) => console.log(`- ${message}`)
+
+const check = (condition: unknown, message: string) => {
+  if (!condition) throw new Error(message)
+}
+
+const supabaseUrl = requireEnv('SUPABASE_URL')
+const anonKey = requireEnv('SUPABASE_ANON_KEY')
+
+const admin = createClient(supabaseUrl, requireEnv('SUPABASE_SERVICE_ROLE_KEY'), {
+  auth: { persistSession: false, autoRefreshToken: false }
+})
+const client = createClient(supabaseUrl, anonKey, {
+  auth: { persistSession: false, autoRefreshToken: false }
+})
+
+const waitForSource = async (sourceId: string) => {
+  const deadline = Date.now() + PROCESSING_TIMEOUT_MS
+
+  while (Date.now() < deadline) {
+    const { data, error } = await client
+      .from('sources')
+      .select('processing_status')
+      .eq('id', sourceId)
+      .single()
+
+    if (error) throw error
+    if (data.processing_status === 'completed') return
+    check(data.processing_status !== 'failed', 'Source processing failed, see the function logs')
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+  }
+
+  throw new Error(`Source was not processed within ${PROCESSING_TIMEOUT_MS / 1000}s`)
+}
+
+// Collect the token events of the send-chat-message stream into the answer text
+const readAnswer = async (response: Response) => {
+  const body = await response.text()
+  let answer = ''
+
+  for (const frame of body.split('\n\n')) {
+    const data = frame
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trim())
+      .join('')
+    if (!data) continue
+
+    const event = JSON.parse(data)
+    if (event.type === 'error') throw new Error(`Chat stream error: ${event.message}`)
+    if (event.type === 'token') answer += event.content
+  }
+
+  return answer
+}
+
+const citesSource = (answer: string, sourceId: string) => {
+  const { output } = JSON.parse(answer) as {
+    output: Array<{ text: string; citations: Array<{ chunk_source_id: string }> }>
+  }
+  return output.some(segment =>
+    segment.text.includes(MARKER) && segment.citations.some(citation => citation.chunk_source_id === sourceId)
+  )
+}
+
+const run = async (userId: string, email: string, password: string) => {
+  const { data: signIn, error: signInError } = await client.auth.signInWithPassword({ email, password })
+  if (signInError) throw signInError
+  step('Signed in as a throwaway user')
+
+  const { data: workspaceId, error: workspaceError } = await client.rpc('current_workspace_id')
+  if (workspaceError) throw workspaceError
+
+  const { data: notebook, error: notebookError } = await client
+    .from('notebooks')
+    .insert({ title: 'Mock provider check', user_id: userId, workspace_id: workspaceId })
+    .select()
+    .single()
+  if (notebookError) throw notebookError
+
+  const { data: source, error: sourceError } = await client
+    .from('sources')
+    .insert({
+      notebook_id: notebook.id,
+      title: 'Mock provider check',
+      type: 'text',
+      content: SOURCE_TEXT,
+      processing_status: 'processing'
+    })
+    .select()
+    .single()
+  if (sourceError) throw sourceError
+
+  const { error: processError } = await client.functions.invoke('process-additional-sources', {
+    body: {
+      type: 'copied-text',
+      notebookId: notebook.id,
+      title: source.title,
+      content: SOURCE_TEXT,
+      sourceIds: [source.id],
+      timestamp: new Date().toISOString()
+    }
+  })
+  if (processError) throw processError
+
+  await waitForSource(source.id)
+
+  const { count: chunkCount, error: chunksError } = await admin
+    .from('documents')
+    .select('id', { count: 'exact', head: true })
+    .eq('metadata->>source_id', source.id)
+  if (chunksError) throw chunksError
+  check((chunkCount ?? 0) > 0, 'Source was marked completed without any embedded chunks')
+  step(`Processed the source into ${chunkCount} chunk(s)`)
+
+  const { data: thread, error: threadError } = await client
+    .from('chat_threads')
+    .insert({ notebook_id: notebook.id, user_id: userId, title: 'Mock provider check' })
+    .select()
+    .single()
+  if (threadError) throw threadError
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-chat-message`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${signIn.session.access_token}`,
+      'apikey': anonKey,
+    },
+    body: JSON.stringify({
+      session_id: thread.id,
+      notebook_id: notebook.id,
+      message: `When does the ${MARKER} harvest start?`,
+      user_id: userId,
+      stream: true
+    })
+  })
+  check(response.ok, `send-chat-message responded with status ${response.status}: ${await response.clone().text()}`)
+
+  const answer = await readAnswer(response)
+  check(citesSource(answer, source.id), `Streamed answer doesn't cite the source: ${answer}`)
+  step('Streamed an answer citing the source')
+
+  const { data: history, error: historyError } = await admin
+    .from('n8n_chat_histories')
+    .select('message')
+    .eq('session_id', thread.id)
+    .order('id', { ascending: true })
+  if (historyError) throw historyError
+
+  const stored = history.map(row => row.message as { type: string; content: string })
+  check(stored.length === 2 && stored[0].type === 'human' && stored[1].type === 'ai', 'Chat history was not saved')
+  check(citesSource(stored[1].content, source.id), 'Stored answer doesn\'t cite the source')
+  step('Saved the question and answer to the chat history')
+}
+
+const email = `mock-check-${crypto.randomUUID()}@example.com`
+const password = crypto.randomUUID()
+
+const { data: created, error: createError } = await admin.auth.admin.createUser({
+  email,
+  password,
+  email_confirm: true
+})
+if (createError) throw createError
+
+let passed = false
+try {
+  await run(created.user.id, email, password)
+  passed = true
+  console.log('Mock provider check passed')
+} catch (error) {
+  console.error('Mock provider check failed:', error instanceof Error ? error.message : error)
+} finally {
+  // Notebooks, sources and chats are removed with the user
+  const { error } = await admin.auth.admin.deleteUser(created.user.id)
+  if (error) console.error('Failed to delete the throwaway user:', error.message)
+}
+
+Deno.exit(passed ? 0 : 1)
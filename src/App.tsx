@@ -8,12 +8,17 @@ import { AuthProvider } from "@/contexts/AuthContext";
 import ProtectedRoute from "@/components/auth/ProtectedRoute";
 import Dashboard from "./pages/Dashboard";
 import Notebook from "./pages/Notebook";
+import Search from "./pages/Search";
+import WorkspaceChat from "./pages/WorkspaceChat";
+import Settings from "./pages/Settings";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 import ForgotPassword from '@/components/auth/ForgotPassword';
+import AcceptInvitation from '@/components/auth/AcceptInvitation';
 import Index from './pages/Index';
 import React from 'react';
 import AdminPanel from './pages/AdminPanel';
+import Trash from './pages/Trash';
 import AdminRoute from '@/components/auth/AdminRoute';
 
 const queryClient = new QueryClient();
@@ -88,6 +93,15 @@ function App() {
                   <Route path="/" element={<Index />} />
                   <Route path="/auth" element={<Auth />} />
                   <Route path="/forgot-password" element={<ForgotPassword />} />
+                  <Route path="/reset-password" element={<ForgotPassword />} />
+                  <Route 
+                    path="/accept-invitation" 
+                    element={
+                      <ProtectedRoute fallback={<Auth />}>
+                        <AcceptInvitation />
+                      </ProtectedRoute>
+                    } 
+                  />
                   <Route 
                     path="/admin" 
                     element={
@@ -98,6 +112,16 @@ function App() {
                       </ProtectedRoute>
                     } 
                   />
+                  <Route 
+                    path="/trash" 
+                    element={
+                      <ProtectedRoute fallback={<Auth />}>
+                        <AdminRoute>
+                          <Trash />
+                        </AdminRoute>
+                      </ProtectedRoute>
+                    } 
+                  />
                   <Route 
                     path="/notebook/:id" 
                     element={
@@ -106,6 +130,30 @@ function App() {
                       </ProtectedRoute>
                     } 
                   />
+                  <Route 
+                    path="/search" 
+                    element={
+                      <ProtectedRoute fallback={<Auth />}>
+                        <Search />
+                      </ProtectedRoute>
+                    } 
+                  />
+                  <Route 
+                    path="/chat" 
+                    element={
+                      <ProtectedRoute fallback={<Auth />}>
+                        <WorkspaceChat />
+                      </ProtectedRoute>
+                    } 
+                  />
+                  <Route 
+                    path="/settings" 
+                    element={
+                      <ProtectedRoute fallback={<Auth />}>
+                        <Settings />
+                      </ProtectedRoute>
+                    } 
+                  />
                   <Route path="*" element={<NotFound />} />
                 </Routes>
                 <Toaster />
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { MessageSquareWarning, ThumbsDown, ThumbsUp } from 'lucide-react';
+import { FeedbackReviewFilters, FeedbackReviewItem, useFeedbackReview } from '@/hooks/useFeedbackReview';
+import { Citation, MessageSegment } from '@/types/message';
+
+// Flatten a stored answer back to plain text for the review table
+const getAnswerText = (answer: unknown): string => {
+  if (typeof answer === 'string') return answer;
+  if (answer && typeof answer === 'object' && 'segments' in answer) {
+    return ((answer as { segments: MessageSegment[] }).segments || []).map(segment => segment.text).join(' ');
+  }
+  return '';
+};
+
+const getCitedSourceTitles = (citations: unknown): string[] => {
+  if (!Array.isArray(citations)) return [];
+  return Array.from(new Set((citations as Citation[]).map(citation => citation.source_title).filter(Boolean)));
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+const FeedbackReview = () => {
+  const [filters, setFilters] = useState<FeedbackReviewFilters>({
+    notebookId: 'all',
+    rating: 'down',
+    periodDays: 30,
+    withCommentOnly: false,
+  });
+  const { feedback, summary, isLoading } = useFeedbackReview(filters);
+
+  const updateFilters = (updates: Partial<FeedbackReviewFilters>) => {
+    setFilters(prev => ({ ...prev, ...updates }));
+  };
+
+  const renderRating = (item: FeedbackReviewItem) => item.rating === 'down' ? (
+    <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+      <ThumbsDown className="h-3 w-3 mr-1" />
+      Negative
+    </Badge>
+  ) : (
+    <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+      <ThumbsUp className="h-3 w-3 mr-1" />
+      Positive
+    </Badge>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Per-notebook summary */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Feedback by Notebook</CardTitle>
+          <CardDescription>
+            Notebooks with the most negative feedback are listed first
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {summary.length === 0 ? (
+            <p className="text-sm text-gray-600">No feedback has been submitted yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {summary.slice(0, 6).map((entry) => (
+                <button
+                  key={entry.notebookId}
+                  onClick={() => updateFilters({ notebookId: entry.notebookId, rating: 'down' })}
+                  className="text-left p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <p className="font-medium text-gray-900 truncate">{entry.title}</p>
+                  <div className="flex items-center space-x-4 mt-2 text-sm">
+                    <span className="flex items-center text-red-600">
+                      <ThumbsDown className="h-3 w-3 mr-1" />
+                      {entry.negative}
+                    </span>
+                    <span className="flex items-center text-green-600">
+                      <ThumbsUp className="h-3 w-3 mr-1" />
+                      {entry.positive}
+                    </span>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Feedback list */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Answer Feedback</CardTitle>
+          <CardDescription>
+            Review rated answers to find sources that need fixing
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-4 mb-6">
+            <Select value={filters.notebookId} onValueChange={(notebookId) => updateFilters({ notebookId })}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="All notebooks" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All notebooks</SelectItem>
+                {summary.map((entry) => (
+                  <SelectItem key={entry.notebookId} value={entry.notebookId}>{entry.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={filters.rating} onValueChange={(rating: FeedbackReviewFilters['rating']) => updateFilters({ rating })}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="down">Negative</SelectItem>
+                <SelectItem value="up">Positive</SelectItem>
+                <SelectItem value="all">All ratings</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={filters.periodDays ? String(filters.periodDays) : 'all'}
+              onValueChange={(value) => updateFilters({ periodDays: value === 'all' ? null : Number(value) })}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">Last 7 days</SelectItem>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+                <SelectItem value="all">All time</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="with-comment-only"
+                checked={filters.withCommentOnly}
+                onCheckedChange={(withCommentOnly) => updateFilters({ withCommentOnly })}
+              />
+              <Label htmlFor="with-comment-only">With comments only</Label>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Notebook</TableHead>
+                  <TableHead>Question</TableHead>
+                  <TableHead>Answer</TableHead>
+                  <TableHead>Comment</TableHead>
+                  <TableHead>Rating</TableHead>
+                  <TableHead>Date</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {feedback.map((item) => {
+                  const sourceTitles = getCitedSourceTitles(item.citations);
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell className="font-medium align-top">{item.notebooks?.title || '-'}</TableCell>
+                      <TableCell className="align-top max-w-xs">
+                        <p className="line-clamp-3">{item.question || '-'}</p>
+                        <p className="text-xs text-gray-500 mt-1">{item.profiles?.email}</p>
+                      </TableCell>
+                      <TableCell className="align-top max-w-md">
+                        <p className="line-clamp-4 text-gray-700">{getAnswerText(item.answer)}</p>
+                        {sourceTitles.length > 0 && (
+                          <p className="text-xs text-gray-500 mt-1">Cited: {sourceTitles.join(', ')}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="align-top max-w-xs text-gray-700">{item.comment || '-'}</TableCell>
+                      <TableCell className="align-top">{renderRating(item)}</TableCell>
+                      <TableCell className="align-top text-gray-600 whitespace-nowrap">{formatDate(item.created_at)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {!isLoading && feedback.length === 0 && (
+            <div className="text-center py-8">
+              <MessageSquareWarning className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">No feedback matches these filters</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default FeedbackReview;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSecurityPolicies } from '@/hooks/useSecurityPolicies';
+
+const SecurityPolicySettings = () => {
+  const { assuranceLevel } = useAuth();
+  const { requiresMfa, updateRequireMfa, isUpdating, isLoading } = useSecurityPolicies();
+  const adminRequiresMfa = requiresMfa('admin');
+  // Turning it on from a password-only session would lock this admin out
+  const canEnable = assuranceLevel === 'aal2';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Security Policy</CardTitle>
+        <CardDescription>
+          Control which roles must use two-factor authentication
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-start justify-between gap-6">
+          <div className="space-y-1">
+            <Label htmlFor="adminRequireMfa" className="text-sm font-medium">
+              Require two-factor authentication for administrators
+            </Label>
+            <p className="text-sm text-gray-600">
+              Admins without a verified authenticator code can't manage notebooks, sources, users, feedback or webhooks.
+            </p>
+            {!adminRequiresMfa && !canEnable && (
+              <p className="text-sm text-amber-700">
+                Set up two-factor authentication on your own account in Settings before requiring it.
+              </p>
+            )}
+          </div>
+          <Switch
+            id="adminRequireMfa"
+            checked={adminRequiresMfa}
+            disabled={isLoading || isUpdating || (!adminRequiresMfa && !canEnable)}
+            onCheckedChange={(checked) => updateRequireMfa({ role: 'admin', requireMfa: checked })}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SecurityPolicySettings;
@@ -0,0 +1,106 @@
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { RotateCcw, Webhook } from 'lucide-react';
+import { useWebhookJobs } from '@/hooks/useWebhookJobs';
+
+const KIND_LABELS: Record<string, string> = {
+  'process-document': 'Process document',
+  'process-additional-sources': 'Additional sources',
+  'generate-notebook-content': 'Notebook details',
+  'generate-audio-overview': 'Audio overview',
+};
+
+const formatDateTime = (dateString: string | null) => {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+const WebhookDeadLetters = () => {
+  const { deadJobs, pendingCount, isLoading, redriveJob, redrivingJobId } = useWebhookJobs();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Dead-lettered Webhooks</CardTitle>
+        <CardDescription>
+          n8n calls that failed permanently or ran out of retries. {pendingCount} call(s) are currently queued for retry.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Workflow</TableHead>
+                <TableHead>Targets</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Last Error</TableHead>
+                <TableHead>Failed</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deadJobs.map((job) => (
+                <TableRow key={job.id}>
+                  <TableCell className="align-top">
+                    <Badge variant="outline">{KIND_LABELS[job.kind] ?? job.kind}</Badge>
+                  </TableCell>
+                  <TableCell className="align-top font-mono text-xs text-gray-600">
+                    {job.target_ids.length > 0 ? job.target_ids.join(', ') : '-'}
+                  </TableCell>
+                  <TableCell className="align-top">{job.attempts}/{job.max_attempts}</TableCell>
+                  <TableCell className="align-top max-w-md">
+                    <p className="line-clamp-3 text-gray-700">{job.last_error || '-'}</p>
+                    {job.last_status_code && (
+                      <p className="text-xs text-gray-500 mt-1">HTTP {job.last_status_code}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="align-top text-gray-600 whitespace-nowrap">{formatDateTime(job.dead_at)}</TableCell>
+                  <TableCell className="align-top text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => redriveJob(job.id)}
+                      disabled={!!redrivingJobId}
+                    >
+                      <RotateCcw className={`h-4 w-4 mr-1 ${redrivingJobId === job.id ? 'animate-spin' : ''}`} />
+                      Re-drive
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {!isLoading && deadJobs.length === 0 && (
+          <div className="text-center py-8">
+            <Webhook className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No dead-lettered webhook calls</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WebhookDeadLetters;
@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth, RecoveryMethod } from '@/contexts/AuthContext';
+import { Loader2 } from 'lucide-react';
+import bcrypt from 'bcryptjs';
+import RecoveryMethodSelect from './RecoveryMethodSelect';
+
+interface AccountRecoveryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Lets a signed-in user choose how they recover a forgotten password and
+// change their security question
+const AccountRecoveryDialog = ({ open, onOpenChange }: AccountRecoveryDialogProps) => {
+  const { userProfile, refreshProfile } = useAuth();
+  const { toast } = useToast();
+  const [recoveryMethod, setRecoveryMethod] = useState<RecoveryMethod>('both');
+  const [securityQuestion, setSecurityQuestion] = useState('');
+  const [securityAnswer, setSecurityAnswer] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && userProfile) {
+      setRecoveryMethod(userProfile.recovery_method ?? 'both');
+      setSecurityQuestion(userProfile.security_question ?? '');
+      setSecurityAnswer('');
+    }
+  }, [open, userProfile]);
+
+  const usesSecurityQuestion = recoveryMethod !== 'email';
+  // A new answer is needed when there is none yet or the question changes
+  const needsNewAnswer = usesSecurityQuestion && (
+    !userProfile?.security_answer_hash || securityQuestion.trim() !== (userProfile?.security_question ?? '')
+  );
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userProfile) return;
+
+    if (usesSecurityQuestion && !securityQuestion.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Security question is required for this recovery method.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if ((needsNewAnswer || securityAnswer) && securityAnswer.trim().length < 3) {
+      toast({
+        title: "Validation Error",
+        description: "Security answer must be at least 3 characters long.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const updates: {
+        recovery_method: RecoveryMethod;
+        security_question?: string;
+        security_answer_hash?: string;
+      } = { recovery_method: recoveryMethod };
+
+      if (usesSecurityQuestion && securityAnswer.trim()) {
+        updates.security_question = securityQuestion.trim();
+        updates.security_answer_hash = await bcrypt.hash(securityAnswer.toLowerCase().trim(), 12);
+      }
+
+      const { error } = await supabase
+        .from('profiles')
+        .update(updates)
+        .eq('id', userProfile.id);
+
+      if (error) throw error;
+
+      await refreshProfile();
+
+      toast({
+        title: "Recovery Settings Saved",
+        description: "Your password recovery preferences have been updated.",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving recovery settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save recovery settings. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSave}>
+          <DialogHeader>
+            <DialogTitle>Account Recovery</DialogTitle>
+            <DialogDescription>
+              Choose how you can reset your password if you forget it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <RecoveryMethodSelect value={recoveryMethod} onChange={setRecoveryMethod} disabled={saving} />
+
+            {usesSecurityQuestion && (
+              <>
+                <div>
+                  <Label htmlFor="recoverySecurityQuestion">Security Question</Label>
+                  <Textarea
+                    id="recoverySecurityQuestion"
+                    value={securityQuestion}
+                    onChange={(e) => setSecurityQuestion(e.target.value)}
+                    placeholder="Enter a security question (e.g., What is your first pet's name?)"
+                    rows={2}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="recoverySecurityAnswer">
+                    {needsNewAnswer ? 'Security Answer' : 'New Security Answer (optional)'}
+                  </Label>
+                  <Input
+                    id="recoverySecurityAnswer"
+                    type="text"
+                    value={securityAnswer}
+                    onChange={(e) => setSecurityAnswer(e.target.value)}
+                    required={needsNewAnswer}
+                    placeholder={needsNewAnswer ? 'Enter the answer to your security question' : 'Leave blank to keep your current answer'}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccountRecoveryDialog;
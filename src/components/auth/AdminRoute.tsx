@@ -1,6 +1,9 @@
 import React from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { useSecurityPolicies } from '@/hooks/useSecurityPolicies';
+import { Button } from '@/components/ui/button';
+import { ShieldAlert } from 'lucide-react';
 
 interface AdminRouteProps {
   children: React.ReactNode;
@@ -8,9 +11,11 @@ interface AdminRouteProps {
 }
 
 const AdminRoute: React.FC<AdminRouteProps> = ({ children, fallback }) => {
-  const { userProfile, loading } = useAuth();
+  const { userProfile, loading, assuranceLevel } = useAuth();
+  const { requiresMfa, isLoading: policiesLoading } = useSecurityPolicies();
+  const navigate = useNavigate();
 
-  if (loading) {
+  if (loading || policiesLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -25,6 +30,29 @@ const AdminRoute: React.FC<AdminRouteProps> = ({ children, fallback }) => {
     return fallback ? <>{fallback}</> : <Navigate to="/" replace />;
   }
 
+  // Admin operations are refused by the database until the session is aal2
+  if (requiresMfa('admin') && assuranceLevel !== 'aal2') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center max-w-md mx-auto p-6">
+          <ShieldAlert className="h-10 w-10 text-red-600 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Two-factor authentication required</h1>
+          <p className="text-gray-600 mb-6">
+            Administrators must verify their sign-in with an authenticator app. Set one up in Settings to continue.
+          </p>
+          <div className="space-x-3">
+            <Button onClick={() => navigate('/settings')} className="bg-red-600 hover:bg-red-700 text-white">
+              Go to Settings
+            </Button>
+            <Button variant="outline" onClick={() => navigate('/')}>
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
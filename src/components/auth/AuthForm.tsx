@@ -7,9 +7,11 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
-import { useAuth } from '@/contexts/AuthContext';
+import { useAuth, RecoveryMethod } from '@/contexts/AuthContext';
 import { Eye, EyeOff, Loader2 } from 'lucide-react';
 import bcrypt from 'bcryptjs';
+import RecoveryMethodSelect from './RecoveryMethodSelect';
+import MfaChallenge from './MfaChallenge';
 
 const AuthForm = () => {
   const [email, setEmail] = useState('');
@@ -18,13 +20,15 @@ const AuthForm = () => {
   const [fullName, setFullName] = useState('');
   const [securityQuestion, setSecurityQuestion] = useState('');
   const [securityAnswer, setSecurityAnswer] = useState('');
+  const [recoveryMethod, setRecoveryMethod] = useState<RecoveryMethod>('both');
   const [isSignUp, setIsSignUp] = useState(false);
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, needsMfaChallenge, signUp } = useAuth();
+  const usesSecurityQuestion = recoveryMethod !== 'email';
 
   // Redirect to dashboard if already authenticated
   useEffect(() => {
@@ -76,7 +80,7 @@ const AuthForm = () => {
         return false;
       }
 
-      if (!securityQuestion.trim()) {
+      if (usesSecurityQuestion && !securityQuestion.trim()) {
         toast({
           title: "Validation Error",
           description: "Security question is required for registration.",
@@ -85,7 +89,7 @@ const AuthForm = () => {
         return false;
       }
 
-      if (!securityAnswer.trim()) {
+      if (usesSecurityQuestion && !securityAnswer.trim()) {
         toast({
           title: "Validation Error",
           description: "Security answer is required for registration.",
@@ -94,7 +98,7 @@ const AuthForm = () => {
         return false;
       }
 
-      if (securityAnswer.length < 3) {
+      if (usesSecurityQuestion && securityAnswer.length < 3) {
         toast({
           title: "Validation Error",
           description: "Security answer must be at least 3 characters long.",
@@ -162,57 +166,29 @@ const AuthForm = () => {
 
         // Hash security answer
         const saltRounds = 12;
-        const hashedSecurityAnswer = await bcrypt.hash(securityAnswer.toLowerCase().trim(), saltRounds);
+        const hashedSecurityAnswer = usesSecurityQuestion
+          ? await bcrypt.hash(securityAnswer.toLowerCase().trim(), saltRounds)
+          : undefined;
         
-        // Sign up user
-        const { data: authData, error: authError } = await supabase.auth.signUp({
+        // Create the account, the sign-up function emails a verification link
+        const result = await signUp({
           email,
           password,
-          options: {
-            emailRedirectTo: undefined, // Disable email confirmation redirect
-            data: {
-              full_name: fullName,
-              security_question: securityQuestion,
-              security_answer_hash: hashedSecurityAnswer
-            }
-          }
+          fullName,
+          recoveryMethod,
+          securityQuestion: usesSecurityQuestion ? securityQuestion : undefined,
+          securityAnswerHash: hashedSecurityAnswer
         });
         
-        if (authError) {
-          // Handle specific Supabase auth errors
-          if (authError.message.includes('already registered')) {
-            toast({
-              title: "Registration Failed",
-              description: "An account with this email already exists. Please use a different email or try signing in.",
-              variant: "destructive",
-            });
-          } else {
-            toast({
-              title: "Registration Failed",
-              description: authError.message,
-              variant: "destructive",
-            });
-          }
+        if (!result.success) {
+          toast({
+            title: "Registration Failed",
+            description: result.error || "Failed to create account.",
+            variant: "destructive",
+          });
           return;
         }
         
-        // Update profile with security question data
-        if (authData.user) {
-          const { error: profileError } = await supabase
-            .from('profiles')
-            .update({
-              security_question: securityQuestion,
-              security_answer_hash: hashedSecurityAnswer,
-              full_name: fullName,
-              email: email
-            })
-            .eq('id', authData.user.id);
-          
-          if (profileError) {
-            console.error('Error updating profile with security data:', profileError);
-          }
-        }
-        
         // Reset form fields
         setEmail('');
         setPassword('');
@@ -220,13 +196,14 @@ const AuthForm = () => {
         setFullName('');
         setSecurityQuestion('');
         setSecurityAnswer('');
+        setRecoveryMethod('both');
         
         // Switch to login mode
         setIsSignUp(false);
         
         toast({
           title: "Registration Successful",
-          description: "Your account has been created successfully. Please sign in to continue.",
+          description: "We've sent a verification link to your email. Please verify your address, then sign in.",
         });
         
       } else {
@@ -240,8 +217,8 @@ const AuthForm = () => {
           // Handle email confirmation error specifically
           if (error.message.includes('Email not confirmed')) {
             toast({
-              title: "Account Setup Required",
-              description: "Please create a new account or contact support. Email confirmation is disabled for new accounts.",
+              title: "Email Not Verified",
+              description: "Please follow the verification link we sent to your email before signing in.",
               variant: "destructive",
             });
           } else {
@@ -254,6 +231,12 @@ const AuthForm = () => {
           return;
         }
         
+        // Accounts with an authenticator continue with the MFA challenge
+        const { data: levels } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+        if (levels?.nextLevel === 'aal2' && levels.currentLevel !== 'aal2') {
+          return;
+        }
+        
         toast({
           title: "Login Successful",
           description: "Welcome back!",
@@ -285,153 +268,163 @@ const AuthForm = () => {
             Telkomsel AI Assistant
           </h1>
           <h2 className="mt-6 text-2xl font-semibold text-gray-900">
-            {isSignUp ? 'Create your account' : 'Sign in to your account'}
+            {needsMfaChallenge ? 'Verify your sign-in' : isSignUp ? 'Create your account' : 'Sign in to your account'}
           </h2>
         </div>
         
-        <Card className="shadow-xl rounded-2xl border border-red-100 bg-white/95 backdrop-blur-sm my-4">
-          <CardHeader className="text-center">
-            <CardTitle className="text-xl font-bold text-gray-900">
-              {isSignUp ? 'Register' : 'Login'}
-            </CardTitle>
-            <CardDescription className="text-gray-600">
-              {isSignUp 
-                ? 'Create a new account with security question for password recovery' 
-                : 'Enter your credentials to access your account'
-              }
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              {isSignUp && (
+        {needsMfaChallenge ? (
+          <MfaChallenge />
+        ) : (
+          <Card className="shadow-xl rounded-2xl border border-red-100 bg-white/95 backdrop-blur-sm my-4">
+            <CardHeader className="text-center">
+              <CardTitle className="text-xl font-bold text-gray-900">
+                {isSignUp ? 'Register' : 'Login'}
+              </CardTitle>
+              <CardDescription className="text-gray-600">
+                {isSignUp 
+                  ? 'Create a new account and choose how to recover your password' 
+                  : 'Enter your credentials to access your account'
+                }
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {isSignUp && (
+                  <div>
+                    <Label htmlFor="fullName">Full Name</Label>
+                    <Input
+                      id="fullName"
+                      type="text"
+                      value={fullName}
+                      onChange={(e) => setFullName(e.target.value)}
+                      required={isSignUp}
+                      placeholder="Enter your full name"
+                    />
+                  </div>
+                )}
+              
                 <div>
-                  <Label htmlFor="fullName">Full Name</Label>
+                  <Label htmlFor="email">Email</Label>
                   <Input
-                    id="fullName"
-                    type="text"
-                    value={fullName}
-                    onChange={(e) => setFullName(e.target.value)}
-                    required={isSignUp}
-                    placeholder="Enter your full name"
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    placeholder="Enter your email"
                   />
                 </div>
-              )}
-              
-              <div>
-                <Label htmlFor="email">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
-                  placeholder="Enter your email"
-                />
-              </div>
               
-              <div>
-                <Label htmlFor="password">Password</Label>
-                <div className="relative">
-                  <Input
-                    id="password"
-                    type={showPassword ? "text" : "password"}
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    required
-                    placeholder="Enter your password"
-                  />
-                  <button
-                    type="button"
-                    className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                    onClick={() => setShowPassword(!showPassword)}
-                  >
-                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                  </button>
+                <div>
+                  <Label htmlFor="password">Password</Label>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type={showPassword ? "text" : "password"}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                      placeholder="Enter your password"
+                    />
+                    <button
+                      type="button"
+                      className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                      onClick={() => setShowPassword(!showPassword)}
+                    >
+                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                  </div>
                 </div>
-              </div>
               
-              {isSignUp && (
-                <>
-                  <div>
-                    <Label htmlFor="confirmPassword">Confirm Password</Label>
-                    <div className="relative">
-                      <Input
-                        id="confirmPassword"
-                        type={showConfirmPassword ? "text" : "password"}
-                        value={confirmPassword}
-                        onChange={(e) => setConfirmPassword(e.target.value)}
-                        required={isSignUp}
-                        placeholder="Confirm your password"
-                      />
-                      <button
-                        type="button"
-                        className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                        onClick={() => setShowConfirmPassword(!showConfirmPassword)}
-                      >
-                        {showConfirmPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                      </button>
+                {isSignUp && (
+                  <>
+                    <div>
+                      <Label htmlFor="confirmPassword">Confirm Password</Label>
+                      <div className="relative">
+                        <Input
+                          id="confirmPassword"
+                          type={showConfirmPassword ? "text" : "password"}
+                          value={confirmPassword}
+                          onChange={(e) => setConfirmPassword(e.target.value)}
+                          required={isSignUp}
+                          placeholder="Confirm your password"
+                        />
+                        <button
+                          type="button"
+                          className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                          onClick={() => setShowConfirmPassword(!showConfirmPassword)}
+                        >
+                          {showConfirmPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                        </button>
+                      </div>
                     </div>
-                  </div>
                   
-                  <div>
-                    <Label htmlFor="securityQuestion">Security Question</Label>
-                    <Textarea
-                      id="securityQuestion"
-                      value={securityQuestion}
-                      onChange={(e) => setSecurityQuestion(e.target.value)}
-                      required={isSignUp}
-                      placeholder="Enter a security question (e.g., What is your first pet's name?)"
-                      rows={2}
-                    />
-                  </div>
+                    <RecoveryMethodSelect value={recoveryMethod} onChange={setRecoveryMethod} />
                   
-                  <div>
-                    <Label htmlFor="securityAnswer">Security Answer</Label>
-                    <Input
-                      id="securityAnswer"
-                      type="text"
-                      value={securityAnswer}
-                      onChange={(e) => setSecurityAnswer(e.target.value)}
-                      required={isSignUp}
-                      placeholder="Enter the answer to your security question"
-                    />
-                  </div>
-                </>
-              )}
+                    {usesSecurityQuestion && (
+                      <>
+                        <div>
+                          <Label htmlFor="securityQuestion">Security Question</Label>
+                          <Textarea
+                            id="securityQuestion"
+                            value={securityQuestion}
+                            onChange={(e) => setSecurityQuestion(e.target.value)}
+                            required
+                            placeholder="Enter a security question (e.g., What is your first pet's name?)"
+                            rows={2}
+                          />
+                        </div>
+                  
+                        <div>
+                          <Label htmlFor="securityAnswer">Security Answer</Label>
+                          <Input
+                            id="securityAnswer"
+                            type="text"
+                            value={securityAnswer}
+                            onChange={(e) => setSecurityAnswer(e.target.value)}
+                            required
+                            placeholder="Enter the answer to your security question"
+                          />
+                        </div>
+                      </>
+                    )}
+                  </>
+                )}
               
-              <Button 
-                type="submit" 
-                className="w-full bg-red-600 hover:bg-red-700 text-white font-bold shadow-md rounded-lg transition-all duration-200 transform hover:scale-105" 
-                disabled={loading}
-              >
-                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                {isSignUp ? 'Register Now' : 'Sign In'}
-              </Button>
-            </form>
-            
-            <div className="mt-6 text-center">
-              <button
-                type="button"
-                onClick={() => setIsSignUp(!isSignUp)}
-                className="text-sm text-red-600 hover:text-red-500 font-medium"
-              >
-                {isSignUp ? 'Already have an account? Sign in here' : "Don't have an account? Register here"}
-              </button>
-            </div>
+                <Button 
+                  type="submit" 
+                  className="w-full bg-red-600 hover:bg-red-700 text-white font-bold shadow-md rounded-lg transition-all duration-200 transform hover:scale-105" 
+                  disabled={loading}
+                >
+                  {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {isSignUp ? 'Register Now' : 'Sign In'}
+                </Button>
+              </form>
             
-            {!isSignUp && (
-              <div className="mt-3 text-center">
+              <div className="mt-6 text-center">
                 <button
                   type="button"
-                  onClick={() => navigate('/forgot-password')}
+                  onClick={() => setIsSignUp(!isSignUp)}
                   className="text-sm text-red-600 hover:text-red-500 font-medium"
                 >
-                  Forgot your password?
+                  {isSignUp ? 'Already have an account? Sign in here' : "Don't have an account? Register here"}
                 </button>
               </div>
-            )}
-          </CardContent>
-        </Card>
+            
+              {!isSignUp && (
+                <div className="mt-3 text-center">
+                  <button
+                    type="button"
+                    onClick={() => navigate('/forgot-password')}
+                    className="text-sm text-red-600 hover:text-red-500 font-medium"
+                  >
+                    Forgot your password?
+                  </button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
         
         {/* Footer dengan identitas */}
         <div className="text-center pb-4">
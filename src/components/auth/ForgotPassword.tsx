@@ -4,27 +4,32 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { Loader2, ArrowLeft, Eye, EyeOff } from 'lucide-react';
+import { Loader2, ArrowLeft, Eye, EyeOff, Mail } from 'lucide-react';
 
 const ForgotPassword = () => {
-  const [step, setStep] = useState<'email' | 'security' | 'newPassword'>('email');
+  // Emailed reset links land here with the token, skipping straight to the new password
+  const [searchParams] = useSearchParams();
+  const linkToken = searchParams.get('token');
+  const [step, setStep] = useState<'email' | 'security' | 'emailSent' | 'newPassword'>(linkToken ? 'newPassword' : 'email');
   const [email, setEmail] = useState('');
   const [securityAnswer, setSecurityAnswer] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [securityQuestion, setSecurityQuestion] = useState('');
-  const [userId, setUserId] = useState<string | null>(null);
+  const [resetToken, setResetToken] = useState<string | null>(linkToken);
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  const [attempts, setAttempts] = useState(0);
-  const maxAttempts = 3;
+  // Reported by the server, which enforces the limit
+  const [remainingAttempts, setRemainingAttempts] = useState<number | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<string | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
   
   const { toast } = useToast();
   const navigate = useNavigate();
-  const { getUserSecurityQuestion, checkSecurityAnswer, updatePassword } = useAuth();
+  const { getUserSecurityQuestion, checkSecurityAnswer, resetPassword, sendPasswordResetEmail } = useAuth();
 
   const handleEmailSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -41,20 +46,19 @@ const ForgotPassword = () => {
     setLoading(true);
     
     try {
-      const { question, userId: foundUserId } = await getUserSecurityQuestion(email);
+      const { question } = await getUserSecurityQuestion(email);
       
-      if (!question || !foundUserId) {
+      if (!question) {
         // Don't reveal if user exists or not for security
         toast({
           title: "Security Question",
-          description: "If an account with this email exists, you will see the security question.",
+          description: "If an account with this email uses a security question, you will see it. Otherwise, request a reset link by email.",
         });
         setLoading(false);
         return;
       }
       
       setSecurityQuestion(question);
-      setUserId(foundUserId);
       setStep('security');
       
     } catch (error) {
@@ -69,22 +73,50 @@ const ForgotPassword = () => {
     }
   };
 
-  const handleSecurityAnswerSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!securityAnswer || !userId) {
+  const handleSendResetEmail = async () => {
+    if (!email) {
       toast({
         title: "Validation Error",
-        description: "Security answer is required.",
+        description: "Email is required.",
         variant: "destructive",
       });
       return;
     }
     
-    if (attempts >= maxAttempts) {
+    setLoading(true);
+    
+    try {
+      const result = await sendPasswordResetEmail(email);
+      
+      if (!result.success) {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to send reset email.",
+          variant: "destructive",
+        });
+        return;
+      }
+      
+      setStep('emailSent');
+    } catch (error) {
+      console.error('Error sending reset email:', error);
+      toast({
+        title: "Error",
+        description: "An error occurred. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSecurityAnswerSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!securityAnswer) {
       toast({
-        title: "Too Many Attempts",
-        description: "You have exceeded the maximum number of attempts. Please try again later.",
+        title: "Validation Error",
+        description: "Security answer is required.",
         variant: "destructive",
       });
       return;
@@ -93,31 +125,33 @@ const ForgotPassword = () => {
     setLoading(true);
     
     try {
-      const isValid = await checkSecurityAnswer(userId, securityAnswer);
+      const result = await checkSecurityAnswer(email, securityAnswer);
       
-      if (isValid) {
+      if (result.success && result.resetToken) {
+        setResetToken(result.resetToken);
         setStep('newPassword');
         toast({
           title: "Security Answer Correct",
           description: "Please enter your new password.",
         });
+      } else if (result.locked) {
+        setIsLocked(true);
+        setLockedUntil(result.lockedUntil ?? null);
+        toast({
+          title: "Account Locked",
+          description: result.error || "Too many failed attempts. Please try again later.",
+          variant: "destructive",
+        });
       } else {
-        setAttempts(prev => prev + 1);
-        const remainingAttempts = maxAttempts - attempts - 1;
+        setRemainingAttempts(result.remainingAttempts ?? null);
         
         toast({
           title: "Incorrect Answer",
-          description: `Security answer is incorrect. ${remainingAttempts} attempts remaining.`,
+          description: result.remainingAttempts !== undefined
+            ? `Security answer is incorrect. ${result.remainingAttempts} attempts remaining.`
+            : result.error || "Security answer is incorrect.",
           variant: "destructive",
         });
-        
-        if (remainingAttempts <= 0) {
-          toast({
-            title: "Account Locked",
-            description: "Too many failed attempts. Please try again later.",
-            variant: "destructive",
-          });
-        }
       }
     } catch (error) {
       console.error('Error checking security answer:', error);
@@ -134,7 +168,7 @@ const ForgotPassword = () => {
   const handlePasswordReset = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!newPassword || !confirmPassword || !userId) {
+    if (!newPassword || !confirmPassword || !resetToken) {
       toast({
         title: "Validation Error",
         description: "All fields are required.",
@@ -164,14 +198,14 @@ const ForgotPassword = () => {
     setLoading(true);
     
     try {
-      const result = await updatePassword(userId, newPassword);
+      const result = await resetPassword(resetToken, newPassword);
       
       if (result.success) {
         toast({
           title: "Password Reset Successful",
           description: "Your password has been updated. You can now sign in with your new password.",
         });
-        navigate('/auth');
+        navigate('/auth', { replace: true });
       } else {
         toast({
           title: "Password Reset Failed",
@@ -211,9 +245,33 @@ const ForgotPassword = () => {
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Continue
             </Button>
+            <Button type="button" variant="outline" className="w-full" onClick={handleSendResetEmail} disabled={loading}>
+              <Mail className="mr-2 h-4 w-4" />
+              Email me a reset link
+            </Button>
           </form>
         );
         
+      case 'emailSent':
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              If an account with <span className="font-medium">{email}</span> can be recovered by email, we've sent it a link to reset the password. The link can be used once.
+            </p>
+            <Button type="button" variant="outline" className="w-full" onClick={handleSendResetEmail} disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send again
+            </Button>
+            <button
+              type="button"
+              onClick={() => navigate('/auth')}
+              className="text-sm text-red-600 hover:text-red-500 font-medium transition-colors text-center w-full"
+            >
+              Back to login page
+            </button>
+          </div>
+        );
+        
       case 'security':
         return (
           <form onSubmit={handleSecurityAnswerSubmit} className="space-y-4">
@@ -234,15 +292,30 @@ const ForgotPassword = () => {
                 placeholder="Enter your answer"
               />
             </div>
-            {attempts > 0 && (
+            {isLocked ? (
+              <div className="text-sm text-red-600">
+                Too many failed attempts.{' '}
+                {lockedUntil
+                  ? `Try again after ${new Date(lockedUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`
+                  : 'Please try again later.'}
+              </div>
+            ) : remainingAttempts !== null && (
               <div className="text-sm text-red-600">
-                {maxAttempts - attempts} attempts remaining
+                {remainingAttempts} attempts remaining
               </div>
             )}
-            <Button type="submit" className="w-full bg-red-600 text-white font-bold shadow-md rounded-lg" disabled={loading || attempts >= maxAttempts}>
+            <Button type="submit" className="w-full bg-red-600 text-white font-bold shadow-md rounded-lg" disabled={loading || isLocked}>
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Verify Answer
             </Button>
+            <button
+              type="button"
+              onClick={handleSendResetEmail}
+              className="text-sm text-red-600 hover:text-red-500 font-medium transition-colors text-center w-full"
+              disabled={loading}
+            >
+              Email me a reset link instead
+            </button>
           </form>
         );
 
@@ -345,11 +418,13 @@ const ForgotPassword = () => {
                 <CardTitle className="text-xl font-bold text-gray-900">
                   {step === 'email' && 'Enter Email'}
                   {step === 'security' && 'Security Question'}
+                  {step === 'emailSent' && 'Check Your Email'}
                   {step === 'newPassword' && 'New Password'}
                 </CardTitle>
                 <CardDescription className="text-gray-600">
-                  {step === 'email' && 'Enter your email to find your security question'}
+                  {step === 'email' && 'Enter your email to answer your security question or get a reset link'}
                   {step === 'security' && 'Answer your security question to proceed'}
+                  {step === 'emailSent' && 'Follow the link in the email to choose a new password'}
                   {step === 'newPassword' && 'Enter your new password'}
                 </CardDescription>
               </div>
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { redeemBackupCode } from '@/hooks/useMfa';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import TotpCodeInput from './TotpCodeInput';
+
+// Second sign-in step for accounts with a TOTP factor. Verifying a code
+// raises the session to aal2, after which AuthContext treats the user as
+// signed in.
+const MfaChallenge = () => {
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCode, setBackupCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const { user, signOut } = useAuth();
+
+  useEffect(() => {
+    const loadFactor = async () => {
+      const { data, error } = await supabase.auth.mfa.listFactors();
+      if (error) {
+        console.error('Error loading MFA factors:', error);
+        return;
+      }
+      setFactorId(data.totp[0]?.id ?? null);
+    };
+
+    loadFactor();
+  }, []);
+
+  const verifyCode = async (value: string) => {
+    if (!factorId || value.length !== 6) return;
+
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: value });
+
+      if (error) {
+        setCode('');
+        toast({
+          title: "Verification Failed",
+          description: "The code is incorrect or has expired. Please try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Login Successful",
+        description: "Welcome back!",
+      });
+    } catch (error) {
+      console.error('Error verifying MFA code:', error);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBackupCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!backupCode.trim()) return;
+
+    setLoading(true);
+
+    try {
+      await redeemBackupCode(backupCode);
+      toast({
+        title: "Backup Code Accepted",
+        description: "Your authenticator has been removed. Set up two-factor authentication again from Settings.",
+      });
+    } catch (error) {
+      console.error('Error redeeming backup code:', error);
+      toast({
+        title: "Backup Code Rejected",
+        description: error instanceof Error ? error.message : "Failed to use backup code.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-xl rounded-2xl border border-red-100 bg-white/95 backdrop-blur-sm my-4">
+      <CardHeader className="text-center">
+        <ShieldCheck className="h-8 w-8 text-red-600 mx-auto mb-2" />
+        <CardTitle className="text-xl font-bold text-gray-900">
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription className="text-gray-600">
+          {useBackupCode
+            ? 'Enter one of the backup codes you saved when setting up your authenticator'
+            : `Enter the 6-digit code from your authenticator app${user?.email ? ` for ${user.email}` : ''}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {useBackupCode ? (
+          <form onSubmit={handleBackupCodeSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="backupCode">Backup Code</Label>
+              <Input
+                id="backupCode"
+                value={backupCode}
+                onChange={(e) => setBackupCode(e.target.value)}
+                placeholder="xxxxx-xxxxx"
+                autoComplete="one-time-code"
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full bg-red-600 hover:bg-red-700 text-white font-bold" disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Use Backup Code
+            </Button>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <TotpCodeInput value={code} onChange={setCode} onComplete={verifyCode} disabled={loading || !factorId} />
+            <Button
+              type="button"
+              className="w-full bg-red-600 hover:bg-red-700 text-white font-bold"
+              disabled={loading || code.length !== 6 || !factorId}
+              onClick={() => verifyCode(code)}
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Verify
+            </Button>
+          </div>
+        )}
+
+        <div className="flex justify-between text-sm">
+          <button
+            type="button"
+            onClick={() => setUseBackupCode(!useBackupCode)}
+            className="text-red-600 hover:text-red-500 font-medium"
+          >
+            {useBackupCode ? 'Use authenticator app' : 'Use a backup code'}
+          </button>
+          <button
+            type="button"
+            onClick={signOut}
+            className="text-gray-600 hover:text-gray-500 font-medium"
+          >
+            Sign out
+          </button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MfaChallenge;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RecoveryMethod } from '@/contexts/AuthContext';
+
+const RECOVERY_METHOD_OPTIONS: { value: RecoveryMethod; label: string }[] = [
+  { value: 'both', label: 'Security question or email link' },
+  { value: 'security_question', label: 'Security question only' },
+  { value: 'email', label: 'Email link only' },
+];
+
+interface RecoveryMethodSelectProps {
+  value: RecoveryMethod;
+  onChange: (value: RecoveryMethod) => void;
+  disabled?: boolean;
+}
+
+const RecoveryMethodSelect = ({ value, onChange, disabled }: RecoveryMethodSelectProps) => {
+  return (
+    <div>
+      <Label htmlFor="recoveryMethod">Password Recovery</Label>
+      <Select value={value} onValueChange={(method) => onChange(method as RecoveryMethod)} disabled={disabled}>
+        <SelectTrigger id="recoveryMethod">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {RECOVERY_METHOD_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default RecoveryMethodSelect;
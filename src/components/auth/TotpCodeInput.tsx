@@ -0,0 +1,33 @@
+import React from 'react';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+
+interface TotpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Six-digit code from an authenticator app
+const TotpCodeInput = ({ value, onChange, onComplete, disabled }: TotpCodeInputProps) => {
+  return (
+    <InputOTP
+      maxLength={6}
+      value={value}
+      onChange={(code) => onChange(code.replace(/\D/g, ''))}
+      onComplete={onComplete}
+      disabled={disabled}
+      inputMode="numeric"
+      autoFocus
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+};
+
+export default TotpCodeInput;
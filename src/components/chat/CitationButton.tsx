@@ -7,16 +7,17 @@ interface CitationButtonProps {
   chunkIndex: number;
   onClick: () => void;
   className?: string;
+  label?: string;
 }
 
-const CitationButton = ({ chunkIndex, onClick, className = '' }: CitationButtonProps) => {
+const CitationButton = ({ chunkIndex, onClick, className = '', label }: CitationButtonProps) => {
   return (
     <Button
       variant="outline"
       size="sm"
       onClick={onClick}
       className={`inline-flex items-center justify-center w-6 h-6 p-0 ml-1 text-blue-600 border-blue-300 hover:bg-blue-50 hover:border-blue-400 rounded-full ${className}`}
-      title={`Reference ${chunkIndex + 1}`}
+      title={label || `Reference ${chunkIndex + 1}`}
     >
       <FileText className="h-3 w-3" />
     </Button>
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+
+interface EditMessageFormProps {
+  initialText: string;
+  onSubmit: (text: string, keepPreviousVersion: boolean) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+const EditMessageForm = ({ initialText, onSubmit, onCancel, disabled = false }: EditMessageFormProps) => {
+  const [text, setText] = useState(initialText);
+  const [keepPreviousVersion, setKeepPreviousVersion] = useState(true);
+
+  const handleSubmit = () => {
+    if (!text.trim()) return;
+    onSubmit(text.trim(), keepPreviousVersion);
+  };
+
+  return (
+    <div className="w-full max-w-md space-y-3 p-3 border border-gray-200 rounded-lg bg-white">
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            handleSubmit();
+          }
+        }}
+        className="min-h-[80px]"
+        autoFocus
+      />
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="keep-previous-version"
+          checked={keepPreviousVersion}
+          onCheckedChange={(checked) => setKeepPreviousVersion(checked === true)}
+        />
+        <Label htmlFor="keep-previous-version" className="text-xs text-gray-600">
+          Keep the previous answer as another version
+        </Label>
+      </div>
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSubmit} disabled={!text.trim() || disabled}>
+          Send
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default EditMessageForm;
@@ -8,14 +8,19 @@ interface MarkdownRendererProps {
   className?: string;
   onCitationClick?: (citation: Citation) => void;
   isUserMessage?: boolean;
+  isStreaming?: boolean;
 }
 
-const MarkdownRenderer = ({ content, className = '', onCitationClick, isUserMessage = false }: MarkdownRendererProps) => {
+const MarkdownRenderer = ({ content, className = '', onCitationClick, isUserMessage = false, isStreaming = false }: MarkdownRendererProps) => {
+  // Blinking caret shown while an answer is still being streamed in
+  const streamingCaret = isStreaming && <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-gray-400 animate-pulse" />;
+
   // Handle enhanced content with citations
   if (typeof content === 'object' && 'segments' in content) {
     return (
       <div className={className}>
         {processMarkdownWithCitations(content.segments, content.citations, onCitationClick, isUserMessage)}
+        {streamingCaret}
       </div>
     );
   }
@@ -27,6 +32,7 @@ const MarkdownRenderer = ({ content, className = '', onCitationClick, isUserMess
   return (
     <div className={className}>
       {processMarkdownWithCitations(segments, citations, onCitationClick, isUserMessage)}
+      {streamingCaret}
     </div>
   );
 };
@@ -86,6 +92,7 @@ const processMarkdownWithCitations = (
             <CitationButton
               chunkIndex={citation.chunk_index || 0}
               onClick={() => onCitationClick(citation)}
+              label={citation.notebook_title ? `${citation.notebook_title} - ${citation.source_title}` : undefined}
             />
           )}
         </p>
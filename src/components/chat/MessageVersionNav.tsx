@@ -0,0 +1,45 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { MessageVersions } from '@/types/message';
+
+interface MessageVersionNavProps {
+  versions: MessageVersions;
+  onSelectVersion: (messageId: number) => void;
+  disabled?: boolean;
+}
+
+const MessageVersionNav = ({ versions, onSelectVersion, disabled = false }: MessageVersionNavProps) => {
+  if (versions.total < 2) return null;
+
+  const hasPrevious = versions.index > 0;
+  const hasNext = versions.index < versions.total - 1;
+
+  return (
+    <div className="flex items-center text-gray-600">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onSelectVersion(versions.ids[versions.index - 1])}
+        disabled={disabled || !hasPrevious}
+        className="h-7 w-7 p-0"
+        title="Previous version"
+      >
+        <ChevronLeft className="h-3 w-3" />
+      </Button>
+      <span className="text-xs tabular-nums">{versions.index + 1}/{versions.total}</span>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onSelectVersion(versions.ids[versions.index + 1])}
+        disabled={disabled || !hasNext}
+        className="h-7 w-7 p-0"
+        title="Next version"
+      >
+        <ChevronRight className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+};
+
+export default MessageVersionNav;
@@ -128,6 +128,13 @@ const SourceContentViewer = ({
       'youtube': '/file-types/MP3.png',
       'audio': '/file-types/MP3.png',
       'doc': '/file-types/DOC.png',
+      'docx': '/file-types/DOC.png',
+      'pptx': '/file-types/DOC.png',
+      'xlsx': '/file-types/DOC.png',
+      'csv': '/file-types/TXT.png',
+      'epub': '/file-types/DOC.png',
+      'markdown': '/file-types/TXT.png',
+      'html': '/file-types/WEB.svg',
       'multiple-websites': '/file-types/WEB.svg',
       'copied-text': '/file-types/TXT.png'
     };
@@ -267,6 +274,9 @@ const SourceContentViewer = ({
             {getSourceIcon(citation.source_type)}
           </div>
           <span className="font-medium text-gray-900 truncate">{citation.source_title}</span>
+          {hasValidCitationLines && citation.excerpt && (
+            <span className="text-xs text-gray-500 flex-shrink-0">{citation.excerpt}</span>
+          )}
         </div>
       </div>
 
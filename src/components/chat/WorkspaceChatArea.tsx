@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { BookOpen, Loader2, RefreshCw, Send } from 'lucide-react';
+import { useChatMessages } from '@/hooks/useChatMessages';
+import { useChatThreads } from '@/hooks/useChatThreads';
+import { useNotebooks } from '@/hooks/useNotebooks';
+import MarkdownRenderer from './MarkdownRenderer';
+import ChatThreadPicker from '@/components/notebook/ChatThreadPicker';
+import { Citation, EnhancedChatMessage } from '@/types/message';
+
+// Unique notebook/source pairs cited by an answer, in order of first citation
+const getCitedSources = (msg: EnhancedChatMessage) => {
+  if (typeof msg.message.content === 'string') return [];
+
+  const seen = new Set<string>();
+  return msg.message.content.citations.filter(citation => {
+    if (seen.has(citation.source_id)) return false;
+    seen.add(citation.source_id);
+    return true;
+  });
+};
+
+const WorkspaceChatArea = () => {
+  const navigate = useNavigate();
+  const [message, setMessage] = useState('');
+  const [pendingUserMessage, setPendingUserMessage] = useState<string | null>(null);
+  const [showAiLoading, setShowAiLoading] = useState(false);
+
+  // undefined until a thread has been picked, null for a new chat that is created on first send
+  const [activeThreadId, setActiveThreadId] = useState<string | null | undefined>(undefined);
+
+  const { notebooks } = useNotebooks();
+  const notebookCount = notebooks?.length || 0;
+
+  // Workspace threads have no notebook
+  const {
+    activeThreads,
+    isLoading: isLoadingThreads,
+    createThreadAsync
+  } = useChatThreads(null);
+
+  // Open the most recently used thread by default
+  useEffect(() => {
+    if (activeThreadId === undefined && !isLoadingThreads) {
+      setActiveThreadId(activeThreads[0]?.id ?? null);
+    }
+  }, [activeThreadId, isLoadingThreads, activeThreads]);
+
+  const {
+    messages,
+    sendMessageAsync,
+    isSending,
+    streamingMessage,
+    deleteChatHistory,
+    isDeletingChatHistory
+  } = useChatMessages(null, activeThreadId ?? undefined);
+
+  const isBusy = isSending || !!pendingUserMessage;
+  const isChatDisabled = notebookCount === 0;
+
+  const latestMessageRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    setTimeout(() => {
+      latestMessageRef.current?.scrollIntoView({
+        behavior: 'smooth',
+        block: 'start'
+      });
+    }, 50);
+  }, [pendingUserMessage, messages.length, showAiLoading, streamingMessage]);
+
+  const handleSendMessage = async () => {
+    const textToSend = message.trim();
+    if (!textToSend) return;
+
+    try {
+      setPendingUserMessage(textToSend);
+      setMessage('');
+      setShowAiLoading(true);
+
+      // Start a new thread named after its first question
+      let threadId = activeThreadId;
+      if (!threadId) {
+        const thread = await createThreadAsync({
+          title: textToSend.length > 60 ? `${textToSend.slice(0, 60)}...` : textToSend
+        });
+        threadId = thread.id;
+        setActiveThreadId(threadId);
+      }
+
+      await sendMessageAsync({
+        notebookId: null,
+        threadId,
+        role: 'user',
+        content: textToSend
+      });
+    } catch (error) {
+      console.error('Failed to send workspace message:', error);
+    } finally {
+      setPendingUserMessage(null);
+      setShowAiLoading(false);
+    }
+  };
+
+  // Open the cited notebook with the citation shown in its sources panel
+  const handleCitationClick = (citation: Citation) => {
+    if (!citation.notebook_id) return;
+
+    const params = new URLSearchParams({ source: citation.source_id });
+    if (citation.chunk_lines_from && citation.chunk_lines_to) {
+      params.set('lines', `${citation.chunk_lines_from}-${citation.chunk_lines_to}`);
+    }
+    navigate(`/notebook/${citation.notebook_id}?${params.toString()}`);
+  };
+
+  const handleClearChat = () => {
+    if (activeThreadId) {
+      deleteChatHistory(activeThreadId);
+    }
+  };
+
+  const isUserMessage = (msg: EnhancedChatMessage) => msg.message.type === 'human';
+
+  return (
+    <div className="flex-1 flex flex-col h-full overflow-hidden">
+      {/* Chat Header */}
+      <div className="p-4 border-b border-gray-200 flex-shrink-0">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <div className="flex items-center space-x-2 min-w-0">
+            <h2 className="text-lg font-medium text-gray-900">Ask all notebooks</h2>
+            <ChatThreadPicker notebookId={null} activeThreadId={activeThreadId ?? null} onSelectThread={setActiveThreadId} disabled={isBusy} />
+          </div>
+          {messages.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={handleClearChat} disabled={isDeletingChatHistory} className="flex items-center space-x-2">
+              <RefreshCw className={`h-4 w-4 ${isDeletingChatHistory ? 'animate-spin' : ''}`} />
+              <span>{isDeletingChatHistory ? 'Clearing...' : 'Clear Chat'}</span>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 h-full">
+        <div className="p-8">
+          <div className="max-w-4xl mx-auto space-y-4">
+            {messages.length === 0 && !pendingUserMessage && (
+              <div className="text-center text-gray-500 py-16">
+                <BookOpen className="h-8 w-8 mx-auto mb-4 text-gray-400" />
+                <p>Ask a question and get an answer drawn from all {notebookCount} notebook{notebookCount !== 1 ? 's' : ''}.</p>
+              </div>
+            )}
+
+            {messages.map(msg => (
+              <div key={msg.id} className={`flex ${isUserMessage(msg) ? 'justify-end' : 'justify-start'}`}>
+                <div className={isUserMessage(msg) ? 'max-w-xs lg:max-w-md px-4 py-2 bg-blue-500 text-white rounded-lg' : 'w-full'}>
+                  <div className={isUserMessage(msg) ? '' : 'prose prose-gray max-w-none text-gray-800'}>
+                    <MarkdownRenderer content={msg.message.content} onCitationClick={handleCitationClick} isUserMessage={isUserMessage(msg)} />
+                  </div>
+                  {!isUserMessage(msg) && getCitedSources(msg).length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {getCitedSources(msg).map(citation => (
+                        <Button
+                          key={citation.source_id}
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleCitationClick(citation)}
+                          disabled={!citation.notebook_id}
+                          className="h-auto py-1 text-xs text-gray-700 max-w-full"
+                        >
+                          <span className="truncate">
+                            {citation.notebook_title || 'Unknown notebook'} › {citation.source_title}
+                          </span>
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {/* Pending user message */}
+            {pendingUserMessage && (
+              <div className="flex justify-end">
+                <div className="max-w-xs lg:max-w-md px-4 py-2 bg-blue-500 text-white rounded-lg">
+                  <MarkdownRenderer content={pendingUserMessage} isUserMessage={true} />
+                </div>
+              </div>
+            )}
+
+            {/* Streaming AI answer */}
+            {showAiLoading && streamingMessage && (
+              <div className="prose prose-gray max-w-none text-gray-800">
+                <MarkdownRenderer content={streamingMessage.message.content} onCitationClick={handleCitationClick} isStreaming={true} />
+              </div>
+            )}
+
+            {/* AI Loading Indicator */}
+            {showAiLoading && !streamingMessage && (
+              <div className="flex justify-start">
+                <div className="flex items-center space-x-2 px-4 py-3 bg-gray-100 rounded-lg">
+                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
+                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                </div>
+              </div>
+            )}
+
+            <div ref={latestMessageRef} />
+          </div>
+        </div>
+      </ScrollArea>
+
+      {/* Chat Input - Fixed at bottom */}
+      <div className="p-6 border-t border-gray-200 flex-shrink-0">
+        <div className="max-w-4xl mx-auto flex space-x-4">
+          <div className="flex-1 relative">
+            <Input
+              placeholder={isChatDisabled ? 'No notebooks to search yet...' : 'Ask across all notebooks...'}
+              value={message}
+              onChange={e => setMessage(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && !isChatDisabled && !isBusy && handleSendMessage()}
+              className="pr-28"
+              disabled={isChatDisabled || isBusy}
+            />
+            <div className="absolute right-3 top-1/2 transform -translate-y-1/2 text-sm text-gray-500">
+              {notebookCount} notebook{notebookCount !== 1 ? 's' : ''}
+            </div>
+          </div>
+          <Button onClick={handleSendMessage} disabled={!message.trim() || isChatDisabled || isBusy}>
+            {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="p-4 border-t border-gray-200 flex-shrink-0">
+        <p className="text-center text-sm text-gray-500">Telkomsel AI Assistant can be inaccurate; please double-check its responses.</p>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceChatArea;
@@ -1,11 +1,12 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { User, LogOut, Crown, Shield } from 'lucide-react';
+import { User, LogOut, Crown, Shield, Search, MessagesSquare, Settings, Trash2 } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { useLogout } from '@/services/authService';
 import { useAuth } from '@/contexts/AuthContext';
 import Logo from '@/components/ui/Logo';
+import WorkspaceSwitcher from '@/components/dashboard/WorkspaceSwitcher';
 import { useNavigate } from 'react-router-dom';
 
 interface DashboardHeaderProps {
@@ -40,8 +41,40 @@ const DashboardHeader = ({ userEmail }: DashboardHeaderProps) => {
               <span>Admin</span>
             </div>
           )}
+          <WorkspaceSwitcher />
         </div>
         <div className="flex items-center space-x-4">
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            onClick={() => navigate('/search')}
+            className="flex items-center space-x-2"
+          >
+            <Search className="h-4 w-4" />
+            <span>Search</span>
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            onClick={() => navigate('/chat')}
+            className="flex items-center space-x-2"
+          >
+            <MessagesSquare className="h-4 w-4" />
+            <span>Ask all notebooks</span>
+          </Button>
+
+          {isAdmin && (
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              onClick={() => navigate('/trash')}
+              className="flex items-center space-x-2"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>Trash</span>
+            </Button>
+          )}
+
           {/* Admin Panel Button */}
           {isAdmin && (
             <Button 
@@ -68,6 +101,10 @@ const DashboardHeader = ({ userEmail }: DashboardHeaderProps) => {
                 <p className="text-sm font-medium">{userEmail}</p>
                 <p className="text-xs text-gray-500 capitalize">{userProfile?.role || 'user'}</p>
               </div>
+              <DropdownMenuItem onClick={() => navigate('/settings')} className="cursor-pointer">
+                <Settings className="h-4 w-4 mr-2" />
+                Settings
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={logout} className="cursor-pointer">
                 <LogOut className="h-4 w-4 mr-2" />
                 Sign Out
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Upload } from 'lucide-react';
+import { useNotebookArchive } from '@/hooks/useNotebookArchive';
+
+interface ImportNotebookDialogProps {
+  triggerClassName?: string;
+}
+
+const ImportNotebookDialog = ({ triggerClassName }: ImportNotebookDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [reembed, setReembed] = useState(false);
+  const { importNotebook, isImporting } = useNotebookArchive();
+  const navigate = useNavigate();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isImporting) return;
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setFile(null);
+      setReembed(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    try {
+      const result = await importNotebook({ file, reembed });
+      handleOpenChange(false);
+      navigate(`/notebook/${result.notebookId}`);
+    } catch {
+      // Reported by the mutation's error toast, keep the dialog open to retry
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className={triggerClassName}>
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Import notebook</DialogTitle>
+            <DialogDescription>
+              Recreate a notebook exported from this or another instance in your current workspace.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div>
+              <Label htmlFor="notebookArchive">Archive</Label>
+              <Input
+                id="notebookArchive"
+                type="file"
+                accept=".zip,application/zip"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                disabled={isImporting}
+              />
+            </div>
+
+            <div className="flex items-start justify-between gap-6">
+              <div className="space-y-1">
+                <Label htmlFor="notebookArchiveReembed" className="text-sm font-medium">Re-create embeddings</Label>
+                <p className="text-sm text-gray-600">
+                  Process the sources again instead of reusing the exported embeddings. Needed when the instances use different embedding models.
+                </p>
+              </div>
+              <Switch
+                id="notebookArchiveReembed"
+                checked={reembed}
+                onCheckedChange={setReembed}
+                disabled={isImporting}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isImporting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isImporting || !file}>
+              {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Import
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportNotebookDialog;
@@ -0,0 +1,387 @@
+import React, { useState } from 'react';
+import { BookOpen, ChevronDown, ChevronRight, Clock, Folder, FolderPlus, MoreHorizontal, Plus, Star, X } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspaces } from '@/hooks/useWorkspaces';
+import { NotebookFolder, useNotebookFolders } from '@/hooks/useNotebookFolders';
+import { useNotebookTags } from '@/hooks/useNotebookTags';
+import { getFolderChildren, LibraryView, NOTEBOOK_DRAG_TYPE } from '@/lib/notebookLibrary';
+import { getTagDotClass, TAG_COLORS, TagColor } from '@/lib/tagColors';
+
+interface LibrarySidebarProps {
+  view: LibraryView;
+  onViewChange: (view: LibraryView) => void;
+  selectedTagId: string | null;
+  onTagChange: (tagId: string | null) => void;
+  // Notebooks directly in each folder, and in the whole library
+  folderCounts: Map<string, number>;
+  totalCount: number;
+}
+
+type NameDialogState =
+  | { mode: 'create-folder'; parentId: string | null }
+  | { mode: 'rename-folder'; folder: NotebookFolder }
+  | { mode: 'create-tag' };
+
+type PendingDelete = { type: 'folder' | 'tag'; id: string; name: string };
+
+const rowClass = (active: boolean, dropTarget = false) =>
+  `group flex items-center w-full rounded-md px-2 py-1.5 text-sm transition-colors ${
+    dropTarget
+      ? 'bg-blue-100 ring-2 ring-blue-400'
+      : active
+        ? 'bg-gray-100 text-gray-900 font-medium'
+        : 'text-gray-700 hover:bg-gray-50'
+  }`;
+
+const LibrarySidebar = ({
+  view,
+  onViewChange,
+  selectedTagId,
+  onTagChange,
+  folderCounts,
+  totalCount,
+}: LibrarySidebarProps) => {
+  const { user } = useAuth();
+  const { isWorkspaceAdmin } = useWorkspaces();
+  const { folders, createFolder, renameFolder, deleteFolder, moveNotebook } = useNotebookFolders();
+  const { tags, createTag, deleteTag } = useNotebookTags();
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [nameInput, setNameInput] = useState('');
+  const [tagColor, setTagColor] = useState<TagColor>('blue');
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+
+  const children = getFolderChildren(folders);
+  const canManage = (createdBy: string | null) => isWorkspaceAdmin || createdBy === user?.id;
+
+  const toggleExpanded = (folderId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
+    });
+  };
+
+  // Drop targets: a folder, or "All notebooks" to take a notebook out of its folder
+  const dropHandlers = (targetKey: string, folderId: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(NOTEBOOK_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(targetKey);
+    },
+    onDragLeave: () => setDropTarget(current => (current === targetKey ? null : current)),
+    onDrop: (e: React.DragEvent) => {
+      const notebookId = e.dataTransfer.getData(NOTEBOOK_DRAG_TYPE);
+      setDropTarget(null);
+      if (!notebookId) return;
+      e.preventDefault();
+      moveNotebook({ notebookId, folderId });
+      if (folderId) setExpanded(prev => new Set(prev).add(folderId));
+    },
+  });
+
+  const openNameDialog = (state: NameDialogState) => {
+    setNameInput(state.mode === 'rename-folder' ? state.folder.name : '');
+    setTagColor('blue');
+    setNameDialog(state);
+  };
+
+  const handleNameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = nameInput.trim();
+    if (!nameDialog || !name) return;
+
+    if (nameDialog.mode === 'create-folder') {
+      createFolder({ name, parentId: nameDialog.parentId });
+      if (nameDialog.parentId) setExpanded(prev => new Set(prev).add(nameDialog.parentId!));
+    } else if (nameDialog.mode === 'rename-folder') {
+      renameFolder({ id: nameDialog.folder.id, name });
+    } else {
+      createTag({ name, color: tagColor });
+    }
+    setNameDialog(null);
+  };
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+
+    if (pendingDelete.type === 'folder') {
+      deleteFolder(pendingDelete.id);
+      if (view.type === 'folder') onViewChange({ type: 'all' });
+    } else {
+      deleteTag(pendingDelete.id);
+      if (selectedTagId === pendingDelete.id) onTagChange(null);
+    }
+    setPendingDelete(null);
+  };
+
+  const renderFolder = (folder: NotebookFolder, depth: number): React.ReactNode => {
+    const subfolders = children.get(folder.id) ?? [];
+    const isExpanded = expanded.has(folder.id);
+    const isActive = view.type === 'folder' && view.folderId === folder.id;
+
+    return (
+      <div key={folder.id}>
+        <div
+          className={rowClass(isActive, dropTarget === folder.id)}
+          style={{ paddingLeft: `${depth * 12 + 8}px` }}
+          {...dropHandlers(folder.id, folder.id)}
+        >
+          <button
+            type="button"
+            className={`mr-1 text-gray-400 hover:text-gray-600 ${subfolders.length === 0 ? 'invisible' : ''}`}
+            onClick={() => toggleExpanded(folder.id)}
+            aria-label={isExpanded ? 'Collapse folder' : 'Expand folder'}
+          >
+            {isExpanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+          </button>
+          <button
+            type="button"
+            className="flex items-center flex-1 min-w-0 text-left"
+            onClick={() => onViewChange({ type: 'folder', folderId: folder.id })}
+          >
+            <Folder className="h-4 w-4 mr-2 flex-shrink-0 text-gray-500" />
+            <span className="truncate">{folder.name}</span>
+          </button>
+          <span className="ml-2 text-xs text-gray-400 group-hover:hidden">{folderCounts.get(folder.id) || ''}</span>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                type="button"
+                className="ml-1 hidden group-hover:block text-gray-400 hover:text-gray-600"
+                aria-label="Folder actions"
+              >
+                <MoreHorizontal className="h-4 w-4" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-44">
+              <DropdownMenuItem onClick={() => openNameDialog({ mode: 'create-folder', parentId: folder.id })}>
+                <FolderPlus className="h-4 w-4 mr-2" />
+                New subfolder
+              </DropdownMenuItem>
+              {canManage(folder.created_by) && (
+                <>
+                  <DropdownMenuItem onClick={() => openNameDialog({ mode: 'rename-folder', folder })}>
+                    Rename
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => setPendingDelete({ type: 'folder', id: folder.id, name: folder.name })}
+                    className="text-red-600 focus:text-red-700"
+                  >
+                    Delete
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        {isExpanded && subfolders.map(subfolder => renderFolder(subfolder, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <aside className="w-60 flex-shrink-0 space-y-6">
+      <nav className="space-y-0.5">
+        <button
+          type="button"
+          className={rowClass(view.type === 'all', dropTarget === 'all')}
+          onClick={() => onViewChange({ type: 'all' })}
+          {...dropHandlers('all', null)}
+        >
+          <BookOpen className="h-4 w-4 mr-2 text-gray-500" />
+          <span className="flex-1 text-left">All notebooks</span>
+          <span className="text-xs text-gray-400">{totalCount}</span>
+        </button>
+        <button
+          type="button"
+          className={rowClass(view.type === 'favorites')}
+          onClick={() => onViewChange({ type: 'favorites' })}
+        >
+          <Star className="h-4 w-4 mr-2 text-gray-500" />
+          <span className="flex-1 text-left">Favourites</span>
+        </button>
+        <button
+          type="button"
+          className={rowClass(view.type === 'recent')}
+          onClick={() => onViewChange({ type: 'recent' })}
+        >
+          <Clock className="h-4 w-4 mr-2 text-gray-500" />
+          <span className="flex-1 text-left">Recently opened</span>
+        </button>
+      </nav>
+
+      <section>
+        <div className="flex items-center justify-between px-2 mb-1">
+          <h3 className="text-xs font-medium uppercase tracking-wide text-gray-500">Folders</h3>
+          <button
+            type="button"
+            className="text-gray-400 hover:text-gray-600"
+            onClick={() => openNameDialog({ mode: 'create-folder', parentId: null })}
+            aria-label="New folder"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+        </div>
+        {folders.length === 0 ? (
+          <p className="px-2 text-xs text-gray-500">Create a folder and drag notebooks onto it.</p>
+        ) : (
+          <div className="space-y-0.5">
+            {(children.get(null) ?? []).map(folder => renderFolder(folder, 0))}
+          </div>
+        )}
+      </section>
+
+      <section>
+        <div className="flex items-center justify-between px-2 mb-1">
+          <h3 className="text-xs font-medium uppercase tracking-wide text-gray-500">Tags</h3>
+          <button
+            type="button"
+            className="text-gray-400 hover:text-gray-600"
+            onClick={() => openNameDialog({ mode: 'create-tag' })}
+            aria-label="New tag"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+        </div>
+        {tags.length === 0 ? (
+          <p className="px-2 text-xs text-gray-500">Tag notebooks from their card's menu.</p>
+        ) : (
+          <div className="space-y-0.5">
+            {tags.map(tag => (
+              <div key={tag.id} className={rowClass(selectedTagId === tag.id)}>
+                <button
+                  type="button"
+                  className="flex items-center flex-1 min-w-0 text-left"
+                  onClick={() => onTagChange(selectedTagId === tag.id ? null : tag.id)}
+                >
+                  <span className={`h-2.5 w-2.5 rounded-full mr-2 flex-shrink-0 ${getTagDotClass(tag.color)}`} />
+                  <span className="truncate">{tag.name}</span>
+                </button>
+                {canManage(tag.created_by) && (
+                  <button
+                    type="button"
+                    className="ml-1 hidden group-hover:block text-gray-400 hover:text-gray-600"
+                    onClick={() => setPendingDelete({ type: 'tag', id: tag.id, name: tag.name })}
+                    aria-label="Delete tag"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <Dialog open={!!nameDialog} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleNameSubmit}>
+            <DialogHeader>
+              <DialogTitle>
+                {nameDialog?.mode === 'create-tag'
+                  ? 'New tag'
+                  : nameDialog?.mode === 'rename-folder'
+                    ? 'Rename folder'
+                    : 'New folder'}
+              </DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4 py-4">
+              <div>
+                <Label htmlFor="libraryItemName">Name</Label>
+                <Input
+                  id="libraryItemName"
+                  value={nameInput}
+                  onChange={(e) => setNameInput(e.target.value)}
+                  autoFocus
+                />
+              </div>
+
+              {nameDialog?.mode === 'create-tag' && (
+                <div>
+                  <Label>Colour</Label>
+                  <div className="flex items-center space-x-2 mt-2">
+                    {TAG_COLORS.map(color => (
+                      <button
+                        key={color}
+                        type="button"
+                        className={`h-6 w-6 rounded-full ${getTagDotClass(color)} ${tagColor === color ? 'ring-2 ring-offset-2 ring-gray-900' : ''}`}
+                        onClick={() => setTagColor(color)}
+                        aria-label={color}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setNameDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!nameInput.trim()}>
+                {nameDialog?.mode === 'rename-folder' ? 'Save' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.type} "{pendingDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.type === 'folder'
+                ? 'Its subfolders are deleted too. The notebooks in them are not deleted and show up under All notebooks.'
+                : 'The tag is removed from every notebook in the workspace.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </aside>
+  );
+};
+
+export default LibrarySidebar;
@@ -1,8 +1,26 @@
 import React, { useState } from 'react';
-import { Trash2, Crown } from 'lucide-react';
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useNavigate } from 'react-router-dom';
+import { Trash2, Crown, Globe, MoreVertical, Copy, LayoutTemplate, FilePlus, Star, Tag as TagIcon } from 'lucide-react';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuCheckboxItem,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useNotebookDelete } from '@/hooks/useNotebookDelete';
+import { useNotebookDuplicate } from '@/hooks/useNotebookDuplicate';
+import { useNotebookFavorites } from '@/hooks/useNotebookFavorites';
+import { useNotebookTags } from '@/hooks/useNotebookTags';
+import { NOTEBOOK_DRAG_TYPE } from '@/lib/notebookLibrary';
+import { getTagBadgeClass } from '@/lib/tagColors';
 import { useAuth } from '@/contexts/AuthContext';
+import { NotebookRole } from '@/hooks/useNotebooks';
 
 interface NotebookCardProps {
   notebook: {
@@ -14,24 +32,50 @@ interface NotebookCardProps {
     color: string;
     hasCollaborators?: boolean;
     user_id?: string;
+    role?: NotebookRole;
+    visibility?: 'private' | 'workspace';
+    isTemplate?: boolean;
   };
+  // Workspace admins can turn their notebooks into templates
+  canSaveAsTemplate?: boolean;
 }
 
-const NotebookCard = ({ notebook }: NotebookCardProps) => {
+const NotebookCard = ({ notebook, canSaveAsTemplate = false }: NotebookCardProps) => {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  const { deleteNotebook, isDeleting, canDelete } = useNotebookDelete();
+  const { deleteNotebook, isDeleting } = useNotebookDelete();
+  const { duplicateNotebook, isDuplicating } = useNotebookDuplicate();
+  const { isFavorite, toggleFavorite } = useNotebookFavorites();
+  const { tags, getNotebookTags, setNotebookTag } = useNotebookTags();
+  const navigate = useNavigate();
   const { userProfile, user } = useAuth();
 
   const isOwnNotebook = notebook.user_id === user?.id;
   const isAdmin = userProfile?.role === 'admin';
+  const canDelete = notebook.role === 'owner';
+  const canDuplicate = notebook.role === 'owner' && !notebook.isTemplate;
+  // Editors file notebooks into folders (by dragging the card) and tag them
+  const canEdit = notebook.role === 'owner' || notebook.role === 'editor';
+  const showMenu = canDelete || canDuplicate || canEdit || notebook.isTemplate;
+  const favorite = isFavorite(notebook.id);
+  const notebookTags = getNotebookTags(notebook.id);
+  const notebookTagIds = new Set(notebookTags.map(tag => tag.id));
 
-  const handleDeleteClick = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    e.preventDefault();
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData(NOTEBOOK_DRAG_TYPE, notebook.id);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDeleteClick = () => {
     console.log('Delete button clicked for notebook:', notebook.id);
     setShowDeleteDialog(true);
   };
 
+  const handleUseTemplate = () => {
+    duplicateNotebook({ notebookId: notebook.id, title: notebook.title }, {
+      onSuccess: (result) => navigate(`/notebook/${result.notebookId}`)
+    });
+  };
+
   const handleDeleteConfirm = () => {
     deleteNotebook(notebook.id);
     setShowDeleteDialog(false);
@@ -57,6 +101,8 @@ const NotebookCard = ({ notebook }: NotebookCardProps) => {
     <div 
       className={`${notebook.color} rounded-lg p-6 cursor-pointer relative group shadow-lg hover:shadow-xl hover:-translate-y-1 transition-all duration-200 ease-in-out`}
       onClick={handleCardClick}
+      draggable={canEdit && !notebook.isTemplate}
+      onDragStart={handleDragStart}
       style={{
         // Ensure the card has proper bounding box
         display: 'block',
@@ -67,25 +113,81 @@ const NotebookCard = ({ notebook }: NotebookCardProps) => {
       }}
     >
       
-      {/* Delete button - only show for admin */}
-      {canDelete && (
-        <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity z-10">
-          <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
-            <AlertDialogTrigger asChild>
+      {/* Actions menu - the menu and dialog are portals, so keep their clicks
+          from opening the notebook */}
+      {showMenu && (
+        <div
+          className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity z-10"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
               <button
-                onClick={handleDeleteClick}
-                className="p-2 bg-red-500 hover:bg-red-600 text-white rounded-full transition-colors delete-button"
+                className="p-2 bg-white/80 hover:bg-white text-gray-700 rounded-full transition-colors"
                 data-delete-action="true"
-                disabled={isDeleting}
+                disabled={isDeleting || isDuplicating}
+                aria-label="Notebook actions"
               >
-                <Trash2 className="h-4 w-4" />
+                <MoreVertical className="h-4 w-4" />
               </button>
-            </AlertDialogTrigger>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-48" onClick={(e) => e.stopPropagation()}>
+              {notebook.isTemplate && (
+                <DropdownMenuItem onClick={handleUseTemplate}>
+                  <FilePlus className="h-4 w-4 mr-2" />
+                  Use template
+                </DropdownMenuItem>
+              )}
+              {canDuplicate && (
+                <DropdownMenuItem onClick={() => duplicateNotebook({ notebookId: notebook.id })}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Duplicate
+                </DropdownMenuItem>
+              )}
+              {canDuplicate && canSaveAsTemplate && (
+                <DropdownMenuItem onClick={() => duplicateNotebook({ notebookId: notebook.id, title: notebook.title, asTemplate: true })}>
+                  <LayoutTemplate className="h-4 w-4 mr-2" />
+                  Save as template
+                </DropdownMenuItem>
+              )}
+              {canEdit && !notebook.isTemplate && tags.length > 0 && (
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <TagIcon className="h-4 w-4 mr-2" />
+                    Tags
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent onClick={(e) => e.stopPropagation()}>
+                    {tags.map(tag => (
+                      <DropdownMenuCheckboxItem
+                        key={tag.id}
+                        checked={notebookTagIds.has(tag.id)}
+                        onCheckedChange={(checked) => setNotebookTag({ notebookId: notebook.id, tagId: tag.id, tagged: checked })}
+                        onSelect={(e) => e.preventDefault()}
+                      >
+                        {tag.name}
+                      </DropdownMenuCheckboxItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              )}
+              {canDelete && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={handleDeleteClick} className="text-red-600 focus:text-red-700">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
             <AlertDialogContent onClick={(e) => e.stopPropagation()}>
               <AlertDialogHeader>
-                <AlertDialogTitle>Delete Notebook</AlertDialogTitle>
+                <AlertDialogTitle>{notebook.isTemplate ? 'Delete Template' : 'Delete Notebook'}</AlertDialogTitle>
                 <AlertDialogDescription>
-                  Are you sure you want to delete "{notebook.title}"? This action cannot be undone and will remove all sources, notes, and chat history associated with this notebook.
+                  Are you sure you want to delete "{notebook.title}"? The {notebook.isTemplate ? 'template' : 'notebook'} will be moved to the trash with all its sources, notes, and chat history. An admin can restore it until it is permanently deleted.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
@@ -106,6 +208,21 @@ const NotebookCard = ({ notebook }: NotebookCardProps) => {
         </div>
       )}
       
+      {!notebook.isTemplate && (
+        <button
+          type="button"
+          className={`absolute top-2 left-2 p-1.5 rounded-full transition-opacity z-10 hover:bg-white/80 ${favorite ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            toggleFavorite(notebook.id);
+          }}
+          data-delete-action="true"
+          aria-label={favorite ? 'Remove from favourites' : 'Add to favourites'}
+        >
+          <Star className={`h-4 w-4 ${favorite ? 'fill-yellow-400 text-yellow-500' : 'text-gray-500'}`} />
+        </button>
+      )}
+
       <div className="flex items-center space-x-4 mb-4">
         <span className="text-2xl">{notebook.icon}</span>
         <div className="flex-1">
@@ -113,9 +230,27 @@ const NotebookCard = ({ notebook }: NotebookCardProps) => {
           <p className="text-sm text-gray-600">{notebook.date}</p>
         </div>
       </div>
+
+      {notebookTags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-3">
+          {notebookTags.map(tag => (
+            <span key={tag.id} className={`text-xs px-2 py-0.5 rounded-full ${getTagBadgeClass(tag.color)}`}>
+              {tag.name}
+            </span>
+          ))}
+        </div>
+      )}
       
       <div className="flex items-center justify-between text-sm text-gray-600">
         <span>{notebook.sources} source{notebook.sources !== 1 ? 's' : ''}</span>
+        <div className="flex items-center space-x-2">
+          {notebook.visibility === 'workspace' && (
+            <Globe className="h-4 w-4 text-gray-500" aria-label="Shared with the workspace" />
+          )}
+          {notebook.role && notebook.role !== 'owner' && (
+            <span className="text-xs font-medium uppercase tracking-wide text-gray-500">{notebook.role}</span>
+          )}
+        </div>
         {notebook.hasCollaborators && (
           <div className="flex -space-x-2">
             <div className="w-6 h-6 bg-blue-500 rounded-full border-2 border-white"></div>
@@ -0,0 +1,62 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { EMPTY_LIBRARY_FILTERS, LibraryFilters } from '@/lib/notebookLibrary';
+
+// Select items can't have an empty value
+const ANY = 'any';
+
+interface NotebookFiltersProps {
+  filters: LibraryFilters;
+  onChange: (filters: LibraryFilters) => void;
+  sourceTypes: string[];
+  owners: { id: string; label: string }[];
+}
+
+const NotebookFilters = ({ filters, onChange, sourceTypes, owners }: NotebookFiltersProps) => {
+  const hasFilters = !!(filters.tagId || filters.sourceType || filters.ownerId);
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Select
+        value={filters.sourceType ?? ANY}
+        onValueChange={(value) => onChange({ ...filters, sourceType: value === ANY ? null : value })}
+      >
+        <SelectTrigger className="w-40 h-9 text-sm">
+          <SelectValue placeholder="Source type" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>All source types</SelectItem>
+          {sourceTypes.map(type => (
+            <SelectItem key={type} value={type}>{type.toUpperCase()}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.ownerId ?? ANY}
+        onValueChange={(value) => onChange({ ...filters, ownerId: value === ANY ? null : value })}
+      >
+        <SelectTrigger className="w-48 h-9 text-sm">
+          <SelectValue placeholder="Owner" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any owner</SelectItem>
+          {owners.map(owner => (
+            <SelectItem key={owner.id} value={owner.id}>{owner.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {hasFilters && (
+        <Button variant="ghost" size="sm" onClick={() => onChange(EMPTY_LIBRARY_FILTERS)}>
+          <X className="h-4 w-4 mr-1" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default NotebookFilters;
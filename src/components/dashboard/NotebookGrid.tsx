@@ -1,30 +1,51 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import NotebookCard from './NotebookCard';
-import { Check, Grid3X3, List, ChevronDown } from 'lucide-react';
+import ImportNotebookDialog from './ImportNotebookDialog';
+import LibrarySidebar from './LibrarySidebar';
+import NotebookFilters from './NotebookFilters';
+import { Check, Grid3X3, List, ChevronDown, FilePlus } from 'lucide-react';
 import { useNotebooks } from '@/hooks/useNotebooks';
+import { useNotebookDuplicate } from '@/hooks/useNotebookDuplicate';
+import { useWorkspaces } from '@/hooks/useWorkspaces';
+import { useWorkspaceMembers } from '@/hooks/useWorkspaceMembers';
+import { useNotebookFolders } from '@/hooks/useNotebookFolders';
+import { useNotebookTags } from '@/hooks/useNotebookTags';
+import { useNotebookFavorites } from '@/hooks/useNotebookFavorites';
+import { EMPTY_LIBRARY_FILTERS, getFolderPath, LibraryFilters, LibraryView } from '@/lib/notebookLibrary';
 import { useNavigate } from 'react-router-dom';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { useAuth } from '@/contexts/AuthContext';
 
+type NotebookListItem = NonNullable<ReturnType<typeof useNotebooks>['notebooks']>[number];
+
 const NotebookGrid = () => {
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [sortBy, setSortBy] = useState('Most recent');
+  const [view, setView] = useState<LibraryView>({ type: 'all' });
+  const [filters, setFilters] = useState<LibraryFilters>(EMPTY_LIBRARY_FILTERS);
   const {
     notebooks,
     isLoading,
     createNotebook,
     isCreating
   } = useNotebooks();
+  const { duplicateNotebook, isDuplicating } = useNotebookDuplicate();
+  const { isWorkspaceAdmin, currentWorkspaceId } = useWorkspaces();
+  const { members } = useWorkspaceMembers(currentWorkspaceId);
+  const { folders } = useNotebookFolders();
+  const { getNotebookTags } = useNotebookTags();
+  const { favoriteIds, lastOpened } = useNotebookFavorites();
   const navigate = useNavigate();
-  const { userProfile } = useAuth();
-  const isAdmin = userProfile?.role === 'admin';
+  const { user } = useAuth();
 
   const sortedNotebooks = useMemo(() => {
     if (!notebooks) return [];
@@ -40,6 +61,77 @@ const NotebookGrid = () => {
     return sorted;
   }, [notebooks, sortBy]);
 
+  // Folders and tags belong to the workspace, so start over when it changes
+  useEffect(() => {
+    setView({ type: 'all' });
+    setFilters(EMPTY_LIBRARY_FILTERS);
+  }, [currentWorkspaceId]);
+
+  const templates = useMemo(() => sortedNotebooks.filter(notebook => notebook.is_template), [sortedNotebooks]);
+  const libraryNotebooks = useMemo(() => sortedNotebooks.filter(notebook => !notebook.is_template), [sortedNotebooks]);
+
+  const folderCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const notebook of libraryNotebooks) {
+      if (notebook.folder_id) counts.set(notebook.folder_id, (counts.get(notebook.folder_id) ?? 0) + 1);
+    }
+    return counts;
+  }, [libraryNotebooks]);
+
+  const sourceTypes = useMemo(
+    () => [...new Set(libraryNotebooks.flatMap(notebook => notebook.source_types))].sort(),
+    [libraryNotebooks]
+  );
+
+  const owners = useMemo(() => {
+    const memberLabels = new Map(members.map(member => [member.user_id, member.full_name || member.email]));
+    const ownerIds = [...new Set(libraryNotebooks.map(notebook => notebook.user_id))];
+
+    return ownerIds
+      .map(id => ({ id, label: id === user?.id ? 'Me' : memberLabels.get(id) ?? 'Former member' }))
+      .sort((a, b) => (a.id === user?.id ? -1 : b.id === user?.id ? 1 : a.label.localeCompare(b.label)));
+  }, [libraryNotebooks, members, user?.id]);
+
+  const matchesFilters = (notebook: NotebookListItem) =>
+    (!filters.tagId || getNotebookTags(notebook.id).some(tag => tag.id === filters.tagId)) &&
+    (!filters.sourceType || notebook.source_types.includes(filters.sourceType)) &&
+    (!filters.ownerId || notebook.user_id === filters.ownerId);
+
+  const viewNotebooks = (() => {
+    switch (view.type) {
+      case 'favorites':
+        return libraryNotebooks.filter(notebook => favoriteIds.has(notebook.id));
+      case 'recent':
+        return libraryNotebooks
+          .filter(notebook => lastOpened.has(notebook.id))
+          .sort((a, b) => lastOpened.get(b.id)!.localeCompare(lastOpened.get(a.id)!));
+      case 'folder':
+        return libraryNotebooks.filter(notebook => notebook.folder_id === view.folderId);
+      default:
+        return libraryNotebooks;
+    }
+  })().filter(matchesFilters);
+
+  // Notebooks the user created vs. ones they were added to or can see
+  // because they're shared with the whole workspace. Templates are only
+  // listed for the workspace admins who maintain them.
+  const myNotebooks = viewNotebooks.filter(notebook => notebook.user_id === user?.id);
+  const sharedNotebooks = viewNotebooks.filter(notebook => notebook.user_id !== user?.id);
+
+  const viewTitle = view.type === 'favorites'
+    ? 'Favourites'
+    : view.type === 'recent'
+      ? 'Recently opened'
+      : view.type === 'folder'
+        ? getFolderPath(folders, view.folderId).map(folder => folder.name).join(' / ') || 'Folder'
+        : null;
+
+  const viewEmptyText = view.type === 'favorites'
+    ? 'Star a notebook to add it to your favourites.'
+    : view.type === 'recent'
+      ? "Notebooks you open will appear here."
+      : 'Drag notebooks onto this folder in the sidebar to file them here.';
+
   const handleCreateNotebook = () => {
     createNotebook({
       title: 'Untitled notebook',
@@ -55,6 +147,15 @@ const NotebookGrid = () => {
     });
   };
 
+  const handleCreateFromTemplate = (template: NotebookListItem) => {
+    duplicateNotebook({ notebookId: template.id, title: template.title }, {
+      onSuccess: result => {
+        console.log('Navigating to notebook created from template:', result.notebookId);
+        navigate(`/notebook/${result.notebookId}`);
+      }
+    });
+  };
+
   const handleNotebookClick = (notebookId: string, e: React.MouseEvent) => {
     // Check if the click is coming from a delete action or other interactive element
     const target = e.target as HTMLElement;
@@ -66,71 +167,131 @@ const NotebookGrid = () => {
     navigate(`/notebook/${notebookId}`);
   };
 
+  const renderSection = (title: string, items: NotebookListItem[], emptyText: string) => (
+    <section className="mb-10">
+      <h2 className="text-lg font-medium text-gray-900 mb-4">{title}</h2>
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">{emptyText}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {items.map(notebook => (
+            <div key={notebook.id} onClick={e => handleNotebookClick(notebook.id, e)} className="cursor-pointer">
+              <NotebookCard notebook={{
+                id: notebook.id,
+                title: notebook.title,
+                date: new Date(notebook.updated_at).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric'
+                }),
+                sources: notebook.sources?.[0]?.count || 0,
+                icon: notebook.icon || '📝',
+                color: notebook.color || 'bg-gray-100',
+                role: notebook.role,
+                visibility: notebook.visibility,
+                isTemplate: notebook.is_template
+              }} canSaveAsTemplate={isWorkspaceAdmin} />
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+
   if (isLoading) {
     return <div className="text-center py-16">
         <p className="text-gray-600">Loading notebooks...</p>
       </div>;
   }
 
-  return <div>
-      <div className="flex items-center justify-between mb-8">
-        {/* Only show create button for admin */}
-        {isAdmin && (
-          <Button 
-            className="bg-black hover:bg-gray-800 text-white rounded-full px-6 shadow-lg transition-transform hover:scale-105" 
-            onClick={handleCreateNotebook} 
-            disabled={isCreating}
-          >
-            {isCreating ? 'Creating...' : '+ Create new'}
-          </Button>
-        )}
-        
-        {/* For non-admin users, show a message */}
-        {!isAdmin && (
-          <div className="text-gray-600">
-            <p>Available notebooks managed by administrators</p>
+  const hasFilters = !!(filters.tagId || filters.sourceType || filters.ownerId);
+
+  return <div className="flex items-start gap-8">
+      <LibrarySidebar
+        view={view}
+        onViewChange={setView}
+        selectedTagId={filters.tagId}
+        onTagChange={tagId => setFilters({ ...filters, tagId })}
+        folderCounts={folderCounts}
+        totalCount={libraryNotebooks.length}
+      />
+
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            {templates.length === 0 ? (
+              <Button 
+                className="bg-black hover:bg-gray-800 text-white rounded-full px-6 shadow-lg transition-transform hover:scale-105" 
+                onClick={handleCreateNotebook} 
+                disabled={isCreating}
+              >
+                {isCreating ? 'Creating...' : '+ Create new'}
+              </Button>
+            ) : (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button 
+                    className="bg-black hover:bg-gray-800 text-white rounded-full px-6 shadow-lg transition-transform hover:scale-105" 
+                    disabled={isCreating || isDuplicating}
+                  >
+                    {isCreating || isDuplicating ? 'Creating...' : '+ Create new'}
+                    <ChevronDown className="h-4 w-4 ml-2" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="w-64">
+                  <DropdownMenuItem onClick={handleCreateNotebook}>
+                    <FilePlus className="h-4 w-4 mr-2" />
+                    Blank notebook
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel className="text-xs font-normal text-gray-500">From a template</DropdownMenuLabel>
+                  {templates.map(template => (
+                    <DropdownMenuItem key={template.id} onClick={() => handleCreateFromTemplate(template)}>
+                      <span className="mr-2">{template.icon || '📝'}</span>
+                      <span className="truncate">{template.title}</span>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            <ImportNotebookDialog triggerClassName="rounded-full px-6" />
           </div>
-        )}
         
-        <div className="flex items-center space-x-4">
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <div className="flex items-center space-x-2 bg-white rounded-lg border px-3 py-2 cursor-pointer hover:bg-gray-50 transition-colors">
-                <span className="text-sm text-gray-600">{sortBy}</span>
-                <ChevronDown className="h-4 w-4 text-gray-400" />
-              </div>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end" className="w-48">
-              <DropdownMenuItem onClick={() => setSortBy('Most recent')} className="flex items-center justify-between">
-                Most recent
-                {sortBy === 'Most recent' && <Check className="h-4 w-4" />}
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setSortBy('Title')} className="flex items-center justify-between">
-                Title
-                {sortBy === 'Title' && <Check className="h-4 w-4" />}
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
+          <div className="flex items-center space-x-4">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <div className="flex items-center space-x-2 bg-white rounded-lg border px-3 py-2 cursor-pointer hover:bg-gray-50 transition-colors">
+                  <span className="text-sm text-gray-600">{sortBy}</span>
+                  <ChevronDown className="h-4 w-4 text-gray-400" />
+                </div>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-48">
+                <DropdownMenuItem onClick={() => setSortBy('Most recent')} className="flex items-center justify-between">
+                  Most recent
+                  {sortBy === 'Most recent' && <Check className="h-4 w-4" />}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setSortBy('Title')} className="flex items-center justify-between">
+                  Title
+                  {sortBy === 'Title' && <Check className="h-4 w-4" />}
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
-      </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        {sortedNotebooks.map(notebook => (
-          <div key={notebook.id} onClick={e => handleNotebookClick(notebook.id, e)} className="cursor-pointer">
-            <NotebookCard notebook={{
-              id: notebook.id,
-              title: notebook.title,
-              date: new Date(notebook.updated_at).toLocaleDateString('en-US', {
-                month: 'short',
-                day: 'numeric',
-                year: 'numeric'
-              }),
-              sources: notebook.sources?.[0]?.count || 0,
-              icon: notebook.icon || '📝',
-              color: notebook.color || 'bg-gray-100'
-            }} />
-          </div>
-        ))}
+        <div className="mb-8">
+          <NotebookFilters filters={filters} onChange={setFilters} sourceTypes={sourceTypes} owners={owners} />
+        </div>
+
+        {viewTitle ? (
+          renderSection(viewTitle, viewNotebooks, hasFilters ? 'No notebooks match the filters.' : viewEmptyText)
+        ) : (
+          <>
+            {renderSection('My notebooks', myNotebooks, hasFilters ? 'No notebooks match the filters.' : "You haven't created any notebooks yet.")}
+            {renderSection('Shared with me', sharedNotebooks, hasFilters ? 'No notebooks match the filters.' : 'Notebooks other people share with you will appear here.')}
+            {isWorkspaceAdmin && renderSection('Templates', templates.filter(matchesFilters), 'Save a notebook as a template from its menu to let everyone in the workspace start from it.')}
+          </>
+        )}
       </div>
     </div>;
 };
@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, UserPlus, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Workspace, WorkspaceLimits, WorkspaceRole, useWorkspaces } from '@/hooks/useWorkspaces';
+import { useWorkspaceMembers, WorkspaceUsage } from '@/hooks/useWorkspaceMembers';
+
+interface WorkspaceSettingsDialogProps {
+  workspace: Workspace;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
+const LIMIT_FIELDS: { key: keyof WorkspaceLimits; usageKey: keyof WorkspaceUsage; label: string; unit?: 'MB' }[] = [
+  { key: 'max_notebooks', usageKey: 'notebooks', label: 'Notebooks' },
+  { key: 'max_sources', usageKey: 'sources', label: 'Sources' },
+  { key: 'max_storage_bytes', usageKey: 'storage_bytes', label: 'Storage', unit: 'MB' },
+  { key: 'max_members', usageKey: 'members', label: 'Members' },
+];
+
+// Limits are edited in MB for storage, an empty field means unlimited
+const toInputValue = (value: number | null, unit?: 'MB') => {
+  if (value === null) return '';
+  return String(unit === 'MB' ? Math.round(value / BYTES_PER_MB) : value);
+};
+
+const fromInputValue = (value: string, unit?: 'MB') => {
+  if (!value.trim()) return null;
+  const parsed = Math.max(0, Math.floor(Number(value)));
+  return unit === 'MB' ? parsed * BYTES_PER_MB : parsed;
+};
+
+const formatUsage = (value: number, unit?: 'MB') =>
+  unit === 'MB' ? `${(value / BYTES_PER_MB).toFixed(1)} MB` : String(value);
+
+const WorkspaceSettingsDialog = ({ workspace, open, onOpenChange }: WorkspaceSettingsDialogProps) => {
+  const { user, isAdmin } = useAuth();
+  const { updateWorkspace, isUpdating } = useWorkspaces();
+  const { members, usage, isLoading, inviteMember, isInviting, updateMemberRole, removeMember } =
+    useWorkspaceMembers(open ? workspace.id : null);
+  const [name, setName] = useState(workspace.name);
+  const [limits, setLimits] = useState<Record<keyof WorkspaceLimits, string>>({
+    max_notebooks: '',
+    max_sources: '',
+    max_storage_bytes: '',
+    max_members: '',
+  });
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>('member');
+
+  useEffect(() => {
+    if (!open) return;
+    setName(workspace.name);
+    setLimits({
+      max_notebooks: toInputValue(workspace.max_notebooks),
+      max_sources: toInputValue(workspace.max_sources),
+      max_storage_bytes: toInputValue(workspace.max_storage_bytes, 'MB'),
+      max_members: toInputValue(workspace.max_members),
+    });
+  }, [open, workspace]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const updates: Partial<Pick<Workspace, 'name'> & WorkspaceLimits> = { name: name.trim() };
+    if (isAdmin) {
+      for (const field of LIMIT_FIELDS) {
+        updates[field.key] = fromInputValue(limits[field.key], field.unit);
+      }
+    }
+
+    try {
+      await updateWorkspace({ id: workspace.id, updates });
+    } catch {
+      // Reported by the mutation's error toast
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    try {
+      await inviteMember({ email: email.trim(), role });
+      setEmail('');
+    } catch {
+      // Reported by the mutation's error toast
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Workspace settings</DialogTitle>
+          <DialogDescription>
+            Workspace admins manage members and own every notebook in the workspace.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <Label htmlFor="workspaceName">Name</Label>
+            <Input
+              id="workspaceName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-900 mb-2">Usage</p>
+            <div className="grid grid-cols-2 gap-3">
+              {LIMIT_FIELDS.map(field => {
+                const limit = workspace[field.key];
+                return (
+                  <div key={field.key} className="space-y-1">
+                    <Label htmlFor={field.key} className="text-sm text-gray-600">
+                      {field.label}: {usage ? formatUsage(usage[field.usageKey], field.unit) : '…'}
+                      {!isAdmin && ` of ${limit === null ? 'unlimited' : formatUsage(limit, field.unit)}`}
+                    </Label>
+                    {isAdmin && (
+                      <Input
+                        id={field.key}
+                        type="number"
+                        min={0}
+                        value={limits[field.key]}
+                        onChange={(e) => setLimits(prev => ({ ...prev, [field.key]: e.target.value }))}
+                        placeholder={field.unit ? `Unlimited (${field.unit})` : 'Unlimited'}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isUpdating || !name.trim()}>
+              {isUpdating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </form>
+
+        <div className="border-t pt-4 space-y-3">
+          <p className="text-sm font-medium text-gray-900">Members</p>
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.com"
+              aria-label="Email"
+              required
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+              <SelectTrigger className="w-28" aria-label="Role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="member">Member</SelectItem>
+                <SelectItem value="admin">Admin</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={isInviting || !email.trim()}>
+              {isInviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+            </Button>
+          </form>
+
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {isLoading ? (
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            ) : (
+              members.map(member => {
+                const isSelf = member.user_id === user?.id;
+
+                return (
+                  <div key={member.user_id} className="flex items-center justify-between gap-3 py-1">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {member.full_name || member.email}
+                        {isSelf && <span className="text-gray-500 font-normal"> (you)</span>}
+                      </p>
+                      {member.full_name && <p className="text-xs text-gray-500 truncate">{member.email}</p>}
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {isSelf ? (
+                        <Badge variant="outline">{member.role === 'admin' ? 'Admin' : 'Member'}</Badge>
+                      ) : (
+                        <Select
+                          value={member.role}
+                          onValueChange={(value) => updateMemberRole({ userId: member.user_id, role: value as WorkspaceRole })}
+                        >
+                          <SelectTrigger className="h-8 w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="member">Member</SelectItem>
+                            <SelectItem value="admin">Admin</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {!isSelf && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => removeMember(member.user_id)}
+                          title="Remove from workspace"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkspaceSettingsDialog;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Building2, Check, ChevronDown, Loader2, Plus, Settings } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspaces } from '@/hooks/useWorkspaces';
+import WorkspaceSettingsDialog from '@/components/dashboard/WorkspaceSettingsDialog';
+
+const WorkspaceSwitcher = () => {
+  const { isAdmin } = useAuth();
+  const {
+    workspaces,
+    currentWorkspace,
+    isWorkspaceAdmin,
+    switchWorkspace,
+    createWorkspace,
+    isCreating,
+  } = useWorkspaces();
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    try {
+      const workspace = await createWorkspace(newName.trim());
+      switchWorkspace(workspace.id);
+      setNewName('');
+      setCreateOpen(false);
+    } catch {
+      // Reported by the mutation's error toast, keep the dialog open to retry
+    }
+  };
+
+  // Nothing to switch between for someone in a single workspace
+  if (!currentWorkspace || (workspaces.length < 2 && !isWorkspaceAdmin)) {
+    return null;
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center space-x-2 max-w-[14rem]">
+            <Building2 className="h-4 w-4 flex-shrink-0" />
+            <span className="truncate">{currentWorkspace.name}</span>
+            <ChevronDown className="h-4 w-4 flex-shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          {workspaces.map(workspace => (
+            <DropdownMenuItem
+              key={workspace.id}
+              onClick={() => workspace.id !== currentWorkspace.id && switchWorkspace(workspace.id)}
+              className="cursor-pointer"
+            >
+              <Check className={`h-4 w-4 mr-2 ${workspace.id === currentWorkspace.id ? 'opacity-100' : 'opacity-0'}`} />
+              <span className="truncate">{workspace.name}</span>
+            </DropdownMenuItem>
+          ))}
+          {isWorkspaceAdmin && <DropdownMenuSeparator />}
+          {isWorkspaceAdmin && (
+            <DropdownMenuItem onClick={() => setSettingsOpen(true)} className="cursor-pointer">
+              <Settings className="h-4 w-4 mr-2" />
+              Workspace settings
+            </DropdownMenuItem>
+          )}
+          {isAdmin && (
+            <DropdownMenuItem onClick={() => setCreateOpen(true)} className="cursor-pointer">
+              <Plus className="h-4 w-4 mr-2" />
+              New workspace
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {isWorkspaceAdmin && (
+        <WorkspaceSettingsDialog
+          workspace={currentWorkspace}
+          open={settingsOpen}
+          onOpenChange={setSettingsOpen}
+        />
+      )}
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <form onSubmit={handleCreate}>
+            <DialogHeader>
+              <DialogTitle>New workspace</DialogTitle>
+              <DialogDescription>
+                Workspaces keep notebooks, sources and chat of different teams apart.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="py-4">
+              <Label htmlFor="newWorkspaceName">Name</Label>
+              <Input
+                id="newWorkspaceName"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                required
+                placeholder="e.g. Marketing"
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isCreating || !newName.trim()}>
+                {isCreating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default WorkspaceSwitcher;
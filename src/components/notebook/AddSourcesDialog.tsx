@@ -9,8 +9,10 @@ import { useFileUpload } from '@/hooks/useFileUpload';
 import { useDocumentProcessing } from '@/hooks/useDocumentProcessing';
 import { useNotebookGeneration } from '@/hooks/useNotebookGeneration';
 import { useToast } from '@/hooks/use-toast';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { getFileSourceType, SOURCE_FILE_ACCEPT } from '@/lib/sourceFormats';
 
 interface AddSourcesDialogProps {
   open: boolean;
@@ -90,7 +92,7 @@ const AddSourcesDialog = ({
   const processFileAsync = async (file: File, sourceId: string, notebookId: string) => {
     try {
       console.log('Starting file processing for:', file.name, 'source:', sourceId);
-      const fileType = file.type.includes('pdf') ? 'pdf' : file.type.includes('audio') ? 'audio' : 'text';
+      const fileType = getFileSourceType(file);
 
       // Update status to uploading
       updateSource({
@@ -123,24 +125,32 @@ const AddSourcesDialog = ({
           filePath,
           sourceType: fileType
         });
+      } catch (processingError) {
+        console.error('Document processing failed:', processingError);
+
+        // process-document records its own failures with the reason, only
+        // requests that never reached it are recorded here
+        if (!(processingError instanceof FunctionsHttpError)) {
+          await supabase.rpc('record_source_job_stage', {
+            p_source_id: sourceId,
+            p_stage: 'extract',
+            p_status: 'failed',
+            p_error: processingError instanceof Error ? processingError.message : 'Could not start processing'
+          });
+        }
+        return;
+      }
 
-        // Generate notebook content
+      // Generate notebook content
+      try {
         await generateNotebookContentAsync({
           notebookId,
           filePath,
           sourceType: fileType
         });
         console.log('Document processing completed for:', sourceId);
-      } catch (processingError) {
-        console.error('Document processing failed:', processingError);
-
-        // Update to completed with basic info if processing fails
-        updateSource({
-          sourceId,
-          updates: {
-            processing_status: 'completed'
-          }
-        });
+      } catch (generationError) {
+        console.error('Notebook content generation failed:', generationError);
       }
     } catch (error) {
       console.error('File processing failed for:', file.name, error);
@@ -171,11 +181,11 @@ const AddSourcesDialog = ({
     try {
       // Step 1: Create the first source immediately (this will trigger generation if it's the first source)
       const firstFile = files[0];
-      const firstFileType = firstFile.type.includes('pdf') ? 'pdf' : firstFile.type.includes('audio') ? 'audio' : 'text';
+      const firstFileType = getFileSourceType(firstFile);
       const firstSourceData = {
         notebookId,
         title: firstFile.name,
-        type: firstFileType as 'pdf' | 'text' | 'website' | 'youtube' | 'audio',
+        type: firstFileType,
         file_size: firstFile.size,
         processing_status: 'pending',
         metadata: {
@@ -196,11 +206,11 @@ const AddSourcesDialog = ({
         
         // Create remaining sources
         remainingSources = await Promise.all(files.slice(1).map(async (file, index) => {
-          const fileType = file.type.includes('pdf') ? 'pdf' : file.type.includes('audio') ? 'audio' : 'text';
+          const fileType = getFileSourceType(file);
           const sourceData = {
             notebookId,
             title: file.name,
-            type: fileType as 'pdf' | 'text' | 'website' | 'youtube' | 'audio',
+            type: fileType,
             file_size: file.size,
             processing_status: 'pending',
             metadata: {
@@ -465,14 +475,14 @@ const AddSourcesDialog = ({
                   </p>
                 </div>
                 <p className="text-xs text-gray-500">
-                  Supported file types: PDF, txt, Markdown, Audio (e.g. mp3)
+                  Supported file types: PDF, txt, Markdown, Word, PowerPoint, Excel, CSV, EPUB, HTML, Audio (e.g. mp3)
                 </p>
                 <input
                   id="file-upload"
                   type="file"
                   multiple
                   className="hidden"
-                  accept=".pdf,.txt,.md,.mp3,.wav,.m4a"
+                  accept={SOURCE_FILE_ACCEPT}
                   onChange={handleFileSelect}
                   disabled={isProcessingFiles}
                 />
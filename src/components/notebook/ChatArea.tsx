@@ -1,17 +1,26 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Send, Upload, FileText, Loader2, RefreshCw } from 'lucide-react';
+import { Send, Upload, FileText, Loader2, RefreshCw, Download, Pencil, RotateCcw, SlidersHorizontal } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
 import { useChatMessages } from '@/hooks/useChatMessages';
+import { useChatThreads } from '@/hooks/useChatThreads';
+import { useChatExport } from '@/hooks/useChatExport';
 import { useSources } from '@/hooks/useSources';
 import MarkdownRenderer from '@/components/chat/MarkdownRenderer';
+import MessageVersionNav from '@/components/chat/MessageVersionNav';
+import EditMessageForm from '@/components/chat/EditMessageForm';
 import SaveToNoteButton from './SaveToNoteButton';
+import FeedbackButtons from './FeedbackButtons';
 import AddSourcesDialog from './AddSourcesDialog';
-import { Citation } from '@/types/message';
-import { useAuth } from '@/contexts/AuthContext';
+import ChatThreadPicker from './ChatThreadPicker';
+import RetrievalSettingsDialog from './RetrievalSettingsDialog';
+import { Citation, EnhancedChatMessage } from '@/types/message';
+import { ChatExportFormat } from '@/lib/chatExport';
+import { useNotebookRole } from '@/hooks/useNotebookRole';
 
 interface ChatAreaProps {
   hasSource: boolean;
@@ -23,50 +32,89 @@ interface ChatAreaProps {
     generation_status?: string;
     icon?: string;
     example_questions?: string[];
+    keyword_search_weight?: number;
+    semantic_search_weight?: number;
   } | null;
   onCitationClick?: (citation: Citation) => void;
+  selectedSourceIds?: string[] | null;
 }
 
 const ChatArea = ({
   hasSource,
   notebookId,
   notebook,
-  onCitationClick
+  onCitationClick,
+  selectedSourceIds = null
 }: ChatAreaProps) => {
   const [message, setMessage] = useState('');
   const [pendingUserMessage, setPendingUserMessage] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<number | null>(null);
   const [showAiLoading, setShowAiLoading] = useState(false);
   const [clickedQuestions, setClickedQuestions] = useState<Set<string>>(new Set());
   const [showAddSourcesDialog, setShowAddSourcesDialog] = useState(false);
+  const [showRetrievalSettings, setShowRetrievalSettings] = useState(false);
   
-  // Add this line to destructure isAdmin from useAuth
-  const { isAdmin } = useAuth();
+  // Owners and editors change the notebook's sources and search settings
+  const { canEdit } = useNotebookRole(notebookId);
   
   const isGenerating = notebook?.generation_status === 'generating';
   
+  // undefined until a thread has been picked, null for a new chat that is created on first send
+  const [activeThreadId, setActiveThreadId] = useState<string | null | undefined>(undefined);
+
+  const {
+    threads,
+    activeThreads,
+    isLoading: isLoadingThreads,
+    createThreadAsync
+  } = useChatThreads(notebookId);
+
+  // Open the most recently used thread by default
+  useEffect(() => {
+    if (activeThreadId === undefined && !isLoadingThreads) {
+      setActiveThreadId(activeThreads[0]?.id ?? null);
+    }
+  }, [activeThreadId, isLoadingThreads, activeThreads]);
+
   const {
     messages,
-    sendMessage,
+    sendMessageAsync,
     isSending,
+    streamingMessage,
+    replaceMessageAsync,
+    isReplacing,
+    switchVersion,
+    isSwitchingVersion,
     deleteChatHistory,
     isDeletingChatHistory
-  } = useChatMessages(notebookId);
+  } = useChatMessages(notebookId, activeThreadId ?? undefined);
   
   const {
     sources
   } = useSources(notebookId);
+
+  const {
+    exportChat,
+    isExporting
+  } = useChatExport();
   
   const sourceCount = sources?.length || 0;
 
   // Check if at least one source has been successfully processed
   const hasProcessedSource = sources?.some(source => source.processing_status === 'completed') || false;
 
-  // Chat should be disabled if there are no processed sources
-  const isChatDisabled = !hasProcessedSource;
+  // null means every source is selected
+  const selectedSourceCount = selectedSourceIds ? selectedSourceIds.length : sourceCount;
+  const noSourcesSelected = !!selectedSourceIds && selectedSourceIds.length === 0;
+
+  // Chat should be disabled if there are no processed sources or none are selected
+  const isChatDisabled = !hasProcessedSource || noSourcesSelected;
 
   // Track when we send a message to show loading state
   const [lastMessageCount, setLastMessageCount] = useState(0);
 
+  const isStreaming = !!streamingMessage;
+
   // Ref for auto-scrolling to the most recent message
   const latestMessageRef = useRef<HTMLDivElement>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
@@ -94,22 +142,39 @@ const ChatArea = ({
         }, 50);
       }
     }
-  }, [pendingUserMessage, messages.length, showAiLoading]);
+  }, [pendingUserMessage, messages.length, showAiLoading, isStreaming]);
   const handleSendMessage = async (messageText?: string) => {
     const textToSend = messageText || message.trim();
     if (textToSend && notebookId) {
       try {
         // Store the pending message to display immediately
         setPendingUserMessage(textToSend);
-        await sendMessage({
+        setMessage('');
+
+        // Show AI loading until the first streamed tokens arrive
+        setShowAiLoading(true);
+
+        // Start a new thread named after its first question
+        let threadId = activeThreadId;
+        if (!threadId) {
+          const thread = await createThreadAsync({
+            title: textToSend.length > 60 ? `${textToSend.slice(0, 60)}...` : textToSend
+          });
+          threadId = thread.id;
+          setActiveThreadId(threadId);
+        }
+
+        await sendMessageAsync({
           notebookId: notebookId,
+          threadId,
+          sourceIds: selectedSourceIds,
           role: 'user',
           content: textToSend
         });
-        setMessage('');
 
-        // Show AI loading after user message is sent
-        setShowAiLoading(true);
+        // The persisted messages have been refetched by now
+        setPendingUserMessage(null);
+        setShowAiLoading(false);
       } catch (error) {
         console.error('Failed to send message:', error);
         // Clear pending message on error
@@ -118,14 +183,41 @@ const ChatArea = ({
       }
     }
   };
+  // Resend a question as a new version of an earlier turn
+  const handleResendMessage = async (humanMessage: EnhancedChatMessage, text: string, keepPreviousVersion: boolean) => {
+    try {
+      await replaceMessageAsync({
+        messageId: humanMessage.id,
+        mode: keepPreviousVersion ? 'branch' : 'discard'
+      });
+      setEditingMessageId(null);
+      await handleSendMessage(text);
+    } catch (error) {
+      console.error('Failed to resend message:', error);
+    }
+  };
+  const handleRegenerate = (aiMessage: EnhancedChatMessage) => {
+    const humanMessage = messages.find(msg => msg.id === aiMessage.parent_id);
+    if (humanMessage && typeof humanMessage.message.content === 'string') {
+      handleResendMessage(humanMessage, humanMessage.message.content, true);
+    }
+  };
   const handleRefreshChat = () => {
-    if (notebookId) {
-      console.log('Refresh button clicked for notebook:', notebookId);
-      deleteChatHistory(notebookId);
+    if (activeThreadId) {
+      console.log('Refresh button clicked for thread:', activeThreadId);
+      deleteChatHistory(activeThreadId);
       // Reset clicked questions when chat is refreshed
       setClickedQuestions(new Set());
     }
   };
+  const handleExportChat = (format: ChatExportFormat) => {
+    const threadTitle = threads.find(thread => thread.id === activeThreadId)?.title;
+    exportChat({
+      format,
+      title: [notebook?.title, threadTitle].filter(Boolean).join(' - ') || 'Chat',
+      messages
+    });
+  };
   const handleCitationClick = (citation: Citation) => {
     onCitationClick?.(citation);
   };
@@ -162,7 +254,9 @@ const ChatArea = ({
   // Update placeholder text based on processing status
   const getPlaceholderText = () => {
     if (isChatDisabled) {
-      if (sourceCount === 0) {
+      if (noSourcesSelected) {
+        return "Select at least one source to start chatting...";
+      } else if (sourceCount === 0) {
         return "Upload a source to get started...";
       } else {
         return "Please wait while your sources are being processed...";
@@ -175,11 +269,32 @@ const ChatArea = ({
           {/* Chat Header */}
           <div className="p-4 border-b border-gray-200 flex-shrink-0">
             <div className="max-w-4xl mx-auto flex items-center justify-between">
-              <h2 className="text-lg font-medium text-gray-900">Chat</h2>
+              <div className="flex items-center space-x-2 min-w-0">
+                <h2 className="text-lg font-medium text-gray-900">Chat</h2>
+                <ChatThreadPicker notebookId={notebookId} activeThreadId={activeThreadId ?? null} onSelectThread={setActiveThreadId} disabled={isSending || !!pendingUserMessage} />
+              </div>
+              <div className="flex items-center space-x-1">
+              {canEdit && notebookId && <Button variant="ghost" size="sm" onClick={() => setShowRetrievalSettings(true)} title="Search settings">
+                  <SlidersHorizontal className="h-4 w-4" />
+                </Button>}
+              {shouldShowRefreshButton && <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" disabled={isExporting} className="flex items-center space-x-2">
+                      {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                      <span>Export</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => handleExportChat('markdown')} className="cursor-pointer">Markdown (.md)</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExportChat('html')} className="cursor-pointer">HTML (.html)</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExportChat('pdf')} className="cursor-pointer">PDF (.pdf)</DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>}
               {shouldShowRefreshButton && <Button variant="ghost" size="sm" onClick={handleRefreshChat} disabled={isDeletingChatHistory || isChatDisabled} className="flex items-center space-x-2">
                   <RefreshCw className={`h-4 w-4 ${isDeletingChatHistory ? 'animate-spin' : ''}`} />
                   <span>{isDeletingChatHistory ? 'Clearing...' : 'Clear Chat'}</span>
                 </Button>}
+              </div>
             </div>
           </div>
 
@@ -208,16 +323,37 @@ const ChatArea = ({
 
                 {/* Chat Messages */}
                 {(messages.length > 0 || pendingUserMessage || showAiLoading) && <div className="mb-6 space-y-4">
-                    {messages.map((msg, index) => <div key={msg.id} className={`flex ${isUserMessage(msg) ? 'justify-end' : 'justify-start'}`}>
+                    {messages.map((msg, index) => {
+                      const isBusy = isSending || isReplacing || isSwitchingVersion || !!pendingUserMessage;
+                      const questionMessage = isAiMessage(msg) ? messages.find(m => m.id === msg.parent_id) : undefined;
+                      const isLastMessage = index === messages.length - 1;
+
+                      if (isUserMessage(msg) && editingMessageId === msg.id) {
+                        return <div key={msg.id} className="flex justify-end">
+                          <EditMessageForm initialText={typeof msg.message.content === 'string' ? msg.message.content : ''} onSubmit={(text, keepPreviousVersion) => handleResendMessage(msg, text, keepPreviousVersion)} onCancel={() => setEditingMessageId(null)} disabled={isBusy} />
+                        </div>;
+                      }
+
+                      return <div key={msg.id} className={`group flex ${isUserMessage(msg) ? 'justify-end items-center space-x-2' : 'justify-start'}`}>
+                        {isUserMessage(msg) && typeof msg.message.content === 'string' && !isBusy && <Button variant="ghost" size="sm" onClick={() => setEditingMessageId(msg.id)} className="h-7 w-7 p-0 text-gray-500 opacity-0 group-hover:opacity-100" title="Edit message">
+                            <Pencil className="h-3 w-3" />
+                          </Button>}
                         <div className={`${isUserMessage(msg) ? 'max-w-xs lg:max-w-md px-4 py-2 bg-blue-500 text-white rounded-lg' : 'w-full'}`}>
                           <div className={isUserMessage(msg) ? '' : 'prose prose-gray max-w-none text-gray-800'}>
                             <MarkdownRenderer content={msg.message.content} className={isUserMessage(msg) ? '' : ''} onCitationClick={handleCitationClick} isUserMessage={isUserMessage(msg)} />
                           </div>
-                          {isAiMessage(msg) && <div className="mt-2 flex justify-start">
+                          {isAiMessage(msg) && <div className="mt-2 flex items-center justify-start space-x-1">
                               <SaveToNoteButton content={msg.message.content} notebookId={notebookId} />
+                              <FeedbackButtons message={msg} question={typeof questionMessage?.message.content === 'string' ? questionMessage.message.content : undefined} notebookId={notebookId} threadId={activeThreadId ?? undefined} />
+                              {isLastMessage && questionMessage && <Button variant="ghost" size="sm" onClick={() => handleRegenerate(msg)} disabled={isBusy || isChatDisabled} className="flex items-center space-x-1 text-gray-600 hover:text-gray-800">
+                                  <RotateCcw className="h-3 w-3" />
+                                  <span className="text-xs">Regenerate</span>
+                                </Button>}
+                              {questionMessage?.versions && <MessageVersionNav versions={questionMessage.versions} onSelectVersion={switchVersion} disabled={isBusy} />}
                             </div>}
                         </div>
-                      </div>)}
+                      </div>;
+                    })}
                     
                     {/* Pending user message */}
                     {pendingUserMessage && <div className="flex justify-end">
@@ -226,8 +362,17 @@ const ChatArea = ({
                         </div>
                       </div>}
                     
+                    {/* Streaming AI answer */}
+                    {showAiLoading && streamingMessage && <div className="flex justify-start" ref={latestMessageRef}>
+                        <div className="w-full">
+                          <div className="prose prose-gray max-w-none text-gray-800">
+                            <MarkdownRenderer content={streamingMessage.message.content} onCitationClick={handleCitationClick} isStreaming={true} />
+                          </div>
+                        </div>
+                      </div>}
+                    
                     {/* AI Loading Indicator */}
-                    {showAiLoading && <div className="flex justify-start" ref={latestMessageRef}>
+                    {showAiLoading && !streamingMessage && <div className="flex justify-start" ref={latestMessageRef}>
                         <div className="flex items-center space-x-2 px-4 py-3 bg-gray-100 rounded-lg">
                           <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
                           <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{
@@ -260,6 +405,10 @@ const ChatArea = ({
                   {isSending || pendingUserMessage ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
                 </Button>
               </div>
+
+              {selectedSourceIds && <p className="mt-2 text-xs text-gray-500">
+                  Answering from {selectedSourceCount} of {sourceCount} source{sourceCount !== 1 ? 's' : ''}
+                </p>}
               
               {/* Example Questions Carousel */}
               {!isChatDisabled && !pendingUserMessage && !showAiLoading && exampleQuestions.length > 0 && <div className="mt-4">
@@ -287,9 +436,9 @@ const ChatArea = ({
               <Upload className="h-8 w-8 text-slate-600" />
             </div>
             <h2 className="text-xl font-medium text-gray-900 mb-4">
-              {isAdmin ? "Add a source to get started" : "Contact admin to add sources"}
+              {canEdit ? "Add a source to get started" : "Ask an editor to add sources"}
             </h2>
-            {isAdmin ? (
+            {canEdit ? (
               <Button onClick={() => setShowAddSourcesDialog(true)}>
                 <Upload className="h-4 w-4 mr-2" />
                 Upload a source
@@ -297,7 +446,7 @@ const ChatArea = ({
             ) : (
               <Button disabled>
                 <Upload className="h-4 w-4 mr-2" />
-                Upload a source (Admin Only)
+                Upload a source (Editors Only)
               </Button>
             )}
           </div>
@@ -306,7 +455,7 @@ const ChatArea = ({
           <div className="w-full max-w-2xl">
             <div className="flex space-x-4">
               <Input 
-                placeholder={isAdmin ? "Upload a source to get started" : "Contact admin to add sources"} 
+                placeholder={canEdit ? "Upload a source to get started" : "Ask an editor to add sources"} 
                 disabled 
                 className="flex-1" 
               />
@@ -327,6 +476,15 @@ const ChatArea = ({
       
       {/* Add Sources Dialog */}
       <AddSourcesDialog open={showAddSourcesDialog} onOpenChange={setShowAddSourcesDialog} notebookId={notebookId} />
+
+      {/* Retrieval Settings Dialog */}
+      {notebookId && <RetrievalSettingsDialog
+        open={showRetrievalSettings}
+        onOpenChange={setShowRetrievalSettings}
+        notebookId={notebookId}
+        keywordWeight={notebook?.keyword_search_weight}
+        semanticWeight={notebook?.semantic_search_weight}
+      />}
     </div>;
 };
 
@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Archive, ArchiveRestore, Check, ChevronDown, Edit, MessageSquare, Plus, Trash2 } from 'lucide-react';
+import { ChatThread, useChatThreads } from '@/hooks/useChatThreads';
+
+interface ChatThreadPickerProps {
+  notebookId?: string | null;
+  activeThreadId: string | null;
+  onSelectThread: (threadId: string | null) => void;
+  disabled?: boolean;
+}
+
+const ChatThreadPicker = ({ notebookId, activeThreadId, onSelectThread, disabled = false }: ChatThreadPickerProps) => {
+  const [showRenameDialog, setShowRenameDialog] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [title, setTitle] = useState('');
+
+  const {
+    threads,
+    activeThreads,
+    archivedThreads,
+    renameThread,
+    archiveThread,
+    unarchiveThread,
+    isUpdating,
+    deleteThread,
+    isDeleting
+  } = useChatThreads(notebookId);
+
+  const activeThread = threads.find(thread => thread.id === activeThreadId);
+
+  useEffect(() => {
+    if (activeThread && showRenameDialog) {
+      setTitle(activeThread.title);
+    }
+  }, [activeThread, showRenameDialog]);
+
+  const handleRename = () => {
+    if (!activeThread || !title.trim()) return;
+    renameThread(activeThread.id, title.trim());
+    setShowRenameDialog(false);
+  };
+
+  const handleDelete = () => {
+    if (!activeThread) return;
+    deleteThread(activeThread.id);
+    onSelectThread(null);
+    setShowDeleteDialog(false);
+  };
+
+  const handleToggleArchive = () => {
+    if (!activeThread) return;
+    if (activeThread.archived_at) {
+      unarchiveThread(activeThread.id);
+    } else {
+      archiveThread(activeThread.id);
+      onSelectThread(null);
+    }
+  };
+
+  const renderThreadItem = (thread: ChatThread) => (
+    <DropdownMenuItem key={thread.id} onClick={() => onSelectThread(thread.id)} className="cursor-pointer">
+      <MessageSquare className="h-4 w-4 mr-2 flex-shrink-0" />
+      <span className="truncate flex-1">{thread.title}</span>
+      {thread.id === activeThreadId && <Check className="h-4 w-4 ml-2 flex-shrink-0" />}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="flex items-center space-x-2 max-w-xs" disabled={disabled}>
+            <span className="truncate">{activeThread?.title || 'New chat'}</span>
+            <ChevronDown className="h-4 w-4 flex-shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuItem onClick={() => onSelectThread(null)} className="cursor-pointer">
+            <Plus className="h-4 w-4 mr-2" />
+            New chat
+          </DropdownMenuItem>
+
+          {activeThreads.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-gray-500">Chats</DropdownMenuLabel>
+              {activeThreads.map(renderThreadItem)}
+            </>
+          )}
+
+          {archivedThreads.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-gray-500">Archived</DropdownMenuLabel>
+              {archivedThreads.map(renderThreadItem)}
+            </>
+          )}
+
+          {activeThread && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setShowRenameDialog(true)} className="cursor-pointer">
+                <Edit className="h-4 w-4 mr-2" />
+                Rename chat
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleToggleArchive} className="cursor-pointer" disabled={isUpdating}>
+                {activeThread.archived_at ? <ArchiveRestore className="h-4 w-4 mr-2" /> : <Archive className="h-4 w-4 mr-2" />}
+                {activeThread.archived_at ? 'Unarchive chat' : 'Archive chat'}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setShowDeleteDialog(true)} className="cursor-pointer text-red-600">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete chat
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={showRenameDialog} onOpenChange={setShowRenameDialog}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Rename {activeThread?.title}?</DialogTitle>
+            <DialogDescription>
+              Enter a new name for this chat.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="chat-thread-name">Chat Name *</Label>
+              <Input
+                id="chat-thread-name"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                placeholder="Enter chat name"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRenameDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRename} disabled={!title.trim() || isUpdating}>
+              {isUpdating ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {activeThread?.title}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You're about to delete this chat and all of its messages. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-red-600 hover:bg-red-700"
+              disabled={isDeleting}
+            >
+              {isDeleting ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ChatThreadPicker;
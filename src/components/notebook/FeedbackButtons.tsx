@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
+import { ThumbsUp, ThumbsDown } from 'lucide-react';
+import { EnhancedChatMessage } from '@/types/message';
+import { FeedbackRating, useChatFeedback } from '@/hooks/useChatFeedback';
+
+interface FeedbackButtonsProps {
+  message: EnhancedChatMessage;
+  question?: string;
+  notebookId?: string;
+  threadId?: string;
+}
+
+const FeedbackButtons = ({ message, question, notebookId, threadId }: FeedbackButtonsProps) => {
+  const [commentOpen, setCommentOpen] = useState(false);
+  const [comment, setComment] = useState('');
+  const [selectedRating, setSelectedRating] = useState<FeedbackRating | null>(null);
+  const { feedbackByMessage, submitFeedback, isSubmitting, removeFeedback } = useChatFeedback(notebookId);
+
+  const currentRating = feedbackByMessage[message.id]?.rating;
+
+  const handleRate = (rating: FeedbackRating) => {
+    // Clicking the active rating again withdraws it
+    if (currentRating === rating) {
+      removeFeedback(message.id);
+      setCommentOpen(false);
+      return;
+    }
+
+    submitFeedback({ message, question, threadId, rating });
+    setSelectedRating(rating);
+    setComment(feedbackByMessage[message.id]?.comment || '');
+    setCommentOpen(true);
+  };
+
+  const handleSubmitComment = () => {
+    if (!selectedRating || !comment.trim()) return;
+    submitFeedback({ message, question, threadId, rating: selectedRating, comment });
+    setCommentOpen(false);
+  };
+
+  if (!notebookId) return null;
+
+  return (
+    <Popover open={commentOpen} onOpenChange={setCommentOpen}>
+      <PopoverAnchor asChild>
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleRate('up')}
+            disabled={isSubmitting}
+            className={`h-7 w-7 p-0 ${currentRating === 'up' ? 'text-green-600' : 'text-gray-500 hover:text-gray-800'}`}
+            title="Good answer"
+          >
+            <ThumbsUp className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleRate('down')}
+            disabled={isSubmitting}
+            className={`h-7 w-7 p-0 ${currentRating === 'down' ? 'text-red-600' : 'text-gray-500 hover:text-gray-800'}`}
+            title="Bad answer"
+          >
+            <ThumbsDown className="h-3 w-3" />
+          </Button>
+        </div>
+      </PopoverAnchor>
+      <PopoverContent align="start" className="w-80 space-y-3">
+        <p className="text-sm font-medium text-gray-900">
+          {selectedRating === 'down' ? 'What was wrong with this answer?' : 'What did you like about this answer?'}
+        </p>
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Add a comment (optional)"
+          className="min-h-[80px]"
+        />
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setCommentOpen(false)}>
+            Skip
+          </Button>
+          <Button size="sm" onClick={handleSubmitComment} disabled={!comment.trim() || isSubmitting}>
+            Submit
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default FeedbackButtons;
@@ -17,11 +17,18 @@ interface MobileNotebookTabsProps {
     generation_status?: string;
     icon?: string;
     example_questions?: string[];
+    keyword_search_weight?: number;
+    semantic_search_weight?: number;
   } | null;
   selectedCitation?: Citation | null;
   onCitationClose?: () => void;
   setSelectedCitation?: (citation: Citation | null) => void;
   onCitationClick?: (citation: Citation) => void;
+  isSourceSelected?: (sourceId: string) => boolean;
+  onToggleSource?: (sourceId: string) => void;
+  onToggleAllSources?: (selected: boolean) => void;
+  selectedSourceIds?: string[] | null;
+  defaultTab?: 'sources' | 'chat' | 'studio';
 }
 
 const MobileNotebookTabs = ({
@@ -31,10 +38,15 @@ const MobileNotebookTabs = ({
   selectedCitation,
   onCitationClose,
   setSelectedCitation,
-  onCitationClick
+  onCitationClick,
+  isSourceSelected,
+  onToggleSource,
+  onToggleAllSources,
+  selectedSourceIds,
+  defaultTab = 'chat'
 }: MobileNotebookTabsProps) => {
   return (
-    <Tabs defaultValue="chat" className="flex-1 flex flex-col overflow-hidden">
+    <Tabs defaultValue={defaultTab} className="flex-1 flex flex-col overflow-hidden">
       <TabsList className="grid w-full grid-cols-3 bg-gray-100 p-1 h-12 rounded-none border-b border-gray-200">
         <TabsTrigger 
           value="sources" 
@@ -66,6 +78,9 @@ const MobileNotebookTabs = ({
           selectedCitation={selectedCitation}
           onCitationClose={onCitationClose}
           setSelectedCitation={setSelectedCitation}
+          isSourceSelected={isSourceSelected}
+          onToggleSource={onToggleSource}
+          onToggleAllSources={onToggleAllSources}
         />
       </TabsContent>
 
@@ -75,6 +90,7 @@ const MobileNotebookTabs = ({
           notebookId={notebookId}
           notebook={notebook}
           onCitationClick={onCitationClick}
+          selectedSourceIds={selectedSourceIds}
         />
       </TabsContent>
 
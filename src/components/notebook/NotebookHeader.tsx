@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { User, LogOut } from 'lucide-react';
+import { User, LogOut, Download, Loader2 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useNotebookUpdate } from '@/hooks/useNotebookUpdate';
+import { useNotebookRole } from '@/hooks/useNotebookRole';
+import { useNotebookArchive } from '@/hooks/useNotebookArchive';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -12,21 +14,26 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { useLogout } from '@/services/authService';
 import Logo from '@/components/ui/Logo';
+import ShareNotebookDialog from './ShareNotebookDialog';
 
 interface NotebookHeaderProps {
   title: string;
   notebookId?: string;
+  creatorId?: string;
+  visibility?: 'private' | 'workspace';
 }
 
-const NotebookHeader = ({ title, notebookId }: NotebookHeaderProps) => {
+const NotebookHeader = ({ title, notebookId, creatorId, visibility }: NotebookHeaderProps) => {
   const navigate = useNavigate();
   const { logout } = useLogout();
   const [isEditing, setIsEditing] = useState(false);
   const [editedTitle, setEditedTitle] = useState(title);
   const { updateNotebook, isUpdating } = useNotebookUpdate();
+  const { canEdit, canManage } = useNotebookRole(notebookId);
+  const { exportNotebook, isExporting } = useNotebookArchive();
 
   const handleTitleClick = () => {
-    if (notebookId) {
+    if (notebookId && canEdit) {
       setIsEditing(true);
       setEditedTitle(title);
     }
@@ -82,7 +89,7 @@ const NotebookHeader = ({ title, notebookId }: NotebookHeaderProps) => {
               />
             ) : (
               <span 
-                className="text-lg font-medium text-gray-900 cursor-pointer hover:bg-gray-50 rounded px-2 py-1 transition-colors"
+                className={`text-lg font-medium text-gray-900 rounded px-2 py-1 transition-colors ${canEdit ? 'cursor-pointer hover:bg-gray-50' : ''}`}
                 onClick={handleTitleClick}
               >
                 Telkomsel AI Assistant - {title}
@@ -92,6 +99,20 @@ const NotebookHeader = ({ title, notebookId }: NotebookHeaderProps) => {
         </div>
         
         <div className="flex items-center space-x-4">
+          {notebookId && canManage && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportNotebook({ notebookId, title })}
+              disabled={isExporting}
+            >
+              {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              Export
+            </Button>
+          )}
+          {notebookId && (
+            <ShareNotebookDialog notebookId={notebookId} creatorId={creatorId} visibility={visibility} />
+          )}
           <div className="flex items-center space-x-2">
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
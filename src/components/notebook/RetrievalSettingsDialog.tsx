@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { useNotebookUpdate } from '@/hooks/useNotebookUpdate';
+
+const DEFAULT_WEIGHT = 1;
+
+interface RetrievalSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  notebookId: string;
+  keywordWeight?: number;
+  semanticWeight?: number;
+}
+
+const RetrievalSettingsDialog = ({
+  open,
+  onOpenChange,
+  notebookId,
+  keywordWeight,
+  semanticWeight,
+}: RetrievalSettingsDialogProps) => {
+  const [keyword, setKeyword] = useState(DEFAULT_WEIGHT);
+  const [semantic, setSemantic] = useState(DEFAULT_WEIGHT);
+  const { updateNotebook, isUpdating } = useNotebookUpdate();
+
+  useEffect(() => {
+    if (open) {
+      setKeyword(keywordWeight ?? DEFAULT_WEIGHT);
+      setSemantic(semanticWeight ?? DEFAULT_WEIGHT);
+    }
+  }, [open, keywordWeight, semanticWeight]);
+
+  const handleSave = () => {
+    updateNotebook({
+      id: notebookId,
+      updates: {
+        keyword_search_weight: keyword,
+        semantic_search_weight: semantic,
+      }
+    });
+    onOpenChange(false);
+  };
+
+  const handleReset = () => {
+    setKeyword(DEFAULT_WEIGHT);
+    setSemantic(DEFAULT_WEIGHT);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Search settings</DialogTitle>
+          <DialogDescription>
+            Answers are drawn from passages ranked by keyword matching and by meaning.
+            Raise the keyword weight for notebooks where exact identifiers, part numbers or acronyms matter.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-6 py-4">
+          <div className="grid gap-3">
+            <div className="flex items-center justify-between">
+              <Label>Keyword matching</Label>
+              <span className="text-sm text-gray-600">{keyword.toFixed(1)}</span>
+            </div>
+            <Slider value={[keyword]} onValueChange={([value]) => setKeyword(value)} min={0} max={2} step={0.1} />
+          </div>
+          <div className="grid gap-3">
+            <div className="flex items-center justify-between">
+              <Label>Semantic similarity</Label>
+              <span className="text-sm text-gray-600">{semantic.toFixed(1)}</span>
+            </div>
+            <Slider value={[semantic]} onValueChange={([value]) => setSemantic(value)} min={0} max={2} step={0.1} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={handleReset} className="mr-auto">
+            Reset
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isUpdating || (keyword === 0 && semantic === 0)}
+          >
+            {isUpdating ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RetrievalSettingsDialog;
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Mail, UserPlus, Users, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNotebookMembers } from '@/hooks/useNotebookMembers';
+import { useNotebookRole } from '@/hooks/useNotebookRole';
+import { useNotebookUpdate } from '@/hooks/useNotebookUpdate';
+import { NotebookRole } from '@/hooks/useNotebooks';
+
+interface ShareNotebookDialogProps {
+  notebookId: string;
+  creatorId?: string;
+  visibility?: 'private' | 'workspace';
+}
+
+const ROLE_LABELS: Record<NotebookRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+const ShareNotebookDialog = ({ notebookId, creatorId, visibility = 'private' }: ShareNotebookDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<'editor' | 'viewer'>('viewer');
+  const { user } = useAuth();
+  const { canManage } = useNotebookRole(notebookId);
+  const { updateNotebook, isUpdating } = useNotebookUpdate();
+  const {
+    members,
+    invitations,
+    isLoading,
+    shareNotebook,
+    isSharing,
+    updateMemberRole,
+    removeMember,
+    cancelInvitation,
+  } = useNotebookMembers(notebookId, canManage);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    try {
+      await shareNotebook({ email: email.trim(), role });
+      setEmail('');
+    } catch {
+      // Reported by the mutation's error toast
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Users className="h-4 w-4 mr-2" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share notebook</DialogTitle>
+          <DialogDescription>
+            Editors can add sources and regenerate overviews. Viewers can read and chat.
+          </DialogDescription>
+        </DialogHeader>
+
+        {canManage && (
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.com"
+              aria-label="Email"
+              required
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as 'editor' | 'viewer')}>
+              <SelectTrigger className="w-28" aria-label="Role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="viewer">Viewer</SelectItem>
+                <SelectItem value="editor">Editor</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={isSharing || !email.trim()}>
+              {isSharing ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+            </Button>
+          </form>
+        )}
+
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {isLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          ) : (
+            members.map(member => {
+              const isCreator = member.user_id === creatorId;
+              const isSelf = member.user_id === user?.id;
+
+              return (
+                <div key={member.user_id} className="flex items-center justify-between gap-3 py-1">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {member.full_name || member.email}
+                      {isSelf && <span className="text-gray-500 font-normal"> (you)</span>}
+                    </p>
+                    {member.full_name && <p className="text-xs text-gray-500 truncate">{member.email}</p>}
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {canManage && !isCreator ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => updateMemberRole({ userId: member.user_id, role: value as NotebookRole })}
+                      >
+                        <SelectTrigger className="h-8 w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="owner">Owner</SelectItem>
+                          <SelectItem value="editor">Editor</SelectItem>
+                          <SelectItem value="viewer">Viewer</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="outline">{ROLE_LABELS[member.role]}</Badge>
+                    )}
+                    {!isCreator && (canManage || isSelf) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => removeMember(member.user_id)}
+                        title={isSelf ? 'Leave notebook' : 'Remove'}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+
+          {invitations.map(invitation => (
+            <div key={invitation.id} className="flex items-center justify-between gap-3 py-1">
+              <div className="flex items-center gap-2 min-w-0">
+                <Mail className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                <p className="text-sm text-gray-700 truncate">{invitation.email}</p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Badge variant="secondary">Invited · {ROLE_LABELS[invitation.role]}</Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => cancelInvitation(invitation.id)}
+                  title="Cancel invitation"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {canManage && (
+          <div className="flex items-start justify-between gap-6 border-t pt-4">
+            <div className="space-y-1">
+              <Label htmlFor="notebookVisibility" className="text-sm font-medium">
+                Visible to everyone in the workspace
+              </Label>
+              <p className="text-sm text-gray-600">
+                {visibility === 'workspace'
+                  ? 'Anyone in this workspace can open this notebook as a viewer.'
+                  : 'Only the people above can open this notebook.'}
+              </p>
+            </div>
+            <Switch
+              id="notebookVisibility"
+              checked={visibility === 'workspace'}
+              disabled={isUpdating}
+              onCheckedChange={(checked) => updateNotebook({
+                id: notebookId,
+                updates: { visibility: checked ? 'workspace' : 'private' }
+              })}
+            />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareNotebookDialog;
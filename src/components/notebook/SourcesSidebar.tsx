@@ -1,8 +1,9 @@
 
 import React, { useState } from 'react';
   import { Button } from '@/components/ui/button';
-  import { Plus, MoreVertical, Trash2, Edit, Loader2, CheckCircle, XCircle, Upload } from 'lucide-react';
+  import { Plus, MoreVertical, Trash2, Edit, Loader2, CheckCircle, XCircle, Upload, RotateCcw } from 'lucide-react';
   import { Card } from '@/components/ui/card';
+  import { Checkbox } from '@/components/ui/checkbox';
   import { ScrollArea } from '@/components/ui/scroll-area';
   import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuTrigger } from '@/components/ui/context-menu';
   import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
@@ -11,8 +12,11 @@ import React, { useState } from 'react';
   import SourceContentViewer from '@/components/chat/SourceContentViewer';
   import { useSources } from '@/hooks/useSources';
   import { useSourceDelete } from '@/hooks/useSourceDelete';
+  import { useSourceJobs } from '@/hooks/useSourceJobs';
+  import { describeSourceJob, describeStageTimings } from '@/lib/sourceJobs';
   import { Citation } from '@/types/message';
-  import { useAuth } from '@/contexts/AuthContext';
+  import { Tables } from '@/integrations/supabase/types';
+  import { useNotebookRole } from '@/hooks/useNotebookRole';
 
   interface SourcesSidebarProps {
     hasSource: boolean;
@@ -20,6 +24,9 @@ import React, { useState } from 'react';
     selectedCitation?: Citation | null;
     onCitationClose?: () => void;
     setSelectedCitation?: (citation: Citation | null) => void;
+    isSourceSelected?: (sourceId: string) => boolean;
+    onToggleSource?: (sourceId: string) => void;
+    onToggleAllSources?: (selected: boolean) => void;
   }
 
   const SourcesSidebar = ({
@@ -27,7 +34,10 @@ import React, { useState } from 'react';
     notebookId,
     selectedCitation,
     onCitationClose,
-    setSelectedCitation
+    setSelectedCitation,
+    isSourceSelected,
+    onToggleSource,
+    onToggleAllSources
   }: SourcesSidebarProps) => {
     const [showAddSourcesDialog, setShowAddSourcesDialog] = useState(false);
     const [showDeleteDialog, setShowDeleteDialog] = useState(false);
@@ -35,7 +45,7 @@ import React, { useState } from 'react';
     const [selectedSource, setSelectedSource] = useState<any>(null);
     const [selectedSourceForViewing, setSelectedSourceForViewing] = useState<any>(null);
 
-    const { isAdmin } = useAuth();
+    const { canEdit } = useNotebookRole(notebookId);
 
     const {
       sources,
@@ -47,6 +57,12 @@ import React, { useState } from 'react';
       isDeleting
     } = useSourceDelete();
 
+    const {
+      jobsBySourceId,
+      retrySource,
+      retryingSourceId
+    } = useSourceJobs(notebookId);
+
     // Get the source content for the selected citation
     const getSourceContent = (citation: Citation) => {
       const source = sources?.find(s => s.id === citation.source_id);
@@ -89,6 +105,13 @@ import React, { useState } from 'react';
         'youtube': '/file-types/MP3.png',
         'audio': '/file-types/MP3.png',
         'doc': '/file-types/DOC.png',
+        'docx': '/file-types/DOC.png',
+        'pptx': '/file-types/DOC.png',
+        'xlsx': '/file-types/DOC.png',
+        'csv': '/file-types/TXT.png',
+        'epub': '/file-types/DOC.png',
+        'markdown': '/file-types/TXT.png',
+        'html': '/file-types/WEB.svg',
         'multiple-websites': '/file-types/WEB.svg',
         'copied-text': '/file-types/TXT.png'
       };
@@ -132,6 +155,28 @@ import React, { useState } from 'react';
       setShowDeleteDialog(true);
     };
 
+    const handleRetrySource = (source: Tables<'sources'>) => {
+      retrySource({ id: source.id, file_path: source.file_path, type: source.type });
+    };
+
+    // Current stage or failure reason, hidden once a source is processed
+    const renderJobStatus = (source: Tables<'sources'>) => {
+      const job = jobsBySourceId.get(source.id);
+      if (!job || (source.processing_status === 'completed' && job.status !== 'failed')) return null;
+
+      const description = describeSourceJob(job);
+      if (!description) return null;
+
+      return (
+        <span
+          className={`text-xs block truncate ${job.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}
+          title={`${description}\n${describeStageTimings(job)}`}
+        >
+          {description}
+        </span>
+      );
+    };
+
     const handleRenameSource = (source: any) => {
       setSelectedSource(source);
       setShowRenameDialog(true);
@@ -178,6 +223,9 @@ import React, { useState } from 'react';
       onCitationClose?.();
     };
 
+    const selectedCount = sources?.filter(source => isSourceSelected?.(source.id) ?? true).length || 0;
+    const allSourcesSelected = !!sources?.length && selectedCount === sources.length;
+
     const confirmDelete = () => {
       if (selectedSource) {
         deleteSource(selectedSource.id);
@@ -236,7 +284,7 @@ import React, { useState } from 'react';
           </div>
           
           <div className="flex space-x-2">
-            {isAdmin ? (
+            {canEdit ? (
               <Button variant="outline" size="sm" className="flex-1" onClick={() => setShowAddSourcesDialog(true)}>
                 <Plus className="h-4 w-4 mr-2" />
                 Add
@@ -244,7 +292,7 @@ import React, { useState } from 'react';
             ) : (
               <Button variant="outline" size="sm" className="flex-1" disabled>
                 <Plus className="h-4 w-4 mr-2" />
-                Add (Admin Only)
+                Add (Editors Only)
               </Button>
             )}
           </div>
@@ -258,6 +306,15 @@ import React, { useState } from 'react';
               </div>
             ) : sources && sources.length > 0 ? (
               <div className="space-y-4">
+                {onToggleAllSources && (
+                  <label className="flex items-center justify-between px-3 text-sm text-gray-700 cursor-pointer">
+                    <span>Select all sources</span>
+                    <Checkbox
+                      checked={allSourcesSelected ? true : selectedCount > 0 ? 'indeterminate' : false}
+                      onCheckedChange={(checked) => onToggleAllSources(checked === true)}
+                    />
+                  </label>
+                )}
                 {sources.map((source) => (
                   <ContextMenu key={source.id}>
                     <ContextMenuTrigger>
@@ -269,16 +326,40 @@ import React, { useState } from 'react';
                             </div>
                             <div className="flex-1 min-w-0">
                               <span className="text-sm text-gray-900 truncate block">{source.title}</span>
+                              {renderJobStatus(source)}
                             </div>
                           </div>
-                          <div className="flex-shrink-0 py-[4px]">
+                          <div className="flex items-center space-x-2 flex-shrink-0 py-[4px]">
+                            {canEdit && source.processing_status === 'failed' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 px-2 text-xs"
+                                disabled={retryingSourceId === source.id}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleRetrySource(source);
+                                }}
+                              >
+                                <RotateCcw className={`h-3 w-3 mr-1 ${retryingSourceId === source.id ? 'animate-spin' : ''}`} />
+                                Retry
+                              </Button>
+                            )}
                             {renderProcessingStatus(source.processing_status)}
+                            {onToggleSource && (
+                              <Checkbox
+                                checked={isSourceSelected?.(source.id) ?? true}
+                                onCheckedChange={() => onToggleSource(source.id)}
+                                onClick={(e) => e.stopPropagation()}
+                                aria-label={`Use ${source.title} in chat`}
+                              />
+                            )}
                           </div>
                         </div>
                       </Card>
                     </ContextMenuTrigger>
                     <ContextMenuContent>
-                      {isAdmin && (
+                      {canEdit && (
                         <>
                           <ContextMenuItem onClick={() => handleRenameSource(source)}>
                             <Edit className="h-4 w-4 mr-2" />
@@ -324,7 +405,7 @@ import React, { useState } from 'react';
             <AlertDialogHeader>
               <AlertDialogTitle>Delete {selectedSource?.title}?</AlertDialogTitle>
               <AlertDialogDescription>
-                You're about to delete this source. This cannot be undone.
+                You're about to move this source to the trash. An admin can restore it until it is permanently deleted.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
@@ -7,6 +7,7 @@ import { useNotes, Note } from '@/hooks/useNotes';
 import { useAudioOverview } from '@/hooks/useAudioOverview';
 import { useNotebooks } from '@/hooks/useNotebooks';
 import { useSources } from '@/hooks/useSources';
+import { useNotebookRole } from '@/hooks/useNotebookRole';
 import { useQueryClient } from '@tanstack/react-query';
 import NoteEditor from './NoteEditor';
 import AudioPlayer from './AudioPlayer';
@@ -51,6 +52,8 @@ const StudioSidebar = ({
     generationStatus,
     checkAudioExpiry
   } = useAudioOverview(notebookId);
+  // Viewers can listen to the overview but not regenerate it
+  const { canEdit } = useNotebookRole(notebookId);
   const queryClient = useQueryClient();
   const notebook = notebooks?.find(n => n.id === notebookId);
   const hasValidAudio = notebook?.audio_overview_url && !checkAudioExpiry(notebook.audio_url_expires_at);
@@ -232,7 +235,7 @@ const StudioSidebar = ({
               notebookId={notebookId} 
               expiresAt={notebook.audio_url_expires_at} 
               onError={handleAudioError} 
-              onRetry={handleAudioRetry} 
+              onRetry={canEdit ? handleAudioRetry : undefined} 
               onDeleted={handleAudioDeleted}
               onUrlRefresh={handleUrlRefresh}
             /> : <Card className="p-3 border border-gray-200">
@@ -264,14 +267,14 @@ const StudioSidebar = ({
                   <div className="flex-1">
                     <p className="text-sm text-red-600">Audio unavailable</p>
                   </div>
-                  <Button size="sm" variant="outline" onClick={handleAudioRetry} className="text-red-600 border-red-300 hover:bg-red-50">
+                  <Button size="sm" variant="outline" onClick={handleAudioRetry} disabled={!canEdit} className="text-red-600 border-red-300 hover:bg-red-50">
                     <RefreshCw className="h-4 w-4 mr-1" />
                     Retry
                   </Button>
                 </div>}
               
               <div className="flex space-x-2">
-                <Button size="sm" onClick={handleGenerateAudio} disabled={isGenerating || currentStatus === 'generating' || !hasProcessedSource || isAutoRefreshing} className="flex-1 text-white bg-slate-900 hover:bg-slate-800">
+                <Button size="sm" onClick={handleGenerateAudio} disabled={!canEdit || isGenerating || currentStatus === 'generating' || !hasProcessedSource || isAutoRefreshing} title={canEdit ? undefined : 'Only owners and editors can generate overviews'} className="flex-1 text-white bg-slate-900 hover:bg-slate-800">
                   {isGenerating || currentStatus === 'generating' ? <>
                       <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                       Generating...
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Copy, KeyRound, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMfa, TotpEnrollment } from '@/hooks/useMfa';
+import { useSecurityPolicies } from '@/hooks/useSecurityPolicies';
+import TotpCodeInput from '@/components/auth/TotpCodeInput';
+
+// Shown once after they are created, only their hashes are stored
+const BackupCodesList = ({ codes, onDone }: { codes: string[]; onDone: () => void }) => {
+  const { toast } = useToast();
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'));
+    toast({ title: 'Copied', description: 'Backup codes copied to the clipboard.' });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-700">
+        Save these backup codes somewhere safe. Each one can be used once to sign in if you lose your authenticator app.
+        They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-gray-50 p-4 font-mono text-sm">
+        {codes.map(code => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" onClick={handleCopy}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" onClick={onDone}>
+          I've saved them
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const MfaSettings = () => {
+  const { userProfile, assuranceLevel } = useAuth();
+  const { requiresMfa } = useSecurityPolicies();
+  const {
+    factors,
+    isLoading,
+    backupCodesRemaining,
+    enroll,
+    isEnrolling,
+    verifyEnrollment,
+    isVerifying,
+    cancelEnrollment,
+    regenerateBackupCodes,
+    isRegenerating,
+    unenroll,
+    isUnenrolling,
+  } = useMfa();
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+
+  const isEnrolled = factors.length > 0;
+  const isRequired = !!userProfile && requiresMfa(userProfile.role);
+
+  const handleStart = async () => {
+    try {
+      setEnrollment(await enroll());
+      setCode('');
+    } catch {
+      // Reported by the mutation's error toast
+    }
+  };
+
+  const handleVerify = async (value: string) => {
+    if (!enrollment || value.length !== 6) return;
+
+    try {
+      setBackupCodes(await verifyEnrollment({ factorId: enrollment.factorId, code: value }));
+      setEnrollment(null);
+    } catch {
+      setCode('');
+    }
+  };
+
+  const handleCancel = async () => {
+    if (enrollment) {
+      await cancelEnrollment(enrollment.factorId);
+    }
+    setEnrollment(null);
+  };
+
+  const handleRegenerate = async () => {
+    try {
+      setBackupCodes(await regenerateBackupCodes());
+    } catch {
+      // Reported by the mutation's error toast
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <Loader2 className="h-5 w-5 animate-spin text-gray-400" />;
+    }
+
+    if (backupCodes) {
+      return <BackupCodesList codes={backupCodes} onDone={() => setBackupCodes(null)} />;
+    }
+
+    if (enrollment) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy, then enter the
+            6-digit code it shows.
+          </p>
+          <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-44 w-44 rounded-md border bg-white p-2" />
+          <p className="text-xs text-gray-500">
+            Can't scan it? Enter this key instead: <span className="font-mono break-all">{enrollment.secret}</span>
+          </p>
+          <TotpCodeInput value={code} onChange={setCode} onComplete={handleVerify} disabled={isVerifying} />
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={handleCancel} disabled={isVerifying}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={() => handleVerify(code)} disabled={isVerifying || code.length !== 6}>
+              {isVerifying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Verify and Enable
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (!isEnrolled) {
+      return (
+        <Button type="button" onClick={handleStart} disabled={isEnrolling}>
+          {isEnrolling ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+          Set Up Authenticator App
+        </Button>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-700">
+          {backupCodesRemaining} unused backup {backupCodesRemaining === 1 ? 'code' : 'codes'} left.
+        </p>
+        {assuranceLevel !== 'aal2' && (
+          <p className="text-sm text-amber-700">
+            Sign out and back in with your authenticator code to manage these settings.
+          </p>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" onClick={handleRegenerate} disabled={isRegenerating || assuranceLevel !== 'aal2'}>
+            {isRegenerating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <KeyRound className="h-4 w-4 mr-2" />}
+            New Backup Codes
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button type="button" variant="outline" className="text-red-600" disabled={isUnenrolling || assuranceLevel !== 'aal2'}>
+                <ShieldOff className="h-4 w-4 mr-2" />
+                Disable
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Disable two-factor authentication?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {isRequired
+                    ? 'Your role requires two-factor authentication. You will lose access to admin features until you set it up again.'
+                    : 'Your account will be protected by your password only.'}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => factors.forEach(factor => unenroll(factor.id))}
+                  className="bg-red-600 hover:bg-red-700"
+                >
+                  Disable
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          {isEnrolled ? (
+            <Badge className="bg-green-100 text-green-800 border-green-300" variant="secondary">Enabled</Badge>
+          ) : (
+            <Badge variant="outline">Off</Badge>
+          )}
+        </div>
+        <CardDescription>
+          Ask for a code from an authenticator app after your password when you sign in.
+          {isRequired && !isEnrolled && ' Your role requires this for admin features.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {renderContent()}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MfaSettings;
@@ -1,8 +1,10 @@
 
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { User, Session } from '@supabase/supabase-js';
+import { User, Session, FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import bcrypt from 'bcryptjs';
+
+// How a user can recover a forgotten password
+export type RecoveryMethod = 'security_question' | 'email' | 'both';
 
 interface UserProfile {
   id: string;
@@ -12,10 +14,33 @@ interface UserProfile {
   avatar_url: string | null;
   security_question: string | null;
   security_answer_hash: string | null;
+  recovery_method: RecoveryMethod;
   created_at: string;
   updated_at: string;
 }
 
+export interface SecurityAnswerResult {
+  success: boolean;
+  // Single-use token that lets update-password set the new password
+  resetToken?: string;
+  remainingAttempts?: number;
+  locked?: boolean;
+  lockedUntil?: string | null;
+  error?: string;
+}
+
+// aal1 after a password sign-in, aal2 once a TOTP code has been verified
+export type AssuranceLevel = 'aal1' | 'aal2';
+
+export interface SignUpDetails {
+  email: string;
+  password: string;
+  fullName: string;
+  recoveryMethod: RecoveryMethod;
+  securityQuestion?: string;
+  securityAnswerHash?: string;
+}
+
 interface AuthContextType {
   user: User | null;
   userProfile: UserProfile | null;
@@ -24,10 +49,17 @@ interface AuthContextType {
   error: string | null;
   isAuthenticated: boolean;
   isAdmin: boolean;
+  assuranceLevel: AssuranceLevel | null;
+  // Signed in with a password, but the account has a TOTP factor to verify
+  needsMfaChallenge: boolean;
   signOut: () => Promise<void>;
-  checkSecurityAnswer: (userId: string, answer: string) => Promise<boolean>;
-  updatePassword: (userId: string, newPassword: string) => Promise<{ success: boolean; error?: string }>;
-  getUserSecurityQuestion: (email: string) => Promise<{ question: string | null; userId: string | null }>;
+  checkSecurityAnswer: (email: string, answer: string) => Promise<SecurityAnswerResult>;
+  resetPassword: (resetToken: string, newPassword: string) => Promise<{ success: boolean; error?: string }>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<{ success: boolean; error?: string }>;
+  getUserSecurityQuestion: (email: string) => Promise<{ question: string | null }>;
+  sendPasswordResetEmail: (email: string) => Promise<{ success: boolean; error?: string }>;
+  signUp: (details: SignUpDetails) => Promise<{ success: boolean; error?: string }>;
+  refreshProfile: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -50,9 +82,26 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [assuranceLevel, setAssuranceLevel] = useState<AssuranceLevel | null>(null);
+  const [nextAssuranceLevel, setNextAssuranceLevel] = useState<AssuranceLevel | null>(null);
 
   const updateAuthState = async (newSession: Session | null) => {
     console.log('AuthContext: Updating auth state:', newSession?.user?.email || 'No session');
+
+    // Resolve the MFA state before exposing the session, so a session that
+    // still needs its second factor never counts as signed in
+    if (newSession) {
+      const { data: levels, error: aalError } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+      if (aalError) {
+        console.error('Error fetching assurance level:', aalError);
+      }
+      setAssuranceLevel((levels?.currentLevel as AssuranceLevel) ?? 'aal1');
+      setNextAssuranceLevel((levels?.nextLevel as AssuranceLevel) ?? 'aal1');
+    } else {
+      setAssuranceLevel(null);
+      setNextAssuranceLevel(null);
+    }
+
     setSession(newSession);
     setUser(newSession?.user ?? null);
     
@@ -91,6 +140,8 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     setUser(null);
     setUserProfile(null);
     setError(null);
+    setAssuranceLevel(null);
+    setNextAssuranceLevel(null);
   };
 
   const signOut = async () => {
@@ -216,75 +267,60 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     };
   }, []); // Empty dependency array to run only once
 
+  // Edge function error responses carry their JSON body on the error
+  const readFunctionError = async (error: unknown) => {
+    if (!(error instanceof FunctionsHttpError)) return null;
+    return await error.context.json().catch(() => null);
+  };
+
   // Function to get user's security question by email
-  const getUserSecurityQuestion = async (email: string): Promise<{ question: string | null; userId: string | null }> => {
+  const getUserSecurityQuestion = async (email: string): Promise<{ question: string | null }> => {
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, security_question')
-        .eq('email', email)
-        .single();
-      
+      const { data, error } = await supabase.functions.invoke('password-recovery', {
+        body: { action: 'question', email }
+      });
+
       if (error || !data) {
-        return { question: null, userId: null };
+        return { question: null };
       }
-      
-      return { question: data.security_question, userId: data.id };
+
+      return { question: data.question ?? null };
     } catch (err) {
       console.error('Error fetching security question:', err);
-      return { question: null, userId: null };
+      return { question: null };
     }
   };
 
-  // Function to check security answer
-  const checkSecurityAnswer = async (userId: string, answer: string): Promise<boolean> => {
+  // Function to check security answer. The answer is verified and attempts are
+  // limited on the server, a correct answer returns a reset token.
+  const checkSecurityAnswer = async (email: string, answer: string): Promise<SecurityAnswerResult> => {
     try {
-      // Log attempt
-      await supabase.from('security_question_attempts').insert({
-        user_id: userId,
-        ip_address: null, // You can implement IP tracking if needed
-        success: false
+      const { data, error } = await supabase.functions.invoke('password-recovery', {
+        body: { action: 'verify', email, answer }
       });
 
-      // Get user's hashed security answer
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('security_answer_hash')
-        .eq('id', userId)
-        .single();
-      
-      if (error || !data?.security_answer_hash) {
-        return false;
-      }
-      
-      // Compare with bcrypt
-      const isValid = await bcrypt.compare(answer.toLowerCase().trim(), data.security_answer_hash);
-      
-      // Update attempt with success status
-      if (isValid) {
-        await supabase.from('security_question_attempts').insert({
-          user_id: userId,
-          ip_address: null,
-          success: true
-        });
+      if (error) {
+        const body = await readFunctionError(error);
+        return { success: false, ...body, error: body?.error || error.message };
       }
-      
-      return isValid;
+
+      return data;
     } catch (err) {
       console.error('Error checking security answer:', err);
-      return false;
+      return { success: false, error: 'Failed to verify security answer' };
     }
   };
 
-  // Function to update password
-  const updatePassword = async (userId: string, newPassword: string): Promise<{ success: boolean; error?: string }> => {
+  // Function to set a new password with a reset token from checkSecurityAnswer
+  const resetPassword = async (resetToken: string, newPassword: string): Promise<{ success: boolean; error?: string }> => {
     try {
       const { data, error } = await supabase.functions.invoke('update-password', {
-        body: { userId, newPassword }
+        body: { resetToken, newPassword }
       });
       
       if (error) {
-        return { success: false, error: error.message };
+        const body = await readFunctionError(error);
+        return { success: false, error: body?.error || error.message };
       }
       
       return data;
@@ -293,18 +329,91 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   };
 
+  // Function for a signed-in user to change their own password. The server
+  // checks the current password and, with MFA enrolled, an aal2 session.
+  const changePassword = async (currentPassword: string, newPassword: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const { data, error } = await supabase.functions.invoke('update-password', {
+        body: { currentPassword, newPassword }
+      });
+
+      if (error) {
+        const body = await readFunctionError(error);
+        return { success: false, error: body?.error || error.message };
+      }
+
+      return data;
+    } catch (err) {
+      return { success: false, error: 'Failed to update password' };
+    }
+  };
+
+  // Function to email a reset link. The response is the same whether or not
+  // the account exists or allows email recovery.
+  const sendPasswordResetEmail = async (email: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const { data, error } = await supabase.functions.invoke('password-recovery', {
+        body: { action: 'email', email }
+      });
+
+      if (error) {
+        const body = await readFunctionError(error);
+        return { success: false, error: body?.error || error.message };
+      }
+
+      return data;
+    } catch (err) {
+      console.error('Error requesting password reset email:', err);
+      return { success: false, error: 'Failed to send reset email' };
+    }
+  };
+
+  // Function to register a new account. The sign-up function emails a
+  // verification link, the account can't sign in until it is followed.
+  const signUp = async (details: SignUpDetails): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const { data, error } = await supabase.functions.invoke('sign-up', {
+        body: details
+      });
+
+      if (error) {
+        const body = await readFunctionError(error);
+        return { success: false, error: body?.error || error.message };
+      }
+
+      return data;
+    } catch (err) {
+      console.error('Error signing up:', err);
+      return { success: false, error: 'Failed to create account' };
+    }
+  };
+
+  // Reload the profile after the user changes it (e.g. recovery settings)
+  const refreshProfile = async () => {
+    const { data: { session: currentSession } } = await supabase.auth.getSession();
+    await updateAuthState(currentSession);
+  };
+
+  const needsMfaChallenge = !!session && assuranceLevel === 'aal1' && nextAssuranceLevel === 'aal2';
+
   const value: AuthContextType = {
     user,
     userProfile,
     session,
     loading,
     error,
-    isAuthenticated: !!session,
+    isAuthenticated: !!session && !needsMfaChallenge,
     isAdmin: userProfile?.role === 'admin',
+    assuranceLevel,
+    needsMfaChallenge,
     signOut,
     checkSecurityAnswer,
-    updatePassword,
-    getUserSecurityQuestion
+    resetPassword,
+    changePassword,
+    getUserSecurityQuestion,
+    sendPasswordResetEmail,
+    signUp,
+    refreshProfile
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,66 @@
+
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { EnhancedChatMessage } from '@/types/message';
+import {
+  ChatExportFormat,
+  chatToHtml,
+  chatToMarkdown,
+  chatToPdf,
+  downloadFile,
+  ExportSource,
+  getCitedSourceIds,
+  getExportFileName,
+} from '@/lib/chatExport';
+
+export const useChatExport = () => {
+  const { toast } = useToast();
+
+  const exportChat = useMutation({
+    mutationFn: async ({ format, title, messages }: {
+      format: ChatExportFormat;
+      title: string;
+      messages: EnhancedChatMessage[];
+    }) => {
+      console.log('Exporting chat as', format, 'with', messages.length, 'messages');
+
+      // Fetch the full text of cited sources so excerpts can be resolved
+      const sourceIds = getCitedSourceIds(messages);
+      let sources: ExportSource[] = [];
+
+      if (sourceIds.length > 0) {
+        const { data, error } = await supabase
+          .from('sources')
+          .select('id, title, content, metadata')
+          .in('id', sourceIds);
+
+        if (error) throw error;
+        sources = data || [];
+      }
+
+      if (format === 'markdown') {
+        downloadFile(getExportFileName(title, 'md'), chatToMarkdown(title, messages, sources), 'text/markdown;charset=utf-8');
+      } else if (format === 'html') {
+        downloadFile(getExportFileName(title, 'html'), chatToHtml(title, messages, sources), 'text/html;charset=utf-8');
+      } else {
+        downloadFile(getExportFileName(title, 'pdf'), await chatToPdf(title, messages, sources), 'application/pdf');
+      }
+
+      return format;
+    },
+    onError: (error) => {
+      console.error('Failed to export chat:', error);
+      toast({
+        title: "Export failed",
+        description: "Failed to export the chat. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    exportChat: exportChat.mutate,
+    isExporting: exportChat.isPending,
+  };
+};
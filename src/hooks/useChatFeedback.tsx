@@ -0,0 +1,115 @@
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { EnhancedChatMessage } from '@/types/message';
+import { Json } from '@/integrations/supabase/types';
+
+export type FeedbackRating = 'up' | 'down';
+
+export const useChatFeedback = (notebookId?: string) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // The current user's ratings for this notebook, keyed by chat message id
+  const { data: feedbackByMessage = {}, isLoading } = useQuery({
+    queryKey: ['chat-feedback', notebookId],
+    queryFn: async () => {
+      if (!notebookId) return {};
+
+      const { data, error } = await supabase
+        .from('chat_feedback')
+        .select('message_id, rating, comment')
+        .eq('notebook_id', notebookId)
+        .eq('user_id', user?.id ?? '');
+
+      if (error) throw error;
+
+      return Object.fromEntries(
+        (data || [])
+          .filter(row => row.message_id !== null)
+          .map(row => [row.message_id, { rating: row.rating as FeedbackRating, comment: row.comment }])
+      ) as Record<number, { rating: FeedbackRating; comment: string | null }>;
+    },
+    enabled: !!notebookId && !!user,
+  });
+
+  const submitFeedback = useMutation({
+    mutationFn: async ({ message, question, threadId, rating, comment }: {
+      message: EnhancedChatMessage;
+      question?: string;
+      threadId?: string;
+      rating: FeedbackRating;
+      comment?: string;
+    }) => {
+      if (!user) throw new Error('User not authenticated');
+      if (!notebookId) throw new Error('Notebook not selected');
+
+      console.log('Submitting chat feedback:', { messageId: message.id, rating });
+
+      const content = message.message.content;
+      const { error } = await supabase
+        .from('chat_feedback')
+        .upsert({
+          user_id: user.id,
+          notebook_id: notebookId,
+          thread_id: threadId ?? null,
+          message_id: message.id,
+          rating,
+          comment: comment?.trim() || null,
+          question: question ?? null,
+          answer: content as unknown as Json,
+          citations: (typeof content === 'object' ? content.citations : []) as unknown as Json,
+        }, { onConflict: 'user_id,message_id' });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['chat-feedback', notebookId] });
+      if (variables.comment) {
+        toast({
+          title: "Thanks for your feedback",
+          description: "Your comment has been recorded.",
+        });
+      }
+    },
+    onError: (error) => {
+      console.error('Failed to submit feedback:', error);
+      toast({
+        title: "Error",
+        description: "Failed to submit feedback. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeFeedback = useMutation({
+    mutationFn: async (messageId: number) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { error } = await supabase
+        .from('chat_feedback')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('message_id', messageId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chat-feedback', notebookId] });
+    },
+    onError: (error) => {
+      console.error('Failed to remove feedback:', error);
+    },
+  });
+
+  return {
+    feedbackByMessage,
+    isLoading,
+    submitFeedback: submitFeedback.mutate,
+    isSubmitting: submitFeedback.isPending,
+    removeFeedback: removeFeedback.mutate,
+  };
+};
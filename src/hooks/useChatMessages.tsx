@@ -4,7 +4,9 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { EnhancedChatMessage, Citation, MessageSegment } from '@/types/message';
 import { useToast } from '@/hooks/use-toast';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
+import { createPartialJsonParser, PartialJsonParser } from '@/lib/partialJson';
+import { describeSourceLocation } from '@/lib/sourceFormats';
 
 // Type for the expected message structure from n8n_chat_histories
 interface N8nMessageFormat {
@@ -40,6 +42,143 @@ interface N8nAiResponseContent {
   }>;
 }
 
+// Row shape from n8n_chat_histories used to rebuild the active branch
+interface ChatHistoryRow {
+  id: number;
+  session_id: string;
+  parent_id?: number | null;
+  is_active?: boolean;
+  message: unknown;
+}
+
+// Source fields needed to label citations
+interface SourceInfo {
+  id: string;
+  title: string;
+  type: string;
+  notebook_id: string;
+  metadata?: unknown;
+  notebooks?: { title: string } | null;
+}
+
+// Convert the n8n structured output into renderable segments and citations
+const buildAiContent = (
+  output: N8nAiResponseContent['output'],
+  sourceMap: Map<string, SourceInfo>,
+  options: { requireKnownSource?: boolean } = {}
+): { segments: MessageSegment[]; citations: Citation[] } => {
+  const segments: MessageSegment[] = [];
+  const citations: Citation[] = [];
+  let citationIdCounter = 1;
+  
+  output.forEach((outputItem) => {
+    if (typeof outputItem?.text !== 'string') return;
+
+    // While streaming, citations may still be incomplete - only keep ones we can resolve
+    const outputCitations = (outputItem.citations || []).filter(citation => 
+      !options.requireKnownSource || sourceMap.has(citation?.chunk_source_id)
+    );
+    
+    // Add the text segment
+    segments.push({
+      text: outputItem.text,
+      citation_id: outputCitations.length > 0 ? citationIdCounter : undefined
+    });
+    
+    // Process citations if they exist
+    if (outputCitations.length > 0) {
+      outputCitations.forEach((citation) => {
+        const sourceInfo = sourceMap.get(citation.chunk_source_id);
+        citations.push({
+          citation_id: citationIdCounter,
+          source_id: citation.chunk_source_id,
+          source_title: sourceInfo?.title || 'Unknown Source',
+          source_type: sourceInfo?.type || 'pdf',
+          chunk_lines_from: citation.chunk_lines_from,
+          chunk_lines_to: citation.chunk_lines_to,
+          chunk_index: citation.chunk_index,
+          excerpt: describeSourceLocation(sourceInfo?.metadata, citation.chunk_lines_from, citation.chunk_lines_to),
+          notebook_id: sourceInfo?.notebook_id,
+          notebook_title: sourceInfo?.notebooks?.title
+        });
+      });
+      citationIdCounter++;
+    }
+  });
+
+  return { segments, citations };
+};
+
+// Build the in-progress AI message from the answer streamed so far
+const transformStreamingContent = (
+  answer: PartialJsonParser<Partial<N8nAiResponseContent>>,
+  sessionId: string,
+  sourceMap: Map<string, SourceInfo>
+): EnhancedChatMessage => {
+  let content: EnhancedChatMessage['message']['content'] = answer.text;
+
+  if (answer.text.trimStart().startsWith('{')) {
+    const parsed = answer.parse();
+    content = Array.isArray(parsed?.output)
+      ? buildAiContent(parsed.output, sourceMap, { requireKnownSource: true })
+      : '';
+  }
+
+  return {
+    id: -1,
+    session_id: sessionId,
+    message: {
+      type: 'ai',
+      content
+    }
+  };
+};
+
+// Fetch sources so citations can show proper source and notebook titles.
+// A workspace chat (null notebook) can cite any readable source.
+const fetchSourceMap = async (notebookId: string | null) => {
+  let query = supabase
+    .from('sources')
+    .select('id, title, type, notebook_id, metadata, notebooks!sources_notebook_id_fkey(title)');
+
+  if (notebookId) {
+    query = query.eq('notebook_id', notebookId);
+  }
+
+  const { data: sourcesData } = await query;
+  
+  return new Map<string, SourceInfo>(sourcesData?.map(s => [s.id, s]) || []);
+};
+
+// Read Server-Sent Events from the send-chat-message stream
+const readEventStream = async (
+  response: Response,
+  onEvent: (event: { type: string; content?: string; message?: string }) => void
+) => {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop() ?? '';
+
+    frames.forEach((frame) => {
+      const data = frame
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('');
+      if (data) {
+        onEvent(JSON.parse(data));
+      }
+    });
+  }
+};
+
 const transformMessage = (item: any, sourceMap: Map<string, any>): EnhancedChatMessage => {
   console.log('Processing item:', item);
   
@@ -62,36 +201,7 @@ const transformMessage = (item: any, sourceMap: Map<string, any>): EnhancedChatM
         const parsedContent = JSON.parse(messageObj.content) as N8nAiResponseContent;
         
         if (parsedContent.output && Array.isArray(parsedContent.output)) {
-          // Transform the parsed content into segments and citations
-          const segments: MessageSegment[] = [];
-          const citations: Citation[] = [];
-          let citationIdCounter = 1;
-          
-          parsedContent.output.forEach((outputItem) => {
-            // Add the text segment
-            segments.push({
-              text: outputItem.text,
-              citation_id: outputItem.citations && outputItem.citations.length > 0 ? citationIdCounter : undefined
-            });
-            
-            // Process citations if they exist
-            if (outputItem.citations && outputItem.citations.length > 0) {
-              outputItem.citations.forEach((citation) => {
-                const sourceInfo = sourceMap.get(citation.chunk_source_id);
-                citations.push({
-                  citation_id: citationIdCounter,
-                  source_id: citation.chunk_source_id,
-                  source_title: sourceInfo?.title || 'Unknown Source',
-                  source_type: sourceInfo?.type || 'pdf',
-                  chunk_lines_from: citation.chunk_lines_from,
-                  chunk_lines_to: citation.chunk_lines_to,
-                  chunk_index: citation.chunk_index,
-                  excerpt: `Lines ${citation.chunk_lines_from}-${citation.chunk_lines_to}`
-                });
-              });
-              citationIdCounter++;
-            }
-          });
+          const { segments, citations } = buildAiContent(parsedContent.output, sourceMap);
           
           transformedMessage = {
             type: 'ai',
@@ -157,11 +267,47 @@ const transformMessage = (item: any, sourceMap: Map<string, any>): EnhancedChatM
   return {
     id: item.id,
     session_id: item.session_id,
+    parent_id: item.parent_id ?? null,
     message: transformedMessage
   };
 };
 
-export const useChatMessages = (notebookId?: string) => {
+// Rebuild the active branch of a thread from all of its message versions.
+// Messages that share a parent are alternate versions of the same turn.
+const reconstructActiveBranch = (items: ChatHistoryRow[], sourceMap: Map<string, SourceInfo>): EnhancedChatMessage[] => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const siblingsByParent = new Map<number | null, number[]>();
+
+  items.forEach((item) => {
+    const parentId = item.parent_id ?? null;
+    siblingsByParent.set(parentId, [...(siblingsByParent.get(parentId) || []), item.id]);
+  });
+
+  // Walk back from the newest active message to the start of the conversation
+  const activeItems = items.filter(item => item.is_active !== false);
+  const branch: ChatHistoryRow[] = [];
+  let current = activeItems.length > 0 ? activeItems[activeItems.length - 1] : undefined;
+
+  while (current) {
+    branch.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return branch.map((item) => {
+    const versionIds = (siblingsByParent.get(item.parent_id ?? null) || [item.id]).sort((a, b) => a - b);
+    return {
+      ...transformMessage(item, sourceMap),
+      versions: {
+        index: versionIds.indexOf(item.id),
+        total: versionIds.length,
+        ids: versionIds
+      }
+    };
+  });
+};
+
+// notebookId is null for a workspace chat across all notebooks
+export const useChatMessages = (notebookId?: string | null, threadId?: string) => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -171,71 +317,61 @@ export const useChatMessages = (notebookId?: string) => {
     isLoading,
     error,
   } = useQuery({
-    queryKey: ['chat-messages', notebookId],
+    queryKey: ['chat-messages', threadId],
     queryFn: async () => {
-      if (!notebookId) return [];
+      if (notebookId === undefined || !threadId) return [];
       
       // Inside useChatMessages hook, update query
       const { data, error } = await supabase
         .from('n8n_chat_histories')
         .select('*')
-        .eq('session_id', notebookId)
+        .eq('session_id', threadId)
         .eq('user_id', user?.id ?? '')  // Add null check for user_id
         .order('id', { ascending: true });
 
       if (error) throw error;
       
       // Also fetch sources to get proper source titles
-      const { data: sourcesData } = await supabase
-        .from('sources')
-        .select('id, title, type')
-        .eq('notebook_id', notebookId);
-      
-      const sourceMap = new Map(sourcesData?.map(s => [s.id, s]) || []);
+      const sourceMap = await fetchSourceMap(notebookId);
       
       console.log('Raw data from database:', data);
       console.log('Sources map:', sourceMap);
       
-      // Transform the data to match our expected format
-      return data.map((item) => transformMessage(item, sourceMap));
+      // Transform the data to match our expected format, keeping only the active branch
+      return reconstructActiveBranch(data, sourceMap);
     },
-    enabled: !!notebookId && !!user,
+    enabled: notebookId !== undefined && !!threadId && !!user,
     refetchOnMount: true,
     refetchOnReconnect: true,
   });
 
   // Set up Realtime subscription for new messages
   useEffect(() => {
-    if (!notebookId || !user) return;
+    if (notebookId === undefined || !threadId || !user) return;
 
-    console.log('Setting up Realtime subscription for notebook:', notebookId);
+    console.log('Setting up Realtime subscription for chat thread:', threadId);
 
     const channel = supabase
-      .channel('chat-messages')
+      .channel(`chat-messages-${threadId}`)
       .on(
         'postgres_changes',
         {
           event: 'INSERT',
           schema: 'public',
           table: 'n8n_chat_histories',
-          filter: `session_id=eq.${notebookId}`
+          filter: `session_id=eq.${threadId}`
         },
         async (payload) => {
           console.log('Realtime: New message received:', payload);
           
           // Fetch sources for proper transformation
-          const { data: sourcesData } = await supabase
-            .from('sources')
-            .select('id, title, type')
-            .eq('notebook_id', notebookId);
-          
-          const sourceMap = new Map(sourcesData?.map(s => [s.id, s]) || []);
+          const sourceMap = await fetchSourceMap(notebookId);
           
           // Transform the new message
           const newMessage = transformMessage(payload.new, sourceMap);
           
           // Update the query cache with the new message
-          queryClient.setQueryData(['chat-messages', notebookId], (oldMessages: EnhancedChatMessage[] = []) => {
+          queryClient.setQueryData(['chat-messages', threadId], (oldMessages: EnhancedChatMessage[] = []) => {
             // Check if message already exists to prevent duplicates
             const messageExists = oldMessages.some(msg => msg.id === newMessage.id);
             if (messageExists) {
@@ -256,30 +392,78 @@ export const useChatMessages = (notebookId?: string) => {
       console.log('Cleaning up Realtime subscription');
       supabase.removeChannel(channel);
     };
-  }, [notebookId, user, queryClient]);
+  }, [notebookId, threadId, user, queryClient]);
+
+  const [streamingMessage, setStreamingMessage] = useState<EnhancedChatMessage | null>(null);
 
   const sendMessage = useMutation({
     mutationFn: async (messageData: {
-      notebookId: string;
+      notebookId: string | null;
+      threadId: string;
+      sourceIds?: string[] | null;
       role: 'user' | 'assistant';
       content: string;
     }) => {
       if (!user) throw new Error('User not authenticated');
 
-      // Call the n8n webhook
-      const webhookResponse = await supabase.functions.invoke('send-chat-message', {
-        body: {
-          session_id: messageData.notebookId,
+      const { data: { session } } = await supabase.auth.getSession();
+      const sourceMap = await fetchSourceMap(messageData.notebookId);
+
+      // Send the message to the AI provider and stream the answer back as it is generated
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-chat-message`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`,
+          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+        },
+        body: JSON.stringify({
+          session_id: messageData.threadId,
+          notebook_id: messageData.notebookId,
+          source_ids: messageData.sourceIds ?? null,
           message: messageData.content,
-          user_id: user.id
-        }
+          user_id: user.id,
+          stream: true
+        })
       });
 
-      if (webhookResponse.error) {
-        throw new Error(`Webhook error: ${webhookResponse.error.message}`);
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(`Webhook error: ${errorData?.error || response.statusText}`);
       }
 
-      return webhookResponse.data;
+      const answer = createPartialJsonParser<Partial<N8nAiResponseContent>>();
+      let pendingFrame: number | null = null;
+
+      try {
+        await readEventStream(response, (event) => {
+          if (event.type === 'token' && event.content) {
+            answer.push(event.content);
+            // Tokens can arrive much faster than the screen updates, render at most once a frame
+            if (pendingFrame === null) {
+              pendingFrame = requestAnimationFrame(() => {
+                pendingFrame = null;
+                setStreamingMessage(transformStreamingContent(answer, messageData.threadId, sourceMap));
+              });
+            }
+          } else if (event.type === 'error') {
+            throw new Error(`Webhook error: ${event.message}`);
+          }
+        });
+
+        // The final answer is persisted by the AI provider, refetch so it replaces the streamed copy
+        await queryClient.invalidateQueries({
+          queryKey: ['chat-messages', messageData.threadId]
+        });
+        queryClient.invalidateQueries({
+          queryKey: ['chat-threads', messageData.notebookId]
+        });
+      } finally {
+        if (pendingFrame !== null) cancelAnimationFrame(pendingFrame);
+        setStreamingMessage(null);
+      }
+
+      return answer.text;
     },
     onSuccess: () => {
       // The response will appear via Realtime, so we don't need to do anything here
@@ -287,16 +471,73 @@ export const useChatMessages = (notebookId?: string) => {
     },
   });
 
+  // Set a message and the turns after it aside before resending it.
+  // 'branch' keeps them as an alternate version, 'discard' deletes them.
+  const replaceMessage = useMutation({
+    mutationFn: async ({ messageId, mode }: { messageId: number; mode: 'branch' | 'discard' }) => {
+      if (!user) throw new Error('User not authenticated');
+
+      console.log('Replacing chat message:', messageId, 'mode:', mode);
+
+      if (mode === 'branch') {
+        const { error } = await supabase.rpc('branch_chat_message', { message_id: messageId });
+        if (error) throw error;
+      } else {
+        // Later turns reference this message and are removed with it
+        const { error } = await supabase
+          .from('n8n_chat_histories')
+          .delete()
+          .eq('id', messageId);
+        if (error) throw error;
+      }
+
+      await queryClient.invalidateQueries({
+        queryKey: ['chat-messages', threadId]
+      });
+      return messageId;
+    },
+    onError: (error) => {
+      console.error('Failed to replace chat message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to resend the message. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const switchVersion = useMutation({
+    mutationFn: async (messageId: number) => {
+      console.log('Switching to chat message version:', messageId);
+
+      const { error } = await supabase.rpc('switch_chat_message_version', { message_id: messageId });
+      if (error) throw error;
+
+      await queryClient.invalidateQueries({
+        queryKey: ['chat-messages', threadId]
+      });
+      return messageId;
+    },
+    onError: (error) => {
+      console.error('Failed to switch message version:', error);
+      toast({
+        title: "Error",
+        description: "Failed to switch to that version. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
   const deleteChatHistory = useMutation({
-    mutationFn: async (notebookId: string) => {
+    mutationFn: async (threadId: string) => {
       if (!user) throw new Error('User not authenticated');
 
-      console.log('Deleting chat history for notebook:', notebookId);
+      console.log('Deleting chat history for thread:', threadId);
       
       const { error } = await supabase
         .from('n8n_chat_histories')
         .delete()
-        .eq('session_id', notebookId);
+        .eq('session_id', threadId);
 
       if (error) {
         console.error('Error deleting chat history:', error);
@@ -304,19 +545,19 @@ export const useChatMessages = (notebookId?: string) => {
       }
       
       console.log('Chat history deleted successfully');
-      return notebookId;
+      return threadId;
     },
-    onSuccess: (notebookId) => {
-      console.log('Chat history cleared for notebook:', notebookId);
+    onSuccess: (threadId) => {
+      console.log('Chat history cleared for thread:', threadId);
       toast({
         title: "Chat history cleared",
         description: "All messages have been deleted successfully.",
       });
       
       // Clear the query data and refetch to confirm
-      queryClient.setQueryData(['chat-messages', notebookId], []);
+      queryClient.setQueryData(['chat-messages', threadId], []);
       queryClient.invalidateQueries({
-        queryKey: ['chat-messages', notebookId]
+        queryKey: ['chat-messages', threadId]
       });
     },
     onError: (error) => {
@@ -336,6 +577,11 @@ export const useChatMessages = (notebookId?: string) => {
     sendMessage: sendMessage.mutate,
     sendMessageAsync: sendMessage.mutateAsync,
     isSending: sendMessage.isPending,
+    streamingMessage,
+    replaceMessageAsync: replaceMessage.mutateAsync,
+    isReplacing: replaceMessage.isPending,
+    switchVersion: switchVersion.mutate,
+    isSwitchingVersion: switchVersion.isPending,
     deleteChatHistory: deleteChatHistory.mutate,
     isDeletingChatHistory: deleteChatHistory.isPending,
   };
@@ -0,0 +1,149 @@
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Tables } from '@/integrations/supabase/types';
+
+export type ChatThread = Tables<'chat_threads'>;
+
+// notebookId is null for the user's workspace threads, which span all notebooks
+export const useChatThreads = (notebookId?: string | null) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const {
+    data: threads = [],
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['chat-threads', notebookId],
+    queryFn: async () => {
+      if (notebookId === undefined) return [];
+
+      let query = supabase
+        .from('chat_threads')
+        .select('*')
+        .eq('user_id', user?.id ?? '');
+
+      query = notebookId ? query.eq('notebook_id', notebookId) : query.is('notebook_id', null);
+
+      const { data, error } = await query.order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: notebookId !== undefined && !!user,
+  });
+
+  const createThread = useMutation({
+    mutationFn: async ({ title }: { title?: string } = {}) => {
+      if (!user) throw new Error('User not authenticated');
+      if (notebookId === undefined) throw new Error('Notebook not selected');
+
+      console.log('Creating chat thread for notebook:', notebookId ?? 'workspace');
+
+      const { data, error } = await supabase
+        .from('chat_threads')
+        .insert({
+          notebook_id: notebookId,
+          user_id: user.id,
+          ...(title ? { title } : {}),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (thread) => {
+      // Add the thread right away so it can be selected before the refetch completes
+      queryClient.setQueryData(['chat-threads', notebookId], (oldThreads: ChatThread[] = []) => [thread, ...oldThreads]);
+      queryClient.invalidateQueries({ queryKey: ['chat-threads', notebookId] });
+    },
+    onError: (error) => {
+      console.error('Failed to create chat thread:', error);
+      toast({
+        title: "Error",
+        description: "Failed to start a new chat. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateThread = useMutation({
+    mutationFn: async ({ threadId, updates }: { threadId: string; updates: { title?: string; archived_at?: string | null } }) => {
+      console.log('Updating chat thread:', threadId, updates);
+
+      const { data, error } = await supabase
+        .from('chat_threads')
+        .update(updates)
+        .eq('id', threadId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chat-threads', notebookId] });
+    },
+    onError: (error) => {
+      console.error('Failed to update chat thread:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the chat. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteThread = useMutation({
+    mutationFn: async (threadId: string) => {
+      console.log('Deleting chat thread:', threadId);
+
+      // The thread's messages are removed by a database trigger
+      const { error } = await supabase
+        .from('chat_threads')
+        .delete()
+        .eq('id', threadId);
+
+      if (error) throw error;
+      return threadId;
+    },
+    onSuccess: (threadId) => {
+      queryClient.removeQueries({ queryKey: ['chat-messages', threadId] });
+      queryClient.invalidateQueries({ queryKey: ['chat-threads', notebookId] });
+      toast({
+        title: "Chat deleted",
+        description: "The chat and its messages have been deleted.",
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to delete chat thread:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the chat. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    threads,
+    activeThreads: threads.filter(thread => !thread.archived_at),
+    archivedThreads: threads.filter(thread => !!thread.archived_at),
+    isLoading,
+    error,
+    createThread: createThread.mutate,
+    createThreadAsync: createThread.mutateAsync,
+    isCreating: createThread.isPending,
+    renameThread: (threadId: string, title: string) => updateThread.mutate({ threadId, updates: { title } }),
+    archiveThread: (threadId: string) => updateThread.mutate({ threadId, updates: { archived_at: new Date().toISOString() } }),
+    unarchiveThread: (threadId: string) => updateThread.mutate({ threadId, updates: { archived_at: null } }),
+    isUpdating: updateThread.isPending,
+    deleteThread: deleteThread.mutate,
+    isDeleting: deleteThread.isPending,
+  };
+};
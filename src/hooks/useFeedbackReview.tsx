@@ -0,0 +1,105 @@
+
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface FeedbackReviewFilters {
+  notebookId: string | 'all';
+  rating: 'down' | 'up' | 'all';
+  periodDays: number | null;
+  withCommentOnly: boolean;
+}
+
+export interface FeedbackReviewItem {
+  id: string;
+  notebook_id: string;
+  rating: string;
+  comment: string | null;
+  question: string | null;
+  answer: unknown;
+  citations: unknown;
+  created_at: string;
+  notebooks: { title: string } | null;
+  profiles: { email: string } | null;
+}
+
+export interface NotebookFeedbackSummary {
+  notebookId: string;
+  title: string;
+  negative: number;
+  positive: number;
+}
+
+export const useFeedbackReview = (filters: FeedbackReviewFilters) => {
+  const { isAdmin } = useAuth();
+
+  const { data: feedback = [], isLoading, error } = useQuery({
+    queryKey: ['feedback-review', filters],
+    queryFn: async () => {
+      if (!isAdmin) {
+        throw new Error('Unauthorized: Admin access required');
+      }
+
+      let query = supabase
+        .from('chat_feedback')
+        .select('id, notebook_id, rating, comment, question, answer, citations, created_at, notebooks(title), profiles(email)')
+        .order('created_at', { ascending: false })
+        .limit(500);
+
+      if (filters.notebookId !== 'all') {
+        query = query.eq('notebook_id', filters.notebookId);
+      }
+      if (filters.rating !== 'all') {
+        query = query.eq('rating', filters.rating);
+      }
+      if (filters.periodDays) {
+        const since = new Date(Date.now() - filters.periodDays * 24 * 60 * 60 * 1000);
+        query = query.gte('created_at', since.toISOString());
+      }
+      if (filters.withCommentOnly) {
+        query = query.not('comment', 'is', null);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return data as unknown as FeedbackReviewItem[];
+    },
+    enabled: isAdmin,
+  });
+
+  // Per-notebook rating counts across all feedback, worst notebooks first
+  const { data: summary = [] } = useQuery({
+    queryKey: ['feedback-review-summary'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('chat_feedback')
+        .select('notebook_id, rating, notebooks(title)');
+
+      if (error) throw error;
+
+      const byNotebook = new Map<string, NotebookFeedbackSummary>();
+      (data as unknown as { notebook_id: string; rating: string; notebooks: { title: string } | null }[]).forEach((row) => {
+        const entry = byNotebook.get(row.notebook_id) || {
+          notebookId: row.notebook_id,
+          title: row.notebooks?.title || 'Untitled notebook',
+          negative: 0,
+          positive: 0,
+        };
+        if (row.rating === 'down') entry.negative++;
+        else entry.positive++;
+        byNotebook.set(row.notebook_id, entry);
+      });
+
+      return Array.from(byNotebook.values()).sort((a, b) => b.negative - a.negative);
+    },
+    enabled: isAdmin,
+  });
+
+  return {
+    feedback,
+    summary,
+    isLoading,
+    error,
+  };
+};
@@ -7,15 +7,39 @@ export const useFileUpload = () => {
   const [isUploading, setIsUploading] = useState(false);
   const { toast } = useToast();
 
+  // Track the upload as the first stage of the source's ingestion job
+  const recordUploadStage = async (sourceId: string, status: 'running' | 'completed' | 'failed', error?: unknown) => {
+    const { error: rpcError } = await supabase.rpc('record_source_job_stage', {
+      p_source_id: sourceId,
+      p_stage: 'upload',
+      p_status: status,
+      p_error: error instanceof Error ? error.message : error ? String(error) : null
+    });
+
+    if (rpcError) {
+      console.error('Failed to record upload stage:', rpcError);
+    }
+  };
+
   const uploadFile = async (file: File, notebookId: string, sourceId: string): Promise<string | null> => {
     try {
       setIsUploading(true);
+      await recordUploadStage(sourceId, 'running');
       
       // Get file extension
       const fileExtension = file.name.split('.').pop() || 'bin';
       
-      // Create file path: sources/{notebook_id}/{source_id}.{extension}
-      const filePath = `${notebookId}/${sourceId}.${fileExtension}`;
+      // Files are kept under the notebook's workspace so each workspace's storage is separate
+      const { data: notebook, error: notebookError } = await supabase
+        .from('notebooks')
+        .select('workspace_id')
+        .eq('id', notebookId)
+        .single();
+
+      if (notebookError) throw notebookError;
+
+      // Create file path: sources/{workspace_id}/{notebook_id}/{source_id}.{extension}
+      const filePath = `${notebook.workspace_id}/${notebookId}/${sourceId}.${fileExtension}`;
       
       console.log('Uploading file to:', filePath);
       
@@ -33,9 +57,11 @@ export const useFileUpload = () => {
       }
 
       console.log('File uploaded successfully:', data);
+      await recordUploadStage(sourceId, 'completed');
       return filePath;
     } catch (error) {
       console.error('File upload failed:', error);
+      await recordUploadStage(sourceId, 'failed', error);
       toast({
         title: "Upload Error",
         description: `Failed to upload ${file.name}. Please try again.`,
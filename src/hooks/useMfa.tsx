@@ -0,0 +1,188 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+export interface TotpEnrollment {
+  factorId: string;
+  // SVG data URL to show as an image
+  qrCode: string;
+  secret: string;
+}
+
+// Edge function error responses carry their JSON body on the error
+const invokeBackupCodes = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('mfa-backup-codes', { body });
+
+  if (error) {
+    const errorBody = error instanceof FunctionsHttpError
+      ? await error.context.json().catch(() => null)
+      : null;
+    throw new Error(errorBody?.error || error.message);
+  }
+
+  return data;
+};
+
+// Use a backup code from a session that still needs its second factor. On
+// success the user's TOTP factors are removed and the session is refreshed,
+// which completes the sign-in.
+export const redeemBackupCode = async (code: string) => {
+  await invokeBackupCodes({ action: 'redeem', code });
+
+  const { error } = await supabase.auth.refreshSession();
+  if (error) throw error;
+};
+
+export const useMfa = () => {
+  const { user, refreshProfile } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: factors = [], isLoading } = useQuery({
+    queryKey: ['mfa-factors', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.auth.mfa.listFactors();
+      if (error) throw error;
+      return data.totp;
+    },
+    enabled: !!user,
+  });
+
+  const { data: backupCodesRemaining = 0 } = useQuery({
+    queryKey: ['mfa-backup-codes', user?.id],
+    queryFn: async () => {
+      const data = await invokeBackupCodes({ action: 'status' });
+      return data.remaining as number;
+    },
+    enabled: !!user && factors.length > 0,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['mfa-factors'] });
+    queryClient.invalidateQueries({ queryKey: ['mfa-backup-codes'] });
+  };
+
+  // Start TOTP enrolment. The factor stays unverified until a code from the
+  // authenticator app is confirmed with verifyEnrollment.
+  const enroll = useMutation({
+    mutationFn: async (): Promise<TotpEnrollment> => {
+      // Leftovers from an abandoned enrolment would block a new one
+      const { data: existing } = await supabase.auth.mfa.listFactors();
+      for (const factor of existing?.all ?? []) {
+        if (factor.factor_type === 'totp' && factor.status === 'unverified') {
+          await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        }
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: 'totp',
+        friendlyName: `Authenticator ${new Date().toLocaleDateString()}`,
+      });
+
+      if (error) throw error;
+      return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+    },
+    onError: (error: Error) => {
+      console.error('Error starting MFA enrolment:', error);
+      toast({
+        title: 'Setup Failed',
+        description: error.message || 'Failed to start authenticator setup',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Confirm the first code, which also raises this session to aal2, then
+  // create the backup codes to show the user once
+  const verifyEnrollment = useMutation({
+    mutationFn: async ({ factorId, code }: { factorId: string; code: string }) => {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+      if (error) throw error;
+
+      const data = await invokeBackupCodes({ action: 'generate' });
+      return data.codes as string[];
+    },
+    onSuccess: async () => {
+      invalidate();
+      await refreshProfile();
+      toast({
+        title: 'Two-Factor Authentication Enabled',
+        description: 'You will be asked for a code from your authenticator app when you sign in.',
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Error verifying MFA enrolment:', error);
+      toast({
+        title: 'Verification Failed',
+        description: error.message || 'The code could not be verified',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const cancelEnrollment = async (factorId: string) => {
+    await supabase.auth.mfa.unenroll({ factorId });
+    invalidate();
+  };
+
+  const regenerateBackupCodes = useMutation({
+    mutationFn: async () => {
+      const data = await invokeBackupCodes({ action: 'generate' });
+      return data.codes as string[];
+    },
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: (error: Error) => {
+      console.error('Error generating backup codes:', error);
+      toast({
+        title: 'Backup Codes Failed',
+        description: error.message || 'Failed to generate backup codes',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Removing a verified factor needs an aal2 session
+  const unenroll = useMutation({
+    mutationFn: async (factorId: string) => {
+      const { error } = await supabase.auth.mfa.unenroll({ factorId });
+      if (error) throw error;
+
+      // Drops the session back to aal1 now that no factor is left
+      await supabase.auth.refreshSession();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: 'Two-Factor Authentication Disabled',
+        description: 'Your authenticator app is no longer required to sign in.',
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Error removing MFA factor:', error);
+      toast({
+        title: 'Remove Failed',
+        description: error.message || 'Failed to remove the authenticator',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    factors: factors.filter(factor => factor.status === 'verified'),
+    isLoading,
+    backupCodesRemaining,
+    enroll: enroll.mutateAsync,
+    isEnrolling: enroll.isPending,
+    verifyEnrollment: verifyEnrollment.mutateAsync,
+    isVerifying: verifyEnrollment.isPending,
+    cancelEnrollment,
+    regenerateBackupCodes: regenerateBackupCodes.mutateAsync,
+    isRegenerating: regenerateBackupCodes.isPending,
+    unenroll: unenroll.mutate,
+    isUnenrolling: unenroll.isPending,
+  };
+};
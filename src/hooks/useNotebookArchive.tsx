@@ -0,0 +1,124 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile, getExportFileName } from '@/lib/chatExport';
+
+interface ImportResult {
+  notebookId: string;
+  title: string;
+  reprocess: {
+    sourceId: string;
+    filePath: string;
+    sourceType: string;
+    resumeFrom?: string;
+  }[];
+  warnings: string[];
+}
+
+const getFunctionError = async (error: Error) => {
+  const body = error instanceof FunctionsHttpError
+    ? await error.context.json().catch(() => null)
+    : null;
+  return new Error(body?.error || error.message);
+};
+
+// Moves notebooks between instances (e.g. staging and production) as a single
+// archive with sources, files, embeddings, notes and the audio overview
+export const useNotebookArchive = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const exportNotebook = useMutation({
+    mutationFn: async ({ notebookId, title }: { notebookId: string; title: string }) => {
+      console.log('Exporting notebook:', notebookId);
+
+      const { data, error } = await supabase.functions.invoke('export-notebook', {
+        body: { notebookId }
+      });
+
+      if (error) throw await getFunctionError(error);
+
+      downloadFile(getExportFileName(title, 'zip'), data as Blob, 'application/zip');
+      return title;
+    },
+    onSuccess: (title) => {
+      toast({
+        title: "Notebook exported",
+        description: `"${title}" was downloaded as an archive.`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Failed to export notebook:', error);
+      toast({
+        title: "Export failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importNotebook = useMutation({
+    mutationFn: async ({ file, reembed }: { file: File; reembed: boolean }) => {
+      console.log('Importing notebook archive:', file.name, { reembed });
+
+      const form = new FormData();
+      form.append('archive', file);
+      form.append('reembed', String(reembed));
+
+      const { data, error } = await supabase.functions.invoke('import-notebook', {
+        body: form
+      });
+
+      if (error) throw await getFunctionError(error);
+
+      const result = data as ImportResult;
+
+      // Re-embedding runs like a fresh upload; sources that fail to start show
+      // up as failed and can be retried from the notebook
+      const started = await Promise.allSettled(result.reprocess.map(source =>
+        supabase.functions.invoke('process-document', { body: source })
+      ));
+      const failedToStart = started.filter(outcome =>
+        outcome.status === 'rejected' || !!outcome.value.error
+      ).length;
+
+      if (failedToStart > 0) {
+        console.error('Failed to start processing for', failedToStart, 'imported source(s)');
+      }
+
+      return { ...result, failedToStart };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['notebooks', user?.id] });
+
+      const messages = [
+        result.reprocess.length > 0 ? `${result.reprocess.length} source(s) are being re-embedded.` : '',
+        result.failedToStart > 0 ? `${result.failedToStart} of them could not be started, retry them from the notebook.` : '',
+        ...result.warnings,
+      ].filter(Boolean);
+
+      toast({
+        title: "Notebook imported",
+        description: [`"${result.title}" was imported.`, ...messages].join(' '),
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Failed to import notebook:', error);
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    exportNotebook: exportNotebook.mutate,
+    isExporting: exportNotebook.isPending,
+    importNotebook: importNotebook.mutateAsync,
+    isImporting: importNotebook.isPending,
+  };
+};
@@ -6,96 +6,33 @@ import { useToast } from '@/hooks/use-toast';
 
 export const useNotebookDelete = () => {
   const queryClient = useQueryClient();
-  const { user, userProfile } = useAuth();
+  const { user } = useAuth();
   const { toast } = useToast();
 
   const deleteNotebook = useMutation({
     mutationFn: async (notebookId: string) => {
       console.log('Starting notebook deletion process for:', notebookId);
-      
-      // Check if user is admin
-      if (userProfile?.role !== 'admin') {
-        throw new Error('Only administrators can delete notebooks');
-      }
-      
-      try {
-        // First, get the notebook details for better error reporting
-        const { data: notebook, error: fetchError } = await supabase
-          .from('notebooks')
-          .select('id, title')
-          .eq('id', notebookId)
-          .single();
-
-        if (fetchError) {
-          console.error('Error fetching notebook:', fetchError);
-          throw new Error('Failed to find notebook');
-        }
-
-        console.log('Found notebook to delete:', notebook.title);
 
-        // Get all sources for this notebook to delete their files
-        const { data: sources, error: sourcesError } = await supabase
-          .from('sources')
-          .select('id, title, file_path, type')
-          .eq('notebook_id', notebookId);
+      // Moves the notebook to the trash with everything in it; only owners
+      // are allowed to
+      const { data: title, error } = await supabase.rpc('trash_notebook', { p_notebook_id: notebookId });
 
-        if (sourcesError) {
-          console.error('Error fetching sources for notebook:', sourcesError);
-          throw new Error('Failed to fetch sources for cleanup');
-        }
+      if (error) throw error;
 
-        console.log(`Found ${sources?.length || 0} sources to clean up`);
-
-        // Delete all files from storage for sources that have file_path
-        const filesToDelete = sources?.filter(source => source.file_path).map(source => source.file_path) || [];
-        
-        if (filesToDelete.length > 0) {
-          console.log('Deleting files from storage:', filesToDelete);
-          
-          const { error: storageError } = await supabase.storage
-            .from('sources')
-            .remove(filesToDelete);
-
-          if (storageError) {
-            console.error('Error deleting files from storage:', storageError);
-            // Don't throw here - we still want to delete the notebook
-            // even if some files can't be deleted (they might already be gone)
-          } else {
-            console.log('All files deleted successfully from storage');
-          }
-        } else {
-          console.log('No files to delete from storage (URL-based sources or no file_paths)');
-        }
-
-        // Delete the notebook - this will cascade delete all sources
-        const { error: deleteError } = await supabase
-          .from('notebooks')
-          .delete()
-          .eq('id', notebookId);
-
-        if (deleteError) {
-          console.error('Error deleting notebook:', deleteError);
-          throw deleteError;
-        }
-        
-        console.log('Notebook deleted successfully with cascade deletion');
-        return notebook;
-      } catch (error) {
-        console.error('Error in deletion process:', error);
-        throw error;
-      }
+      console.log('Notebook moved to trash');
+      return { title };
     },
     onSuccess: (deletedNotebook, notebookId) => {
       console.log('Delete mutation success, invalidating queries');
       
       // Invalidate all related queries
-      queryClient.invalidateQueries({ queryKey: ['notebooks', user?.id, userProfile?.role] });
+      queryClient.invalidateQueries({ queryKey: ['notebooks', user?.id] });
       queryClient.invalidateQueries({ queryKey: ['sources', notebookId] });
       queryClient.invalidateQueries({ queryKey: ['notebook', notebookId] });
       
       toast({
-        title: "Notebook deleted",
-        description: `"${deletedNotebook?.title || 'Notebook'}" and all its sources have been successfully deleted.`,
+        title: "Notebook moved to trash",
+        description: `"${deletedNotebook?.title || 'Notebook'}" and all its sources have been moved to the trash.`,
       });
     },
     onError: (error: any) => {
@@ -103,15 +40,13 @@ export const useNotebookDelete = () => {
       
       let errorMessage = "Failed to delete the notebook. Please try again.";
       
-      if (error?.message?.includes('Only administrators')) {
-        errorMessage = "You don't have permission to delete notebooks. Only administrators can delete notebooks.";
+      if (error?.message?.includes('Only notebook owners')) {
+        errorMessage = "You don't have permission to delete this notebook. Only its owners can delete it.";
       }
       
       // Provide more specific error messages based on the error type
-      if (error?.code === 'PGRST116') {
+      if (error?.message?.includes('not found')) {
         errorMessage = "Notebook not found or you don't have permission to delete it.";
-      } else if (error?.message?.includes('foreign key')) {
-        errorMessage = "Cannot delete notebook due to data dependencies. Please contact support.";
       } else if (error?.message?.includes('network')) {
         errorMessage = "Network error. Please check your connection and try again.";
       }
@@ -127,6 +62,5 @@ export const useNotebookDelete = () => {
   return {
     deleteNotebook: deleteNotebook.mutate,
     isDeleting: deleteNotebook.isPending,
-    canDelete: userProfile?.role === 'admin',
   };
 };
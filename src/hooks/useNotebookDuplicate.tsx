@@ -0,0 +1,71 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+interface DuplicateResult {
+  notebookId: string;
+  title: string;
+  sources: number;
+  skipped: number;
+}
+
+interface DuplicateRequest {
+  notebookId: string;
+  // Defaults to "Copy of <title>"
+  title?: string;
+  asTemplate?: boolean;
+}
+
+// Copies a notebook with its sources, files and embeddings. The same call
+// saves a notebook as a template and starts a new notebook from a template.
+export const useNotebookDuplicate = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const duplicateNotebook = useMutation({
+    mutationFn: async ({ notebookId, title, asTemplate = false }: DuplicateRequest) => {
+      console.log('Duplicating notebook:', notebookId, { asTemplate });
+
+      const { data, error } = await supabase.functions.invoke('duplicate-notebook', {
+        body: { notebookId, title, asTemplate }
+      });
+
+      if (error) {
+        const body = error instanceof FunctionsHttpError
+          ? await error.context.json().catch(() => null)
+          : null;
+        throw new Error(body?.error || error.message);
+      }
+
+      return data as DuplicateResult;
+    },
+    onSuccess: (result, { asTemplate }) => {
+      queryClient.invalidateQueries({ queryKey: ['notebooks', user?.id] });
+
+      const skipped = result.skipped > 0
+        ? ` ${result.skipped} source(s) still being processed were left out.`
+        : '';
+
+      toast({
+        title: asTemplate ? "Template saved" : "Notebook created",
+        description: `"${result.title}" was created with ${result.sources} source(s).${skipped}`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Failed to duplicate notebook:', error);
+      toast({
+        title: "Copy failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    duplicateNotebook: duplicateNotebook.mutate,
+    isDuplicating: duplicateNotebook.isPending,
+  };
+};
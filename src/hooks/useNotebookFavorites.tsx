@@ -0,0 +1,111 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+const RECENT_NOTEBOOKS_LIMIT = 20;
+
+// The user's own favourite and recently opened notebooks
+export const useNotebookFavorites = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: favorites = [] } = useQuery({
+    queryKey: ['notebook-favorites', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('notebook_favorites')
+        .select('notebook_id')
+        .eq('user_id', user!.id);
+
+      if (error) {
+        console.error('Error fetching favorite notebooks:', error);
+        throw error;
+      }
+
+      return data.map(favorite => favorite.notebook_id);
+    },
+    enabled: !!user,
+  });
+
+  const { data: recentVisits = [] } = useQuery({
+    queryKey: ['notebook-visits', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('notebook_visits')
+        .select('notebook_id, last_opened_at')
+        .eq('user_id', user!.id)
+        .order('last_opened_at', { ascending: false })
+        .limit(RECENT_NOTEBOOKS_LIMIT);
+
+      if (error) {
+        console.error('Error fetching recent notebooks:', error);
+        throw error;
+      }
+
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const favoriteIds = useMemo(() => new Set(favorites), [favorites]);
+
+  // Notebook id -> when the user last opened it, most recent first
+  const lastOpened = useMemo(
+    () => new Map(recentVisits.map(visit => [visit.notebook_id, visit.last_opened_at])),
+    [recentVisits]
+  );
+
+  const toggleFavorite = useMutation({
+    mutationFn: async (notebookId: string) => {
+      const isFavorite = favoriteIds.has(notebookId);
+      const { error } = isFavorite
+        ? await supabase.from('notebook_favorites').delete().eq('user_id', user!.id).eq('notebook_id', notebookId)
+        : await supabase.from('notebook_favorites').insert({ user_id: user!.id, notebook_id: notebookId });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notebook-favorites', user?.id] });
+    },
+    onError: (error: Error) => {
+      console.error('Failed to update favorites:', error);
+      toast({
+        title: "Failed to update favorites",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Called when a notebook is opened; failures only cost the recents list
+  const recordVisit = useMutation({
+    mutationFn: async (notebookId: string) => {
+      const { error } = await supabase
+        .from('notebook_visits')
+        .upsert({
+          user_id: user!.id,
+          notebook_id: notebookId,
+          last_opened_at: new Date().toISOString(),
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notebook-visits', user?.id] });
+    },
+    onError: (error: Error) => {
+      console.error('Failed to record notebook visit:', error);
+    },
+  });
+
+  return {
+    favoriteIds,
+    isFavorite: (notebookId: string) => favoriteIds.has(notebookId),
+    lastOpened,
+    toggleFavorite: toggleFavorite.mutate,
+    recordVisit: recordVisit.mutate,
+  };
+};
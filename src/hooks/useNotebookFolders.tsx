@@ -0,0 +1,137 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspaces } from '@/hooks/useWorkspaces';
+import { Tables } from '@/integrations/supabase/types';
+
+export type NotebookFolder = Tables<'notebook_folders'>;
+
+// Nested folders shared by everyone in the current workspace. Notebooks are
+// filed with notebooks.folder_id by anyone who can edit them.
+export const useNotebookFolders = () => {
+  const { user } = useAuth();
+  const { currentWorkspaceId } = useWorkspaces();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: folders = [], isLoading } = useQuery({
+    queryKey: ['notebook-folders', currentWorkspaceId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('notebook_folders')
+        .select('*')
+        .eq('workspace_id', currentWorkspaceId!)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching notebook folders:', error);
+        throw error;
+      }
+
+      return data as NotebookFolder[];
+    },
+    enabled: !!user && !!currentWorkspaceId,
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createFolder = useMutation({
+    mutationFn: async ({ name, parentId = null }: { name: string; parentId?: string | null }) => {
+      const { data, error } = await supabase
+        .from('notebook_folders')
+        .insert({
+          workspace_id: currentWorkspaceId!,
+          parent_id: parentId,
+          name: name.trim(),
+          created_by: user?.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as NotebookFolder;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notebook-folders'] });
+    },
+    onError: showError('Failed to create folder'),
+  });
+
+  const renameFolder = useMutation({
+    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+      const { data, error } = await supabase
+        .from('notebook_folders')
+        .update({ name: name.trim() })
+        .eq('id', id)
+        .select();
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error('Only the folder\'s creator and workspace admins can rename it');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notebook-folders'] });
+    },
+    onError: showError('Failed to rename folder'),
+  });
+
+  const deleteFolder = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase
+        .from('notebook_folders')
+        .delete()
+        .eq('id', id)
+        .select();
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error('Only the folder\'s creator and workspace admins can delete it');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notebook-folders'] });
+      // Notebooks in the deleted folders are unfiled by the database
+      queryClient.invalidateQueries({ queryKey: ['notebooks', user?.id] });
+    },
+    onError: showError('Failed to delete folder'),
+  });
+
+  const moveNotebook = useMutation({
+    mutationFn: async ({ notebookId, folderId }: { notebookId: string; folderId: string | null }) => {
+      console.log('Moving notebook to folder:', notebookId, folderId);
+
+      const { data, error } = await supabase
+        .from('notebooks')
+        .update({ folder_id: folderId })
+        .eq('id', notebookId)
+        .select('id');
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error('Only the notebook\'s owners and editors can move it');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notebooks', user?.id] });
+    },
+    onError: showError('Failed to move notebook'),
+  });
+
+  return {
+    folders,
+    isLoading,
+    createFolder: createFolder.mutate,
+    renameFolder: renameFolder.mutate,
+    deleteFolder: deleteFolder.mutate,
+    moveNotebook: moveNotebook.mutate,
+  };
+};
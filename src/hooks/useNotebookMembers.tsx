@@ -0,0 +1,187 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Tables } from '@/integrations/supabase/types';
+import { NotebookRole } from '@/hooks/useNotebooks';
+
+export type NotebookInvitation = Tables<'notebook_invitations'>;
+
+export interface NotebookMember {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  role: NotebookRole;
+  created_at: string;
+}
+
+export const useNotebookMembers = (notebookId?: string, canManage = false) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: members = [], isLoading } = useQuery({
+    queryKey: ['notebook-members', notebookId],
+    queryFn: async () => {
+      if (!notebookId) return [];
+
+      const { data, error } = await supabase.rpc('get_notebook_members', {
+        p_notebook_id: notebookId
+      });
+
+      if (error) {
+        console.error('Error fetching notebook members:', error);
+        throw error;
+      }
+
+      return (data ?? []) as NotebookMember[];
+    },
+    enabled: !!notebookId,
+  });
+
+  // Only owners can see who hasn't signed up yet
+  const { data: invitations = [] } = useQuery({
+    queryKey: ['notebook-invitations', notebookId],
+    queryFn: async () => {
+      if (!notebookId) return [];
+
+      const { data, error } = await supabase
+        .from('notebook_invitations')
+        .select('*')
+        .eq('notebook_id', notebookId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching notebook invitations:', error);
+        throw error;
+      }
+
+      return data as NotebookInvitation[];
+    },
+    enabled: !!notebookId && canManage,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['notebook-members', notebookId] });
+    queryClient.invalidateQueries({ queryKey: ['notebook-invitations', notebookId] });
+  };
+
+  const shareNotebook = useMutation({
+    mutationFn: async ({ email, role }: { email: string; role: 'editor' | 'viewer' }) => {
+      console.log('Sharing notebook:', notebookId, 'with', email, 'as', role);
+
+      const { data, error } = await supabase.functions.invoke('share-notebook', {
+        body: { notebookId, email, role }
+      });
+
+      if (error) {
+        const body = error instanceof FunctionsHttpError
+          ? await error.context.json().catch(() => null)
+          : null;
+        throw new Error(body?.error || error.message);
+      }
+
+      return { email, status: data.status as 'added' | 'invited', emailSent: data.emailSent as boolean };
+    },
+    onSuccess: ({ email, status, emailSent }) => {
+      invalidate();
+      toast({
+        title: status === 'added' ? 'Notebook Shared' : 'Invitation Sent',
+        description: status === 'added'
+          ? `${email} can now open this notebook.${emailSent ? '' : " We couldn't send them an email."}`
+          : `${email} will get access once they sign up.${emailSent ? '' : " We couldn't send them an email."}`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Error sharing notebook:', error);
+      toast({
+        title: 'Sharing Failed',
+        description: error.message || 'Failed to share notebook',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateMemberRole = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: NotebookRole }) => {
+      const { data, error } = await supabase
+        .from('notebook_members')
+        .update({ role })
+        .eq('notebook_id', notebookId!)
+        .eq('user_id', userId)
+        .select();
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error("You can't change this member's role");
+      }
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      console.error('Error updating member role:', error);
+      toast({
+        title: 'Update Failed',
+        description: error.message || 'Failed to update member role',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const removeMember = useMutation({
+    mutationFn: async (userId: string) => {
+      const { data, error } = await supabase
+        .from('notebook_members')
+        .delete()
+        .eq('notebook_id', notebookId!)
+        .eq('user_id', userId)
+        .select();
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error("This member can't be removed");
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['notebooks'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error removing member:', error);
+      toast({
+        title: 'Remove Failed',
+        description: error.message || 'Failed to remove member',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const cancelInvitation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      const { error } = await supabase
+        .from('notebook_invitations')
+        .delete()
+        .eq('id', invitationId);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      console.error('Error cancelling invitation:', error);
+      toast({
+        title: 'Cancel Failed',
+        description: error.message || 'Failed to cancel invitation',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    members,
+    invitations,
+    isLoading,
+    shareNotebook: shareNotebook.mutateAsync,
+    isSharing: shareNotebook.isPending,
+    updateMemberRole: updateMemberRole.mutate,
+    removeMember: removeMember.mutate,
+    cancelInvitation: cancelInvitation.mutate,
+  };
+};
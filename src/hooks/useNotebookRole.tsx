@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { NotebookRole } from '@/hooks/useNotebooks';
+
+// The caller's role on a notebook as the database sees it, the same check
+// the RLS policies use. Owners manage members, editors change sources and
+// regenerate content, viewers read and chat.
+export const useNotebookRole = (notebookId?: string) => {
+  const { user } = useAuth();
+
+  const { data: role = null, isLoading } = useQuery({
+    queryKey: ['notebook-role', notebookId, user?.id],
+    queryFn: async () => {
+      if (!notebookId) return null;
+
+      const { data, error } = await supabase.rpc('notebook_role', {
+        p_notebook_id: notebookId
+      });
+
+      if (error) {
+        console.error('Error fetching notebook role:', error);
+        throw error;
+      }
+
+      return (data ?? null) as NotebookRole | null;
+    },
+    enabled: !!notebookId && !!user,
+  });
+
+  return {
+    role,
+    isLoading,
+    canEdit: role === 'owner' || role === 'editor',
+    canManage: role === 'owner',
+  };
+};
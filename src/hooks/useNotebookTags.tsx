@@ -0,0 +1,148 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspaces } from '@/hooks/useWorkspaces';
+import { Tables } from '@/integrations/supabase/types';
+import { TagColor } from '@/lib/tagColors';
+
+export type Tag = Tables<'tags'>;
+
+// Coloured tags shared by everyone in the current workspace, and which
+// notebooks carry them. Anyone who can edit a notebook can tag it.
+export const useNotebookTags = () => {
+  const { user } = useAuth();
+  const { currentWorkspaceId } = useWorkspaces();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: tags = [], isLoading } = useQuery({
+    queryKey: ['tags', currentWorkspaceId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('*')
+        .eq('workspace_id', currentWorkspaceId!)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching tags:', error);
+        throw error;
+      }
+
+      return data as Tag[];
+    },
+    enabled: !!user && !!currentWorkspaceId,
+  });
+
+  // RLS only returns the tags of notebooks the user can see
+  const { data: assignments = [] } = useQuery({
+    queryKey: ['notebook-tags', currentWorkspaceId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('notebook_tags')
+        .select('notebook_id, tag_id');
+
+      if (error) {
+        console.error('Error fetching notebook tags:', error);
+        throw error;
+      }
+
+      return data;
+    },
+    enabled: !!user && !!currentWorkspaceId,
+  });
+
+  const tagsByNotebook = useMemo(() => {
+    const tagsById = new Map(tags.map(tag => [tag.id, tag]));
+    const byNotebook = new Map<string, Tag[]>();
+
+    for (const { notebook_id, tag_id } of assignments) {
+      const tag = tagsById.get(tag_id);
+      if (!tag) continue;
+      byNotebook.set(notebook_id, [...(byNotebook.get(notebook_id) ?? []), tag]);
+    }
+
+    return byNotebook;
+  }, [tags, assignments]);
+
+  const getNotebookTags = (notebookId: string) => tagsByNotebook.get(notebookId) ?? [];
+
+  const showError = (title: string) => (error: Error) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createTag = useMutation({
+    mutationFn: async ({ name, color }: { name: string; color: TagColor }) => {
+      const { data, error } = await supabase
+        .from('tags')
+        .insert({
+          workspace_id: currentWorkspaceId!,
+          name: name.trim(),
+          color,
+          created_by: user?.id,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') throw new Error(`There is already a tag called "${name.trim()}"`);
+        throw error;
+      }
+      return data as Tag;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+    },
+    onError: showError('Failed to create tag'),
+  });
+
+  const deleteTag = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase
+        .from('tags')
+        .delete()
+        .eq('id', id)
+        .select();
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error('Only the tag\'s creator and workspace admins can delete it');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      queryClient.invalidateQueries({ queryKey: ['notebook-tags'] });
+    },
+    onError: showError('Failed to delete tag'),
+  });
+
+  const setNotebookTag = useMutation({
+    mutationFn: async ({ notebookId, tagId, tagged }: { notebookId: string; tagId: string; tagged: boolean }) => {
+      const { error } = tagged
+        ? await supabase.from('notebook_tags').insert({ notebook_id: notebookId, tag_id: tagId })
+        : await supabase.from('notebook_tags').delete().eq('notebook_id', notebookId).eq('tag_id', tagId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notebook-tags'] });
+    },
+    onError: showError('Failed to update tags'),
+  });
+
+  return {
+    tags,
+    isLoading,
+    getNotebookTags,
+    createTag: createTag.mutate,
+    deleteTag: deleteTag.mutate,
+    setNotebookTag: setNotebookTag.mutate,
+  };
+};
@@ -6,7 +6,13 @@ export const useNotebookUpdate = () => {
   const queryClient = useQueryClient();
 
   const updateNotebook = useMutation({
-    mutationFn: async ({ id, updates }: { id: string; updates: { title?: string; description?: string } }) => {
+    mutationFn: async ({ id, updates }: { id: string; updates: {
+      title?: string;
+      description?: string;
+      keyword_search_weight?: number;
+      semantic_search_weight?: number;
+      visibility?: 'private' | 'workspace';
+    } }) => {
       console.log('Updating notebook:', id, updates);
       
       const { data, error } = await supabase
@@ -3,10 +3,15 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { Tables } from '@/integrations/supabase/types';
+import { useWorkspaces } from '@/hooks/useWorkspaces';
+
+export type NotebookRole = Tables<'notebook_members'>['role'];
 
 export const useNotebooks = () => {
   const { user, userProfile, isAuthenticated, loading: authLoading } = useAuth();
   const queryClient = useQueryClient();
+  const { currentWorkspaceId, isWorkspaceAdmin } = useWorkspaces();
 
   const {
     data: notebooks,
@@ -14,19 +19,24 @@ export const useNotebooks = () => {
     error,
     isError,
   } = useQuery({
-    queryKey: ['notebooks', user?.id, userProfile?.role],
+    queryKey: ['notebooks', user?.id, userProfile?.role, currentWorkspaceId, isWorkspaceAdmin],
     queryFn: async () => {
-      if (!user) {
-        console.log('No user found, returning empty array');
+      if (!user || !currentWorkspaceId) {
+        console.log('No user or workspace found, returning empty array');
         return [];
       }
 
-      console.log('Fetching notebooks for user:', user.id, 'role:', userProfile?.role);
+      console.log('Fetching notebooks for user:', user.id, 'role:', userProfile?.role, 'workspace:', currentWorkspaceId);
       
-      // Get all notebooks (global access)
+      // RLS returns the notebooks the user is a member of, workspace-wide
+      // notebooks and, for admins, everything, so narrow it to the
+      // workspace picked in the switcher. Admins can also read the trash,
+      // which has its own page.
       const { data: notebooksData, error: notebooksError } = await supabase
         .from('notebooks')
         .select('*')
+        .eq('workspace_id', currentWorkspaceId)
+        .is('deleted_at', null)
         .order('updated_at', { ascending: false });
 
       if (notebooksError) {
@@ -34,27 +44,59 @@ export const useNotebooks = () => {
         throw notebooksError;
       }
 
+      const { data: memberships, error: membershipsError } = await supabase
+        .from('notebook_members')
+        .select('notebook_id, role')
+        .eq('user_id', user.id);
+
+      if (membershipsError) {
+        console.error('Error fetching notebook memberships:', membershipsError);
+        throw membershipsError;
+      }
+
+      const memberRoles = new Map(memberships?.map(m => [m.notebook_id, m.role]));
+
+      // Used by the dashboard's source type filter
+      const { data: sourceTypes, error: sourceTypesError } = await supabase
+        .rpc('get_notebook_source_types', { p_workspace_id: currentWorkspaceId });
+
+      if (sourceTypesError) {
+        console.error('Error fetching notebook source types:', sourceTypesError);
+        throw sourceTypesError;
+      }
+
+      const notebookSourceTypes = new Map(sourceTypes?.map(t => [t.notebook_id, t.source_types]));
+
+      // Same precedence as notebook_role() in the database
+      const getRole = (notebook: { id: string; user_id: string }): NotebookRole => {
+        if (isWorkspaceAdmin || notebook.user_id === user.id) return 'owner';
+        return memberRoles.get(notebook.id) ?? 'viewer';
+      };
+
       // Get source counts separately for each notebook
       const notebooksWithCounts = await Promise.all(
         (notebooksData || []).map(async (notebook) => {
+          const role = getRole(notebook);
+          const source_types = notebookSourceTypes.get(notebook.id) ?? [];
           const { count, error: countError } = await supabase
             .from('sources')
             .select('*', { count: 'exact', head: true })
-            .eq('notebook_id', notebook.id);
+            .eq('notebook_id', notebook.id)
+            .is('deleted_at', null);
 
           if (countError) {
             console.error('Error fetching source count for notebook:', notebook.id, countError);
-            return { ...notebook, sources: [{ count: 0 }] };
+            return { ...notebook, role, source_types, sources: [{ count: 0 }] };
           }
 
-          return { ...notebook, sources: [{ count: count || 0 }] };
+          return { ...notebook, role, source_types, sources: [{ count: count || 0 }] };
         })
       );
 
       console.log('Fetched notebooks:', notebooksWithCounts?.length || 0);
       return notebooksWithCounts || [];
     },
-    enabled: isAuthenticated && !authLoading && !!userProfile,
+    enabled: isAuthenticated && !authLoading && !!userProfile && !!currentWorkspaceId,
     retry: (failureCount, error) => {
       if (error?.message?.includes('JWT') || error?.message?.includes('auth')) {
         return false;
@@ -83,7 +125,36 @@ export const useNotebooks = () => {
           console.log('Real-time notebook update received:', payload);
           
           // Invalidate and refetch notebooks when any change occurs
-          queryClient.invalidateQueries({ queryKey: ['notebooks', user.id, userProfile?.role] });
+          queryClient.invalidateQueries({ queryKey: ['notebooks', user.id] });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notebook_members',
+          filter: `user_id=eq.${user.id}`
+        },
+        (payload) => {
+          console.log('Real-time notebook membership update received:', payload);
+          queryClient.invalidateQueries({ queryKey: ['notebooks', user.id] });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'workspace_members',
+          filter: `user_id=eq.${user.id}`
+        },
+        (payload) => {
+          console.log('Real-time workspace membership update received:', payload);
+          queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+          queryClient.invalidateQueries({ queryKey: ['workspace-memberships'] });
+          queryClient.invalidateQueries({ queryKey: ['current-workspace'] });
+          queryClient.invalidateQueries({ queryKey: ['notebooks', user.id] });
         }
       )
       .subscribe();
@@ -105,6 +176,7 @@ export const useNotebooks = () => {
       }
 
       // Admin can create notebooks for other users, regular users create for themselves
+      // and become the owner
       const targetUserId = (userProfile?.role === 'admin' && notebookData.userId) 
         ? notebookData.userId 
         : user.id;
@@ -115,6 +187,7 @@ export const useNotebooks = () => {
           title: notebookData.title,
           description: notebookData.description,
           user_id: targetUserId,
+          workspace_id: currentWorkspaceId ?? undefined,
           generation_status: 'pending',
         })
         .select()
@@ -130,7 +203,7 @@ export const useNotebooks = () => {
     },
     onSuccess: (data) => {
       console.log('Mutation success, invalidating queries');
-      queryClient.invalidateQueries({ queryKey: ['notebooks', user?.id, userProfile?.role] });
+      queryClient.invalidateQueries({ queryKey: ['notebooks', user?.id] });
     },
     onError: (error) => {
       console.error('Mutation error:', error);
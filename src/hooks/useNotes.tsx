@@ -28,6 +28,7 @@ export const useNotes = (notebookId?: string) => {
         .from('notes')
         .select('*')
         .eq('user_id', user.id) // Filter by user_id instead of notebook_id
+        .is('deleted_at', null)
         .order('updated_at', { ascending: false });
       
       if (error) throw error;
@@ -90,12 +91,10 @@ export const useNotes = (notebookId?: string) => {
     },
   });
 
+  // Deleted notes go to the trash, where admins can restore them
   const deleteNoteMutation = useMutation({
     mutationFn: async (id: string) => {
-      const { error } = await supabase
-        .from('notes')
-        .delete()
-        .eq('id', id);
+      const { error } = await supabase.rpc('trash_note', { p_note_id: id });
       
       if (error) throw error;
     },
@@ -0,0 +1,74 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Tables } from '@/integrations/supabase/types';
+
+export type RoleSecurityPolicy = Tables<'role_security_policies'>;
+
+export const useSecurityPolicies = () => {
+  const { user, userProfile } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: policies = [], isLoading } = useQuery({
+    queryKey: ['role-security-policies'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('role_security_policies')
+        .select('*');
+
+      if (error) throw error;
+      return data as RoleSecurityPolicy[];
+    },
+    enabled: !!user,
+  });
+
+  const requiresMfa = (role: 'admin' | 'user') =>
+    policies.some(policy => policy.role === role && policy.require_mfa);
+
+  // Turning the requirement on is only accepted from an aal2 session
+  const updateRequireMfa = useMutation({
+    mutationFn: async ({ role, requireMfa }: { role: 'admin' | 'user'; requireMfa: boolean }) => {
+      console.log('Setting MFA requirement for role:', role, requireMfa);
+
+      const { data, error } = await supabase
+        .from('role_security_policies')
+        .update({ require_mfa: requireMfa, updated_by: userProfile?.id ?? null })
+        .eq('role', role)
+        .select();
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error('Verify your own sign-in with an authenticator app before changing this policy');
+      }
+
+      return data[0] as RoleSecurityPolicy;
+    },
+    onSuccess: (policy) => {
+      queryClient.invalidateQueries({ queryKey: ['role-security-policies'] });
+      toast({
+        title: 'Security Policy Updated',
+        description: policy.require_mfa
+          ? `Two-factor authentication is now required for the ${policy.role} role`
+          : `Two-factor authentication is now optional for the ${policy.role} role`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Error updating security policy:', error);
+      toast({
+        title: 'Update Failed',
+        description: error.message || 'Failed to update security policy',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    policies,
+    isLoading,
+    requiresMfa,
+    updateRequireMfa: updateRequireMfa.mutate,
+    isUpdating: updateRequireMfa.isPending,
+  };
+};
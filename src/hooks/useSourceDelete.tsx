@@ -12,65 +12,23 @@ export const useSourceDelete = () => {
   const deleteSource = useMutation({
     mutationFn: async (sourceId: string) => {
       console.log('Starting source deletion process for:', sourceId);
-      
-      try {
-        // First, get the source details including file information
-        const { data: source, error: fetchError } = await supabase
-          .from('sources')
-          .select('id, title, file_path, type')
-          .eq('id', sourceId)
-          .single();
-
-        if (fetchError) {
-          console.error('Error fetching source:', fetchError);
-          throw new Error('Failed to find source');
-        }
-
-        console.log('Found source to delete:', source.title, 'with file_path:', source.file_path);
 
-        // Delete the file from storage if it exists
-        if (source.file_path) {
-          console.log('Deleting file from storage:', source.file_path);
-          
-          const { error: storageError } = await supabase.storage
-            .from('sources')
-            .remove([source.file_path]);
+      // Moves the source to the trash; its embeddings stay out of retrieval
+      // until an admin restores it or it is deleted for good
+      const { data: title, error } = await supabase.rpc('trash_source', { p_source_id: sourceId });
 
-          if (storageError) {
-            console.error('Error deleting file from storage:', storageError);
-            // Don't throw here - we still want to delete the database record
-            // even if the file deletion fails (file might already be gone)
-          } else {
-            console.log('File deleted successfully from storage');
-          }
-        } else {
-          console.log('No file to delete from storage (URL-based source or no file_path)');
-        }
+      if (error) throw error;
 
-        // Delete the source record from the database
-        const { error: deleteError } = await supabase
-          .from('sources')
-          .delete()
-          .eq('id', sourceId);
-
-        if (deleteError) {
-          console.error('Error deleting source from database:', deleteError);
-          throw deleteError;
-        }
-        
-        console.log('Source deleted successfully from database');
-        return source;
-      } catch (error) {
-        console.error('Error in source deletion process:', error);
-        throw error;
-      }
+      console.log('Source moved to trash');
+      return { title };
     },
     onSuccess: (deletedSource) => {
       console.log('Delete mutation success, invalidating queries');
       queryClient.invalidateQueries({ queryKey: ['sources'] });
+      queryClient.invalidateQueries({ queryKey: ['notebooks', user?.id] });
       toast({
-        title: "Source deleted",
-        description: `"${deletedSource?.title || 'Source'}" has been successfully deleted.`,
+        title: "Source moved to trash",
+        description: `"${deletedSource?.title || 'Source'}" has been moved to the trash.`,
       });
     },
     onError: (error: any) => {
@@ -79,10 +37,8 @@ export const useSourceDelete = () => {
       let errorMessage = "Failed to delete the source. Please try again.";
       
       // Provide more specific error messages based on the error type
-      if (error?.code === 'PGRST116') {
+      if (error?.message?.includes('permission') || error?.message?.includes('not found')) {
         errorMessage = "Source not found or you don't have permission to delete it.";
-      } else if (error?.message?.includes('foreign key')) {
-        errorMessage = "Cannot delete source due to data dependencies. Please contact support.";
       } else if (error?.message?.includes('network')) {
         errorMessage = "Network error. Please check your connection and try again.";
       }
@@ -0,0 +1,125 @@
+
+import { useEffect, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { SourceJob } from '@/lib/sourceJobs';
+
+export const useSourceJobs = (notebookId?: string) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const {
+    data: jobs = [],
+    isLoading,
+  } = useQuery({
+    queryKey: ['source-jobs', notebookId],
+    queryFn: async () => {
+      if (!notebookId) return [];
+
+      const { data, error } = await supabase
+        .from('source_jobs')
+        .select('*')
+        .eq('notebook_id', notebookId);
+
+      if (error) throw error;
+      return (data || []) as SourceJob[];
+    },
+    enabled: !!notebookId && !!user,
+  });
+
+  // Stream stage changes while sources are being processed
+  useEffect(() => {
+    if (!notebookId || !user) return;
+
+    const channel = supabase
+      .channel(`source-jobs-changes-${notebookId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'source_jobs',
+          filter: `notebook_id=eq.${notebookId}`
+        },
+        (payload) => {
+          console.log('Realtime: Source job change received:', payload.eventType);
+
+          queryClient.setQueryData(['source-jobs', notebookId], (oldJobs: SourceJob[] = []) => {
+            if (payload.eventType === 'DELETE') {
+              const deletedJob = payload.old as Partial<SourceJob>;
+              return oldJobs.filter(job => job.id !== deletedJob.id);
+            }
+
+            const changedJob = payload.new as SourceJob;
+            const exists = oldJobs.some(job => job.id === changedJob.id);
+            return exists
+              ? oldJobs.map(job => job.id === changedJob.id ? changedJob : job)
+              : [...oldJobs, changedJob];
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [notebookId, user, queryClient]);
+
+  const jobsBySourceId = useMemo(
+    () => new Map(jobs.map(job => [job.source_id, job])),
+    [jobs]
+  );
+
+  // Resume a failed source from the stage that failed, reusing the uploaded file
+  const retrySource = useMutation({
+    mutationFn: async (source: { id: string; file_path: string | null; type: string }) => {
+      if (!source.file_path) {
+        throw new Error('This source has no stored file to retry from. Remove it and add it again.');
+      }
+
+      const { data: resumeFrom, error } = await supabase.rpc('retry_source_job', {
+        p_source_id: source.id
+      });
+
+      if (error) throw error;
+
+      if (resumeFrom === 'upload') {
+        throw new Error('The file never finished uploading. Remove this source and add the file again.');
+      }
+
+      console.log('Retrying source', source.id, 'from stage', resumeFrom);
+
+      const { error: invokeError } = await supabase.functions.invoke('process-document', {
+        body: {
+          sourceId: source.id,
+          filePath: source.file_path,
+          sourceType: source.type,
+          resumeFrom
+        }
+      });
+
+      if (invokeError) throw invokeError;
+      return resumeFrom;
+    },
+    onError: (error: Error) => {
+      console.error('Failed to retry source:', error);
+      toast({
+        title: "Retry failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    jobs,
+    jobsBySourceId,
+    isLoading,
+    retrySource: retrySource.mutate,
+    isRetrying: retrySource.isPending,
+    retryingSourceId: retrySource.isPending ? retrySource.variables?.id : undefined,
+  };
+};
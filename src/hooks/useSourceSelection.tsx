@@ -0,0 +1,45 @@
+
+import { useEffect, useState } from 'react';
+
+// Tracks which of a notebook's sources the chat should answer from.
+// Sources are selected by default, so we remember the ones that were unticked
+// and newly added sources are included automatically.
+export const useSourceSelection = (notebookId?: string, sources?: { id: string }[]) => {
+  const [excludedSourceIds, setExcludedSourceIds] = useState<Set<string>>(new Set());
+
+  // Reset the selection when switching notebooks
+  useEffect(() => {
+    setExcludedSourceIds(new Set());
+  }, [notebookId]);
+
+  const allSourceIds = sources?.map(source => source.id) || [];
+  const selectedSourceIds = allSourceIds.filter(id => !excludedSourceIds.has(id));
+
+  const isSourceSelected = (sourceId: string) => !excludedSourceIds.has(sourceId);
+
+  const toggleSource = (sourceId: string) => {
+    setExcludedSourceIds(prev => {
+      const next = new Set(prev);
+      if (next.has(sourceId)) {
+        next.delete(sourceId);
+      } else {
+        next.add(sourceId);
+      }
+      return next;
+    });
+  };
+
+  const setAllSourcesSelected = (selected: boolean) => {
+    setExcludedSourceIds(selected ? new Set() : new Set(allSourceIds));
+  };
+
+  return {
+    selectedSourceIds,
+    totalSourceCount: allSourceIds.length,
+    // null when every source is selected, so retrieval is not restricted
+    scopedSourceIds: selectedSourceIds.length === allSourceIds.length ? null : selectedSourceIds,
+    isSourceSelected,
+    toggleSource,
+    setAllSourcesSelected,
+  };
+};
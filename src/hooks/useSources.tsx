@@ -4,6 +4,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNotebookGeneration } from './useNotebookGeneration';
 import { useEffect } from 'react';
+import { isStructuredSourceType, SourceType } from '@/lib/sourceFormats';
 
 export const useSources = (notebookId?: string) => {
   const { user } = useAuth();
@@ -23,6 +24,7 @@ export const useSources = (notebookId?: string) => {
         .from('sources')
         .select('*')
         .eq('notebook_id', notebookId)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -99,7 +101,7 @@ export const useSources = (notebookId?: string) => {
     mutationFn: async (sourceData: {
       notebookId: string;
       title: string;
-      type: 'pdf' | 'text' | 'website' | 'youtube' | 'audio';
+      type: SourceType;
       content?: string;
       url?: string;
       file_path?: string;
@@ -155,7 +157,8 @@ export const useSources = (notebookId?: string) => {
             (newSource.type === 'text' && newSource.content) ||
             (newSource.type === 'website' && newSource.url) ||
             (newSource.type === 'youtube' && newSource.url) ||
-            (newSource.type === 'audio' && newSource.file_path);
+            (newSource.type === 'audio' && newSource.file_path) ||
+            (isStructuredSourceType(newSource.type) && newSource.file_path);
           
           if (canGenerate) {
             try {
@@ -0,0 +1,187 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+export type TrashItemType = 'notebook' | 'source' | 'note';
+
+export interface TrashItem {
+  item_type: TrashItemType;
+  item_id: string;
+  title: string;
+  notebook_id: string | null;
+  notebook_title: string | null;
+  workspace_name: string | null;
+  deleted_at: string;
+  deleted_by_email: string | null;
+  purge_at: string;
+}
+
+const restoreFunctions = {
+  notebook: (id: string) => supabase.rpc('restore_notebook', { p_notebook_id: id }),
+  source: (id: string) => supabase.rpc('restore_source', { p_source_id: id }),
+  note: (id: string) => supabase.rpc('restore_note', { p_note_id: id }),
+};
+
+const purgeBodies = {
+  notebook: (id: string) => ({ notebookId: id }),
+  source: (id: string) => ({ sourceId: id }),
+  note: (id: string) => ({ noteId: id }),
+};
+
+export const useTrash = () => {
+  const { isAdmin, userProfile } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: items = [], isLoading, error } = useQuery({
+    queryKey: ['trash'],
+    queryFn: async () => {
+      if (!isAdmin) {
+        throw new Error('Unauthorized: Admin access required');
+      }
+
+      const { data, error } = await supabase.rpc('get_trash');
+      if (error) throw error;
+      return (data ?? []) as TrashItem[];
+    },
+    enabled: isAdmin,
+  });
+
+  const { data: retentionDays } = useQuery({
+    queryKey: ['app-settings', 'trash-retention'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('trash_retention_days')
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.trash_retention_days ?? 30;
+    },
+    enabled: isAdmin,
+  });
+
+  // Restored items show up again wherever they were, so refresh those lists too
+  const invalidateContent = () => {
+    queryClient.invalidateQueries({ queryKey: ['trash'] });
+    queryClient.invalidateQueries({ queryKey: ['notebooks'] });
+    queryClient.invalidateQueries({ queryKey: ['sources'] });
+    queryClient.invalidateQueries({ queryKey: ['notes'] });
+  };
+
+  const restoreItem = useMutation({
+    mutationFn: async ({ type, id }: { type: TrashItemType; id: string }) => {
+      console.log('Restoring from trash:', type, id);
+
+      const { data, error } = await restoreFunctions[type](id);
+      if (error) throw error;
+      return data as string | null;
+    },
+    onSuccess: (title) => {
+      invalidateContent();
+      toast({
+        title: "Restored",
+        description: `"${title || 'Item'}" has been restored.`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Failed to restore from trash:', error);
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Permanent deletion also removes embeddings, files and chat citations,
+  // which delete-content takes care of
+  const purgeItem = useMutation({
+    mutationFn: async ({ type, id }: { type: TrashItemType; id: string }) => {
+      console.log('Permanently deleting:', type, id);
+
+      const { data, error } = await supabase.functions.invoke('delete-content', {
+        body: purgeBodies[type](id)
+      });
+
+      if (error) {
+        const body = error instanceof FunctionsHttpError
+          ? await error.context.json().catch(() => null)
+          : null;
+        throw new Error(body?.error || error.message);
+      }
+
+      return data.title as string | null;
+    },
+    onSuccess: (title) => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      // Citations of deleted sources were removed from chat history
+      queryClient.invalidateQueries({ queryKey: ['chat-messages'] });
+      toast({
+        title: "Permanently deleted",
+        description: `"${title || 'Item'}" has been permanently deleted.`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Failed to permanently delete:', error);
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRetention = useMutation({
+    mutationFn: async (days: number) => {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .update({ trash_retention_days: days, updated_by: userProfile?.id ?? null })
+        .eq('id', true)
+        .select();
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error('Verify your own sign-in with an authenticator app before changing this setting');
+      }
+
+      return days;
+    },
+    onSuccess: (days) => {
+      queryClient.invalidateQueries({ queryKey: ['app-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      toast({
+        title: "Retention updated",
+        description: `Items are now permanently deleted after ${days} day(s) in the trash.`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Failed to update trash retention:', error);
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pendingItemId = restoreItem.isPending
+    ? restoreItem.variables?.id
+    : purgeItem.isPending
+      ? purgeItem.variables?.id
+      : undefined;
+
+  return {
+    items,
+    isLoading,
+    error,
+    retentionDays: retentionDays ?? 30,
+    restoreItem: restoreItem.mutate,
+    purgeItem: purgeItem.mutate,
+    pendingItemId,
+    updateRetention: updateRetention.mutate,
+    isUpdatingRetention: updateRetention.isPending,
+  };
+};
@@ -1,4 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
@@ -170,6 +171,47 @@ export const useUserProfiles = () => {
     },
   });
 
+  // Invite user mutation. The send-invitation function creates the account
+  // and emails a link to set a password.
+  const inviteUserMutation = useMutation({
+    mutationFn: async ({ email, role }: { email: string; role: 'admin' | 'user' }) => {
+      if (!isAdmin) {
+        throw new Error('Unauthorized: Admin access required');
+      }
+
+      console.log('Inviting user:', email, 'as', role);
+
+      const { data, error } = await supabase.functions.invoke('send-invitation', {
+        body: { email, role }
+      });
+
+      if (error) {
+        const body = error instanceof FunctionsHttpError
+          ? await error.context.json().catch(() => null)
+          : null;
+        throw new Error(body?.error || error.message);
+      }
+
+      return { email, userId: data.userId as string };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['user-profiles'] });
+
+      toast({
+        title: 'Invitation Sent',
+        description: `An invitation has been emailed to ${data.email}`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Error inviting user:', error);
+      toast({
+        title: 'Invitation Failed',
+        description: error.message || 'Failed to send invitation',
+        variant: 'destructive',
+      });
+    },
+  });
+
   return {
     users,
     isLoading,
@@ -178,5 +220,7 @@ export const useUserProfiles = () => {
     isUpdating: updateUserRoleMutation.isPending,
     deleteUser: deleteUserMutation.mutate,
     isDeleting: deleteUserMutation.isPending,
+    inviteUser: inviteUserMutation.mutateAsync,
+    isInviting: inviteUserMutation.isPending,
   };
 };
\ No newline at end of file
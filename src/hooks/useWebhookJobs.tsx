@@ -0,0 +1,93 @@
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Tables } from '@/integrations/supabase/types';
+
+export type WebhookJob = Tables<'webhook_jobs'>;
+
+export const useWebhookJobs = () => {
+  const { isAdmin } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Jobs that ran out of attempts or failed permanently, newest first
+  const { data: deadJobs = [], isLoading, error } = useQuery({
+    queryKey: ['webhook-jobs', 'dead'],
+    queryFn: async () => {
+      if (!isAdmin) {
+        throw new Error('Unauthorized: Admin access required');
+      }
+
+      const { data, error } = await supabase
+        .from('webhook_jobs')
+        .select('*')
+        .eq('status', 'dead')
+        .order('dead_at', { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+      return data as WebhookJob[];
+    },
+    enabled: isAdmin,
+  });
+
+  const { data: pendingCount = 0 } = useQuery({
+    queryKey: ['webhook-jobs', 'pending-count'],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from('webhook_jobs')
+        .select('id', { count: 'exact', head: true })
+        .in('status', ['pending', 'running']);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+    enabled: isAdmin,
+  });
+
+  // Requeue a dead job and deliver it right away instead of waiting for the dispatcher
+  const redriveJob = useMutation({
+    mutationFn: async (jobId: string) => {
+      console.log('Re-driving webhook job:', jobId);
+
+      const { error } = await supabase.rpc('redrive_webhook_job', { p_job_id: jobId });
+      if (error) throw error;
+
+      const { data, error: dispatchError } = await supabase.functions.invoke('dispatch-webhook-jobs', {
+        body: { jobId }
+      });
+
+      if (dispatchError) throw dispatchError;
+      return data as { claimed: number; delivered: number };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-jobs'] });
+      toast({
+        title: result.delivered > 0 ? "Webhook delivered" : "Webhook requeued",
+        description: result.delivered > 0
+          ? "The job was delivered to n8n."
+          : "n8n is still unreachable, the job will keep retrying.",
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Failed to re-drive webhook job:', error);
+      queryClient.invalidateQueries({ queryKey: ['webhook-jobs'] });
+      toast({
+        title: "Re-drive failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    deadJobs,
+    pendingCount,
+    isLoading,
+    error,
+    redriveJob: redriveJob.mutate,
+    redrivingJobId: redriveJob.isPending ? redriveJob.variables : undefined,
+  };
+};
@@ -0,0 +1,169 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { WorkspaceRole } from '@/hooks/useWorkspaces';
+
+export interface WorkspaceMember {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+export interface WorkspaceUsage {
+  notebooks: number;
+  sources: number;
+  storage_bytes: number;
+  members: number;
+}
+
+export const useWorkspaceMembers = (workspaceId?: string | null) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: members = [], isLoading } = useQuery({
+    queryKey: ['workspace-members', workspaceId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_workspace_members', {
+        p_workspace_id: workspaceId!
+      });
+
+      if (error) {
+        console.error('Error fetching workspace members:', error);
+        throw error;
+      }
+
+      return (data ?? []) as WorkspaceMember[];
+    },
+    enabled: !!workspaceId,
+  });
+
+  const { data: usage = null } = useQuery({
+    queryKey: ['workspace-usage', workspaceId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_workspace_usage', {
+        p_workspace_id: workspaceId!
+      });
+
+      if (error) {
+        console.error('Error fetching workspace usage:', error);
+        throw error;
+      }
+
+      return (data?.[0] ?? null) as WorkspaceUsage | null;
+    },
+    enabled: !!workspaceId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['workspace-members', workspaceId] });
+    queryClient.invalidateQueries({ queryKey: ['workspace-usage', workspaceId] });
+  };
+
+  // Existing users are added right away, new addresses get an account invitation
+  const inviteMember = useMutation({
+    mutationFn: async ({ email, role }: { email: string; role: WorkspaceRole }) => {
+      console.log('Inviting', email, 'to workspace', workspaceId, 'as', role);
+
+      const { data, error } = await supabase.functions.invoke('send-invitation', {
+        body: { email, workspaceId, workspaceRole: role }
+      });
+
+      if (error) {
+        const body = error instanceof FunctionsHttpError
+          ? await error.context.json().catch(() => null)
+          : null;
+        throw new Error(body?.error || error.message);
+      }
+
+      return { email, status: data.status as 'added' | 'invited', emailSent: data.emailSent as boolean };
+    },
+    onSuccess: ({ email, status, emailSent }) => {
+      invalidate();
+      toast({
+        title: status === 'added' ? 'Member Added' : 'Invitation Sent',
+        description: status === 'added'
+          ? `${email} can now switch to this workspace.${emailSent ? '' : " We couldn't send them an email."}`
+          : `An invitation has been emailed to ${email}`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Error inviting workspace member:', error);
+      toast({
+        title: 'Invitation Failed',
+        description: error.message || 'Failed to invite member',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateMemberRole = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: WorkspaceRole }) => {
+      const { data, error } = await supabase
+        .from('workspace_members')
+        .update({ role })
+        .eq('workspace_id', workspaceId!)
+        .eq('user_id', userId)
+        .select();
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error("You can't change this member's role");
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['workspace-memberships'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error updating workspace member role:', error);
+      toast({
+        title: 'Update Failed',
+        description: error.message || 'Failed to update member role',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const removeMember = useMutation({
+    mutationFn: async (userId: string) => {
+      const { data, error } = await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('workspace_id', workspaceId!)
+        .eq('user_id', userId)
+        .select();
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error("This member can't be removed");
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['workspace-memberships'] });
+      queryClient.invalidateQueries({ queryKey: ['current-workspace'] });
+      queryClient.invalidateQueries({ queryKey: ['notebooks'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error removing workspace member:', error);
+      toast({
+        title: 'Remove Failed',
+        description: error.message || 'Failed to remove member',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    members,
+    usage,
+    isLoading,
+    inviteMember: inviteMember.mutateAsync,
+    isInviting: inviteMember.isPending,
+    updateMemberRole: updateMemberRole.mutate,
+    removeMember: removeMember.mutate,
+  };
+};
@@ -0,0 +1,78 @@
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+const MIN_QUERY_LENGTH = 2;
+
+export type SearchResultType = 'notebook' | 'source' | 'note';
+
+export interface WorkspaceSearchResult {
+  result_type: SearchResultType;
+  notebook_id: string | null;
+  notebook_title: string | null;
+  item_id: string;
+  title: string;
+  snippet: string;
+  rank: number;
+}
+
+export interface WorkspaceSearchGroup {
+  notebookId: string | null;
+  notebookTitle: string;
+  results: WorkspaceSearchResult[];
+}
+
+export const useWorkspaceSearch = (query: string) => {
+  const { user } = useAuth();
+  const trimmedQuery = query.trim();
+
+  const { data: results = [], isLoading, isFetching, error } = useQuery({
+    queryKey: ['workspace-search', trimmedQuery],
+    queryFn: async () => {
+      console.log('Searching workspace for:', trimmedQuery);
+
+      const { data, error } = await supabase.rpc('search_workspace', {
+        search_query: trimmedQuery,
+      });
+
+      if (error) {
+        console.error('Error searching workspace:', error);
+        throw error;
+      }
+
+      return (data ?? []) as WorkspaceSearchResult[];
+    },
+    enabled: !!user && trimmedQuery.length >= MIN_QUERY_LENGTH,
+    staleTime: 30 * 1000,
+  });
+
+  // Group hits by notebook, keeping the best ranked notebook first
+  const groups = useMemo(() => {
+    const byNotebook = new Map<string, WorkspaceSearchGroup>();
+
+    results.forEach(result => {
+      const key = result.notebook_id ?? 'no-notebook';
+      if (!byNotebook.has(key)) {
+        byNotebook.set(key, {
+          notebookId: result.notebook_id,
+          notebookTitle: result.notebook_title || 'Other notes',
+          results: [],
+        });
+      }
+      byNotebook.get(key)!.results.push(result);
+    });
+
+    return Array.from(byNotebook.values());
+  }, [results]);
+
+  return {
+    results,
+    groups,
+    isLoading: isLoading && trimmedQuery.length >= MIN_QUERY_LENGTH,
+    isFetching,
+    error,
+    canSearch: trimmedQuery.length >= MIN_QUERY_LENGTH,
+  };
+};
@@ -0,0 +1,193 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Tables } from '@/integrations/supabase/types';
+
+export type Workspace = Tables<'workspaces'>;
+export type WorkspaceRole = Tables<'workspace_members'>['role'];
+
+export type WorkspaceLimits = Pick<Workspace, 'max_notebooks' | 'max_sources' | 'max_storage_bytes' | 'max_members'>;
+
+// The workspaces the user belongs to (every workspace for admins) and the one
+// picked in the dashboard's switcher, which scopes notebooks, search and
+// "ask all notebooks" chat
+export const useWorkspaces = () => {
+  const { user, isAdmin } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: workspaces = [], isLoading: workspacesLoading } = useQuery({
+    queryKey: ['workspaces', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('workspaces')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching workspaces:', error);
+        throw error;
+      }
+
+      return data as Workspace[];
+    },
+    enabled: !!user,
+  });
+
+  const { data: memberships = [] } = useQuery({
+    queryKey: ['workspace-memberships', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('workspace_members')
+        .select('workspace_id, role')
+        .eq('user_id', user!.id);
+
+      if (error) {
+        console.error('Error fetching workspace memberships:', error);
+        throw error;
+      }
+
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  // Resolved by the database, which falls back to another workspace when the
+  // user has left the selected one
+  const { data: currentWorkspaceId = null, isLoading: currentLoading } = useQuery({
+    queryKey: ['current-workspace', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('current_workspace_id');
+
+      if (error) {
+        console.error('Error fetching current workspace:', error);
+        throw error;
+      }
+
+      return (data ?? null) as string | null;
+    },
+    enabled: !!user,
+  });
+
+  const invalidateWorkspaces = () => {
+    queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+    queryClient.invalidateQueries({ queryKey: ['workspace-memberships'] });
+    queryClient.invalidateQueries({ queryKey: ['current-workspace'] });
+  };
+
+  const switchWorkspace = useMutation({
+    mutationFn: async (workspaceId: string) => {
+      console.log('Switching to workspace:', workspaceId);
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ current_workspace_id: workspaceId })
+        .eq('id', user!.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['current-workspace'] });
+      queryClient.invalidateQueries({ queryKey: ['notebooks'] });
+      queryClient.invalidateQueries({ queryKey: ['workspace-search'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error switching workspace:', error);
+      toast({
+        title: 'Switch Failed',
+        description: error.message || 'Failed to switch workspace',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const createWorkspace = useMutation({
+    mutationFn: async (name: string) => {
+      if (!isAdmin) {
+        throw new Error('Unauthorized: Admin access required');
+      }
+
+      const { data, error } = await supabase
+        .from('workspaces')
+        .insert({ name, created_by: user!.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      // The creator administers the new workspace
+      const { error: memberError } = await supabase
+        .from('workspace_members')
+        .insert({ workspace_id: data.id, user_id: user!.id, role: 'admin' });
+
+      if (memberError) throw memberError;
+
+      return data as Workspace;
+    },
+    onSuccess: (workspace) => {
+      invalidateWorkspaces();
+      toast({
+        title: 'Workspace Created',
+        description: `${workspace.name} is ready. Invite people from its settings.`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Error creating workspace:', error);
+      toast({
+        title: 'Create Failed',
+        description: error.message || 'Failed to create workspace',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Workspace admins can rename, only admins can change the limits
+  const updateWorkspace = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<Pick<Workspace, 'name'> & WorkspaceLimits> }) => {
+      const { data, error } = await supabase
+        .from('workspaces')
+        .update(updates)
+        .eq('id', id)
+        .select();
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error("You can't change this workspace");
+      }
+    },
+    onSuccess: () => {
+      invalidateWorkspaces();
+      queryClient.invalidateQueries({ queryKey: ['workspace-usage'] });
+      toast({
+        title: 'Workspace Updated',
+        description: 'Your changes have been saved',
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Error updating workspace:', error);
+      toast({
+        title: 'Update Failed',
+        description: error.message || 'Failed to update workspace',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const currentWorkspace = workspaces.find(workspace => workspace.id === currentWorkspaceId) ?? null;
+  const membershipRole = memberships.find(m => m.workspace_id === currentWorkspaceId)?.role;
+
+  return {
+    workspaces,
+    currentWorkspace,
+    currentWorkspaceId,
+    isLoading: workspacesLoading || currentLoading,
+    isWorkspaceAdmin: isAdmin || membershipRole === 'admin',
+    switchWorkspace: switchWorkspace.mutate,
+    isSwitching: switchWorkspace.isPending,
+    createWorkspace: createWorkspace.mutateAsync,
+    isCreating: createWorkspace.isPending,
+    updateWorkspace: updateWorkspace.mutateAsync,
+    isUpdating: updateWorkspace.isPending,
+  };
+};
@@ -9,44 +9,542 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          id: boolean
+          trash_retention_days: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          trash_retention_days?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          trash_retention_days?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "app_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      callback_nonces: {
+        Row: {
+          callback: string
+          created_at: string
+          expires_at: string
+          id: string
+          nonce: string
+          target_id: string
+          used_at: string | null
+        }
+        Insert: {
+          callback: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          nonce: string
+          target_id: string
+          used_at?: string | null
+        }
+        Update: {
+          callback?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          nonce?: string
+          target_id?: string
+          used_at?: string | null
+        }
+        Relationships: []
+      }
+      chat_feedback: {
+        Row: {
+          answer: Json
+          citations: Json
+          comment: string | null
+          created_at: string
+          id: string
+          message_id: number | null
+          notebook_id: string
+          question: string | null
+          rating: string
+          thread_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          answer: Json
+          citations?: Json
+          comment?: string | null
+          created_at?: string
+          id?: string
+          message_id?: number | null
+          notebook_id: string
+          question?: string | null
+          rating: string
+          thread_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          answer?: Json
+          citations?: Json
+          comment?: string | null
+          created_at?: string
+          id?: string
+          message_id?: number | null
+          notebook_id?: string
+          question?: string | null
+          rating?: string
+          thread_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_feedback_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "n8n_chat_histories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_feedback_notebook_id_fkey"
+            columns: ["notebook_id"]
+            isOneToOne: false
+            referencedRelation: "notebooks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_feedback_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "chat_threads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_feedback_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_threads: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          id: string
+          notebook_id: string | null
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          notebook_id?: string | null
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          notebook_id?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_threads_notebook_id_fkey"
+            columns: ["notebook_id"]
+            isOneToOne: false
+            referencedRelation: "notebooks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_threads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
           content: string | null
           embedding: string | null
+          fts: unknown | null
           id: number
           metadata: Json | null
         }
         Insert: {
           content?: string | null
           embedding?: string | null
+          fts?: unknown | null
           id?: number
           metadata?: Json | null
         }
         Update: {
           content?: string | null
           embedding?: string | null
+          fts?: unknown | null
           id?: number
           metadata?: Json | null
         }
         Relationships: []
       }
+      mfa_backup_code_attempts: {
+        Row: {
+          attempted_at: string
+          id: string
+          success: boolean
+          user_id: string
+        }
+        Insert: {
+          attempted_at?: string
+          id?: string
+          success?: boolean
+          user_id: string
+        }
+        Update: {
+          attempted_at?: string
+          id?: string
+          success?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mfa_backup_code_attempts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mfa_backup_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mfa_backup_codes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       n8n_chat_histories: {
         Row: {
           id: number
+          is_active: boolean
           message: Json
+          parent_id: number | null
           session_id: string
         }
         Insert: {
           id?: number
+          is_active?: boolean
           message: Json
+          parent_id?: number | null
           session_id: string
         }
         Update: {
           id?: number
+          is_active?: boolean
           message?: Json
+          parent_id?: number | null
           session_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "n8n_chat_histories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "n8n_chat_histories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notebook_favorites: {
+        Row: {
+          created_at: string
+          notebook_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          notebook_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          notebook_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notebook_favorites_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notebook_favorites_notebook_id_fkey"
+            columns: ["notebook_id"]
+            isOneToOne: false
+            referencedRelation: "notebooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notebook_folders: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          parent_id: string | null
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notebook_folders_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notebook_folders_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "notebook_folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notebook_folders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notebook_invitations: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          notebook_id: string
+          role: 'editor' | 'viewer'
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          notebook_id: string
+          role: 'editor' | 'viewer'
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          notebook_id?: string
+          role?: 'editor' | 'viewer'
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notebook_invitations_notebook_id_fkey"
+            columns: ["notebook_id"]
+            isOneToOne: false
+            referencedRelation: "notebooks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notebook_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notebook_members: {
+        Row: {
+          created_at: string
+          invited_by: string | null
+          notebook_id: string
+          role: 'owner' | 'editor' | 'viewer'
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          invited_by?: string | null
+          notebook_id: string
+          role: 'owner' | 'editor' | 'viewer'
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          invited_by?: string | null
+          notebook_id?: string
+          role?: 'owner' | 'editor' | 'viewer'
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notebook_members_notebook_id_fkey"
+            columns: ["notebook_id"]
+            isOneToOne: false
+            referencedRelation: "notebooks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notebook_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notebook_members_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notebook_tags: {
+        Row: {
+          created_at: string
+          notebook_id: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          notebook_id: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          notebook_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notebook_tags_notebook_id_fkey"
+            columns: ["notebook_id"]
+            isOneToOne: false
+            referencedRelation: "notebooks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notebook_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notebook_visits: {
+        Row: {
+          last_opened_at: string
+          notebook_id: string
+          user_id: string
+        }
+        Insert: {
+          last_opened_at?: string
+          notebook_id: string
+          user_id: string
+        }
+        Update: {
+          last_opened_at?: string
+          notebook_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notebook_visits_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notebook_visits_notebook_id_fkey"
+            columns: ["notebook_id"]
+            isOneToOne: false
+            referencedRelation: "notebooks"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       notebooks: {
         Row: {
@@ -55,14 +553,23 @@ export type Database = {
           audio_url_expires_at: string | null
           color: string | null
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           example_questions: string[] | null
+          folder_id: string | null
           generation_status: string | null
           icon: string | null
           id: string
+          is_template: boolean
+          keyword_search_weight: number
+          search_vector: unknown | null
+          semantic_search_weight: number
           title: string
           updated_at: string
           user_id: string
+          visibility: 'private' | 'workspace'
+          workspace_id: string
         }
         Insert: {
           audio_overview_generation_status?: string | null
@@ -70,14 +577,23 @@ export type Database = {
           audio_url_expires_at?: string | null
           color?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           example_questions?: string[] | null
+          folder_id?: string | null
           generation_status?: string | null
           icon?: string | null
           id?: string
+          is_template?: boolean
+          keyword_search_weight?: number
+          search_vector?: unknown | null
+          semantic_search_weight?: number
           title: string
           updated_at?: string
           user_id: string
+          visibility?: 'private' | 'workspace'
+          workspace_id?: string
         }
         Update: {
           audio_overview_generation_status?: string | null
@@ -85,14 +601,23 @@ export type Database = {
           audio_url_expires_at?: string | null
           color?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           example_questions?: string[] | null
+          folder_id?: string | null
           generation_status?: string | null
           icon?: string | null
           id?: string
+          is_template?: boolean
+          keyword_search_weight?: number
+          search_vector?: unknown | null
+          semantic_search_weight?: number
           title?: string
           updated_at?: string
           user_id?: string
+          visibility?: 'private' | 'workspace'
+          workspace_id?: string
         }
         Relationships: [
           {
@@ -108,9 +633,12 @@ export type Database = {
         Row: {
           content: string
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           extracted_text: string | null
           id: string
           notebook_id: string
+          search_vector: unknown | null
           user_id: string  // Add this line
           source_type: string | null
           title: string
@@ -119,9 +647,12 @@ export type Database = {
         Insert: {
           content: string
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           extracted_text?: string | null
           id?: string
           notebook_id: string
+          search_vector?: unknown | null
           user_id: string  // Add this line
           source_type?: string | null
           title: string
@@ -130,9 +661,12 @@ export type Database = {
         Update: {
           content?: string
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           extracted_text?: string | null
           id?: string
           notebook_id?: string
+          search_vector?: unknown | null
           user_id?: string  // Add this line
           source_type?: string | null
           title?: string
@@ -155,13 +689,56 @@ export type Database = {
           },
         ]
       }
+      password_reset_tokens: {
+        Row: {
+          created_at: string
+          delivery: string
+          expires_at: string
+          id: string
+          ip_address: string | null
+          token_hash: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          delivery?: string
+          expires_at: string
+          id?: string
+          ip_address?: string | null
+          token_hash: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          delivery?: string
+          expires_at?: string
+          id?: string
+          ip_address?: string | null
+          token_hash?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "password_reset_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
           created_at: string
+          current_workspace_id: string | null
           email: string
           full_name: string | null
           id: string
+          recovery_method: 'security_question' | 'email' | 'both'
           role: 'admin' | 'user'
           security_question: string | null
           security_answer_hash: string | null
@@ -170,26 +747,62 @@ export type Database = {
         Insert: {
           avatar_url?: string | null
           created_at?: string
+          current_workspace_id?: string | null
           email: string
           full_name?: string | null
           id: string
+          recovery_method?: 'security_question' | 'email' | 'both'
+          role?: 'admin' | 'user'
+          security_question?: string | null
+          security_answer_hash?: string | null
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          current_workspace_id?: string | null
+          email?: string
+          full_name?: string | null
+          id?: string
+          recovery_method?: 'security_question' | 'email' | 'both'
           role?: 'admin' | 'user'
           security_question?: string | null
           security_answer_hash?: string | null
           updated_at?: string
         }
+        Relationships: []
+      }
+      role_security_policies: {
+        Row: {
+          created_at: string
+          require_mfa: boolean
+          role: 'admin' | 'user'
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          require_mfa?: boolean
+          role: 'admin' | 'user'
+          updated_at?: string
+          updated_by?: string | null
+        }
         Update: {
-          avatar_url?: string | null
           created_at?: string
-          email?: string
-          full_name?: string | null
-          id?: string
+          require_mfa?: boolean
           role?: 'admin' | 'user'
-          security_question?: string | null
-          security_answer_hash?: string | null
           updated_at?: string
+          updated_by?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "role_security_policies_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       security_question_attempts: {
         Row: {
@@ -223,10 +836,66 @@ export type Database = {
           },
         ]
       }
+      source_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          current_stage: string | null
+          error_message: string | null
+          id: string
+          notebook_id: string
+          source_id: string
+          stages: Json
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          current_stage?: string | null
+          error_message?: string | null
+          id?: string
+          notebook_id: string
+          source_id: string
+          stages?: Json
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          current_stage?: string | null
+          error_message?: string | null
+          id?: string
+          notebook_id?: string
+          source_id?: string
+          stages?: Json
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "source_jobs_notebook_id_fkey"
+            columns: ["notebook_id"]
+            isOneToOne: false
+            referencedRelation: "notebooks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "source_jobs_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: true
+            referencedRelation: "sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sources: {
         Row: {
           content: string | null
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           display_name: string | null
           file_path: string | null
           file_size: number | null
@@ -234,6 +903,7 @@ export type Database = {
           metadata: Json | null
           notebook_id: string
           processing_status: string | null
+          search_vector: unknown | null
           summary: string | null
           title: string
           type: Database["public"]["Enums"]["source_type"]
@@ -243,6 +913,8 @@ export type Database = {
         Insert: {
           content?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           display_name?: string | null
           file_path?: string | null
           file_size?: number | null
@@ -250,6 +922,7 @@ export type Database = {
           metadata?: Json | null
           notebook_id: string
           processing_status?: string | null
+          search_vector?: unknown | null
           summary?: string | null
           title: string
           type: Database["public"]["Enums"]["source_type"]
@@ -259,6 +932,8 @@ export type Database = {
         Update: {
           content?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           display_name?: string | null
           file_path?: string | null
           file_size?: number | null
@@ -266,6 +941,7 @@ export type Database = {
           metadata?: Json | null
           notebook_id?: string
           processing_status?: string | null
+          search_vector?: unknown | null
           summary?: string | null
           title?: string
           type?: Database["public"]["Enums"]["source_type"]
@@ -289,15 +965,401 @@ export type Database = {
           },
         ]
       }
+      storage_deletions: {
+        Row: {
+          attempts: number
+          bucket: 'sources' | 'audio'
+          created_at: string
+          id: number
+          is_prefix: boolean
+          last_error: string | null
+          path: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          bucket: 'sources' | 'audio'
+          created_at?: string
+          id?: number
+          is_prefix?: boolean
+          last_error?: string | null
+          path: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          bucket?: 'sources' | 'audio'
+          created_at?: string
+          id?: number
+          is_prefix?: boolean
+          last_error?: string | null
+          path?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          color: string
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          workspace_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          workspace_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tags_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tags_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          dead_at: string | null
+          id: string
+          idempotency_key: string
+          kind: string
+          last_error: string | null
+          last_status_code: number | null
+          locked_until: string | null
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          response: Json | null
+          status: string
+          target_ids: string[]
+          timeout_ms: number
+          updated_at: string
+          webhook_url_env: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          dead_at?: string | null
+          id?: string
+          idempotency_key: string
+          kind: string
+          last_error?: string | null
+          last_status_code?: number | null
+          locked_until?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload: Json
+          response?: Json | null
+          status?: string
+          target_ids?: string[]
+          timeout_ms?: number
+          updated_at?: string
+          webhook_url_env: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          dead_at?: string | null
+          id?: string
+          idempotency_key?: string
+          kind?: string
+          last_error?: string | null
+          last_status_code?: number | null
+          locked_until?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload?: Json
+          response?: Json | null
+          status?: string
+          target_ids?: string[]
+          timeout_ms?: number
+          updated_at?: string
+          webhook_url_env?: string
+        }
+        Relationships: []
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          role: 'admin' | 'member'
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          role?: 'admin' | 'member'
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: 'admin' | 'member'
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_default: boolean
+          max_members: number | null
+          max_notebooks: number | null
+          max_sources: number | null
+          max_storage_bytes: number | null
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_default?: boolean
+          max_members?: number | null
+          max_notebooks?: number | null
+          max_sources?: number | null
+          max_storage_bytes?: number | null
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_default?: boolean
+          max_members?: number | null
+          max_notebooks?: number | null
+          max_sources?: number | null
+          max_storage_bytes?: number | null
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspaces_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      n8n_chat_active_histories: {
+        Row: {
+          id: number | null
+          message: Json | null
+          session_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      begin_mfa_backup_code_attempt: {
+        Args: {
+          p_max_failures: number
+          p_user_id: string
+          p_window_seconds: number
+        }
+        Returns: {
+          attempt_id: string
+          locked: boolean
+          failures: number
+          locked_until: string
+        }[]
+      }
+      begin_security_question_attempt: {
+        Args: {
+          p_ip_address: string
+          p_max_failures: number
+          p_max_ip_failures: number
+          p_user_id: string
+          p_window_seconds: number
+        }
+        Returns: {
+          attempt_id: string
+          locked: boolean
+          failures: number
+          locked_until: string
+        }[]
+      }
       binary_quantize: {
         Args: { "": string } | { "": unknown }
         Returns: unknown
       }
+      branch_chat_message: {
+        Args: { message_id: number }
+        Returns: undefined
+      }
+      can_edit_notebook: {
+        Args: { p_notebook_id: string }
+        Returns: boolean
+      }
+      can_manage_notebook: {
+        Args: { p_notebook_id: string }
+        Returns: boolean
+      }
+      can_manage_source: {
+        Args: { p_source_id: string }
+        Returns: boolean
+      }
+      can_view_document: {
+        Args: { doc_metadata: Json }
+        Returns: boolean
+      }
+      can_view_notebook: {
+        Args: { p_notebook_id: string }
+        Returns: boolean
+      }
+      claim_webhook_jobs: {
+        Args: { p_limit?: number; p_job_id?: string }
+        Returns: Database["public"]["Tables"]["webhook_jobs"]["Row"][]
+      }
+      consume_callback_nonce: {
+        Args: { p_callback: string; p_target_id: string; p_nonce: string }
+        Returns: boolean
+      }
+      consume_mfa_backup_code: {
+        Args: { p_code_hash: string; p_user_id: string }
+        Returns: boolean
+      }
+      consume_password_reset_token: {
+        Args: { p_token_hash: string }
+        Returns: string
+      }
+      copy_notebook_documents: {
+        Args: {
+          p_from_notebook_id: string
+          p_source_ids: Json
+          p_to_notebook_id: string
+        }
+        Returns: number
+      }
+      current_workspace_id: {
+        Args: { p_user_id?: string }
+        Returns: string | null
+      }
+      delete_note: {
+        Args: { p_note_id: string }
+        Returns: string
+      }
+      delete_notebook: {
+        Args: { p_notebook_id: string }
+        Returns: string
+      }
+      delete_source: {
+        Args: { p_source_id: string }
+        Returns: string
+      }
+      filter_id_list: {
+        Args: { filter: Json; key: string }
+        Returns: string[]
+      }
+      get_expired_trash: {
+        Args: { p_limit?: number }
+        Returns: {
+          item_type: string
+          item_id: string
+        }[]
+      }
+      get_notebook_members: {
+        Args: { p_notebook_id: string }
+        Returns: {
+          user_id: string
+          email: string
+          full_name: string | null
+          role: string
+          created_at: string
+        }[]
+      }
+      get_notebook_source_types: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: {
+          notebook_id: string
+          source_types: string[]
+        }[]
+      }
+      get_trash: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          item_type: string
+          item_id: string
+          title: string
+          notebook_id: string
+          notebook_title: string
+          workspace_name: string
+          deleted_at: string
+          deleted_by_email: string
+          purge_at: string
+        }[]
+      }
+      get_workspace_members: {
+        Args: { p_workspace_id: string }
+        Returns: {
+          user_id: string
+          email: string
+          full_name: string | null
+          role: string
+          created_at: string
+        }[]
+      }
+      get_workspace_usage: {
+        Args: { p_workspace_id: string }
+        Returns: {
+          notebooks: number
+          sources: number
+          storage_bytes: number
+          members: number
+        }[]
+      }
       halfvec_avg: {
         Args: { "": number[] }
         Returns: unknown
@@ -330,6 +1392,36 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      hybrid_match_documents: {
+        Args: {
+          query_text: string
+          query_embedding: string
+          match_count?: number
+          filter?: Json
+          full_text_weight?: number
+          semantic_weight?: number
+          rrf_k?: number
+        }
+        Returns: {
+          id: number
+          content: string
+          metadata: Json
+          similarity: number
+          score: number
+        }[]
+      }
+      is_trash_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_workspace_admin: {
+        Args: { p_workspace_id: string }
+        Returns: boolean
+      }
+      is_workspace_member: {
+        Args: { p_workspace_id: string }
+        Returns: boolean
+      }
       ivfflat_bit_support: {
         Args: { "": unknown }
         Returns: unknown
@@ -359,6 +1451,63 @@ export type Database = {
           similarity: number
         }[]
       }
+      mfa_requirement_satisfied: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      notebook_role: {
+        Args: { p_notebook_id: string }
+        Returns: string | null
+      }
+      purge_orphaned_documents: {
+        Args: { p_limit?: number }
+        Returns: number
+      }
+      record_source_job_stage: {
+        Args: {
+          p_source_id: string
+          p_stage: string | null
+          p_status: string
+          p_error?: string | null
+        }
+        Returns: undefined
+      }
+      redrive_webhook_job: {
+        Args: { p_job_id: string }
+        Returns: undefined
+      }
+      restore_note: {
+        Args: { p_note_id: string }
+        Returns: string
+      }
+      restore_notebook: {
+        Args: { p_notebook_id: string }
+        Returns: string
+      }
+      restore_source: {
+        Args: { p_source_id: string }
+        Returns: string
+      }
+      retry_source_job: {
+        Args: { p_source_id: string }
+        Returns: string
+      }
+      search_workspace: {
+        Args: { search_query: string; result_limit?: number }
+        Returns: {
+          result_type: string
+          notebook_id: string | null
+          notebook_title: string | null
+          item_id: string
+          title: string
+          snippet: string
+          rank: number
+        }[]
+      }
+      switch_chat_message_version: {
+        Args: { message_id: number }
+        Returns: undefined
+      }
       sparsevec_out: {
         Args: { "": unknown }
         Returns: unknown
@@ -371,6 +1520,18 @@ export type Database = {
         Args: { "": unknown[] }
         Returns: number
       }
+      trash_note: {
+        Args: { p_note_id: string }
+        Returns: string
+      }
+      trash_notebook: {
+        Args: { p_notebook_id: string }
+        Returns: string
+      }
+      trash_source: {
+        Args: { p_source_id: string }
+        Returns: string
+      }
       vector_avg: {
         Args: { "": number[] }
         Returns: string
@@ -397,7 +1558,19 @@ export type Database = {
       }
     }
     Enums: {
-      source_type: "pdf" | "text" | "website" | "youtube" | "audio"
+      source_type:
+        | "pdf"
+        | "text"
+        | "website"
+        | "youtube"
+        | "audio"
+        | "docx"
+        | "pptx"
+        | "xlsx"
+        | "csv"
+        | "epub"
+        | "markdown"
+        | "html"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -513,7 +1686,20 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      source_type: ["pdf", "text", "website", "youtube", "audio"],
+      source_type: [
+        "pdf",
+        "text",
+        "website",
+        "youtube",
+        "audio",
+        "docx",
+        "pptx",
+        "xlsx",
+        "csv",
+        "epub",
+        "markdown",
+        "html",
+      ],
     },
   },
 } as const
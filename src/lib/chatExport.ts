@@ -0,0 +1,329 @@
+import { Citation, EnhancedChatMessage } from '@/types/message';
+import { describeSourceLocation, getSourceSections } from '@/lib/sourceFormats';
+
+// Serializers for exporting a chat conversation with its citations resolved
+// against the cited sources' text.
+
+export type ChatExportFormat = 'markdown' | 'html' | 'pdf';
+
+export interface ExportSource {
+  id: string;
+  title: string;
+  content: string | null;
+  metadata?: unknown;
+}
+
+interface Footnote {
+  number: number;
+  sourceTitle: string;
+  linesFrom?: number;
+  linesTo?: number;
+  // Slide, sheet row or chapter for structured sources
+  location?: string;
+  excerpt: string;
+}
+
+interface ExportBlock {
+  role: 'user' | 'assistant';
+  paragraphs: Array<{ text: string; footnotes: number[] }>;
+}
+
+interface ExportDocument {
+  title: string;
+  exportedAt: Date;
+  blocks: ExportBlock[];
+  footnotes: Footnote[];
+}
+
+// Pull the cited line range (1-based, inclusive) out of the source text
+export const getCitationExcerpt = (citation: Citation, source?: ExportSource): string => {
+  if (!source?.content) return '';
+
+  const from = citation.chunk_lines_from;
+  const to = citation.chunk_lines_to;
+  if (typeof from !== 'number' || typeof to !== 'number' || from < 1) return '';
+
+  return source.content.split('\n').slice(from - 1, to).join('\n').trim();
+};
+
+const getCitationLocation = (citation: Citation, source?: ExportSource) => {
+  const from = citation.chunk_lines_from;
+  const to = citation.chunk_lines_to;
+  if (typeof from !== 'number' || typeof to !== 'number' || getSourceSections(source?.metadata).length === 0) {
+    return undefined;
+  }
+
+  return describeSourceLocation(source?.metadata, from, to);
+};
+
+// Collect the source ids cited anywhere in the conversation
+export const getCitedSourceIds = (messages: EnhancedChatMessage[]): string[] => {
+  const ids = new Set<string>();
+  messages.forEach((msg) => {
+    if (typeof msg.message.content === 'object') {
+      msg.message.content.citations.forEach(citation => ids.add(citation.source_id));
+    }
+  });
+  return Array.from(ids);
+};
+
+// Flatten messages into paragraphs with conversation-wide footnote numbers.
+// Identical citations (same source and line range) share one footnote.
+const buildExportDocument = (title: string, messages: EnhancedChatMessage[], sources: ExportSource[]): ExportDocument => {
+  const sourceMap = new Map(sources.map(source => [source.id, source]));
+  const footnotes: Footnote[] = [];
+  const footnoteKeys = new Map<string, number>();
+
+  const getFootnoteNumber = (citation: Citation) => {
+    const key = `${citation.source_id}:${citation.chunk_lines_from}:${citation.chunk_lines_to}`;
+    const existing = footnoteKeys.get(key);
+    if (existing) return existing;
+
+    const source = sourceMap.get(citation.source_id);
+    const number = footnotes.length + 1;
+    footnotes.push({
+      number,
+      sourceTitle: source?.title || citation.source_title,
+      linesFrom: citation.chunk_lines_from,
+      linesTo: citation.chunk_lines_to,
+      location: getCitationLocation(citation, source),
+      excerpt: getCitationExcerpt(citation, source)
+    });
+    footnoteKeys.set(key, number);
+    return number;
+  };
+
+  const blocks = messages.map((msg): ExportBlock => {
+    const role = msg.message.type === 'human' ? 'user' : 'assistant';
+    const content = msg.message.content;
+
+    if (typeof content === 'string') {
+      return { role, paragraphs: [{ text: content, footnotes: [] }] };
+    }
+
+    return {
+      role,
+      paragraphs: content.segments.map((segment) => ({
+        text: segment.text,
+        footnotes: content.citations
+          .filter(citation => segment.citation_id !== undefined && citation.citation_id === segment.citation_id)
+          .map(getFootnoteNumber)
+      }))
+    };
+  });
+
+  return { title, exportedAt: new Date(), blocks, footnotes };
+};
+
+const formatLineRange = (footnote: Footnote) => {
+  if (footnote.location) return footnote.location;
+  if (typeof footnote.linesFrom !== 'number' || typeof footnote.linesTo !== 'number') return '';
+  return `lines ${footnote.linesFrom}–${footnote.linesTo}`;
+};
+
+const roleLabel = (role: ExportBlock['role']) => role === 'user' ? 'You' : 'Assistant';
+
+export const chatToMarkdown = (title: string, messages: EnhancedChatMessage[], sources: ExportSource[]): string => {
+  const doc = buildExportDocument(title, messages, sources);
+  const lines: string[] = [`# ${doc.title}`, '', `_Exported ${doc.exportedAt.toLocaleString()}_`, ''];
+
+  doc.blocks.forEach((block) => {
+    lines.push(`### ${roleLabel(block.role)}`, '');
+    block.paragraphs.forEach((paragraph) => {
+      const refs = paragraph.footnotes.map(number => `[^${number}]`).join('');
+      lines.push(`${paragraph.text.trim()}${refs}`, '');
+    });
+  });
+
+  if (doc.footnotes.length > 0) {
+    lines.push('---', '');
+    doc.footnotes.forEach((footnote) => {
+      const range = formatLineRange(footnote);
+      lines.push(`[^${footnote.number}]: **${footnote.sourceTitle}**${range ? `, ${range}` : ''}`);
+      if (footnote.excerpt) {
+        // Indent so the quoted excerpt stays part of the footnote
+        footnote.excerpt.split('\n').forEach(line => lines.push(`    > ${line}`));
+      }
+      lines.push('');
+    });
+  }
+
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Mirror the small markdown subset MarkdownRenderer supports (bold, line breaks)
+const inlineMarkdownToHtml = (text: string) =>
+  escapeHtml(text)
+    .replace(/\*\*(.*?)\*\*|__(.*?)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/\n/g, '<br />');
+
+export const chatToHtml = (title: string, messages: EnhancedChatMessage[], sources: ExportSource[]): string => {
+  const doc = buildExportDocument(title, messages, sources);
+
+  const body = doc.blocks.map((block) => {
+    const paragraphs = block.paragraphs.flatMap((paragraph) => {
+      const parts = paragraph.text.split('\n\n').filter(part => part.trim());
+      const refs = paragraph.footnotes
+        .map(number => `<sup><a href="#fn-${number}">[${number}]</a></sup>`)
+        .join('');
+      return parts.map((part, index) => `<p>${inlineMarkdownToHtml(part.trim())}${index === parts.length - 1 ? refs : ''}</p>`);
+    });
+
+    return `<section class="message ${block.role}">
+  <h3>${roleLabel(block.role)}</h3>
+  ${paragraphs.join('\n  ')}
+</section>`;
+  }).join('\n');
+
+  const footnotes = doc.footnotes.length > 0
+    ? `<hr />
+<ol class="footnotes">
+${doc.footnotes.map((footnote) => {
+  const range = formatLineRange(footnote);
+  return `  <li id="fn-${footnote.number}">
+    <strong>${escapeHtml(footnote.sourceTitle)}</strong>${range ? `, ${range}` : ''}
+    ${footnote.excerpt ? `<blockquote>${escapeHtml(footnote.excerpt).replace(/\n/g, '<br />')}</blockquote>` : ''}
+  </li>`;
+}).join('\n')}
+</ol>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(doc.title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #1f2937; max-width: 768px; margin: 40px auto; padding: 0 24px; line-height: 1.6; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  .meta { color: #6b7280; font-size: 14px; margin-bottom: 32px; }
+  h3 { font-size: 14px; text-transform: uppercase; letter-spacing: 0.05em; color: #6b7280; margin-bottom: 8px; }
+  .message { margin-bottom: 24px; }
+  .message.user p { background: #eff6ff; border-radius: 8px; padding: 8px 12px; }
+  sup a { color: #2563eb; text-decoration: none; }
+  .footnotes { font-size: 14px; }
+  .footnotes li { margin-bottom: 12px; }
+  blockquote { margin: 6px 0 0; padding: 6px 12px; border-left: 3px solid #d1d5db; color: #4b5563; background: #f9fafb; }
+  @media print { body { margin: 0 auto; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(doc.title)}</h1>
+<div class="meta">Exported ${escapeHtml(doc.exportedAt.toLocaleString())}</div>
+${body}
+${footnotes}
+</body>
+</html>
+`;
+};
+
+// Trigger a browser download for generated content
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// jsPDF's built-in fonts only cover Latin-1, so fold common punctuation to
+// ASCII and replace anything else that can't be drawn
+const toPdfText = (text: string) =>
+  text
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/\u2026/g, '...')
+    .replace(/[^\n\t\x20-\x7e\xa0-\xff]/g, '?');
+
+// The PDF has no inline styling, so drop the bold markers the HTML export renders
+const stripInlineMarkdown = (text: string) => text.replace(/\*\*(.*?)\*\*|__(.*?)__/g, (_, a, b) => a ?? b);
+
+export const chatToPdf = async (title: string, messages: EnhancedChatMessage[], sources: ExportSource[]): Promise<Blob> => {
+  const { jsPDF } = await import('jspdf');
+  const doc = buildExportDocument(title, messages, sources);
+  const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+
+  const margin = 56;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      pdf.addPage();
+      y = margin;
+    }
+  };
+
+  // Write wrapped text line by line so long paragraphs can break across pages
+  const writeText = (text: string, options: { size: number; style?: 'normal' | 'bold' | 'italic'; color?: number; indent?: number; spacingAfter?: number }) => {
+    const { size, style = 'normal', color = 31, indent = 0, spacingAfter = 0 } = options;
+    const lineHeight = size * 1.4;
+    pdf.setFont('helvetica', style);
+    pdf.setFontSize(size);
+    pdf.setTextColor(color);
+
+    const lines: string[] = pdf.splitTextToSize(toPdfText(text), contentWidth - indent);
+    lines.forEach((line) => {
+      ensureSpace(lineHeight);
+      pdf.text(line, margin + indent, y + size);
+      y += lineHeight;
+    });
+    y += spacingAfter;
+  };
+
+  writeText(doc.title, { size: 18, style: 'bold', spacingAfter: 2 });
+  writeText(`Exported ${doc.exportedAt.toLocaleString()}`, { size: 10, color: 107, spacingAfter: 20 });
+
+  doc.blocks.forEach((block) => {
+    writeText(roleLabel(block.role).toUpperCase(), { size: 9, style: 'bold', color: 107, spacingAfter: 4 });
+    block.paragraphs.forEach((paragraph) => {
+      const refs = paragraph.footnotes.map(number => `[${number}]`).join('');
+      const text = stripInlineMarkdown(paragraph.text.trim());
+      if (!text && !refs) return;
+      writeText(`${text}${refs ? ` ${refs}` : ''}`, { size: 11, spacingAfter: 6 });
+    });
+    y += 12;
+  });
+
+  if (doc.footnotes.length > 0) {
+    ensureSpace(24);
+    pdf.setDrawColor(209);
+    pdf.line(margin, y, pageWidth - margin, y);
+    y += 16;
+
+    doc.footnotes.forEach((footnote) => {
+      const range = formatLineRange(footnote);
+      writeText(`${footnote.number}. ${footnote.sourceTitle}${range ? `, ${range}` : ''}`, { size: 10, style: 'bold', spacingAfter: 2 });
+      if (footnote.excerpt) {
+        writeText(footnote.excerpt, { size: 9, style: 'italic', color: 75, indent: 14 });
+      }
+      y += 10;
+    });
+  }
+
+  return pdf.output('blob');
+};
+
+// Build a filesystem-friendly file name from the conversation title
+export const getExportFileName = (title: string, extension: string) => {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'chat'}.${extension}`;
+};
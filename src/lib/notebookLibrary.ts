@@ -0,0 +1,53 @@
+// Shared pieces of the dashboard's notebook library: which list is shown, the
+// filters on top of it and the folder tree in the sidebar
+
+export type LibraryView =
+  | { type: 'all' }
+  | { type: 'favorites' }
+  | { type: 'recent' }
+  | { type: 'folder'; folderId: string };
+
+export interface LibraryFilters {
+  tagId: string | null;
+  sourceType: string | null;
+  ownerId: string | null;
+}
+
+export const EMPTY_LIBRARY_FILTERS: LibraryFilters = {
+  tagId: null,
+  sourceType: null,
+  ownerId: null,
+};
+
+// dataTransfer type of a notebook card being dragged onto a folder
+export const NOTEBOOK_DRAG_TYPE = 'application/x-insightslm-notebook';
+
+interface FolderLike {
+  id: string;
+  parent_id: string | null;
+}
+
+// Folder id (or null for the top level) -> its subfolders, in the order given
+export const getFolderChildren = <T extends FolderLike>(folders: T[]) => {
+  const children = new Map<string | null, T[]>();
+  for (const folder of folders) {
+    // Subfolders whose parent isn't visible are shown at the top level
+    const parentId = folders.some(f => f.id === folder.parent_id) ? folder.parent_id : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), folder]);
+  }
+  return children;
+};
+
+// The folder and its parents, outermost first, for breadcrumbs
+export const getFolderPath = <T extends FolderLike>(folders: T[], folderId: string) => {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const path: T[] = [];
+  let current = byId.get(folderId);
+
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return path;
+};
@@ -0,0 +1,107 @@
+// Best-effort parsing for JSON documents that are still being streamed in.
+// The received prefix is closed off (open strings, objects and arrays) so it can
+// be parsed; if that fails we back up to the last structural boundary and retry.
+// The scan state is kept between chunks, so each chunk is only scanned once.
+
+interface ScanState {
+  // Closing characters of the open objects and arrays, innermost last
+  stack: string[];
+  inString: boolean;
+  pendingEscape: boolean;
+}
+
+export interface PartialJsonParser<T> {
+  // Everything pushed so far
+  readonly text: string;
+  push: (chunk: string) => void;
+  parse: () => T | null;
+}
+
+const closeJson = (raw: string, { stack, inString, pendingEscape }: ScanState): string => {
+  let closed = raw;
+
+  if (inString) {
+    if (pendingEscape) closed = closed.slice(0, -1);
+    closed += '"';
+  }
+
+  closed = closed.trimEnd();
+  if (closed.endsWith(',')) closed = closed.slice(0, -1);
+  if (closed.endsWith(':')) closed += 'null';
+
+  return closed + [...stack].reverse().join('');
+};
+
+const tryParse = <T>(text: string): T | null => {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+};
+
+export const createPartialJsonParser = <T = unknown>(): PartialJsonParser<T> => {
+  let raw = '';
+  const state: ScanState = { stack: [], inString: false, pendingEscape: false };
+  // The last point the prefix can be cut at, with the containers open there
+  let lastCut: { index: number; stack: string[] } | null = null;
+
+  const push = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (state.inString) {
+        if (state.pendingEscape) {
+          state.pendingEscape = false;
+        } else if (char === '\\') {
+          state.pendingEscape = true;
+        } else if (char === '"') {
+          state.inString = false;
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          state.inString = true;
+          break;
+        case '{':
+        case '[':
+          state.stack.push(char === '{' ? '}' : ']');
+          lastCut = { index: raw.length + i + 1, stack: [...state.stack] };
+          break;
+        case '}':
+        case ']':
+          state.stack.pop();
+          break;
+        case ',':
+          lastCut = { index: raw.length + i, stack: [...state.stack] };
+          break;
+      }
+    }
+
+    raw += chunk;
+  };
+
+  const parse = () => {
+    if (!raw.trim()) return null;
+
+    const parsed = tryParse<T>(closeJson(raw, state));
+    if (parsed !== null || !lastCut) return parsed;
+
+    // e.g. a number, literal or key that is only partly there
+    return tryParse<T>(closeJson(raw.slice(0, lastCut.index), {
+      stack: lastCut.stack,
+      inString: false,
+      pendingEscape: false
+    }));
+  };
+
+  return {
+    get text() {
+      return raw;
+    },
+    push,
+    parse,
+  };
+};
@@ -0,0 +1,54 @@
+// Helpers for rendering search_workspace results and locating a hit inside a
+// source's text.
+
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+const MARK_PATTERN = /<mark>(.*?)<\/mark>/gs;
+
+// Split a ts_headline snippet into plain and highlighted parts so it can be
+// rendered as text instead of injected HTML
+export const splitHighlightedSnippet = (snippet: string): SnippetPart[] => {
+  const parts: SnippetPart[] = [];
+  let lastIndex = 0;
+
+  for (const match of snippet.matchAll(MARK_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > lastIndex) {
+      parts.push({ text: snippet.slice(lastIndex, start), highlighted: false });
+    }
+    parts.push({ text: match[1], highlighted: true });
+    lastIndex = start + match[0].length;
+  }
+
+  if (lastIndex < snippet.length) {
+    parts.push({ text: snippet.slice(lastIndex), highlighted: false });
+  }
+
+  return parts;
+};
+
+// Words from a search query, ignoring websearch operators and quotes
+export const getSearchTerms = (query: string): string[] => {
+  return query
+    .toLowerCase()
+    .replace(/["()]/g, ' ')
+    .split(/\s+/)
+    .filter(term => term.length > 1 && term !== 'or' && !term.startsWith('-'));
+};
+
+// 1-based number of the first line containing any of the terms, matching the
+// line numbering used for citations
+export const findFirstMatchingLine = (content: string, terms: string[]): number | null => {
+  if (terms.length === 0) return null;
+
+  const lines = content.split('\n');
+  const index = lines.findIndex(line => {
+    const lowerLine = line.toLowerCase();
+    return terms.some(term => lowerLine.includes(term));
+  });
+
+  return index === -1 ? null : index + 1;
+};
@@ -0,0 +1,97 @@
+// Helpers for the file formats a source can be uploaded as, and for naming a
+// location inside a structured source (slide, sheet row, chapter, heading).
+import { Database } from '@/integrations/supabase/types';
+
+export type SourceType = Database['public']['Enums']['source_type'];
+
+// Formats that process-document flattens to text with a section map in
+// sources.metadata.sections (see supabase/functions/_shared/ai/formats.ts)
+export const STRUCTURED_SOURCE_TYPES: SourceType[] = ['docx', 'pptx', 'xlsx', 'csv', 'epub', 'markdown', 'html'];
+
+export const SOURCE_FILE_ACCEPT = '.pdf,.txt,.md,.markdown,.docx,.pptx,.xlsx,.csv,.epub,.html,.htm,.mp3,.wav,.m4a';
+
+const EXTENSION_TYPES: Record<string, SourceType> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  pptx: 'pptx',
+  xlsx: 'xlsx',
+  csv: 'csv',
+  epub: 'epub',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+};
+
+export interface SourceSection {
+  kind: 'heading' | 'slide' | 'sheet' | 'chapter';
+  label: string;
+  linesFrom: number;
+  linesTo: number;
+  rowOffset?: number;
+}
+
+export const isStructuredSourceType = (type: string) => STRUCTURED_SOURCE_TYPES.includes(type as SourceType);
+
+// Pick the source type for an uploaded file, by extension first since browsers
+// often report office and markdown files without a useful MIME type
+export const getFileSourceType = (file: File): SourceType => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (EXTENSION_TYPES[extension]) return EXTENSION_TYPES[extension];
+
+  if (file.type.includes('pdf')) return 'pdf';
+  if (file.type.includes('audio')) return 'audio';
+  if (file.type.includes('csv')) return 'csv';
+  if (file.type.includes('html')) return 'html';
+  return 'text';
+};
+
+export const getSourceSections = (metadata: unknown): SourceSection[] => {
+  if (!metadata || typeof metadata !== 'object') return [];
+  const sections = (metadata as { sections?: unknown }).sections;
+  return Array.isArray(sections) ? (sections as SourceSection[]) : [];
+};
+
+const describeSection = (section: SourceSection, linesFrom: number, linesTo: number) => {
+  switch (section.kind) {
+    case 'slide':
+      return `Slide ${section.label}`;
+    case 'sheet': {
+      // The first line of a sheet is its heading, rows start after it
+      const offset = section.rowOffset ?? 0;
+      const rowFrom = Math.max(linesFrom, section.linesFrom + 1) - offset;
+      const rowTo = Math.min(linesTo, section.linesTo) - offset;
+      if (rowTo < rowFrom) return `Sheet ${section.label}`;
+      return rowFrom === rowTo
+        ? `Sheet ${section.label}, row ${rowFrom}`
+        : `Sheet ${section.label}, rows ${rowFrom}-${rowTo}`;
+    }
+    default:
+      return section.label;
+  }
+};
+
+// Name the location of a line range, e.g. "Slide 7", "Slides 7-8" or
+// "Sheet Q3, row 40". Falls back to the line range for unstructured sources.
+export const describeSourceLocation = (metadata: unknown, linesFrom: number, linesTo: number) => {
+  const sections = getSourceSections(metadata).filter(
+    section => section.linesFrom <= linesTo && section.linesTo >= linesFrom
+  );
+
+  if (sections.length === 0) {
+    return `Lines ${linesFrom}-${linesTo}`;
+  }
+
+  const first = sections[0];
+  const last = sections[sections.length - 1];
+
+  if (sections.length > 1 && first.kind === 'slide' && last.kind === 'slide') {
+    return `Slides ${first.label}-${last.label}`;
+  }
+
+  if (sections.length > 1) {
+    return `${describeSection(first, linesFrom, linesTo)} – ${describeSection(last, linesFrom, linesTo)}`;
+  }
+
+  return describeSection(first, linesFrom, linesTo);
+};
@@ -0,0 +1,75 @@
+// Helpers for showing a source's ingestion job (the source_jobs table):
+// which stage it is in, how long each stage took and why it failed.
+import { Tables } from '@/integrations/supabase/types';
+
+export type SourceStage = 'upload' | 'extract' | 'chunk' | 'embed' | 'summarize';
+
+export const SOURCE_STAGES: SourceStage[] = ['upload', 'extract', 'chunk', 'embed', 'summarize'];
+
+export interface SourceStageState {
+  status: 'running' | 'completed' | 'failed';
+  started_at?: string;
+  finished_at?: string;
+  error?: string | null;
+}
+
+export type SourceJob = Omit<Tables<'source_jobs'>, 'stages'> & {
+  stages: Partial<Record<SourceStage, SourceStageState>>;
+};
+
+const STAGE_LABELS: Record<SourceStage, string> = {
+  upload: 'Upload',
+  extract: 'Extract',
+  chunk: 'Chunk',
+  embed: 'Embed',
+  summarize: 'Summarize',
+};
+
+const RUNNING_LABELS: Record<SourceStage, string> = {
+  upload: 'Uploading',
+  extract: 'Extracting text',
+  chunk: 'Chunking',
+  embed: 'Embedding',
+  summarize: 'Summarizing',
+};
+
+export const getStageLabel = (stage: SourceStage) => STAGE_LABELS[stage] ?? stage;
+
+export const getStageDurationMs = (state?: SourceStageState) => {
+  if (!state?.started_at || !state.finished_at) return null;
+  return new Date(state.finished_at).getTime() - new Date(state.started_at).getTime();
+};
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+// The stages this job went through, from the first one it reported
+export const getJobStages = (job: SourceJob) => {
+  const firstIndex = SOURCE_STAGES.findIndex(stage => job.stages[stage]);
+  return firstIndex === -1 ? [] : SOURCE_STAGES.slice(firstIndex);
+};
+
+// One-line status for the sources list, e.g. "Embedding (4/5)" or "Failed at Embed: quota exceeded"
+export const describeSourceJob = (job: SourceJob) => {
+  const stage = job.current_stage as SourceStage | null;
+  if (job.status === 'failed') {
+    const reason = job.error_message || 'Unknown error';
+    return stage ? `Failed at ${getStageLabel(stage)}: ${reason}` : `Failed: ${reason}`;
+  }
+
+  if (job.status === 'completed' || !stage) return null;
+
+  return `${RUNNING_LABELS[stage] ?? stage} (${SOURCE_STAGES.indexOf(stage) + 1}/${SOURCE_STAGES.length})`;
+};
+
+// Per-stage timing, e.g. "Upload 1.2s · Extract 3.4s · Chunk pending"
+export const describeStageTimings = (job: SourceJob) => {
+  return getJobStages(job).map(stage => {
+    const state = job.stages[stage];
+    if (!state) return `${getStageLabel(stage)} pending`;
+
+    const duration = getStageDurationMs(state);
+    if (state.status === 'running') return `${getStageLabel(stage)} running`;
+    if (state.status === 'failed') return `${getStageLabel(stage)} failed`;
+    return duration === null ? getStageLabel(stage) : `${getStageLabel(stage)} ${formatDuration(duration)}`;
+  }).join(' · ');
+};
@@ -0,0 +1,34 @@
+// Colours a tag can have, as stored in tags.color, with the classes used to
+// draw its badge and its dot in the dashboard's sidebar
+
+export const TAG_COLORS = ['gray', 'red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink'] as const;
+
+export type TagColor = typeof TAG_COLORS[number];
+
+const TAG_BADGE_CLASSES: Record<TagColor, string> = {
+  gray: 'bg-gray-100 text-gray-700',
+  red: 'bg-red-100 text-red-700',
+  orange: 'bg-orange-100 text-orange-700',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  green: 'bg-green-100 text-green-700',
+  blue: 'bg-blue-100 text-blue-700',
+  purple: 'bg-purple-100 text-purple-700',
+  pink: 'bg-pink-100 text-pink-700',
+};
+
+const TAG_DOT_CLASSES: Record<TagColor, string> = {
+  gray: 'bg-gray-400',
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  yellow: 'bg-yellow-400',
+  green: 'bg-green-500',
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+  pink: 'bg-pink-500',
+};
+
+const isTagColor = (color: string): color is TagColor => (TAG_COLORS as readonly string[]).includes(color);
+
+export const getTagBadgeClass = (color: string) => TAG_BADGE_CLASSES[isTagColor(color) ? color : 'gray'];
+
+export const getTagDotClass = (color: string) => TAG_DOT_CLASSES[isTagColor(color) ? color : 'gray'];
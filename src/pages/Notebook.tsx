@@ -1,31 +1,76 @@
 
-import React, { useState } from 'react';
-import { useParams } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { ChevronLeft, ChevronRight, FileText, NotebookPen } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useNotebooks } from '@/hooks/useNotebooks';
 import { useSources } from '@/hooks/useSources';
 import { useIsDesktop } from '@/hooks/useIsDesktop';
+import { useSourceSelection } from '@/hooks/useSourceSelection';
+import { useNotebookFavorites } from '@/hooks/useNotebookFavorites';
 import NotebookHeader from '@/components/notebook/NotebookHeader';
 import SourcesSidebar from '@/components/notebook/SourcesSidebar';
 import ChatArea from '@/components/notebook/ChatArea';
 import StudioSidebar from '@/components/notebook/StudioSidebar';
 import MobileNotebookTabs from '@/components/notebook/MobileNotebookTabs';
 import { Citation } from '@/types/message';
+import { findFirstMatchingLine, getSearchTerms } from '@/lib/searchHighlight';
+import { describeSourceLocation } from '@/lib/sourceFormats';
 
 const Notebook = () => {
   const { id: notebookId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [openedFromSearch] = useState(() => searchParams.has('source'));
   const { notebooks } = useNotebooks();
   const { sources } = useSources(notebookId);
   const [selectedCitation, setSelectedCitation] = useState<Citation | null>(null);
   const [isSourcesCollapsed, setIsSourcesCollapsed] = useState(false);
   const [isStudioCollapsed, setIsStudioCollapsed] = useState(false);
   const isDesktop = useIsDesktop();
+  const { recordVisit } = useNotebookFavorites();
+  const {
+    scopedSourceIds,
+    isSourceSelected,
+    toggleSource,
+    setAllSourcesSelected
+  } = useSourceSelection(notebookId, sources);
 
   const notebook = notebooks?.find(n => n.id === notebookId);
   const hasSource = sources && sources.length > 0;
   const isSourceDocumentOpen = !!selectedCitation;
 
+  // Opened from search or a workspace chat citation: show the source at the
+  // cited lines (?lines=from-to) or at the first search hit (?q=)
+  useEffect(() => {
+    const sourceId = searchParams.get('source');
+    if (!sourceId || !sources?.length) return;
+
+    const source = sources.find(s => s.id === sourceId);
+    if (source) {
+      const [linesFrom, linesTo] = (searchParams.get('lines') ?? '').split('-').map(Number);
+      const line = linesFrom
+        ? null
+        : findFirstMatchingLine(source.content ?? '', getSearchTerms(searchParams.get('q') ?? ''));
+      setSelectedCitation({
+        citation_id: -1,
+        source_id: source.id,
+        source_title: source.title,
+        source_type: source.type,
+        chunk_lines_from: linesFrom || line || undefined,
+        chunk_lines_to: linesTo || line || undefined,
+        excerpt: linesFrom ? describeSourceLocation(source.metadata, linesFrom, linesTo) : 'Search result'
+      });
+      setIsSourcesCollapsed(false);
+    }
+
+    setSearchParams({}, { replace: true });
+  }, [sources, searchParams, setSearchParams]);
+
+  // Feeds "Recently opened" on the dashboard
+  useEffect(() => {
+    if (notebookId) recordVisit(notebookId);
+  }, [notebookId, recordVisit]);
+
   const handleCitationClick = (citation: Citation) => {
     setSelectedCitation(citation);
   };
@@ -66,6 +111,8 @@ const Notebook = () => {
       <NotebookHeader 
         title={notebook?.title || 'Untitled Notebook'} 
         notebookId={notebookId} 
+        creatorId={notebook?.user_id}
+        visibility={notebook?.visibility}
       />
       
       {isDesktop ? (
@@ -81,6 +128,9 @@ const Notebook = () => {
                   selectedCitation={selectedCitation}
                   onCitationClose={handleCitationClose}
                   setSelectedCitation={setSelectedCitation}
+                  isSourceSelected={isSourceSelected}
+                  onToggleSource={toggleSource}
+                  onToggleAllSources={setAllSourcesSelected}
                 />
               </div>
             )}
@@ -113,6 +163,7 @@ const Notebook = () => {
               notebookId={notebookId}
               notebook={notebook}
               onCitationClick={handleCitationClick}
+              selectedSourceIds={scopedSourceIds}
             />
           </div>
           
@@ -158,6 +209,11 @@ const Notebook = () => {
           onCitationClose={handleCitationClose}
           setSelectedCitation={setSelectedCitation}
           onCitationClick={handleCitationClick}
+          isSourceSelected={isSourceSelected}
+          onToggleSource={toggleSource}
+          onToggleAllSources={setAllSourcesSelected}
+          selectedSourceIds={scopedSourceIds}
+          defaultTab={openedFromSearch ? 'sources' : 'chat'}
         />
       )}
     </div>
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { BookOpen, FileText, NotebookPen, Search as SearchIcon } from 'lucide-react';
+import DashboardHeader from '@/components/dashboard/DashboardHeader';
+import { Input } from '@/components/ui/input';
+import { Card } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspaceSearch, WorkspaceSearchResult } from '@/hooks/useWorkspaceSearch';
+import { splitHighlightedSnippet } from '@/lib/searchHighlight';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const resultIcons = {
+  notebook: BookOpen,
+  source: FileText,
+  note: NotebookPen,
+};
+
+const resultLabels = {
+  notebook: 'Notebook',
+  source: 'Source',
+  note: 'Note',
+};
+
+const HighlightedSnippet = ({ snippet }: { snippet: string }) => {
+  return (
+    <p className="text-sm text-gray-600 line-clamp-3">
+      {splitHighlightedSnippet(snippet).map((part, index) =>
+        part.highlighted ? (
+          <mark key={index} className="bg-yellow-100 text-gray-900 rounded-sm px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+};
+
+const Search = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [inputValue, setInputValue] = useState(searchParams.get('q') ?? '');
+  const query = searchParams.get('q') ?? '';
+  const { groups, results, isLoading, error, canSearch } = useWorkspaceSearch(query);
+
+  // Keep the query in the URL so searches can be shared and restored with Back
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (inputValue.trim() !== query) {
+        setSearchParams(inputValue.trim() ? { q: inputValue.trim() } : {}, { replace: true });
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [inputValue, query, setSearchParams]);
+
+  // Follow the URL when it changes outside the input (e.g. browser navigation)
+  useEffect(() => {
+    setInputValue(current => (current.trim() === query ? current : query));
+  }, [query]);
+
+  const handleResultClick = (result: WorkspaceSearchResult) => {
+    if (!result.notebook_id) return;
+
+    if (result.result_type === 'source') {
+      const params = new URLSearchParams({ source: result.item_id, q: query });
+      navigate(`/notebook/${result.notebook_id}?${params.toString()}`);
+    } else {
+      navigate(`/notebook/${result.notebook_id}`);
+    }
+  };
+
+  const renderResults = () => {
+    if (!canSearch) {
+      return (
+        <p className="text-center text-gray-500 py-16">
+          Search notebook titles, sources and your notes.
+        </p>
+      );
+    }
+
+    if (isLoading) {
+      return (
+        <div className="text-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Searching...</p>
+        </div>
+      );
+    }
+
+    if (error) {
+      return <p className="text-center text-red-600 py-16">Search failed: {error.message}</p>;
+    }
+
+    if (results.length === 0) {
+      return <p className="text-center text-gray-500 py-16">No results for "{query}"</p>;
+    }
+
+    return (
+      <div className="space-y-8">
+        {groups.map(group => (
+          <section key={group.notebookId ?? 'no-notebook'}>
+            <h2 className="text-lg font-medium text-gray-900 mb-3">{group.notebookTitle}</h2>
+            <div className="space-y-2">
+              {group.results.map(result => {
+                const Icon = resultIcons[result.result_type] ?? FileText;
+                const isClickable = !!result.notebook_id;
+
+                return (
+                  <Card
+                    key={`${result.result_type}-${result.item_id}`}
+                    className={`p-4 border border-gray-200 ${isClickable ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                    onClick={() => handleResultClick(result)}
+                  >
+                    <div className="flex items-start space-x-3">
+                      <Icon className="h-5 w-5 text-gray-500 mt-0.5 flex-shrink-0" />
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium text-gray-900 truncate">{result.title}</span>
+                          <span className="text-xs text-gray-500 flex-shrink-0">
+                            {resultLabels[result.result_type] ?? result.result_type}
+                          </span>
+                        </div>
+                        {result.snippet && <HighlightedSnippet snippet={result.snippet} />}
+                      </div>
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+          </section>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <DashboardHeader userEmail={user?.email} />
+
+      <main className="max-w-4xl mx-auto px-6 py-[60px]">
+        <div className="relative mb-8">
+          <SearchIcon className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+          <Input
+            autoFocus
+            value={inputValue}
+            onChange={e => setInputValue(e.target.value)}
+            placeholder="Search notebooks, sources and notes"
+            className="pl-12 h-12 text-base rounded-full"
+          />
+        </div>
+
+        {renderResults()}
+      </main>
+    </div>
+  );
+};
+
+export default Search;
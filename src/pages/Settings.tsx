@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Settings as SettingsIcon } from 'lucide-react';
+import DashboardHeader from '@/components/dashboard/DashboardHeader';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import MfaSettings from '@/components/settings/MfaSettings';
+import ChangePasswordSettings from '@/components/settings/ChangePasswordSettings';
+import AccountRecoveryDialog from '@/components/auth/AccountRecoveryDialog';
+
+const RECOVERY_METHOD_LABELS = {
+  both: 'Security question or email link',
+  security_question: 'Security question only',
+  email: 'Email link only',
+};
+
+const Settings = () => {
+  const { user, userProfile } = useAuth();
+  const [showRecoverySettings, setShowRecoverySettings] = useState(false);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <DashboardHeader userEmail={user?.email} />
+
+      <div className="max-w-3xl mx-auto px-6 py-8">
+        <div className="mb-8">
+          <div className="flex items-center space-x-3 mb-2">
+            <SettingsIcon className="h-8 w-8 text-red-600" />
+            <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+          </div>
+          <p className="text-gray-600">Manage how you sign in and recover your account</p>
+        </div>
+
+        <div className="space-y-6">
+          <ChangePasswordSettings />
+
+          <MfaSettings />
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Account Recovery</CardTitle>
+              <CardDescription>
+                {userProfile
+                  ? `Forgotten passwords can be reset with: ${RECOVERY_METHOD_LABELS[userProfile.recovery_method] ?? RECOVERY_METHOD_LABELS.both}.`
+                  : 'Choose how you can reset a forgotten password.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button type="button" variant="outline" onClick={() => setShowRecoverySettings(true)}>
+                Change Recovery Settings
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <AccountRecoveryDialog open={showRecoverySettings} onOpenChange={setShowRecoverySettings} />
+    </div>
+  );
+};
+
+export default Settings;
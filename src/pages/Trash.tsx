@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { BookOpen, FileText, NotebookPen, RotateCcw, Trash2 } from 'lucide-react';
+import DashboardHeader from '@/components/dashboard/DashboardHeader';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { TrashItem, useTrash } from '@/hooks/useTrash';
+
+const itemIcons = {
+  notebook: BookOpen,
+  source: FileText,
+  note: NotebookPen,
+};
+
+const itemLabels = {
+  notebook: 'Notebook',
+  source: 'Source',
+  note: 'Note',
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+const Trash = () => {
+  const { user } = useAuth();
+  const {
+    items,
+    isLoading,
+    error,
+    retentionDays,
+    restoreItem,
+    purgeItem,
+    pendingItemId,
+    updateRetention,
+    isUpdatingRetention,
+  } = useTrash();
+  const [retentionInput, setRetentionInput] = useState(String(retentionDays));
+  const [itemToPurge, setItemToPurge] = useState<TrashItem | null>(null);
+
+  useEffect(() => {
+    setRetentionInput(String(retentionDays));
+  }, [retentionDays]);
+
+  const parsedRetention = Number.parseInt(retentionInput, 10);
+  const isRetentionValid = Number.isInteger(parsedRetention) && parsedRetention >= 1;
+
+  const handleRetentionSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isRetentionValid || parsedRetention === retentionDays) return;
+    updateRetention(parsedRetention);
+  };
+
+  const confirmPurge = () => {
+    if (!itemToPurge) return;
+    purgeItem({ type: itemToPurge.item_type, id: itemToPurge.item_id });
+    setItemToPurge(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <DashboardHeader userEmail={user?.email} />
+
+      <main className="max-w-6xl mx-auto px-6 py-[60px] space-y-6">
+        <div>
+          <h1 className="text-3xl font-medium text-gray-900 mb-2">Trash</h1>
+          <p className="text-gray-600">
+            Deleted notebooks, sources and notes from every workspace. Their content is hidden from chat and search until they are restored.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Retention</CardTitle>
+            <CardDescription>
+              Items are permanently deleted this many days after they were moved to the trash.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleRetentionSubmit} className="flex items-end space-x-3">
+              <div>
+                <Label htmlFor="trashRetentionDays">Days</Label>
+                <Input
+                  id="trashRetentionDays"
+                  type="number"
+                  min={1}
+                  value={retentionInput}
+                  onChange={(e) => setRetentionInput(e.target.value)}
+                  className="w-32"
+                />
+              </div>
+              <Button
+                type="submit"
+                disabled={isUpdatingRetention || !isRetentionValid || parsedRetention === retentionDays}
+              >
+                Save
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Deleted Items</CardTitle>
+            <CardDescription>
+              Restore an item to put it back where it was, or delete it permanently with its files and embeddings.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+              </div>
+            ) : error ? (
+              <p className="text-center text-red-600 py-8">Failed to load the trash: {error.message}</p>
+            ) : items.length === 0 ? (
+              <div className="text-center py-8">
+                <Trash2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">The trash is empty</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Deleted</TableHead>
+                    <TableHead>Permanently deleted</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => {
+                    const Icon = itemIcons[item.item_type] ?? FileText;
+                    const isPending = pendingItemId === item.item_id;
+
+                    return (
+                      <TableRow key={`${item.item_type}-${item.item_id}`}>
+                        <TableCell className="align-top">
+                          <div className="flex items-start space-x-2">
+                            <Icon className="h-4 w-4 text-gray-500 mt-0.5 flex-shrink-0" />
+                            <div className="min-w-0">
+                              <p className="font-medium text-gray-900 truncate">{item.title}</p>
+                              <p className="text-xs text-gray-500">{itemLabels[item.item_type] ?? item.item_type}</p>
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell className="align-top text-gray-600">
+                          {item.item_type !== 'notebook' && item.notebook_title && (
+                            <p className="truncate">{item.notebook_title}</p>
+                          )}
+                          <p className="text-xs text-gray-500">{item.workspace_name || '-'}</p>
+                        </TableCell>
+                        <TableCell className="align-top text-gray-600 whitespace-nowrap">
+                          <p>{formatDate(item.deleted_at)}</p>
+                          {item.deleted_by_email && (
+                            <p className="text-xs text-gray-500">by {item.deleted_by_email}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="align-top text-gray-600 whitespace-nowrap">{formatDate(item.purge_at)}</TableCell>
+                        <TableCell className="align-top text-right whitespace-nowrap space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => restoreItem({ type: item.item_type, id: item.item_id })}
+                            disabled={!!pendingItemId}
+                          >
+                            <RotateCcw className={`h-4 w-4 mr-1 ${isPending ? 'animate-spin' : ''}`} />
+                            Restore
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setItemToPurge(item)}
+                            disabled={!!pendingItemId}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Delete
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <AlertDialog open={!!itemToPurge} onOpenChange={(open) => !open && setItemToPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Permanently delete {itemToPurge?.title}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {itemToPurge?.item_type === 'notebook'
+                ? 'The notebook will be deleted with all its sources, notes, chat history and files. This cannot be undone.'
+                : 'This cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmPurge} className="bg-red-600 hover:bg-red-700">
+              Delete permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,17 @@
+import React from 'react';
+import DashboardHeader from '@/components/dashboard/DashboardHeader';
+import WorkspaceChatArea from '@/components/chat/WorkspaceChatArea';
+import { useAuth } from '@/contexts/AuthContext';
+
+const WorkspaceChat = () => {
+  const { user } = useAuth();
+
+  return (
+    <div className="h-screen bg-white flex flex-col overflow-hidden">
+      <DashboardHeader userEmail={user?.email} />
+      <WorkspaceChatArea />
+    </div>
+  );
+};
+
+export default WorkspaceChat;
@@ -13,11 +13,21 @@ export interface Citation {
   chunk_lines_to?: number;
   chunk_index?: number;
   excerpt?: string;
+  notebook_id?: string;
+  notebook_title?: string;
+}
+
+export interface MessageVersions {
+  index: number;
+  total: number;
+  ids: number[];
 }
 
 export interface EnhancedChatMessage {
   id: number;
   session_id: string;
+  parent_id?: number | null;
+  versions?: MessageVersions;
   message: {
     type: 'human' | 'ai';
     content: string | {
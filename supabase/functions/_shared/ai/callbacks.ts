@@ -0,0 +1,129 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Authentication of the callbacks n8n makes when a job finishes.
+//
+// Every callback must be signed with CALLBACK_SIGNING_SECRET: the
+// X-Callback-Signature header holds the hex HMAC-SHA256 of
+// `${timestamp}.${rawBody}`, where timestamp is the X-Callback-Timestamp
+// header in unix seconds. Requests outside the replay window are rejected.
+//
+// On top of that the body must echo the callback_nonce sent with the job.
+// Nonces are single use and bound to the source or notebook they were issued
+// for, so a signed callback can't be replayed or pointed at another record.
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+export type CallbackName = 'process-document-callback' | 'audio-generation-callback'
+
+export const CALLBACK_SIGNATURE_HEADER = 'x-callback-signature'
+export const CALLBACK_TIMESTAMP_HEADER = 'x-callback-timestamp'
+
+const REPLAY_WINDOW_SECONDS = 5 * 60
+// Long enough for a large upload to be processed after a few retries
+const NONCE_TTL_MS = 24 * 60 * 60 * 1000
+
+export class CallbackAuthError extends Error {
+  constructor(message: string, public status = 401) {
+    super(message)
+    this.name = 'CallbackAuthError'
+  }
+}
+
+const toHex = (bytes: ArrayBuffer) => Array.from(new Uint8Array(bytes))
+  .map(byte => byte.toString(16).padStart(2, '0'))
+  .join('')
+
+// Compare without returning early so the time taken doesn't leak the signature
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+export const signCallbackPayload = async (secret: string, timestamp: string, body: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`))
+  return toHex(signature)
+}
+
+// Check the signature and timestamp of a callback and return its parsed body
+export const verifyCallbackRequest = async (req: Request): Promise<Record<string, unknown>> => {
+  const secret = Deno.env.get('CALLBACK_SIGNING_SECRET')
+  if (!secret) {
+    // Fail closed, an unsigned callback would let anyone update records
+    throw new CallbackAuthError('CALLBACK_SIGNING_SECRET environment variable not set', 500)
+  }
+
+  const timestamp = req.headers.get(CALLBACK_TIMESTAMP_HEADER)
+  const signature = req.headers.get(CALLBACK_SIGNATURE_HEADER)?.replace(/^sha256=/, '')
+  if (!timestamp || !signature) {
+    throw new CallbackAuthError('Missing callback signature')
+  }
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp))
+  if (!Number.isFinite(age) || age > REPLAY_WINDOW_SECONDS) {
+    throw new CallbackAuthError('Callback timestamp outside the allowed window')
+  }
+
+  const body = await req.text()
+  const expected = await signCallbackPayload(secret, timestamp, body)
+  if (!timingSafeEqual(expected, signature.toLowerCase())) {
+    throw new CallbackAuthError('Invalid callback signature')
+  }
+
+  try {
+    return JSON.parse(body)
+  } catch {
+    throw new CallbackAuthError('Callback body is not valid JSON', 400)
+  }
+}
+
+// Issue the nonce a job's callback has to echo back
+export const issueCallbackNonce = async (supabase: SupabaseClient, callback: CallbackName, targetId: string) => {
+  const nonce = toHex(crypto.getRandomValues(new Uint8Array(32)).buffer)
+
+  const { error } = await supabase
+    .from('callback_nonces')
+    .insert({
+      nonce,
+      callback,
+      target_id: targetId,
+      expires_at: new Date(Date.now() + NONCE_TTL_MS).toISOString()
+    })
+
+  if (error) throw error
+  return nonce
+}
+
+// Use up a nonce. Once a callback for the target is accepted, nonces issued
+// to earlier runs for it stop working too.
+export const consumeCallbackNonce = async (
+  supabase: SupabaseClient,
+  callback: CallbackName,
+  targetId: string,
+  nonce: unknown
+) => {
+  if (typeof nonce !== 'string' || !nonce) {
+    throw new CallbackAuthError('callback_nonce is required')
+  }
+
+  const { data: consumed, error } = await supabase.rpc('consume_callback_nonce', {
+    p_callback: callback,
+    p_target_id: targetId,
+    p_nonce: nonce
+  })
+
+  if (error) throw error
+  if (!consumed) {
+    throw new CallbackAuthError('Unknown, expired or already used callback nonce')
+  }
+}
@@ -0,0 +1,432 @@
+// Extraction for office, e-book and markup sources. Each format is flattened
+// to plain text with one logical unit per line (a paragraph, a slide line, a
+// spreadsheet row) and a list of sections recording which lines belong to
+// which slide, sheet, chapter or heading. The sections are stored in
+// sources.metadata so citations can name a location instead of a line range.
+
+export const STRUCTURED_SOURCE_TYPES = ['docx', 'pptx', 'xlsx', 'csv', 'epub', 'markdown', 'html']
+
+export interface SourceSection {
+  kind: 'heading' | 'slide' | 'sheet' | 'chapter';
+  label: string;
+  linesFrom: number;
+  linesTo: number;
+  // Sheets only: spreadsheet row number = line number - rowOffset
+  rowOffset?: number;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  sections: SourceSection[];
+}
+
+// Where the flattened text of a structured source is stored next to the original file
+export const getExtractedTextPath = (filePath: string) => `${filePath}.extracted.txt`
+
+const createTextBuilder = () => {
+  const lines: string[] = []
+  const sections: SourceSection[] = []
+
+  const closeSection = () => {
+    const last = sections[sections.length - 1]
+    if (last && last.linesTo === 0) {
+      last.linesTo = Math.max(last.linesFrom, lines.length)
+    }
+  }
+
+  return {
+    get lineCount() {
+      return lines.length
+    },
+    addLine(line: string) {
+      lines.push(line)
+    },
+    startSection(kind: SourceSection['kind'], label: string, heading: string) {
+      closeSection()
+      lines.push(heading)
+      sections.push({ kind, label, linesFrom: lines.length, linesTo: 0 })
+      return sections[sections.length - 1]
+    },
+    finish(): ExtractedDocument {
+      closeSection()
+      return { text: lines.join('\n'), sections }
+    },
+  }
+}
+
+// ----------------------------------------------------------------------------
+// XML and HTML helpers
+// ----------------------------------------------------------------------------
+
+const decodeEntities = (text: string) => text
+  .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&amp;/g, '&')
+
+const cleanLine = (text: string) => decodeEntities(text).replace(/\s+/g, ' ').trim()
+
+// Read an attribute from the first tag in a snippet of XML
+const getAttribute = (xml: string, name: string) => {
+  const match = xml.match(new RegExp(`\\b${name}="([^"]*)"`))
+  return match ? decodeEntities(match[1]) : null
+}
+
+// Inner XML of every element with the given tag name, including empty self-closing ones
+const getElements = (xml: string, tag: string) => {
+  const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/${tag}>)`, 'g')
+  return Array.from(xml.matchAll(pattern), match => ({ attributes: match[1], inner: match[2] ?? '' }))
+}
+
+const getText = (xml: string, tag: string) => getElements(xml, tag).map(element => element.inner).join('')
+
+// Resolve a relationship target against the folder of the part that references it
+const resolvePath = (basePath: string, target: string) => {
+  const parts = basePath.split('/').slice(0, -1)
+  for (const segment of decodeURIComponent(target.split('#')[0]).split('/')) {
+    if (segment === '..') parts.pop()
+    else if (segment && segment !== '.') parts.push(segment)
+  }
+  return parts.join('/')
+}
+
+// Relationship id -> part path for a part's .rels file
+const readRelationships = (files: Record<string, string>, partPath: string) => {
+  const folder = partPath.split('/').slice(0, -1).join('/')
+  const fileName = partPath.split('/').pop()
+  const relsXml = files[`${folder ? `${folder}/` : ''}_rels/${fileName}.rels`] ?? ''
+  const relationships = new Map<string, string>()
+
+  for (const { attributes } of getElements(relsXml, 'Relationship')) {
+    const id = getAttribute(attributes, 'Id')
+    const target = getAttribute(attributes, 'Target')
+    if (id && target) relationships.set(id, resolvePath(partPath, target))
+  }
+  return relationships
+}
+
+const unzipText = async (file: Blob) => {
+  // Loaded on demand like the PDF parser
+  const { unzipSync, strFromU8 } = await import('https://esm.sh/fflate@0.8.2')
+  const entries = unzipSync(new Uint8Array(await file.arrayBuffer()))
+  const files: Record<string, string> = {}
+
+  for (const [name, data] of Object.entries(entries)) {
+    if (/\.(xml|rels|opf|x?html?|ncx)$/i.test(name)) {
+      files[name] = strFromU8(data as Uint8Array)
+    }
+  }
+  return files
+}
+
+const HEADING_PATTERN = /^h([1-6])$/i
+const BLOCK_TAGS = /^(p|div|li|tr|br|h[1-6]|section|article|blockquote|pre|table|ul|ol|dt|dd|figcaption|header|footer)$/i
+
+// Flatten HTML to lines, reporting headings so callers can start sections
+const htmlToLines = (html: string, onHeading: (level: number, text: string) => void, onLine: (line: string) => void) => {
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|noscript|svg)\b[\s\S]*?<\/\1>/gi, '')
+
+  let buffer = ''
+  let heading: number | null = null
+
+  const flush = () => {
+    const line = cleanLine(buffer)
+    buffer = ''
+    if (!line) return
+    if (heading) onHeading(heading, line)
+    else onLine(line)
+  }
+
+  for (const token of body.split(/(<[^>]+>)/)) {
+    const tag = token.match(/^<\/?\s*([a-z0-9]+)/i)
+    if (!tag) {
+      buffer += token
+      continue
+    }
+
+    if (BLOCK_TAGS.test(tag[1])) {
+      flush()
+      const level = tag[1].match(HEADING_PATTERN)
+      if (level) heading = token.startsWith('</') ? null : parseInt(level[1], 10)
+    } else if (/^(td|th)$/i.test(tag[1]) && !token.startsWith('</')) {
+      buffer += buffer.trim() ? ' | ' : ''
+    }
+  }
+  flush()
+}
+
+// ----------------------------------------------------------------------------
+// Formats
+// ----------------------------------------------------------------------------
+
+const extractDocx = async (file: Blob) => {
+  const files = await unzipText(file)
+  const builder = createTextBuilder()
+
+  for (const paragraph of getElements(files['word/document.xml'] ?? '', 'w:p')) {
+    const text = cleanLine(
+      paragraph.inner
+        .replace(/<w:tab\b[^>]*\/>/g, '<w:t> </w:t>')
+        .replace(/<w:br\b[^>]*\/>/g, '<w:t> </w:t>')
+        .match(/<w:t\b[^>]*>[^<]*<\/w:t>/g)?.map(run => run.replace(/<[^>]+>/g, '')).join('') ?? ''
+    )
+    if (!text) continue
+
+    const style = getAttribute(paragraph.inner.match(/<w:pStyle\b[^>]*>/)?.[0] ?? '', 'w:val') ?? ''
+    const level = style === 'Title' ? 1 : parseInt(style.match(/^Heading(\d)$/i)?.[1] ?? '', 10)
+
+    if (level && level <= 3) {
+      builder.startSection('heading', text, `${'#'.repeat(level)} ${text}`)
+    } else {
+      builder.addLine(text)
+    }
+  }
+
+  return builder.finish()
+}
+
+const extractPptx = async (file: Blob) => {
+  const files = await unzipText(file)
+  const builder = createTextBuilder()
+
+  // Presentation order comes from the slide id list, not the file names
+  const relationships = readRelationships(files, 'ppt/presentation.xml')
+  let slidePaths = getElements(files['ppt/presentation.xml'] ?? '', 'p:sldId')
+    .map(({ attributes }) => relationships.get(getAttribute(attributes, 'r:id') ?? ''))
+    .filter((path): path is string => !!path && path in files)
+
+  if (slidePaths.length === 0) {
+    slidePaths = Object.keys(files)
+      .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+      .sort((a, b) => parseInt(a.match(/\d+/)![0], 10) - parseInt(b.match(/\d+/)![0], 10))
+  }
+
+  slidePaths.forEach((path, index) => {
+    const slideNumber = index + 1
+    builder.startSection('slide', String(slideNumber), `## Slide ${slideNumber}`)
+
+    for (const paragraph of getElements(files[path], 'a:p')) {
+      const text = cleanLine(getText(paragraph.inner, 'a:t'))
+      if (text) builder.addLine(text)
+    }
+  })
+
+  return builder.finish()
+}
+
+// Zero-based column index from a cell reference such as "AB12"
+const columnIndex = (reference: string) => {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A'
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+// Write rows so that each spreadsheet row sits on its own line, keeping
+// empty rows so the row number can be derived from the line number
+const addSheet = (builder: ReturnType<typeof createTextBuilder>, name: string, rows: Map<number, string[]>) => {
+  const rowNumbers = Array.from(rows.keys())
+  if (rowNumbers.length === 0) return
+
+  const firstRow = Math.min(...rowNumbers)
+  const lastRow = Math.max(...rowNumbers)
+  const section = builder.startSection('sheet', name, `## Sheet: ${name}`)
+  section.rowOffset = builder.lineCount + 1 - firstRow
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    const values = rows.get(row) ?? []
+    builder.addLine(`Row ${row}: ${values.join(' | ')}`.trim())
+  }
+}
+
+const extractXlsx = async (file: Blob) => {
+  const files = await unzipText(file)
+  const builder = createTextBuilder()
+
+  const sharedStrings = getElements(files['xl/sharedStrings.xml'] ?? '', 'si')
+    .map(item => cleanLine(getText(item.inner, 't')))
+
+  const relationships = readRelationships(files, 'xl/workbook.xml')
+
+  for (const { attributes } of getElements(files['xl/workbook.xml'] ?? '', 'sheet')) {
+    const name = getAttribute(attributes, 'name') ?? 'Sheet'
+    const sheetXml = files[relationships.get(getAttribute(attributes, 'r:id') ?? '') ?? '']
+    if (!sheetXml) continue
+
+    const rows = new Map<number, string[]>()
+    for (const row of getElements(sheetXml, 'row')) {
+      const rowNumber = parseInt(getAttribute(row.attributes, 'r') ?? '', 10)
+      if (!rowNumber) continue
+
+      const values: string[] = []
+      for (const cell of getElements(row.inner, 'c')) {
+        const type = getAttribute(cell.attributes, 't')
+        const raw = type === 'inlineStr' ? getText(cell.inner, 't') : getText(cell.inner, 'v')
+        const value = type === 's' ? sharedStrings[parseInt(raw, 10)] ?? '' : cleanLine(raw)
+        if (value) values[columnIndex(getAttribute(cell.attributes, 'r') ?? '')] = value
+      }
+
+      if (values.length > 0) {
+        rows.set(rowNumber, Array.from(values, value => value ?? ''))
+      }
+    }
+
+    addSheet(builder, name, rows)
+  }
+
+  return builder.finish()
+}
+
+// Parse CSV with quoted fields, doubled quotes and newlines inside quotes
+const parseCsv = (text: string) => {
+  const delimiter = (text.split('\n')[0].match(/;/g)?.length ?? 0) > (text.split('\n')[0].match(/,/g)?.length ?? 0) ? ';' : ','
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+const extractCsv = async (file: Blob, fileName: string) => {
+  const builder = createTextBuilder()
+  const rows = new Map<number, string[]>()
+
+  parseCsv(await file.text()).forEach((values, index) => {
+    const cleaned = values.map(value => value.replace(/\s+/g, ' ').trim())
+    if (cleaned.some(Boolean)) rows.set(index + 1, cleaned)
+  })
+
+  const name = (fileName.split('/').pop() ?? 'Sheet').replace(/\.[^.]+$/, '')
+  addSheet(builder, name, rows)
+  return builder.finish()
+}
+
+const extractEpub = async (file: Blob) => {
+  const files = await unzipText(file)
+  const builder = createTextBuilder()
+
+  const opfPath = getAttribute(files['META-INF/container.xml']?.match(/<rootfile\b[^>]*>/)?.[0] ?? '', 'full-path') ?? ''
+  const opf = files[opfPath] ?? ''
+
+  const manifest = new Map<string, string>()
+  for (const { attributes } of getElements(opf, 'item')) {
+    const id = getAttribute(attributes, 'id')
+    const href = getAttribute(attributes, 'href')
+    if (id && href) manifest.set(id, resolvePath(opfPath, href))
+  }
+
+  let chapterNumber = 0
+  for (const { attributes } of getElements(opf, 'itemref')) {
+    const html = files[manifest.get(getAttribute(attributes, 'idref') ?? '') ?? '']
+    if (!html) continue
+
+    // The first heading of a spine document names the chapter
+    const chapter = { title: '', lines: [] as string[] }
+    htmlToLines(
+      html,
+      (_level, text) => {
+        if (!chapter.title) chapter.title = text
+        else chapter.lines.push(text)
+      },
+      line => chapter.lines.push(line)
+    )
+    if (!chapter.title && chapter.lines.length === 0) continue
+
+    chapterNumber++
+    const label = chapter.title ? `Chapter ${chapterNumber}: ${chapter.title}` : `Chapter ${chapterNumber}`
+    builder.startSection('chapter', label, `## ${label}`)
+    chapter.lines.forEach(line => builder.addLine(line))
+  }
+
+  return builder.finish()
+}
+
+const extractHtml = async (file: Blob) => {
+  const builder = createTextBuilder()
+
+  htmlToLines(
+    await file.text(),
+    (level, text) => {
+      if (level <= 3) builder.startSection('heading', text, `${'#'.repeat(level)} ${text}`)
+      else builder.addLine(text)
+    },
+    line => builder.addLine(line)
+  )
+
+  return builder.finish()
+}
+
+const extractMarkdown = async (file: Blob) => {
+  const builder = createTextBuilder()
+  let inCodeBlock = false
+
+  for (const line of (await file.text()).replace(/\r\n?/g, '\n').split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inCodeBlock = !inCodeBlock
+
+    const heading = !inCodeBlock && line.match(/^(#{1,3})\s+(.+?)\s*#*\s*$/)
+    if (heading) {
+      builder.startSection('heading', heading[2], line)
+    } else {
+      builder.addLine(line)
+    }
+  }
+
+  return builder.finish()
+}
+
+export const extractStructuredDocument = async (file: Blob, sourceType: string, fileName: string): Promise<ExtractedDocument> => {
+  switch (sourceType) {
+    case 'docx':
+      return await extractDocx(file)
+    case 'pptx':
+      return await extractPptx(file)
+    case 'xlsx':
+      return await extractXlsx(file)
+    case 'csv':
+      return await extractCsv(file, fileName)
+    case 'epub':
+      return await extractEpub(file)
+    case 'html':
+      return await extractHtml(file)
+    case 'markdown':
+      return await extractMarkdown(file)
+    default:
+      throw new Error(`Unsupported structured source type: ${sourceType}`)
+  }
+}
@@ -0,0 +1,23 @@
+import { AIProvider } from './types.ts'
+import { createN8nProvider } from './n8n.ts'
+import { createPipelineProvider } from './pipeline.ts'
+import { createOpenAIModelClient } from './openai.ts'
+import { createMockModelClient } from './mock.ts'
+
+export * from './types.ts'
+
+// Pick the AI provider for this deployment from the AI_PROVIDER secret (defaults to n8n)
+export const getAIProvider = (): AIProvider => {
+  const providerName = (Deno.env.get('AI_PROVIDER') || 'n8n').toLowerCase()
+
+  switch (providerName) {
+    case 'n8n':
+      return createN8nProvider()
+    case 'native':
+      return createPipelineProvider('native', createOpenAIModelClient())
+    case 'mock':
+      return createPipelineProvider('mock', createMockModelClient())
+    default:
+      throw new Error(`Unknown AI_PROVIDER: ${providerName}`)
+  }
+}
@@ -0,0 +1,84 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getExtractedTextPath } from './formats.ts'
+import { SourceStage } from './types.ts'
+
+// Stage tracking for source ingestion, stored in source_jobs through the
+// record_source_job_stage function.
+
+export type SourceStageStatus = 'running' | 'completed' | 'failed'
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+export const getErrorMessage = (error: unknown) => {
+  if (error instanceof Error) return error.message
+  if (typeof error === 'string') return error
+  try {
+    return JSON.stringify(error)
+  } catch {
+    return String(error)
+  }
+}
+
+// Record a stage transition. A null stage means the job's current stage.
+// Tracking problems are logged and never interrupt processing.
+export const recordSourceStage = async (
+  supabase: SupabaseClient,
+  sourceId: string,
+  stage: SourceStage | null,
+  status: SourceStageStatus,
+  error?: unknown
+) => {
+  const { error: rpcError } = await supabase.rpc('record_source_job_stage', {
+    p_source_id: sourceId,
+    p_stage: stage,
+    p_status: status,
+    p_error: error === undefined ? null : getErrorMessage(error)
+  })
+
+  if (rpcError) {
+    console.error('Failed to record source stage:', { sourceId, stage, status }, rpcError)
+  }
+}
+
+// Retries from these stages can start from the stored extracted text
+export const canResumeFromExtractedText = (stage?: SourceStage) =>
+  stage === 'chunk' || stage === 'embed' || stage === 'summarize'
+
+// Store the extracted text of a file source so a retry doesn't have to parse
+// or transcribe the original again, and remember its path in sources.metadata
+export const storeExtractedText = async (
+  supabase: SupabaseClient,
+  sourceId: string,
+  filePath: string,
+  text: string,
+  metadata: Record<string, unknown> = {}
+) => {
+  const extractedTextPath = getExtractedTextPath(filePath)
+
+  const { error: uploadError } = await supabase.storage
+    .from('sources')
+    .upload(extractedTextPath, new Blob([text], { type: 'text/plain' }), { contentType: 'text/plain', upsert: true })
+
+  if (uploadError) throw uploadError
+
+  const { data: source } = await supabase
+    .from('sources')
+    .select('metadata')
+    .eq('id', sourceId)
+    .single()
+
+  const { error: updateError } = await supabase
+    .from('sources')
+    .update({
+      metadata: {
+        ...(source?.metadata ?? {}),
+        ...metadata,
+        extractedTextPath
+      }
+    })
+    .eq('id', sourceId)
+
+  if (updateError) throw updateError
+
+  return extractedTextPath
+}
@@ -0,0 +1,130 @@
+import { AnswerRequest, ModelClient } from './types.ts'
+
+// Matches the documents.embedding column
+const EMBEDDING_DIMENSIONS = 1536
+const STREAM_SLICE_LENGTH = 24
+const NOTEBOOK_COLORS = ['slate', 'red', 'orange', 'amber', 'green', 'teal', 'sky', 'blue', 'indigo', 'violet', 'pink', 'rose']
+
+// FNV-1a, stable across runs so the mock output never changes for the same input
+const hash = (value: string) => {
+  let result = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i)
+    result = Math.imul(result, 0x01000193)
+  }
+  return result >>> 0
+}
+
+const tokenize = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+
+const firstLine = (text: string) => text.split('\n').map(line => line.trim()).find(Boolean) ?? ''
+
+const firstSentence = (text: string) => {
+  const flattened = text.replace(/\s+/g, ' ').trim()
+  return (flattened.match(/^.*?[.!?](\s|$)/)?.[0] ?? flattened).trim().substring(0, 300)
+}
+
+// Silent mono 8-bit WAV, roughly one second per 100 characters of script
+const silentWav = (script: string) => {
+  const sampleRate = 8000
+  const seconds = Math.min(10, Math.max(1, Math.ceil(script.length / 100)))
+  const samples = sampleRate * seconds
+  const buffer = new ArrayBuffer(44 + samples)
+  const view = new DataView(buffer)
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i))
+  }
+
+  writeString(0, 'RIFF')
+  view.setUint32(4, 36 + samples, true)
+  writeString(8, 'WAVE')
+  writeString(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, 1, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate, true)
+  view.setUint16(32, 1, true)
+  view.setUint16(34, 8, true)
+  writeString(36, 'data')
+  view.setUint32(40, samples, true)
+  new Uint8Array(buffer, 44).fill(128)
+
+  return new Uint8Array(buffer)
+}
+
+// Deterministic offline model client for local testing. Embeddings are hashed
+// bag-of-words vectors, so retrieval still favours chunks sharing the question's words.
+export const createMockModelClient = (): ModelClient => ({
+  async embed(texts: string[]) {
+    return texts.map((text) => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0)
+      tokenize(text).forEach((token) => {
+        vector[hash(token) % EMBEDDING_DIMENSIONS] += 1
+      })
+
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1
+      return vector.map(value => value / norm)
+    })
+  },
+
+  async *streamAnswer(request: AnswerRequest) {
+    const output = request.chunks.length === 0
+      ? [{ text: "Sorry I don't know", citations: [] }]
+      : request.chunks.slice(0, 3).map(chunk => ({
+          text: firstSentence(chunk.content),
+          citations: [{
+            chunk_index: chunk.index,
+            chunk_source_id: chunk.sourceId,
+            chunk_lines_from: chunk.linesFrom,
+            chunk_lines_to: chunk.linesTo,
+          }],
+        }))
+
+    const answer = JSON.stringify({ output })
+    for (let i = 0; i < answer.length; i += STREAM_SLICE_LENGTH) {
+      yield answer.slice(i, i + STREAM_SLICE_LENGTH)
+    }
+  },
+
+  async summarizeSource(text: string) {
+    return {
+      title: firstLine(text).substring(0, 60) || 'Untitled source',
+      summary: text.replace(/\s+/g, ' ').trim().substring(0, 200),
+    }
+  },
+
+  async describeNotebook(text: string) {
+    const title = firstLine(text).substring(0, 60) || 'Untitled notebook'
+    return {
+      title,
+      summary: text.replace(/\s+/g, ' ').trim().substring(0, 200),
+      notebook_icon: '📝',
+      background_color: NOTEBOOK_COLORS[hash(text) % NOTEBOOK_COLORS.length],
+      example_questions: [
+        `What is ${title} about?`,
+        'What are the key points?',
+        'Who is involved?',
+        'What conclusions are drawn?',
+        'What should I read first?',
+      ],
+    }
+  },
+
+  async writePodcastScript(sources) {
+    const titles = sources.map(source => source.title).join(', ')
+    return `Welcome to the overview. Today we discuss ${titles || 'this notebook'}.`
+  },
+
+  async synthesizeSpeech(script: string) {
+    return { data: silentWav(script), contentType: 'audio/wav', extension: 'wav' }
+  },
+
+  async transcribe(_audio: Blob, fileName: string) {
+    return `Mock transcript of ${fileName.split('/').pop()}`
+  },
+
+  async fetchWebpage(url: string) {
+    return { title: url, content: `Mock content for ${url}` }
+  },
+})
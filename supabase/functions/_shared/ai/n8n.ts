@@ -0,0 +1,254 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  AIProvider,
+  AdditionalSourcesRequest,
+  AudioOverviewRequest,
+  ChatRequest,
+  NotebookContentRequest,
+  ProcessDocumentRequest,
+} from './types.ts'
+import { parseNotebookDetailsResponse } from './notebookDetails.ts'
+import { sendWebhookJob, WebhookJob, WebhookJobQueuedError, WebhookJobRequest } from './webhookJobs.ts'
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name)
+  if (!value) {
+    throw new Error(`${name} environment variable not set`)
+  }
+  return value
+}
+
+// POST a payload to an n8n webhook using the shared header auth. Used for
+// chat, which streams its answer back; background work goes through
+// sendWebhookJob instead so it survives n8n being briefly unavailable.
+const callWebhook = async (urlEnv: string, payload: Record<string, unknown>) => {
+  const webhookUrl = requireEnv(urlEnv)
+  const authHeader = requireEnv('NOTEBOOK_GENERATION_AUTH')
+
+  console.log(`Calling n8n webhook (${urlEnv})`)
+
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': authHeader,
+    },
+    body: JSON.stringify(payload)
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error('Webhook call failed:', response.status, errorText)
+    throw new Error(`Webhook responded with status: ${response.status} - ${errorText}`)
+  }
+
+  return response
+}
+
+// Pull the answer text out of a non-streaming n8n response so it can be sent as one token
+const extractAnswerText = (webhookData: unknown): string => {
+  const data = Array.isArray(webhookData) ? webhookData[0] : webhookData
+
+  if (data && typeof data === 'object' && 'output' in data) {
+    const output = (data as { output: unknown }).output
+    return typeof output === 'string' ? output : JSON.stringify({ output })
+  }
+
+  return typeof data === 'string' ? data : JSON.stringify(data)
+}
+
+// n8n streaming webhooks emit newline-delimited JSON ({ type: 'item', content }),
+// anything else is returned as a single token once the webhook completes.
+async function* readWebhookAnswer(webhookResponse: Response): AsyncGenerator<string> {
+  const contentType = webhookResponse.headers.get('content-type') || ''
+
+  if (contentType.includes('application/json') || !webhookResponse.body) {
+    const webhookData = await webhookResponse.json()
+    console.log('Webhook response (non-streaming):', webhookData)
+    yield extractAnswerText(webhookData)
+    return
+  }
+
+  const reader = webhookResponse.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  const parseLine = (line: string): string | null => {
+    const trimmed = line.trim()
+    if (!trimmed) return null
+
+    try {
+      const chunk = JSON.parse(trimmed)
+      if (chunk.type === 'item' && typeof chunk.content === 'string') {
+        return chunk.content
+      }
+      if (chunk.type === 'error') {
+        throw new Error(chunk.content || 'Webhook stream error')
+      }
+      return null
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error
+      // Not a JSON frame, treat the raw line as answer text
+      return line
+    }
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += value
+    const lines = buffer.split('\n')
+    buffer = lines.pop() ?? ''
+
+    for (const line of lines) {
+      const token = parseLine(line)
+      if (token) yield token
+    }
+  }
+
+  const token = parseLine(buffer)
+  if (token) yield token
+}
+
+// A queued job is reported as accepted, the dead-letter handler marks its
+// target failed if it never gets through. A dead job fails the request.
+const queuedResult = (job: WebhookJob) => {
+  if (job.status === 'dead') {
+    throw new Error(job.last_error ?? 'Webhook call failed')
+  }
+  return { status: 'queued', job_id: job.id, next_attempt_at: job.next_attempt_at }
+}
+
+// Background calls are stored in webhook_jobs (see webhookJobs.ts) so they
+// are retried when n8n is briefly unavailable
+export const createN8nProvider = (): AIProvider => {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  const sendJob = (request: WebhookJobRequest) => sendWebhookJob(supabase, request)
+
+  return {
+    name: 'n8n',
+
+    async chat(request: ChatRequest) {
+      const response = await callWebhook('NOTEBOOK_CHAT_URL', {
+        // session_id scopes the n8n chat memory to a thread, notebook_id scopes retrieval
+        session_id: request.sessionId,
+        notebook_id: request.notebookId,
+        // Notebooks to retrieve from in a workspace chat (notebook_id is null)
+        notebook_ids: request.notebookIds,
+        // Restrict retrieval to these sources, empty means all sources
+        source_ids: request.sourceIds,
+        message: request.message,
+        user_id: request.userId,
+        stream: request.stream,
+        timestamp: new Date().toISOString()
+      })
+
+      return readWebhookAnswer(response)
+    },
+
+    async processDocument(request: ProcessDocumentRequest) {
+      const fileUrl = `${Deno.env.get('SUPABASE_URL')}/storage/v1/object/public/sources/${request.filePath}`
+
+      const result = await sendJob({
+        kind: 'process-document',
+        urlEnv: 'DOCUMENT_PROCESSING_WEBHOOK_URL',
+        payload: {
+          source_id: request.sourceId,
+          file_url: fileUrl,
+          file_path: request.filePath,
+          source_type: request.sourceType,
+          // The job adds the callback_nonce to echo back in the signed callback
+          callback_url: request.callbackUrl
+        },
+        idempotencyKey: `process-document:${request.sourceId}:${request.filePath}`,
+        targetIds: [request.sourceId]
+      })
+
+      return result.delivered ? result.body : queuedResult(result.job)
+    },
+
+    async processAdditionalSources(request: AdditionalSourcesRequest) {
+      const sourceIds = request.sourceIds ?? []
+
+      // The job adds callbackNonces (websites) or callbackNonce (copied text)
+      const payload = request.type === 'multiple-websites'
+        ? {
+            type: 'multiple-websites',
+            notebookId: request.notebookId,
+            urls: request.urls,
+            sourceIds: request.sourceIds, // Array of source IDs corresponding to the URLs
+            timestamp: request.timestamp
+          }
+        : {
+            type: 'copied-text',
+            notebookId: request.notebookId,
+            title: request.title,
+            content: request.content,
+            sourceId: request.sourceIds?.[0], // Single source ID for copied text
+            timestamp: request.timestamp
+          }
+
+      const result = await sendJob({
+        kind: 'process-additional-sources',
+        urlEnv: 'ADDITIONAL_SOURCES_WEBHOOK_URL',
+        payload,
+        idempotencyKey: `process-additional-sources:${request.type}:${sourceIds.join(',')}`,
+        targetIds: sourceIds
+      })
+
+      return result.delivered ? result.body : queuedResult(result.job)
+    },
+
+    async generateNotebookDetails(request: NotebookContentRequest) {
+      const payload: Record<string, unknown> = { sourceType: request.sourceType }
+
+      if (request.filePath) {
+        // For file sources (PDF, audio) or URLs (website, YouTube)
+        payload.filePath = request.filePath
+      } else if (request.content) {
+        payload.content = request.content
+      }
+
+      const result = await sendJob({
+        kind: 'generate-notebook-content',
+        urlEnv: 'NOTEBOOK_GENERATION_URL',
+        payload,
+        // The workflow responds once the LLM has generated the details
+        timeoutMs: 60000,
+        idempotencyKey: `generate-notebook-content:${request.notebookId}`,
+        targetIds: [request.notebookId]
+      })
+
+      // The details are applied to the notebook once a retry gets through
+      if (!result.delivered) {
+        throw new WebhookJobQueuedError(result.job)
+      }
+
+      console.log('Generated data:', result.body)
+      return parseNotebookDetailsResponse(result.body)
+    },
+
+    async generateAudioOverview(request: AudioOverviewRequest) {
+      // The workflow reports the result to audio-generation-callback
+      const result = await sendJob({
+        kind: 'generate-audio-overview',
+        urlEnv: 'AUDIO_GENERATION_WEBHOOK_URL',
+        payload: {
+          notebook_id: request.notebookId,
+          // The job adds the callback_nonce to echo back
+          callback_url: request.callbackUrl
+        },
+        idempotencyKey: `generate-audio-overview:${request.notebookId}`,
+        targetIds: [request.notebookId]
+      })
+
+      if (!result.delivered && result.job.status === 'dead') {
+        throw new Error(result.job.last_error ?? 'Webhook call failed')
+      }
+    },
+  }
+}
@@ -0,0 +1,34 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { NotebookDetails } from './types.ts'
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+// The notebook generation workflow responds with { output: NotebookDetails }
+export const parseNotebookDetailsResponse = (generatedData: unknown): NotebookDetails => {
+  const output = generatedData && typeof generatedData === 'object'
+    ? (generatedData as { output?: unknown }).output
+    : undefined
+
+  if (!output) {
+    throw new Error('Invalid response format from web service')
+  }
+
+  return output as NotebookDetails
+}
+
+// Store generated details on the notebook and mark its generation completed
+export const applyNotebookDetails = async (supabase: SupabaseClient, notebookId: string, details: NotebookDetails) => {
+  const { error } = await supabase
+    .from('notebooks')
+    .update({
+      title: details.title,
+      description: details.summary || null,
+      icon: details.notebook_icon || '📝',
+      color: details.background_color || 'bg-gray-100',
+      example_questions: details.example_questions || [],
+      generation_status: 'completed'
+    })
+    .eq('id', notebookId)
+
+  if (error) throw error
+}
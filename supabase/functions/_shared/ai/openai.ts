@@ -0,0 +1,220 @@
+import { AnswerRequest, ModelClient, ModelMessage, NotebookDetails } from './types.ts'
+
+const OPENAI_API_URL = 'https://api.openai.com/v1'
+
+const ANSWER_SYSTEM_PROMPT = `You are tasked with answering a question using provided chunks of information.
+
+Your goal is to provide an accurate answer from these chunks while citing your sources. When you use information from a specific chunk in your answer, you must cite it using the JSON output format below.
+
+The citation should appear at the end of the sentence or paragraph where the information is used. Use the index, source_id and lines of the chunk so we can trace back the cited source.
+
+If you cannot answer the question using the provided chunks, say "Sorry I don't know".
+
+Only base your answers on information in the provided chunks. Only output JSON in this format:
+{"output":[{"text":"<answer paragraph>","citations":[{"chunk_index":0,"chunk_source_id":"<source_id>","chunk_lines_from":1,"chunk_lines_to":10}]}]}`
+
+const SOURCE_SUMMARY_PROMPT = `Based on the data provided, output an appropriate title and summary of the document. Only output in JSON in the following format / structure
+{"title":"<ADD>","summary":"<ADD>"}`
+
+const NOTEBOOK_DETAILS_PROMPT = `Based on the data provided, output an appropriate title and summary of the document.
+
+Also output an appropriate UTF-8 emoji for the notebook. - example: 🏆
+And output an appropriate color from this list: slate, gray, zinc, neutral, stone, red, orange, amber, yellow, lime, green, emerald, teal, cyan, sky, blue, indigo, violet, purple, fuchsia, pink, rose
+
+Also output a list of 5 Example Questions that could be asked of this document. For example "How are the rules and regulations of tennis enforced?" - Maximum 10 words each
+
+Only output in JSON in the following format / structure
+{"title":"<ADD>","summary":"<ADD>","notebook_icon":"<ADD>","background_color":"<ADD>","example_questions":["<ADD>","<ADD>"]}`
+
+const PODCAST_SCRIPT_PROMPT = `Write an engaging podcast script discussing the sources below between two hosts.
+Keep it conversational, accurate to the sources and around 5 minutes long when read aloud.
+Only output the spoken script, without speaker labels or stage directions.`
+
+const getApiKey = () => {
+  const apiKey = Deno.env.get('OPENAI_API_KEY')
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY environment variable not set')
+  }
+  return apiKey
+}
+
+const openAIRequest = async (path: string, init: RequestInit) => {
+  const response = await fetch(`${OPENAI_API_URL}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${getApiKey()}`,
+      ...init.headers,
+    },
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error('OpenAI API error:', response.status, errorText)
+    throw new Error(`OpenAI API error: ${response.status}`)
+  }
+
+  return response
+}
+
+const chatModel = () => Deno.env.get('OPENAI_CHAT_MODEL') || 'gpt-4.1-mini'
+
+const completeJson = async <T>(messages: ModelMessage[]): Promise<T> => {
+  const response = await openAIRequest('/chat/completions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: chatModel(),
+      messages,
+      response_format: { type: 'json_object' },
+    }),
+  })
+
+  const data = await response.json()
+  return JSON.parse(data.choices[0].message.content) as T
+}
+
+const formatChunks = (request: AnswerRequest) => request.chunks
+  .map(chunk => [
+    `Chunk index: ${chunk.index}`,
+    `source_id: ${chunk.sourceId}`,
+    `lines: ${chunk.linesFrom}-${chunk.linesTo}`,
+    chunk.content,
+  ].join('\n'))
+  .join('\n\n---\n\n')
+
+// Native model client backed by the OpenAI API
+export const createOpenAIModelClient = (): ModelClient => ({
+  async embed(texts: string[]) {
+    const response = await openAIRequest('/embeddings', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: Deno.env.get('OPENAI_EMBEDDING_MODEL') || 'text-embedding-3-small',
+        input: texts,
+      }),
+    })
+
+    const data = await response.json()
+    return (data.data as { embedding: number[] }[]).map(item => item.embedding)
+  },
+
+  async *streamAnswer(request: AnswerRequest) {
+    const response = await openAIRequest('/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: chatModel(),
+        stream: true,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: ANSWER_SYSTEM_PROMPT },
+          ...request.history,
+          { role: 'user', content: `Chunks:\n\n${formatChunks(request) || 'No chunks were found.'}\n\nQuestion: ${request.question}` },
+        ],
+      }),
+    })
+
+    // OpenAI streams Server-Sent Events with one completion delta per frame
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader()
+    let buffer = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += value
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+
+      for (const line of lines) {
+        const data = line.startsWith('data:') ? line.slice(5).trim() : ''
+        if (!data || data === '[DONE]') continue
+
+        const token = JSON.parse(data).choices?.[0]?.delta?.content
+        if (token) yield token as string
+      }
+    }
+  },
+
+  async summarizeSource(text: string) {
+    return await completeJson<{ title: string; summary: string }>([
+      { role: 'system', content: SOURCE_SUMMARY_PROMPT },
+      { role: 'user', content: text.substring(0, 20000) },
+    ])
+  },
+
+  async describeNotebook(text: string) {
+    return await completeJson<NotebookDetails>([
+      { role: 'system', content: NOTEBOOK_DETAILS_PROMPT },
+      { role: 'user', content: text },
+    ])
+  },
+
+  async writePodcastScript(sources) {
+    const response = await openAIRequest('/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: chatModel(),
+        messages: [
+          { role: 'system', content: PODCAST_SCRIPT_PROMPT },
+          {
+            role: 'user',
+            content: sources.map(source => `# ${source.title}\n${source.content}`).join('\n\n').substring(0, 50000),
+          },
+        ],
+      }),
+    })
+
+    const data = await response.json()
+    return data.choices[0].message.content as string
+  },
+
+  async synthesizeSpeech(script: string) {
+    const response = await openAIRequest('/audio/speech', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: Deno.env.get('OPENAI_TTS_MODEL') || 'gpt-4o-mini-tts',
+        voice: Deno.env.get('OPENAI_TTS_VOICE') || 'alloy',
+        // The speech endpoint accepts up to 4096 characters per request
+        input: script.substring(0, 4096),
+        response_format: 'mp3',
+      }),
+    })
+
+    return {
+      data: new Uint8Array(await response.arrayBuffer()),
+      contentType: 'audio/mpeg',
+      extension: 'mp3',
+    }
+  },
+
+  async transcribe(audio: Blob, fileName: string) {
+    const formData = new FormData()
+    formData.append('file', audio, fileName.split('/').pop() || 'audio')
+    formData.append('model', Deno.env.get('OPENAI_TRANSCRIPTION_MODEL') || 'whisper-1')
+
+    const response = await openAIRequest('/audio/transcriptions', {
+      method: 'POST',
+      body: formData,
+    })
+
+    const data = await response.json()
+    return data.text as string
+  },
+
+  async fetchWebpage(url: string) {
+    // Same reader service the n8n workflows use to turn pages into text
+    const response = await fetch(`https://r.jina.ai/${url}`, {
+      headers: { 'Accept': 'application/json' },
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status}`)
+    }
+
+    const { data } = await response.json()
+    return { title: data?.title || url, content: data?.content || '' }
+  },
+})
@@ -0,0 +1,379 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  AIProvider,
+  AdditionalSourcesRequest,
+  AudioOverviewRequest,
+  ChatRequest,
+  ModelClient,
+  ModelMessage,
+  NotebookContentRequest,
+  ProcessDocumentRequest,
+  RetrievedChunk,
+  SourceStage,
+} from './types.ts'
+import { chunkText, extractText } from './text.ts'
+import { recordSourceStage, storeExtractedText } from './jobs.ts'
+
+const EMBEDDING_BATCH_SIZE = 50
+const MATCH_COUNT = 10
+const HISTORY_LENGTH = 20
+const NOTEBOOK_DETAILS_TEXT_LIMIT = 20000
+
+interface StoredChatMessage {
+  type: 'human' | 'ai';
+  content: string;
+}
+
+interface MatchedDocument {
+  content: string;
+  metadata: {
+    source_id?: string;
+    loc?: { lines?: { from?: number; to?: number } };
+  } | null;
+}
+
+// Flatten a stored AI answer ({ output: [{ text }] }) back to plain text for the prompt
+const getMessageText = (message: StoredChatMessage) => {
+  if (message.type !== 'ai') return message.content
+
+  try {
+    const parsed = JSON.parse(message.content)
+    if (Array.isArray(parsed?.output)) {
+      return parsed.output.map((segment: { text?: string }) => segment.text ?? '').join('\n\n')
+    }
+  } catch {
+    // Plain text answer
+  }
+  return message.content
+}
+
+// Keep the stored answer in the format the client and n8n memory expect
+const normalizeAnswer = (raw: string) => {
+  try {
+    const parsed = JSON.parse(raw)
+    if (Array.isArray(parsed?.output)) return raw
+  } catch {
+    // Fall through and wrap the plain text answer
+  }
+  return JSON.stringify({ output: [{ text: raw, citations: [] }] })
+}
+
+// Runs the whole AI flow inside the edge functions: extract, chunk, embed,
+// hybrid_match_documents and the LLM calls go through the given model client.
+// Results are written to the same tables the n8n workflows update.
+export const createPipelineProvider = (name: string, model: ModelClient): AIProvider => {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  const saveChatMessage = async (sessionId: string, message: StoredChatMessage) => {
+    const { error } = await supabase
+      .from('n8n_chat_histories')
+      .insert({
+        session_id: sessionId,
+        message: { ...message, additional_kwargs: {}, response_metadata: {} }
+      })
+
+    if (error) throw error
+  }
+
+  const downloadSourceFile = async (filePath: string) => {
+    const { data, error } = await supabase.storage.from('sources').download(filePath)
+    if (error) throw error
+    return data
+  }
+
+  // Replace the chunks stored for a source in the documents table
+  const indexSource = async (notebookId: string, sourceId: string, text: string) => {
+    await recordSourceStage(supabase, sourceId, 'chunk', 'running')
+
+    const { error: deleteError } = await supabase
+      .from('documents')
+      .delete()
+      .eq('metadata->>source_id', sourceId)
+
+    if (deleteError) throw deleteError
+
+    const chunks = chunkText(text)
+    await recordSourceStage(supabase, sourceId, 'embed', 'running')
+
+    for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE)
+      const embeddings = await model.embed(batch.map(chunk => chunk.content))
+
+      const { error } = await supabase
+        .from('documents')
+        .insert(batch.map((chunk, index) => ({
+          content: chunk.content,
+          embedding: JSON.stringify(embeddings[index]),
+          metadata: {
+            notebook_id: notebookId,
+            source_id: sourceId,
+            loc: { lines: { from: chunk.linesFrom, to: chunk.linesTo } }
+          }
+        })))
+
+      if (error) throw error
+    }
+
+    console.log(`Indexed ${chunks.length} chunks for source:`, sourceId)
+  }
+
+  // Index and summarise a source's text, then mark the source completed.
+  // A retry from the summarize stage keeps the chunks already stored.
+  const ingestSource = async (
+    notebookId: string,
+    sourceId: string,
+    text: string,
+    options: { title?: string; storeText?: boolean; resumeFrom?: SourceStage } = {}
+  ) => {
+    if (options.resumeFrom !== 'summarize') {
+      await indexSource(notebookId, sourceId, text)
+    }
+
+    await recordSourceStage(supabase, sourceId, 'summarize', 'running')
+    const { title, summary } = await model.summarizeSource(text)
+
+    const updateData: Record<string, unknown> = {
+      content: text,
+      summary,
+      title: options.title || title,
+      processing_status: 'completed'
+    }
+
+    // Pasted text and websites have no file yet, store the text like the n8n workflow does
+    if (options.storeText) {
+      const { data: notebook, error: notebookError } = await supabase
+        .from('notebooks')
+        .select('workspace_id')
+        .eq('id', notebookId)
+        .single()
+
+      if (notebookError) throw notebookError
+
+      const filePath = `${notebook.workspace_id}/${notebookId}/${sourceId}.txt`
+      const body = new Blob([text], { type: 'text/plain' })
+      const { error: uploadError } = await supabase.storage
+        .from('sources')
+        .upload(filePath, body, { contentType: 'text/plain', upsert: true })
+
+      if (uploadError) throw uploadError
+
+      updateData.file_path = filePath
+      updateData.file_size = body.size
+    }
+
+    const { error } = await supabase
+      .from('sources')
+      .update(updateData)
+      .eq('id', sourceId)
+
+    if (error) throw error
+
+    await recordSourceStage(supabase, sourceId, 'summarize', 'completed')
+  }
+
+  // Fails the source's current stage with the error as the reason
+  const markSourceFailed = async (sourceId: string, error: unknown) => {
+    console.error('Source processing failed:', sourceId, error)
+    await recordSourceStage(supabase, sourceId, null, 'failed', error)
+  }
+
+  return {
+    name,
+
+    async chat(request: ChatRequest) {
+      const { data: historyRows, error: historyError } = await supabase
+        .from('n8n_chat_active_histories')
+        .select('message')
+        .eq('session_id', request.sessionId)
+        .order('id', { ascending: false })
+        .limit(HISTORY_LENGTH)
+
+      if (historyError) throw historyError
+
+      const history: ModelMessage[] = (historyRows ?? [])
+        .reverse()
+        .map((row: { message: StoredChatMessage }) => ({
+          role: row.message.type === 'human' ? 'user' : 'assistant',
+          content: getMessageText(row.message)
+        }))
+
+      await saveChatMessage(request.sessionId, { type: 'human', content: request.message })
+
+      // Keyword and vector rankings are fused, weighted by the notebook's settings
+      const [queryEmbedding] = await model.embed([request.message])
+      const { data: matches, error: matchError } = await supabase.rpc('hybrid_match_documents', {
+        query_text: request.message,
+        query_embedding: JSON.stringify(queryEmbedding),
+        match_count: MATCH_COUNT,
+        filter: request.notebookId
+          ? { notebook_id: request.notebookId, source_ids: request.sourceIds }
+          : { notebook_ids: request.notebookIds }
+      })
+
+      if (matchError) throw matchError
+
+      const chunks: RetrievedChunk[] = (matches ?? []).map((match: MatchedDocument, index: number) => ({
+        index,
+        sourceId: match.metadata?.source_id ?? '',
+        linesFrom: match.metadata?.loc?.lines?.from ?? 1,
+        linesTo: match.metadata?.loc?.lines?.to ?? 1,
+        content: match.content
+      }))
+
+      console.log(`Retrieved ${chunks.length} chunks for notebook:`, request.notebookId ?? 'workspace')
+
+      const tokens = model.streamAnswer({ question: request.message, history, chunks })
+
+      // Relay the answer and store it once complete, as n8n's chat memory would
+      return (async function* () {
+        let answer = ''
+        try {
+          for await (const token of tokens) {
+            answer += token
+            yield token
+          }
+        } catch (error) {
+          // Same fallback answer the n8n chat workflow stores on failure
+          await saveChatMessage(request.sessionId, {
+            type: 'ai',
+            content: normalizeAnswer('Sorry, I encountered an error creating a response. Please check the error log.')
+          })
+          throw error
+        }
+        await saveChatMessage(request.sessionId, { type: 'ai', content: normalizeAnswer(answer) })
+      })()
+    },
+
+    async processDocument(request: ProcessDocumentRequest) {
+      const { data: source, error } = await supabase
+        .from('sources')
+        .select('notebook_id')
+        .eq('id', request.sourceId)
+        .single()
+
+      if (error) throw error
+
+      EdgeRuntime.waitUntil(
+        (async () => {
+          try {
+            const file = await downloadSourceFile(request.filePath)
+            const text = await extractText(file, request.sourceType, request.filePath, model)
+
+            // Keep parsed PDFs and transcripts so a retry can skip extraction
+            if (request.sourceType !== 'text') {
+              await storeExtractedText(supabase, request.sourceId, request.filePath, text)
+            }
+
+            await ingestSource(source.notebook_id, request.sourceId, text, { resumeFrom: request.resumeFrom })
+          } catch (error) {
+            await markSourceFailed(request.sourceId, error)
+          }
+        })()
+      )
+
+      return { provider: name, status: 'processing' }
+    },
+
+    async processAdditionalSources(request: AdditionalSourcesRequest) {
+      const sourceIds = request.sourceIds ?? []
+
+      EdgeRuntime.waitUntil(
+        (async () => {
+          if (request.type === 'copied-text') {
+            try {
+              await ingestSource(request.notebookId, sourceIds[0], request.content ?? '', {
+                title: request.title,
+                storeText: true
+              })
+            } catch (error) {
+              await markSourceFailed(sourceIds[0], error)
+            }
+            return
+          }
+
+          for (const [index, url] of (request.urls ?? []).entries()) {
+            try {
+              await recordSourceStage(supabase, sourceIds[index], 'extract', 'running')
+              const page = await model.fetchWebpage(url)
+              await ingestSource(request.notebookId, sourceIds[index], `${url}\n${page.content}`, {
+                title: page.title,
+                storeText: true
+              })
+            } catch (error) {
+              await markSourceFailed(sourceIds[index], error)
+            }
+          }
+        })()
+      )
+
+      return { provider: name, status: 'processing' }
+    },
+
+    async generateNotebookDetails(request: NotebookContentRequest) {
+      let text = request.content ?? ''
+
+      if (!text && request.filePath) {
+        if (request.sourceType === 'website') {
+          text = (await model.fetchWebpage(request.filePath)).content
+        } else {
+          const file = await downloadSourceFile(request.filePath)
+          text = await extractText(file, request.sourceType, request.filePath, model)
+        }
+      }
+
+      return await model.describeNotebook(text.substring(0, NOTEBOOK_DETAILS_TEXT_LIMIT))
+    },
+
+    async generateAudioOverview(request: AudioOverviewRequest) {
+      const { data: sources, error: sourcesError } = await supabase
+        .from('sources')
+        .select('title, content')
+        .eq('notebook_id', request.notebookId)
+        // The service role sees trashed sources too
+        .is('deleted_at', null)
+
+      if (sourcesError) throw sourcesError
+
+      const script = await model.writePodcastScript(
+        (sources ?? []).map((source: { title: string; content: string | null }) => ({
+          title: source.title,
+          content: source.content ?? ''
+        }))
+      )
+      const audio = await model.synthesizeSpeech(script)
+
+      const filePath = `${request.notebookId}/${crypto.randomUUID()}.${audio.extension}`
+      const { error: uploadError } = await supabase.storage
+        .from('audio')
+        .upload(filePath, audio.data, { contentType: audio.contentType })
+
+      if (uploadError) throw uploadError
+
+      // Signed for 24 hours, refresh-audio-url renews it afterwards
+      const { data: signedUrlData, error: signError } = await supabase.storage
+        .from('audio')
+        .createSignedUrl(filePath, 86400)
+
+      if (signError) throw signError
+
+      const expiresAt = new Date()
+      expiresAt.setHours(expiresAt.getHours() + 24)
+
+      const { error: updateError } = await supabase
+        .from('notebooks')
+        .update({
+          audio_overview_url: signedUrlData.signedUrl,
+          audio_url_expires_at: expiresAt.toISOString(),
+          audio_overview_generation_status: 'completed'
+        })
+        .eq('id', request.notebookId)
+
+      if (updateError) throw updateError
+
+      console.log('Audio overview stored for notebook:', request.notebookId)
+    },
+  }
+}
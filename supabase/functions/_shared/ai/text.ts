@@ -0,0 +1,77 @@
+import { ModelClient } from './types.ts'
+
+export interface TextChunk {
+  content: string;
+  linesFrom: number;
+  linesTo: number;
+}
+
+// Split text into overlapping chunks on line boundaries, keeping the line range
+// of each chunk so citations can point back into the source (like n8n's loc.lines).
+export const chunkText = (text: string, chunkSize = 1000, chunkOverlap = 200): TextChunk[] => {
+  const lines = text.split('\n').flatMap((line, index) => {
+    const parts = line.match(new RegExp(`[\\s\\S]{1,${chunkSize}}`, 'g')) ?? ['']
+    return parts.map(part => ({ text: part, number: index + 1 }))
+  })
+
+  const chunks: TextChunk[] = []
+  let current: { text: string; number: number }[] = []
+  let length = 0
+
+  const flush = () => {
+    const content = current.map(line => line.text).join('\n').trim()
+    if (content) {
+      chunks.push({
+        content,
+        linesFrom: current[0].number,
+        linesTo: current[current.length - 1].number,
+      })
+    }
+  }
+
+  for (const line of lines) {
+    if (length + line.text.length > chunkSize && current.length > 0) {
+      flush()
+
+      // Carry the tail of the previous chunk over so context spans the boundary
+      const overlap: typeof current = []
+      let overlapLength = 0
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (overlapLength + current[i].text.length > chunkOverlap) break
+        overlap.unshift(current[i])
+        overlapLength += current[i].text.length + 1
+      }
+
+      // Drop overlap lines that would push a long line over the chunk size
+      while (overlap.length > 0 && overlapLength + line.text.length > chunkSize) {
+        overlapLength -= overlap.shift()!.text.length + 1
+      }
+
+      current = overlap
+      length = overlapLength
+    }
+
+    current.push(line)
+    length += line.text.length + 1
+  }
+
+  flush()
+  return chunks
+}
+
+// Extract plain text from a stored source file
+export const extractText = async (file: Blob, sourceType: string, fileName: string, model: ModelClient) => {
+  if (sourceType === 'audio') {
+    return await model.transcribe(file, fileName)
+  }
+
+  if (sourceType === 'pdf') {
+    // Loaded on demand so text-only deployments don't need the PDF parser
+    const { extractText: extractPdfText, getDocumentProxy } = await import('https://esm.sh/unpdf@0.12.1')
+    const pdf = await getDocumentProxy(new Uint8Array(await file.arrayBuffer()))
+    const { text } = await extractPdfText(pdf, { mergePages: true })
+    return Array.isArray(text) ? text.join('\n') : text
+  }
+
+  return await file.text()
+}
@@ -0,0 +1,114 @@
+// Provider interface for every AI-backed edge function.
+// A deployment picks one implementation with the AI_PROVIDER secret:
+//   n8n    - forward requests to the n8n workflow webhooks (default)
+//   native - chunk, embed, retrieve and call the LLM from the edge functions
+//   mock   - the native pipeline with a deterministic offline model client
+
+export interface ChatRequest {
+  sessionId: string;
+  // null for a workspace chat, which retrieves from notebookIds instead
+  notebookId: string | null;
+  notebookIds: string[];
+  message: string;
+  userId?: string;
+  // Restrict retrieval to these sources, empty means all sources
+  sourceIds: string[];
+  stream: boolean;
+}
+
+// Ingestion stages of a source, in order (tracked in source_jobs)
+export type SourceStage = 'upload' | 'extract' | 'chunk' | 'embed' | 'summarize';
+
+export interface ProcessDocumentRequest {
+  sourceId: string;
+  filePath: string;
+  sourceType: string;
+  // Retry of a failed job: filePath is the stored extracted text and the
+  // stages before this one already completed
+  resumeFrom?: SourceStage;
+  callbackUrl: string;
+}
+
+export interface AdditionalSourcesRequest {
+  type: 'multiple-websites' | 'copied-text';
+  notebookId: string;
+  urls?: string[];
+  sourceIds?: string[];
+  title?: string;
+  content?: string;
+  timestamp?: string;
+}
+
+export interface NotebookContentRequest {
+  notebookId: string;
+  sourceType: string;
+  filePath?: string;
+  content?: string;
+}
+
+export interface NotebookDetails {
+  title: string;
+  summary?: string;
+  notebook_icon?: string;
+  background_color?: string;
+  example_questions?: string[];
+}
+
+export interface AudioOverviewRequest {
+  notebookId: string;
+  callbackUrl: string;
+}
+
+export interface AIProvider {
+  name: string;
+  // Resolves to the answer text as it is generated. Structured answers are
+  // streamed as raw JSON ({ output: [...] }), which the client parses partially.
+  chat(request: ChatRequest): Promise<AsyncIterable<string>>;
+  // Start extracting, summarising and indexing an uploaded source
+  processDocument(request: ProcessDocumentRequest): Promise<unknown>;
+  processAdditionalSources(request: AdditionalSourcesRequest): Promise<unknown>;
+  generateNotebookDetails(request: NotebookContentRequest): Promise<NotebookDetails>;
+  // Resolves once the overview is stored or the external job has accepted it
+  generateAudioOverview(request: AudioOverviewRequest): Promise<void>;
+}
+
+// ----------------------------------------------------------------------------
+// Model client used by the native pipeline (OpenAI or the offline mock)
+// ----------------------------------------------------------------------------
+
+export interface ModelMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface RetrievedChunk {
+  index: number;
+  sourceId: string;
+  linesFrom: number;
+  linesTo: number;
+  content: string;
+}
+
+export interface AnswerRequest {
+  question: string;
+  history: ModelMessage[];
+  chunks: RetrievedChunk[];
+}
+
+export interface SpeechAudio {
+  data: Uint8Array;
+  contentType: string;
+  extension: string;
+}
+
+export interface ModelClient {
+  embed(texts: string[]): Promise<number[][]>;
+  // Yields the answer as JSON text in the n8n chat format ({ output: [{ text, citations }] })
+  streamAnswer(request: AnswerRequest): AsyncIterable<string>;
+  summarizeSource(text: string): Promise<{ title: string; summary: string }>;
+  describeNotebook(text: string): Promise<NotebookDetails>;
+  writePodcastScript(sources: { title: string; content: string }[]): Promise<string>;
+  synthesizeSpeech(script: string): Promise<SpeechAudio>;
+  transcribe(audio: Blob, fileName: string): Promise<string>;
+  fetchWebpage(url: string): Promise<{ title: string; content: string }>;
+}
@@ -0,0 +1,342 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { issueCallbackNonce } from './callbacks.ts'
+import { getErrorMessage, recordSourceStage } from './jobs.ts'
+import { applyNotebookDetails, parseNotebookDetailsResponse } from './notebookDetails.ts'
+
+// Durable delivery of n8n webhook calls through the webhook_jobs table.
+// Every attempt sends the job id as its Idempotency-Key. Retryable failures
+// (network errors, timeouts, 408/425/429 and 5xx) are retried with
+// exponential backoff: retries due within a minute run in the calling
+// function, later ones are picked up by dispatch-webhook-jobs. Jobs that
+// fail permanently or run out of attempts are dead-lettered.
+//
+// Callback nonces are not stored with the job. Each attempt issues fresh ones,
+// so a retry or re-drive after the old ones expired or were used still works.
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+export type WebhookJobKind =
+  | 'process-document'
+  | 'process-additional-sources'
+  | 'generate-notebook-content'
+  | 'generate-audio-overview'
+
+export interface WebhookJob {
+  id: string;
+  kind: WebhookJobKind;
+  webhook_url_env: string;
+  payload: Record<string, unknown>;
+  idempotency_key: string;
+  status: 'pending' | 'running' | 'succeeded' | 'dead';
+  attempts: number;
+  max_attempts: number;
+  timeout_ms: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  target_ids: string[];
+}
+
+export interface WebhookJobRequest {
+  kind: WebhookJobKind;
+  // Secret holding the webhook URL
+  urlEnv: string;
+  payload: Record<string, unknown>;
+  idempotencyKey: string;
+  // Sources or notebook to mark failed if the job is dead-lettered
+  targetIds: string[];
+  timeoutMs?: number;
+  maxAttempts?: number;
+}
+
+export type WebhookJobResult =
+  | { delivered: true; job: WebhookJob; body: unknown }
+  | { delivered: false; job: WebhookJob }
+
+// Thrown by synchronous provider calls whose webhook could not be reached
+// yet. The job stays queued and its result is applied when it is delivered.
+export class WebhookJobQueuedError extends Error {
+  constructor(public job: WebhookJob) {
+    super(`Webhook unavailable, queued for retry (job ${job.id}): ${job.last_error ?? 'unknown error'}`)
+    this.name = 'WebhookJobQueuedError'
+  }
+}
+
+class WebhookDeliveryError extends Error {
+  constructor(message: string, public retryable: boolean, public statusCode?: number) {
+    super(message)
+  }
+}
+
+const BASE_DELAY_MS = 5000
+const MAX_DELAY_MS = 10 * 60 * 1000
+const INLINE_RETRY_WINDOW_MS = 60 * 1000
+
+export const getBackoffDelayMs = (attempts: number) => {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_DELAY_MS)
+  // Jitter so a batch of jobs that failed together doesn't retry in lockstep
+  return Math.round(delay * (1 + Math.random() * 0.2))
+}
+
+const isRetryableStatus = (status: number) => status === 408 || status === 425 || status === 429 || status >= 500
+
+const parseResponseBody = (text: string): unknown => {
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+const markSourcesFailed = async (supabase: SupabaseClient, job: WebhookJob, error: string) => {
+  for (const sourceId of job.target_ids) {
+    await recordSourceStage(supabase, sourceId, null, 'failed', error)
+  }
+}
+
+// What happens to a job's target when it is delivered after the original
+// request has returned, or when it is dead-lettered. callbackFields adds the
+// nonces the workflow's callback has to echo to each attempt's payload.
+const jobHandlers: Record<WebhookJobKind, {
+  callbackFields?: (supabase: SupabaseClient, job: WebhookJob) => Promise<Record<string, unknown>>;
+  onDelayedDelivery?: (supabase: SupabaseClient, job: WebhookJob, body: unknown) => Promise<void>;
+  onDead: (supabase: SupabaseClient, job: WebhookJob, error: string) => Promise<void>;
+}> = {
+  'process-document': {
+    callbackFields: async (supabase, job) => ({
+      callback_nonce: await issueCallbackNonce(supabase, 'process-document-callback', job.target_ids[0])
+    }),
+    onDead: markSourcesFailed,
+  },
+  'process-additional-sources': {
+    // Each source is reported through process-document-callback with its own nonce
+    callbackFields: async (supabase, job) => {
+      const callbackNonces = await Promise.all(
+        job.target_ids.map(sourceId => issueCallbackNonce(supabase, 'process-document-callback', sourceId))
+      )
+      return job.payload.type === 'multiple-websites'
+        ? { callbackNonces } // Same order as sourceIds
+        : { callbackNonce: callbackNonces[0] }
+    },
+    onDead: markSourcesFailed,
+  },
+  'generate-notebook-content': {
+    onDelayedDelivery: async (supabase, job, body) => {
+      await applyNotebookDetails(supabase, job.target_ids[0], parseNotebookDetailsResponse(body))
+    },
+    onDead: async (supabase, job) => {
+      await supabase
+        .from('notebooks')
+        .update({ generation_status: 'failed' })
+        .in('id', job.target_ids)
+    },
+  },
+  'generate-audio-overview': {
+    callbackFields: async (supabase, job) => ({
+      callback_nonce: await issueCallbackNonce(supabase, 'audio-generation-callback', job.target_ids[0])
+    }),
+    onDead: async (supabase, job) => {
+      await supabase
+        .from('notebooks')
+        .update({ audio_overview_generation_status: 'failed' })
+        .in('id', job.target_ids)
+    },
+  },
+}
+
+const updateJob = async (supabase: SupabaseClient, jobId: string, updates: Record<string, unknown>) => {
+  const { data, error } = await supabase
+    .from('webhook_jobs')
+    .update({ ...updates, locked_until: null })
+    .eq('id', jobId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data as WebhookJob
+}
+
+// Make one delivery attempt of a claimed job and record the outcome
+const attemptDelivery = async (supabase: SupabaseClient, job: WebhookJob, delayed: boolean): Promise<WebhookJobResult> => {
+  const attempts = job.attempts + 1
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), job.timeout_ms)
+
+  console.log(`Delivering webhook job ${job.id} (${job.kind}), attempt ${attempts}/${job.max_attempts}`)
+
+  try {
+    const webhookUrl = Deno.env.get(job.webhook_url_env)
+    const authHeader = Deno.env.get('NOTEBOOK_GENERATION_AUTH')
+    if (!webhookUrl || !authHeader) {
+      // Not worth retrying until the secrets are fixed, then the job can be re-driven
+      throw new WebhookDeliveryError(`${webhookUrl ? 'NOTEBOOK_GENERATION_AUTH' : job.webhook_url_env} environment variable not set`, false)
+    }
+
+    const callbackFields = await jobHandlers[job.kind].callbackFields?.(supabase, job)
+
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': authHeader,
+        'Idempotency-Key': job.id,
+        'X-Webhook-Attempt': String(attempts),
+      },
+      body: JSON.stringify({ ...job.payload, ...callbackFields, job_id: job.id }),
+      signal: controller.signal
+    })
+
+    const text = await response.text()
+    if (!response.ok) {
+      throw new WebhookDeliveryError(
+        `Webhook responded with status: ${response.status} - ${text}`,
+        isRetryableStatus(response.status),
+        response.status
+      )
+    }
+
+    const body = parseResponseBody(text)
+    const deliveredJob = await updateJob(supabase, job.id, {
+      status: 'succeeded',
+      attempts,
+      last_status_code: response.status,
+      last_error: null,
+      response: body,
+      completed_at: new Date().toISOString()
+    })
+
+    if (delayed) {
+      await jobHandlers[job.kind].onDelayedDelivery?.(supabase, deliveredJob, body)
+    }
+
+    return { delivered: true, job: deliveredJob, body }
+  } catch (error) {
+    const message = controller.signal.aborted ? `Timed out after ${job.timeout_ms}ms` : getErrorMessage(error)
+    const retryable = !(error instanceof WebhookDeliveryError) || error.retryable
+    const statusCode = error instanceof WebhookDeliveryError ? error.statusCode ?? null : null
+
+    console.error(`Webhook job ${job.id} attempt ${attempts} failed:`, message)
+
+    if (!retryable || attempts >= job.max_attempts) {
+      const deadJob = await updateJob(supabase, job.id, {
+        status: 'dead',
+        attempts,
+        last_status_code: statusCode,
+        last_error: message,
+        dead_at: new Date().toISOString()
+      })
+      await jobHandlers[job.kind].onDead(supabase, deadJob, `n8n webhook failed after ${attempts} attempt(s): ${message}`)
+      return { delivered: false, job: deadJob }
+    }
+
+    const pendingJob = await updateJob(supabase, job.id, {
+      status: 'pending',
+      attempts,
+      last_status_code: statusCode,
+      last_error: message,
+      next_attempt_at: new Date(Date.now() + getBackoffDelayMs(attempts)).toISOString()
+    })
+    return { delivered: false, job: pendingJob }
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+const claimWebhookJobs = async (supabase: SupabaseClient, limit: number, jobId?: string) => {
+  const { data, error } = await supabase.rpc('claim_webhook_jobs', {
+    p_limit: limit,
+    p_job_id: jobId ?? null
+  })
+
+  if (error) throw error
+  return (data ?? []) as WebhookJob[]
+}
+
+// Keep retrying a failed job from the calling function while its next
+// attempt is due within the inline window
+const retryWithinWindow = async (supabase: SupabaseClient, job: WebhookJob) => {
+  const deadline = Date.now() + INLINE_RETRY_WINDOW_MS
+  let current = job
+
+  while (current.status === 'pending') {
+    const dueAt = new Date(current.next_attempt_at).getTime()
+    if (dueAt > deadline) return
+
+    await new Promise(resolve => setTimeout(resolve, Math.max(dueAt - Date.now(), 0)))
+
+    // Someone else (the dispatcher) may have claimed it meanwhile
+    const [claimed] = await claimWebhookJobs(supabase, 1, current.id)
+    if (!claimed) return
+
+    current = (await attemptDelivery(supabase, claimed, true)).job
+  }
+}
+
+const enqueueWebhookJob = async (supabase: SupabaseClient, request: WebhookJobRequest) => {
+  const { data, error } = await supabase
+    .from('webhook_jobs')
+    .insert({
+      kind: request.kind,
+      webhook_url_env: request.urlEnv,
+      payload: request.payload,
+      idempotency_key: request.idempotencyKey,
+      target_ids: request.targetIds,
+      timeout_ms: request.timeoutMs,
+      max_attempts: request.maxAttempts
+    })
+    .select()
+    .single()
+
+  if (!error) return data as WebhookJob
+
+  // unique_violation: the same request is already in flight, join it
+  if (error.code === '23505') {
+    const { data: existing, error: existingError } = await supabase
+      .from('webhook_jobs')
+      .select()
+      .eq('idempotency_key', request.idempotencyKey)
+      .in('status', ['pending', 'running'])
+      .single()
+
+    if (existingError) throw existingError
+    console.log(`Joining in-flight webhook job ${existing.id} for ${request.idempotencyKey}`)
+    return existing as WebhookJob
+  }
+
+  throw error
+}
+
+// Store a webhook call and try to deliver it right away. Resolves with the
+// response body when delivered, otherwise with the queued or dead job.
+export const sendWebhookJob = async (supabase: SupabaseClient, request: WebhookJobRequest): Promise<WebhookJobResult> => {
+  const job = await enqueueWebhookJob(supabase, request)
+
+  const [claimed] = await claimWebhookJobs(supabase, 1, job.id)
+  if (!claimed) {
+    return { delivered: false, job }
+  }
+
+  const result = await attemptDelivery(supabase, claimed, false)
+  if (!result.delivered && result.job.status === 'pending') {
+    EdgeRuntime.waitUntil(
+      retryWithinWindow(supabase, result.job).catch(error => {
+        console.error(`Inline retries of webhook job ${result.job.id} failed:`, error)
+      })
+    )
+  }
+
+  return result
+}
+
+// Deliver jobs whose next attempt is due, used by dispatch-webhook-jobs
+export const dispatchDueWebhookJobs = async (supabase: SupabaseClient, limit: number, jobId?: string) => {
+  const jobs = await claimWebhookJobs(supabase, limit, jobId)
+  let delivered = 0
+
+  for (const job of jobs) {
+    const result = await attemptDelivery(supabase, job, true)
+    if (result.delivered) delivered++
+  }
+
+  return { claimed: jobs.length, delivered }
+}
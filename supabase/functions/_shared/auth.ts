@@ -0,0 +1,201 @@
+import { createClient, User } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Caller authentication shared by the edge functions. The user is always
+// taken from the verified Supabase JWT and the role from their profile, never
+// from the request body. The n8n callbacks authenticate with a signature
+// instead (see ai/callbacks.ts).
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+export type UserRole = 'admin' | 'user'
+
+export interface AuthenticatedCaller {
+  user: User;
+  userId: string;
+  role: UserRole;
+  isAdmin: boolean;
+  // aal2 once the session has been verified with a second factor
+  aal: 'aal1' | 'aal2';
+  // False when the caller's role requires MFA and the session isn't aal2
+  mfaSatisfied: boolean;
+  // Acts as the caller, so RLS applies to everything read through it
+  supabase: SupabaseClient;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public status = 401) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+const getBearerToken = (req: Request) => {
+  const header = req.headers.get('Authorization')
+  const match = header?.match(/^Bearer\s+(.+)$/i)
+  return match ? match[1] : null
+}
+
+// Only call on a token getUser has verified, the signature isn't checked here
+const readAssuranceLevel = (token: string): 'aal1' | 'aal2' => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')
+    return JSON.parse(atob(payload)).aal === 'aal2' ? 'aal2' : 'aal1'
+  } catch {
+    return 'aal1'
+  }
+}
+
+// True for internal calls made with the service role key (e.g. scheduled jobs)
+export const isServiceRoleRequest = (req: Request) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  return !!serviceRoleKey && getBearerToken(req) === serviceRoleKey
+}
+
+// Verify the request's JWT and load the caller's role
+export const authenticate = async (req: Request): Promise<AuthenticatedCaller> => {
+  const token = getBearerToken(req)
+  if (!token) {
+    throw new AuthError('Authorization header is required')
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: `Bearer ${token}` } } }
+  )
+
+  const { data: { user }, error } = await supabase.auth.getUser(token)
+  if (error || !user) {
+    throw new AuthError('Invalid or expired session')
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile) {
+    throw new AuthError('User profile not found', 403)
+  }
+
+  const role: UserRole = profile.role === 'admin' ? 'admin' : 'user'
+
+  // Evaluated by the database from the session's aal claim, the same check
+  // the RLS policies use
+  const { data: mfaSatisfied, error: mfaError } = await supabase.rpc('mfa_requirement_satisfied')
+  if (mfaError) {
+    throw new AuthError('Could not verify multi-factor authentication', 500)
+  }
+
+  return {
+    user,
+    userId: user.id,
+    role,
+    isAdmin: role === 'admin',
+    aal: readAssuranceLevel(token),
+    mfaSatisfied: mfaSatisfied === true,
+    supabase
+  }
+}
+
+export const requireAdmin = (caller: AuthenticatedCaller) => {
+  if (!caller.isAdmin) {
+    throw new AuthError('Admin access required', 403)
+  }
+
+  if (!caller.mfaSatisfied) {
+    throw new AuthError('Multi-factor authentication is required for admin operations', 403)
+  }
+}
+
+// Reject a user id in the request body that isn't the caller's own
+export const assertCallerId = (caller: AuthenticatedCaller, claimedUserId: unknown) => {
+  if (claimedUserId !== undefined && claimedUserId !== null && claimedUserId !== caller.userId) {
+    throw new AuthError('user_id does not match the authenticated user', 403)
+  }
+}
+
+// Check through RLS that the caller can see a notebook
+export const assertCanReadNotebook = async (caller: AuthenticatedCaller, notebookId: unknown) => {
+  if (typeof notebookId !== 'string' || !notebookId) {
+    throw new AuthError('notebookId is required', 400)
+  }
+
+  const { data, error } = await caller.supabase
+    .from('notebooks')
+    .select('id')
+    .eq('id', notebookId)
+    .maybeSingle()
+
+  if (error || !data) {
+    throw new AuthError('Notebook not found', 404)
+  }
+}
+
+// Check that the caller is an owner or editor of the notebook (or an admin)
+export const assertCanEditNotebook = async (caller: AuthenticatedCaller, notebookId: unknown) => {
+  if (typeof notebookId !== 'string' || !notebookId) {
+    throw new AuthError('notebookId is required', 400)
+  }
+
+  const { data: allowed, error } = await caller.supabase.rpc('can_edit_notebook', {
+    p_notebook_id: notebookId
+  })
+
+  if (error || !allowed) {
+    throw new AuthError('Notebook not found', 404)
+  }
+}
+
+// Check that the caller owns the notebook (or is an admin)
+export const assertCanManageNotebook = async (caller: AuthenticatedCaller, notebookId: unknown) => {
+  if (typeof notebookId !== 'string' || !notebookId) {
+    throw new AuthError('notebookId is required', 400)
+  }
+
+  const { data: allowed, error } = await caller.supabase.rpc('can_manage_notebook', {
+    p_notebook_id: notebookId
+  })
+
+  if (error || !allowed) {
+    throw new AuthError('Notebook not found', 404)
+  }
+}
+
+// Check that the caller administers the workspace (admins administer all of them)
+export const assertWorkspaceAdmin = async (caller: AuthenticatedCaller, workspaceId: unknown) => {
+  if (typeof workspaceId !== 'string' || !workspaceId) {
+    throw new AuthError('workspaceId is required', 400)
+  }
+
+  const { data: allowed, error } = await caller.supabase.rpc('is_workspace_admin', {
+    p_workspace_id: workspaceId
+  })
+
+  if (error || !allowed) {
+    throw new AuthError('Workspace admin access required', 403)
+  }
+}
+
+// Check that the caller can edit the source's notebook or is an admin
+export const assertCanManageSource = async (caller: AuthenticatedCaller, sourceId: unknown) => {
+  if (typeof sourceId !== 'string' || !sourceId) {
+    throw new AuthError('sourceId is required', 400)
+  }
+
+  const { data: allowed, error } = await caller.supabase.rpc('can_manage_source', {
+    p_source_id: sourceId
+  })
+
+  if (error || !allowed) {
+    throw new AuthError('Source not found', 404)
+  }
+}
+
+export const authErrorResponse = (error: AuthError, corsHeaders: Record<string, string>) => {
+  return new Response(
+    JSON.stringify({ error: error.message }),
+    { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
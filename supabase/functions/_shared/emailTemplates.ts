@@ -0,0 +1,160 @@
+import { MailMessage } from './mailer.ts'
+
+// HTML and plain-text bodies for the account emails. Every email shares one
+// layout: a heading, a paragraph or two and a call-to-action button.
+
+const getAppName = () => Deno.env.get('APP_NAME') ?? 'Telkomsel AI Assistant'
+
+// Links in emails point at the frontend, e.g. buildAppLink('/reset-password', { token })
+export const buildAppLink = (path: string, params: Record<string, string> = {}) => {
+  const siteUrl = Deno.env.get('SITE_URL')
+  if (!siteUrl) {
+    throw new Error('SITE_URL environment variable not set')
+  }
+
+  const url = new URL(path, siteUrl)
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value))
+  return url.toString()
+}
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;')
+
+interface EmailContent {
+  to: string;
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action: { label: string; url: string };
+  footer: string;
+}
+
+const renderEmail = ({ to, subject, heading, paragraphs, action, footer }: EmailContent): MailMessage => {
+  const appName = getAppName()
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+    <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="560" cellspacing="0" cellpadding="0" style="background:#ffffff;border:1px solid #fee2e2;border-radius:12px;padding:32px;">
+            <tr><td style="font-size:14px;font-weight:bold;color:#dc2626;padding-bottom:16px;">${escapeHtml(appName)}</td></tr>
+            <tr><td style="font-size:22px;font-weight:bold;padding-bottom:16px;">${escapeHtml(heading)}</td></tr>
+            ${paragraphs.map(paragraph => `<tr><td style="font-size:15px;line-height:22px;padding-bottom:12px;">${escapeHtml(paragraph)}</td></tr>`).join('\n            ')}
+            <tr>
+              <td style="padding:16px 0 24px;">
+                <a href="${escapeHtml(action.url)}" style="display:inline-block;background:#dc2626;color:#ffffff;text-decoration:none;font-weight:bold;padding:12px 24px;border-radius:8px;">${escapeHtml(action.label)}</a>
+              </td>
+            </tr>
+            <tr><td style="font-size:12px;line-height:18px;color:#6b7280;">If the button doesn't work, copy this link into your browser:<br>${escapeHtml(action.url)}</td></tr>
+            <tr><td style="font-size:12px;line-height:18px;color:#6b7280;padding-top:16px;">${escapeHtml(footer)}</td></tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`
+
+  const text = [
+    heading,
+    '',
+    ...paragraphs,
+    '',
+    `${action.label}: ${action.url}`,
+    '',
+    footer,
+    '',
+    `- ${appName}`,
+  ].join('\n')
+
+  return { to, subject, html, text }
+}
+
+export const renderPasswordResetEmail = (to: string, link: string, expiresInMinutes: number) => renderEmail({
+  to,
+  subject: `Reset your ${getAppName()} password`,
+  heading: 'Reset your password',
+  paragraphs: [
+    'We received a request to reset the password for your account.',
+    `The link below can be used once and expires in ${expiresInMinutes} minutes.`,
+  ],
+  action: { label: 'Choose a new password', url: link },
+  footer: "If you didn't ask to reset your password, you can ignore this email. Your password won't change.",
+})
+
+export const renderInvitationEmail = (
+  to: string,
+  link: string,
+  invitedBy: string,
+  role: string,
+  workspaceName?: string
+) => renderEmail({
+  to,
+  subject: `You've been invited to ${getAppName()}`,
+  heading: "You're invited",
+  paragraphs: [
+    workspaceName
+      ? `${invitedBy} invited you to the ${workspaceName} workspace on ${getAppName()}.`
+      : `${invitedBy} invited you to join ${getAppName()} as ${role === 'admin' ? 'an administrator' : 'a user'}.`,
+    'Accept the invitation to choose your password and sign in.',
+  ],
+  action: { label: 'Accept invitation', url: link },
+  footer: "If you weren't expecting this invitation, you can ignore this email.",
+})
+
+// Sent to someone who already has an account when they're added to a workspace
+export const renderWorkspaceAddedEmail = (
+  to: string,
+  link: string,
+  addedBy: string,
+  workspaceName: string
+) => renderEmail({
+  to,
+  subject: `You've been added to ${workspaceName}`,
+  heading: `Welcome to ${workspaceName}`,
+  paragraphs: [
+    `${addedBy} added you to the ${workspaceName} workspace on ${getAppName()}.`,
+    'Switch to it from the workspace menu on your dashboard.',
+  ],
+  action: { label: `Open ${getAppName()}`, url: link },
+  footer: 'You can leave the workspace at any time from your dashboard.',
+})
+
+export const renderVerificationEmail = (to: string, link: string, fullName?: string) => renderEmail({
+  to,
+  subject: `Verify your email for ${getAppName()}`,
+  heading: fullName ? `Welcome, ${fullName}` : 'Welcome',
+  paragraphs: [
+    'Thanks for registering. Please confirm that this is your email address to activate your account.',
+  ],
+  action: { label: 'Verify email', url: link },
+  footer: "If you didn't create an account, you can ignore this email.",
+})
+
+// Sent when a notebook is shared. People without an account get a sign-up
+// link instead and join the notebook once they register with this address.
+export const renderNotebookShareEmail = (
+  to: string,
+  link: string,
+  sharedBy: string,
+  notebookTitle: string,
+  role: string,
+  hasAccount: boolean
+) => renderEmail({
+  to,
+  subject: `${sharedBy} shared "${notebookTitle}" with you`,
+  heading: 'A notebook was shared with you',
+  paragraphs: [
+    `${sharedBy} added you to "${notebookTitle}" as ${role === 'editor' ? 'an editor' : 'a viewer'}.`,
+    hasAccount
+      ? `You'll find it under "Shared with me" on your dashboard.`
+      : `Create an account with ${to} to open it.`,
+  ],
+  action: { label: hasAccount ? 'Open notebook' : 'Create account', url: link },
+  footer: "If you weren't expecting this, you can ignore this email.",
+})
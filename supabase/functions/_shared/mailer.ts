@@ -0,0 +1,83 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+
+// Outgoing email for account flows (password reset, invitations, sign-up
+// verification). The transport is picked with MAIL_TRANSPORT:
+//   smtp (default) - SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_SECURE.
+//                    Works against the Inbucket/Mailpit server of `supabase start`.
+//   log            - prints the message instead of sending it.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface Mailer {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const getFromAddress = () => Deno.env.get('MAIL_FROM') ?? 'no-reply@localhost'
+
+const createSmtpMailer = (): Mailer => {
+  const hostname = Deno.env.get('SMTP_HOST')
+  if (!hostname) {
+    throw new Error('SMTP_HOST environment variable not set')
+  }
+
+  const username = Deno.env.get('SMTP_USER')
+  const password = Deno.env.get('SMTP_PASSWORD')
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const client = new SMTPClient({
+        connection: {
+          hostname,
+          port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+          tls: Deno.env.get('SMTP_SECURE') === 'true',
+          // Local catch-all servers accept mail without credentials
+          auth: username && password ? { username, password } : undefined,
+        },
+      })
+
+      try {
+        await client.send({
+          from: getFromAddress(),
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+        })
+      } finally {
+        await client.close()
+      }
+    },
+  }
+}
+
+const createLogMailer = (): Mailer => ({
+  name: 'log',
+  async send(message) {
+    console.log('Email (not sent, MAIL_TRANSPORT=log):', {
+      from: getFromAddress(),
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    })
+  },
+})
+
+export const createMailer = (): Mailer => {
+  const transport = Deno.env.get('MAIL_TRANSPORT') ?? 'smtp'
+
+  switch (transport) {
+    case 'smtp':
+      return createSmtpMailer()
+    case 'log':
+      return createLogMailer()
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`)
+  }
+}
@@ -0,0 +1,118 @@
+// Layout of the notebook archives written by export-notebook and read by
+// import-notebook. An archive is a zip with:
+//
+//   manifest.json        format, version, where and when it was exported
+//   notebook.json        the notebook's own settings and generated content
+//   sources.json         source rows, with their file paths inside the archive
+//   notes.json           the exporting user's notes in the notebook
+//   documents.jsonl      one embedded chunk per line
+//   files/sources/...    original uploads and stored extracted text
+//   files/audio/...      the audio overview
+//
+// Ids are kept as they were on the exporting instance; the importer maps
+// every notebook, source and note id to a new one.
+
+export const ARCHIVE_FORMAT = 'insightslm-notebook'
+export const ARCHIVE_VERSION = 1
+
+export const SOURCE_FILES_DIR = 'files/sources'
+export const AUDIO_FILES_DIR = 'files/audio'
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exported_at: string;
+  exported_from: string;
+  // Embeddings can only be reused by an instance with the same model
+  embedding_model: string;
+  counts: {
+    sources: number;
+    notes: number;
+    documents: number;
+    files: number;
+  };
+}
+
+export interface ArchiveNotebook {
+  id: string;
+  title: string;
+  description: string | null;
+  color: string | null;
+  icon: string | null;
+  example_questions: string[] | null;
+  generation_status: string | null;
+  keyword_search_weight: number;
+  semantic_search_weight: number;
+  visibility: 'private' | 'workspace';
+  // Name of the file under files/audio, if the notebook has an overview
+  audio_file: string | null;
+}
+
+export interface ArchiveSource {
+  id: string;
+  title: string;
+  display_name: string | null;
+  type: string;
+  url: string | null;
+  content: string | null;
+  summary: string | null;
+  metadata: Record<string, unknown> | null;
+  file_size: number | null;
+  processing_status: string | null;
+  created_at: string;
+  // Names of the files under files/sources. The stored path of a website is
+  // its URL until the text has been stored, so it has no file.
+  file: string | null;
+  extracted_text_file: string | null;
+}
+
+export interface ArchiveNote {
+  id: string;
+  title: string;
+  content: string;
+  source_type: string | null;
+  extracted_text: string | null;
+  created_at: string;
+}
+
+export interface ArchiveDocument {
+  content: string | null;
+  metadata: Record<string, unknown> | null;
+  embedding: string | null;
+}
+
+// The n8n workflows pick their own model, so only the provider is known there
+export const getEmbeddingModel = () => {
+  const provider = (Deno.env.get('AI_PROVIDER') || 'n8n').toLowerCase()
+  return provider === 'native'
+    ? `native:${Deno.env.get('OPENAI_EMBEDDING_MODEL') || 'text-embedding-3-small'}`
+    : provider
+}
+
+// Storage paths are <workspace_id>/<notebook_id>/<name> (or the older
+// <notebook_id>/<name>); the archive only keeps <name>
+export const getStorageFileName = (path: string | null | undefined) => {
+  if (!path || /^https?:\/\//i.test(path)) return null
+  return path.split('/').pop() || null
+}
+
+// The exporter names files <uuid>.<ext> after the source or audio object.
+// Anything else in an uploaded archive could climb out of the notebook's
+// folder once it is joined into a storage path.
+const ARCHIVE_FILE_NAME = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.[a-z0-9]{1,10}$/i
+
+export const isArchiveFileName = (name: unknown): name is string =>
+  typeof name === 'string' && ARCHIVE_FILE_NAME.test(name)
+
+// Replace every old id in a string, e.g. source ids in stored file names,
+// chunk metadata or citations inside notes
+export const remapIds = (value: string, ids: Map<string, string>) => {
+  let result = value
+  for (const [oldId, newId] of ids) {
+    result = result.split(oldId).join(newId)
+  }
+  return result
+}
+
+export const remapJson = <T>(value: T, ids: Map<string, string>): T =>
+  value === null || value === undefined ? value : JSON.parse(remapIds(JSON.stringify(value), ids))
@@ -0,0 +1,55 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Single-use password reset tokens issued by password-recovery once a
+// security answer checks out or a reset link is emailed, and redeemed by
+// update-password. Only a hash of the token is stored.
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+// How the token reached the user: returned after a security answer, or
+// emailed as a reset link
+export type ResetTokenDelivery = 'security_question' | 'email'
+
+export const RESET_TOKEN_TTL_MS = 15 * 60 * 1000
+
+const toHex = (bytes: ArrayBuffer) => Array.from(new Uint8Array(bytes))
+  .map(byte => byte.toString(16).padStart(2, '0'))
+  .join('')
+
+const hashResetToken = async (token: string) => {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token)))
+}
+
+export const issueResetToken = async (
+  supabase: SupabaseClient,
+  userId: string,
+  ipAddress: string | null,
+  ttlMs = RESET_TOKEN_TTL_MS,
+  delivery: ResetTokenDelivery = 'security_question'
+) => {
+  const token = toHex(crypto.getRandomValues(new Uint8Array(32)).buffer)
+  const expiresAt = new Date(Date.now() + ttlMs).toISOString()
+
+  const { error } = await supabase
+    .from('password_reset_tokens')
+    .insert({
+      user_id: userId,
+      token_hash: await hashResetToken(token),
+      ip_address: ipAddress,
+      delivery,
+      expires_at: expiresAt
+    })
+
+  if (error) throw error
+  return { token, expiresAt }
+}
+
+// Returns the user the token was issued to, or null if it can't be used
+export const consumeResetToken = async (supabase: SupabaseClient, token: string): Promise<string | null> => {
+  const { data: userId, error } = await supabase.rpc('consume_password_reset_token', {
+    p_token_hash: await hashResetToken(token)
+  })
+
+  if (error) throw error
+  return userId ?? null
+}
@@ -0,0 +1,127 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Removes the storage objects queued in storage_deletions by delete_source()
+// and delete_notebook(). Entries are cleared once the Storage API has removed
+// them; failures keep the entry with the error for the next purge-orphans run.
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+interface StorageDeletion {
+  id: number;
+  bucket: 'sources' | 'audio';
+  path: string;
+  is_prefix: boolean;
+  attempts: number;
+}
+
+const LIST_PAGE_SIZE = 1000
+
+// Every object under a folder, including nested folders. Folders are listed
+// as entries without an id.
+const listObjects = async (supabase: SupabaseClient, bucket: string, prefix: string): Promise<string[]> => {
+  const paths: string[] = []
+  let offset = 0
+
+  while (true) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(prefix, { limit: LIST_PAGE_SIZE, offset })
+
+    if (error) throw error
+
+    for (const item of data ?? []) {
+      const path = `${prefix}/${item.name}`
+      if (item.id === null) {
+        paths.push(...await listObjects(supabase, bucket, path))
+      } else {
+        paths.push(path)
+      }
+    }
+
+    if (!data || data.length < LIST_PAGE_SIZE) break
+    offset += LIST_PAGE_SIZE
+  }
+
+  return paths
+}
+
+const removeQueuedObjects = async (supabase: SupabaseClient, deletion: StorageDeletion) => {
+  const paths = deletion.is_prefix
+    ? await listObjects(supabase, deletion.bucket, deletion.path)
+    : [deletion.path]
+
+  // Removing a path that is already gone is not an error
+  for (let i = 0; i < paths.length; i += LIST_PAGE_SIZE) {
+    const { error } = await supabase.storage
+      .from(deletion.bucket)
+      .remove(paths.slice(i, i + LIST_PAGE_SIZE))
+
+    if (error) throw error
+  }
+
+  return paths.length
+}
+
+// Works through the oldest queued deletions. Returns how many entries were
+// cleared and how many failed and stay queued.
+export const processStorageDeletions = async (supabase: SupabaseClient, limit = 100) => {
+  const { data: deletions, error } = await supabase
+    .from('storage_deletions')
+    .select('id, bucket, path, is_prefix, attempts')
+    .order('created_at', { ascending: true })
+    .limit(limit)
+
+  if (error) throw error
+
+  let removed = 0
+  let objects = 0
+  let failed = 0
+
+  for (const deletion of (deletions ?? []) as StorageDeletion[]) {
+    try {
+      objects += await removeQueuedObjects(supabase, deletion)
+
+      const { error: clearError } = await supabase
+        .from('storage_deletions')
+        .delete()
+        .eq('id', deletion.id)
+
+      if (clearError) throw clearError
+      removed++
+    } catch (deletionError) {
+      console.error('Error removing queued storage objects:', deletion.bucket, deletion.path, deletionError)
+      failed++
+
+      await supabase
+        .from('storage_deletions')
+        .update({
+          attempts: deletion.attempts + 1,
+          last_error: deletionError instanceof Error ? deletionError.message : String(deletionError)
+        })
+        .eq('id', deletion.id)
+    }
+  }
+
+  return { removed, objects, failed }
+}
+
+// Removes a notebook that was only partly created, e.g. by a failed import or
+// duplication, the same way an admin purging it from the trash would. Needs
+// the service role client.
+export const discardNotebook = async (supabaseAdmin: SupabaseClient, notebookId: string) => {
+  try {
+    const { error: trashError } = await supabaseAdmin
+      .from('notebooks')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', notebookId)
+
+    if (trashError) throw trashError
+
+    const { error: deleteError } = await supabaseAdmin.rpc('delete_notebook', { p_notebook_id: notebookId })
+    if (deleteError) throw deleteError
+
+    await processStorageDeletions(supabaseAdmin)
+  } catch (cleanupError) {
+    console.error('Failed to clean up partial notebook, left in the trash:', notebookId, cleanupError)
+  }
+}
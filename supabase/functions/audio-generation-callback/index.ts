@@ -1,10 +1,11 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { CALLBACK_SIGNATURE_HEADER, CALLBACK_TIMESTAMP_HEADER, CallbackAuthError, consumeCallbackNonce, verifyCallbackRequest } from '../_shared/ai/callbacks.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': `authorization, x-client-info, apikey, content-type, ${CALLBACK_SIGNATURE_HEADER}, ${CALLBACK_TIMESTAMP_HEADER}`,
 }
 
 serve(async (req) => {
@@ -13,12 +14,12 @@ serve(async (req) => {
   }
 
   try {
-    const body = await req.json()
+    const body = await verifyCallbackRequest(req)
     console.log('Audio generation callback received:', body)
     
-    const { notebook_id, audio_url, status, error } = body
+    const { notebook_id, audio_url, status, error, callback_nonce } = body
     
-    if (!notebook_id) {
+    if (typeof notebook_id !== 'string' || !notebook_id) {
       return new Response(
         JSON.stringify({ error: 'Notebook ID is required' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -29,6 +30,9 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
+    // The nonce ties this callback to the job that was sent for the notebook
+    await consumeCallbackNonce(supabase, 'audio-generation-callback', notebook_id, callback_nonce)
+
     if (status === 'success' && audio_url) {
       // Set expiration time (24 hours from now)
       const expiresAt = new Date()
@@ -76,6 +80,14 @@ serve(async (req) => {
     )
 
   } catch (error) {
+    if (error instanceof CallbackAuthError) {
+      console.error('Rejected audio-generation-callback:', error.message)
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
     console.error('Error in audio-generation-callback:', error)
     return new Response(
       JSON.stringify({ 
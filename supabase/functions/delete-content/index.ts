@@ -0,0 +1,77 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authenticate, AuthError, authErrorResponse } from '../_shared/auth.ts'
+import { processStorageDeletions } from '../_shared/storageDeletions.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+)
+
+// Permanently deletes a trashed source ({ sourceId }), notebook
+// ({ notebookId }) or note ({ noteId }) for an admin. The delete functions run
+// with the caller's token, so the permission checks and all database changes
+// happen in one transaction.
+// The storage objects they queue are removed afterwards; anything that fails
+// here is retried by purge-orphans.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const caller = await authenticate(req)
+    const { sourceId, notebookId, noteId } = await req.json()
+
+    const hasSource = typeof sourceId === 'string' && !!sourceId
+    const hasNotebook = typeof notebookId === 'string' && !!notebookId
+    const hasNote = typeof noteId === 'string' && !!noteId
+
+    if ([hasSource, hasNotebook, hasNote].filter(Boolean).length !== 1) {
+      return jsonResponse({ success: false, error: 'Exactly one of sourceId, notebookId or noteId is required' }, 400)
+    }
+
+    const { data: title, error: deleteError } = hasSource
+      ? await caller.supabase.rpc('delete_source', { p_source_id: sourceId })
+      : hasNotebook
+        ? await caller.supabase.rpc('delete_notebook', { p_notebook_id: notebookId })
+        : await caller.supabase.rpc('delete_note', { p_note_id: noteId })
+
+    if (deleteError) {
+      // Raised by the functions for missing rows and missing permissions
+      if (deleteError.code === 'P0002') throw new AuthError(deleteError.message, 404)
+      if (deleteError.code === '42501') throw new AuthError(deleteError.message, 403)
+      throw deleteError
+    }
+
+    console.log('Deleted', hasSource ? `source ${sourceId}` : hasNotebook ? `notebook ${notebookId}` : `note ${noteId}`)
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // The rows are already gone, so a storage failure doesn't fail the request
+    let storage = null
+    try {
+      storage = await processStorageDeletions(supabaseAdmin)
+      console.log('Removed queued storage objects:', storage)
+    } catch (storageError) {
+      console.error('Error removing storage objects, left for purge-orphans:', storageError)
+    }
+
+    return jsonResponse({ success: true, title, storage })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders)
+    }
+
+    console.error('Error in delete-content function:', error)
+    return jsonResponse({ success: false, error: error.message }, 500)
+  }
+})
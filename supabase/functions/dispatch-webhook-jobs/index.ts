@@ -0,0 +1,50 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { dispatchDueWebhookJobs } from '../_shared/ai/webhookJobs.ts'
+import { authenticate, AuthError, authErrorResponse, isServiceRoleRequest, requireAdmin } from '../_shared/auth.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const DEFAULT_BATCH_SIZE = 10
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Called every minute by a scheduled job with the service role key, or by
+    // an admin re-driving a dead-lettered job from the admin panel
+    if (!isServiceRoleRequest(req)) {
+      requireAdmin(await authenticate(req))
+    }
+
+    const { jobId, limit } = await req.json().catch(() => ({}))
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const result = await dispatchDueWebhookJobs(supabaseClient, limit ?? DEFAULT_BATCH_SIZE, jobId)
+    console.log('Dispatched webhook jobs:', result)
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders)
+    }
+
+    console.error('Error dispatching webhook jobs:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,192 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { assertCanManageNotebook, assertWorkspaceAdmin, authenticate, AuthError, authErrorResponse } from '../_shared/auth.ts'
+import { discardNotebook } from '../_shared/storageDeletions.ts'
+import { getStorageFileName, remapIds } from '../_shared/notebookArchive.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+)
+
+// Sources still being processed have no complete set of chunks to copy
+const UNFINISHED_STATUSES = ['uploading', 'pending', 'processing']
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+const copyFile = async (supabase: SupabaseClient, fromPath: string, toPath: string) => {
+  const { error } = await supabase.storage.from('sources').copy(fromPath, toPath)
+  if (error) throw new Error(`Failed to copy sources/${fromPath}: ${error.message}`)
+}
+
+// Copies a notebook with its sources, stored files and embeddings into a new
+// notebook in the same workspace, owned by the caller. Used for "Duplicate",
+// for saving a notebook as a template (asTemplate) and for starting a new
+// notebook from a template. Notes, chat history, members and the audio
+// overview stay with the original.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const caller = await authenticate(req)
+    const { notebookId, title, asTemplate = false } = await req.json()
+
+    if (typeof notebookId !== 'string' || !notebookId) {
+      throw new AuthError('notebookId is required', 400)
+    }
+
+    const { data: notebook, error: notebookError } = await caller.supabase
+      .from('notebooks')
+      .select('*')
+      .eq('id', notebookId)
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (notebookError) throw notebookError
+    if (!notebook) throw new AuthError('Notebook not found', 404)
+
+    // Anyone who can see a template can start from it; copying any other
+    // notebook takes the same access as exporting it
+    if (asTemplate) {
+      await assertWorkspaceAdmin(caller, notebook.workspace_id)
+    } else if (!notebook.is_template) {
+      await assertCanManageNotebook(caller, notebookId)
+    }
+
+    const newNotebookId = crypto.randomUUID()
+    const newTitle = typeof title === 'string' && title.trim()
+      ? title.trim()
+      : `Copy of ${notebook.title}`
+
+    // Inserted with the caller's token, so workspace membership and limits
+    // are checked like for any new notebook. Templates are shared with the
+    // workspace so its members can start from them.
+    const { error: insertError } = await caller.supabase
+      .from('notebooks')
+      .insert({
+        id: newNotebookId,
+        user_id: caller.userId,
+        workspace_id: notebook.workspace_id,
+        title: newTitle,
+        description: notebook.description,
+        color: notebook.color,
+        icon: notebook.icon,
+        example_questions: notebook.example_questions,
+        generation_status: notebook.generation_status,
+        keyword_search_weight: notebook.keyword_search_weight,
+        semantic_search_weight: notebook.semantic_search_weight,
+        is_template: asTemplate,
+        visibility: asTemplate ? 'workspace' : 'private'
+      })
+
+    if (insertError) {
+      if (insertError.code === '42501') throw new AuthError(insertError.message, 403)
+      throw insertError
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    try {
+      const { data: sources, error: sourcesError } = await caller.supabase
+        .from('sources')
+        .select('*')
+        .eq('notebook_id', notebookId)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: true })
+
+      if (sourcesError) throw sourcesError
+
+      const copied = (sources ?? []).filter(source => !UNFINISHED_STATUSES.includes(source.processing_status))
+      const skipped = (sources ?? []).length - copied.length
+
+      const ids = new Map<string, string>([[notebookId, newNotebookId]])
+      for (const source of copied) ids.set(source.id, crypto.randomUUID())
+
+      const notebookPath = `${notebook.workspace_id}/${newNotebookId}`
+      const toNewPath = (path: string) => `${notebookPath}/${remapIds(getStorageFileName(path)!, ids)}`
+
+      const sourceRows: Record<string, unknown>[] = []
+      for (const source of copied) {
+        const hasFile = !!getStorageFileName(source.file_path)
+        const filePath = hasFile ? toNewPath(source.file_path) : source.file_path
+        if (hasFile) await copyFile(caller.supabase, source.file_path, filePath)
+
+        const metadata: Record<string, unknown> = { ...(source.metadata ?? {}) }
+        const extractedTextPath = metadata.extractedTextPath as string | undefined
+        if (extractedTextPath && getStorageFileName(extractedTextPath)) {
+          metadata.extractedTextPath = toNewPath(extractedTextPath)
+          await copyFile(caller.supabase, extractedTextPath, metadata.extractedTextPath as string)
+        }
+
+        sourceRows.push({
+          id: ids.get(source.id),
+          notebook_id: newNotebookId,
+          title: source.title,
+          display_name: source.display_name,
+          type: source.type,
+          url: source.url,
+          content: source.content,
+          summary: source.summary,
+          metadata,
+          file_path: filePath,
+          file_size: source.file_size,
+          processing_status: source.processing_status
+        })
+      }
+
+      if (sourceRows.length > 0) {
+        const { error: sourcesInsertError } = await caller.supabase.from('sources').insert(sourceRows)
+        if (sourcesInsertError) {
+          if (sourcesInsertError.code === '42501') throw new AuthError(sourcesInsertError.message, 403)
+          throw sourcesInsertError
+        }
+      }
+
+      // Chunks are copied in the database, the embeddings never leave it
+      const { data: documents, error: documentsError } = await caller.supabase.rpc('copy_notebook_documents', {
+        p_from_notebook_id: notebookId,
+        p_to_notebook_id: newNotebookId,
+        p_source_ids: Object.fromEntries(copied.map(source => [source.id, ids.get(source.id)]))
+      })
+
+      if (documentsError) throw documentsError
+
+      console.log('Duplicated notebook:', {
+        from: notebookId,
+        notebook_id: newNotebookId,
+        as_template: asTemplate,
+        sources: copied.length,
+        skipped,
+        documents
+      })
+
+      return jsonResponse({
+        success: true,
+        notebookId: newNotebookId,
+        title: newTitle,
+        sources: copied.length,
+        skipped
+      })
+    } catch (copyError) {
+      await discardNotebook(supabaseAdmin, newNotebookId)
+      throw copyError
+    }
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders)
+    }
+
+    console.error('Error in duplicate-notebook function:', error)
+    return jsonResponse({ success: false, error: error.message }, 500)
+  }
+})
@@ -0,0 +1,236 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { zipSync, strToU8 } from 'https://esm.sh/fflate@0.8.2'
+import { assertCanManageNotebook, authenticate, AuthError, authErrorResponse } from '../_shared/auth.ts'
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  ArchiveDocument,
+  ArchiveManifest,
+  ArchiveNote,
+  ArchiveNotebook,
+  ArchiveSource,
+  AUDIO_FILES_DIR,
+  getEmbeddingModel,
+  getStorageFileName,
+  SOURCE_FILES_DIR,
+} from '../_shared/notebookArchive.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+)
+
+const DOCUMENTS_PAGE_SIZE = 500
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+// Audio overviews are stored as signed URLs: .../object/sign/audio/<path>?token=...
+const getAudioPath = (audioUrl: string | null) => {
+  if (!audioUrl) return null
+
+  const parts = new URL(audioUrl).pathname.split('/')
+  const bucketIndex = parts.findIndex(part => part === 'audio')
+  return bucketIndex === -1 ? null : decodeURIComponent(parts.slice(bucketIndex + 1).join('/'))
+}
+
+const downloadFile = async (supabase: SupabaseClient, bucket: string, path: string) => {
+  const { data, error } = await supabase.storage.from(bucket).download(path)
+  if (error) throw new Error(`Failed to download ${bucket}/${path}: ${error.message}`)
+  return new Uint8Array(await data.arrayBuffer())
+}
+
+// Chunks are paged by id so large notebooks don't hit the row limit
+const fetchDocuments = async (supabase: SupabaseClient, notebookId: string) => {
+  const documents: ArchiveDocument[] = []
+  let lastId = 0
+
+  while (true) {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id, content, metadata, embedding')
+      .eq('metadata->>notebook_id', notebookId)
+      .gt('id', lastId)
+      .order('id', { ascending: true })
+      .limit(DOCUMENTS_PAGE_SIZE)
+
+    if (error) throw error
+
+    for (const row of data ?? []) {
+      documents.push({ content: row.content, metadata: row.metadata, embedding: row.embedding })
+    }
+
+    if (!data || data.length < DOCUMENTS_PAGE_SIZE) break
+    lastId = data[data.length - 1].id
+  }
+
+  return documents
+}
+
+// Packs a notebook into a single zip (see _shared/notebookArchive.ts) for
+// import-notebook on another instance. Everything is read with the caller's
+// token, so only what they can see ends up in the archive.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const caller = await authenticate(req)
+    const { notebookId } = await req.json()
+
+    // Exports carry every file and embedding, so they're up to the owners
+    await assertCanManageNotebook(caller, notebookId)
+
+    const { data: notebook, error: notebookError } = await caller.supabase
+      .from('notebooks')
+      .select('*')
+      .eq('id', notebookId)
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (notebookError) throw notebookError
+    if (!notebook) throw new AuthError('Notebook not found', 404)
+
+    const { data: sources, error: sourcesError } = await caller.supabase
+      .from('sources')
+      .select('*')
+      .eq('notebook_id', notebookId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: true })
+
+    if (sourcesError) throw sourcesError
+
+    const { data: notes, error: notesError } = await caller.supabase
+      .from('notes')
+      .select('*')
+      .eq('notebook_id', notebookId)
+      .eq('user_id', caller.userId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: true })
+
+    if (notesError) throw notesError
+
+    const documents = await fetchDocuments(caller.supabase, notebookId)
+
+    const files: Record<string, Uint8Array> = {}
+
+    const archiveSources: ArchiveSource[] = []
+    for (const source of sources ?? []) {
+      const file = getStorageFileName(source.file_path)
+      const extractedTextPath = source.metadata?.extractedTextPath as string | undefined
+      const extractedTextFile = getStorageFileName(extractedTextPath)
+
+      if (file) {
+        files[`${SOURCE_FILES_DIR}/${file}`] = await downloadFile(caller.supabase, 'sources', source.file_path)
+      }
+      if (extractedTextFile && extractedTextPath) {
+        files[`${SOURCE_FILES_DIR}/${extractedTextFile}`] = await downloadFile(caller.supabase, 'sources', extractedTextPath)
+      }
+
+      archiveSources.push({
+        id: source.id,
+        title: source.title,
+        display_name: source.display_name,
+        type: source.type,
+        url: source.url,
+        content: source.content,
+        summary: source.summary,
+        metadata: source.metadata,
+        file_size: source.file_size,
+        processing_status: source.processing_status,
+        created_at: source.created_at,
+        file,
+        extracted_text_file: extractedTextFile
+      })
+    }
+
+    // A missing or expired overview isn't worth failing the export for
+    let audioFile: string | null = null
+    const audioPath = notebook.audio_overview_generation_status === 'completed'
+      ? getAudioPath(notebook.audio_overview_url)
+      : null
+
+    if (audioPath) {
+      try {
+        // n8n names the file freely, the archive stores it after the notebook
+        const extension = getStorageFileName(audioPath)?.match(/\.([a-z0-9]{1,10})$/i)?.[1] ?? 'mp3'
+        audioFile = `${notebook.id}.${extension}`
+        files[`${AUDIO_FILES_DIR}/${audioFile}`] = await downloadFile(caller.supabase, 'audio', audioPath)
+      } catch (audioError) {
+        console.error('Skipping audio overview in export:', audioError)
+        audioFile = null
+      }
+    }
+
+    const archiveNotebook: ArchiveNotebook = {
+      id: notebook.id,
+      title: notebook.title,
+      description: notebook.description,
+      color: notebook.color,
+      icon: notebook.icon,
+      example_questions: notebook.example_questions,
+      generation_status: notebook.generation_status,
+      keyword_search_weight: notebook.keyword_search_weight,
+      semantic_search_weight: notebook.semantic_search_weight,
+      visibility: notebook.visibility,
+      audio_file: audioFile
+    }
+
+    const archiveNotes: ArchiveNote[] = (notes ?? []).map(note => ({
+      id: note.id,
+      title: note.title,
+      content: note.content,
+      source_type: note.source_type,
+      extracted_text: note.extracted_text,
+      created_at: note.created_at
+    }))
+
+    const manifest: ArchiveManifest = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exported_at: new Date().toISOString(),
+      exported_from: Deno.env.get('SUPABASE_URL') ?? '',
+      embedding_model: getEmbeddingModel(),
+      counts: {
+        sources: archiveSources.length,
+        notes: archiveNotes.length,
+        documents: documents.length,
+        files: Object.keys(files).length
+      }
+    }
+
+    const archive = zipSync({
+      'manifest.json': strToU8(JSON.stringify(manifest, null, 2)),
+      'notebook.json': strToU8(JSON.stringify(archiveNotebook, null, 2)),
+      'sources.json': strToU8(JSON.stringify(archiveSources)),
+      'notes.json': strToU8(JSON.stringify(archiveNotes)),
+      'documents.jsonl': strToU8(documents.map(document => JSON.stringify(document)).join('\n')),
+      // Uploads are mostly compressed formats already
+      ...Object.fromEntries(Object.entries(files).map(([name, data]) => [name, [data, { level: 0 }]]))
+    })
+
+    console.log('Exported notebook:', notebookId, manifest.counts)
+
+    return new Response(archive, {
+      headers: {
+        ...corsHeaders,
+        // supabase-js hands octet-stream responses to the caller as a Blob
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="notebook-${notebookId}.zip"`
+      }
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders)
+    }
+
+    console.error('Error in export-notebook function:', error)
+    return jsonResponse({ success: false, error: error.message }, 500)
+  }
+})
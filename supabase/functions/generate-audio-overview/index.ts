@@ -1,6 +1,8 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getAIProvider } from '../_shared/ai/index.ts'
+import { assertCanEditNotebook, authenticate, AuthError, authErrorResponse } from '../_shared/auth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +15,7 @@ serve(async (req) => {
   }
 
   try {
+    const caller = await authenticate(req)
     const { notebookId } = await req.json()
     
     if (!notebookId) {
@@ -22,6 +25,8 @@ serve(async (req) => {
       )
     }
 
+    await assertCanEditNotebook(caller, notebookId)
+
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
@@ -39,49 +44,19 @@ serve(async (req) => {
       throw updateError
     }
 
-    // Get audio generation webhook URL and auth from secrets
-    const audioGenerationWebhookUrl = Deno.env.get('AUDIO_GENERATION_WEBHOOK_URL')
-    const authHeader = Deno.env.get('NOTEBOOK_GENERATION_AUTH')
-
-    if (!audioGenerationWebhookUrl || !authHeader) {
-      console.error('Missing audio generation webhook URL or auth')
-      return new Response(
-        JSON.stringify({ error: 'Audio generation service not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+    const provider = getAIProvider()
 
-    console.log('Starting audio overview generation for notebook:', notebookId)
+    console.log('Starting audio overview generation for notebook:', notebookId, 'with AI provider:', provider.name)
 
     // Start the background task without awaiting
     EdgeRuntime.waitUntil(
       (async () => {
         try {
-          // Call the external audio generation webhook
-          const audioResponse = await fetch(audioGenerationWebhookUrl, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': authHeader,
-            },
-            body: JSON.stringify({
-              notebook_id: notebookId,
-              callback_url: `${supabaseUrl}/functions/v1/audio-generation-callback`
-            })
+          await provider.generateAudioOverview({
+            notebookId,
+            callbackUrl: `${supabaseUrl}/functions/v1/audio-generation-callback`
           })
-
-          if (!audioResponse.ok) {
-            const errorText = await audioResponse.text()
-            console.error('Audio generation webhook failed:', errorText)
-            
-            // Update status to failed
-            await supabase
-              .from('notebooks')
-              .update({ audio_overview_generation_status: 'failed' })
-              .eq('id', notebookId)
-          } else {
-            console.log('Audio generation webhook called successfully for notebook:', notebookId)
-          }
+          console.log('Audio generation started successfully for notebook:', notebookId)
         } catch (error) {
           console.error('Background audio generation error:', error)
           
@@ -108,6 +83,10 @@ serve(async (req) => {
     )
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders)
+    }
+
     console.error('Error in generate-audio-overview:', error)
     return new Response(
       JSON.stringify({ 
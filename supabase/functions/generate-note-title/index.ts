@@ -1,6 +1,7 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticate, AuthError, authErrorResponse } from "../_shared/auth.ts";
 
 const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
 
@@ -16,6 +17,9 @@ serve(async (req) => {
   }
 
   try {
+    // Signed-in users only, this spends OpenAI credits
+    await authenticate(req);
+
     const { content } = await req.json();
 
     if (!content) {
@@ -85,6 +89,10 @@ serve(async (req) => {
       }
     );
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders);
+    }
+
     console.error('Error in generate-note-title function:', error);
     return new Response(
       JSON.stringify({ error: error.message }), 
@@ -1,6 +1,11 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getAIProvider, NotebookDetails } from '../_shared/ai/index.ts'
+import { extractStructuredDocument, STRUCTURED_SOURCE_TYPES } from '../_shared/ai/formats.ts'
+import { applyNotebookDetails } from '../_shared/ai/notebookDetails.ts'
+import { WebhookJobQueuedError } from '../_shared/ai/webhookJobs.ts'
+import { assertCanEditNotebook, authenticate, AuthError, authErrorResponse } from '../_shared/auth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +18,7 @@ serve(async (req) => {
   }
 
   try {
+    const caller = await authenticate(req)
     const { notebookId, filePath, sourceType } = await req.json()
 
     if (!notebookId || !sourceType) {
@@ -22,23 +28,10 @@ serve(async (req) => {
       )
     }
 
-    console.log('Processing request:', { notebookId, filePath, sourceType });
-
-    // Get environment variables
-    const webServiceUrl = Deno.env.get('NOTEBOOK_GENERATION_URL')
-    const authHeader = Deno.env.get('NOTEBOOK_GENERATION_AUTH')
+    // Generation overwrites the notebook's title and description
+    await assertCanEditNotebook(caller, notebookId)
 
-    if (!webServiceUrl || !authHeader) {
-      console.error('Missing environment variables:', {
-        hasUrl: !!webServiceUrl,
-        hasAuth: !!authHeader
-      })
-      
-      return new Response(
-        JSON.stringify({ error: 'Web service configuration missing' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+    console.log('Processing request:', { notebookId, filePath, sourceType });
 
     // Initialize Supabase client
     const supabaseClient = createClient(
@@ -52,17 +45,12 @@ serve(async (req) => {
       .update({ generation_status: 'generating' })
       .eq('id', notebookId)
 
-    console.log('Calling external web service...')
+    const provider = getAIProvider()
+    console.log('Generating notebook content with AI provider:', provider.name)
 
-    // Prepare payload based on source type
-    let payload: any = {
-      sourceType: sourceType
-    };
+    let content: string | undefined;
 
-    if (filePath) {
-      // For file sources (PDF, audio) or URLs (website, YouTube)
-      payload.filePath = filePath;
-    } else {
+    if (!filePath) {
       // For text sources, we need to get the content from the database
       const { data: source } = await supabaseClient
         .from('sources')
@@ -71,26 +59,44 @@ serve(async (req) => {
         .single();
       
       if (source?.content) {
-        payload.content = source.content.substring(0, 5000); // Limit content size
+        content = source.content.substring(0, 5000); // Limit content size
       }
     }
 
-    console.log('Sending payload to web service:', payload);
-
-    // Call external web service
-    const response = await fetch(webServiceUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': authHeader,
-      },
-      body: JSON.stringify(payload)
-    })
-
-    if (!response.ok) {
-      console.error('Web service error:', response.status, response.statusText)
-      const errorText = await response.text();
-      console.error('Error response:', errorText);
+    // Structured files are flattened here, the providers only read plain text
+    const isStructured = filePath && STRUCTURED_SOURCE_TYPES.includes(sourceType);
+
+    let generatedData: NotebookDetails;
+    try {
+      if (isStructured) {
+        const { data: file, error: downloadError } = await supabaseClient.storage
+          .from('sources')
+          .download(filePath)
+
+        if (downloadError) throw downloadError
+
+        const extracted = await extractStructuredDocument(file, sourceType, filePath)
+        content = extracted.text.substring(0, 5000);
+      }
+
+      generatedData = await provider.generateNotebookDetails({
+        notebookId,
+        sourceType: isStructured ? 'text' : sourceType,
+        filePath: isStructured ? undefined : filePath,
+        content
+      })
+    } catch (error) {
+      // n8n is unreachable for now, the queued job fills in the notebook
+      // when a retry gets through and marks it failed if it never does
+      if (error instanceof WebhookJobQueuedError) {
+        console.log('Notebook content generation queued:', error.message)
+        return new Response(
+          JSON.stringify({ success: true, queued: true, jobId: error.job.id }),
+          { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      console.error('Notebook content generation failed:', error)
       
       // Update status to failed
       await supabaseClient
@@ -104,32 +110,13 @@ serve(async (req) => {
       )
     }
 
-    const generatedData = await response.json()
     console.log('Generated data:', generatedData)
 
-    // Parse the response format: object with output property
-    let title, description, notebookIcon, backgroundColor, exampleQuestions;
-    
-    if (generatedData && generatedData.output) {
-      const output = generatedData.output;
-      title = output.title;
-      description = output.summary;
-      notebookIcon = output.notebook_icon;
-      backgroundColor = output.background_color;
-      exampleQuestions = output.example_questions || [];
-    } else {
-      console.error('Unexpected response format:', generatedData)
-      
-      await supabaseClient
-        .from('notebooks')
-        .update({ generation_status: 'failed' })
-        .eq('id', notebookId)
-
-      return new Response(
-        JSON.stringify({ error: 'Invalid response format from web service' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+    const title = generatedData.title;
+    const description = generatedData.summary;
+    const notebookIcon = generatedData.notebook_icon;
+    const backgroundColor = generatedData.background_color;
+    const exampleQuestions = generatedData.example_questions || [];
 
     if (!title) {
       console.error('No title returned from web service')
@@ -146,19 +133,9 @@ serve(async (req) => {
     }
 
     // Update notebook with generated content including icon, color, and example questions
-    const { error: notebookError } = await supabaseClient
-      .from('notebooks')
-      .update({
-        title: title,
-        description: description || null,
-        icon: notebookIcon || '📝',
-        color: backgroundColor || 'bg-gray-100',
-        example_questions: exampleQuestions || [],
-        generation_status: 'completed'
-      })
-      .eq('id', notebookId)
-
-    if (notebookError) {
+    try {
+      await applyNotebookDetails(supabaseClient, notebookId, generatedData)
+    } catch (notebookError) {
       console.error('Notebook update error:', notebookError)
       return new Response(
         JSON.stringify({ error: 'Failed to update notebook' }),
@@ -182,6 +159,10 @@ serve(async (req) => {
     )
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders)
+    }
+
     console.error('Edge function error:', error)
     return new Response(
       JSON.stringify({ error: 'Internal server error' }),
@@ -0,0 +1,332 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { unzipSync, strFromU8 } from 'https://esm.sh/fflate@0.8.2'
+import { authenticate, AuthError, authErrorResponse } from '../_shared/auth.ts'
+import { discardNotebook } from '../_shared/storageDeletions.ts'
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  ArchiveDocument,
+  ArchiveManifest,
+  ArchiveNote,
+  ArchiveNotebook,
+  ArchiveSource,
+  AUDIO_FILES_DIR,
+  getEmbeddingModel,
+  isArchiveFileName,
+  remapIds,
+  remapJson,
+  SOURCE_FILES_DIR,
+} from '../_shared/notebookArchive.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+)
+
+const INSERT_BATCH_SIZE = 100
+const AUDIO_URL_TTL_SECONDS = 86400
+// The archive and everything in it are held in memory while importing
+const MAX_ARCHIVE_BYTES = 100 * 1024 * 1024
+const MAX_UNCOMPRESSED_BYTES = 250 * 1024 * 1024
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+// A source to run through process-document again, as the upload flow does
+interface ReprocessRequest {
+  sourceId: string;
+  filePath: string;
+  sourceType: string;
+  resumeFrom?: 'chunk';
+}
+
+const readJson = <T>(entries: Record<string, Uint8Array>, name: string): T => {
+  const entry = entries[name]
+  if (!entry) throw new AuthError(`The archive is missing ${name}`, 400)
+
+  try {
+    return JSON.parse(strFromU8(entry)) as T
+  } catch {
+    throw new AuthError(`${name} in the archive is not valid JSON`, 400)
+  }
+}
+
+const readDocuments = (entries: Record<string, Uint8Array>) => {
+  const entry = entries['documents.jsonl']
+  if (!entry) return []
+
+  return strFromU8(entry)
+    .split('\n')
+    .filter(line => line.trim())
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as ArchiveDocument
+      } catch {
+        throw new AuthError(`Line ${index + 1} of documents.jsonl in the archive is not valid JSON`, 400)
+      }
+    })
+}
+
+// Sizes come from the zip headers and fflate inflates into buffers of that
+// size, so the total bounds what unzipping can allocate
+const unzipArchive = (data: Uint8Array) => {
+  let uncompressedBytes = 0
+
+  try {
+    return unzipSync(data, {
+      filter: (file) => {
+        uncompressedBytes += file.originalSize
+        if (uncompressedBytes > MAX_UNCOMPRESSED_BYTES) {
+          throw new AuthError('The archive is too large to import', 413)
+        }
+        return true
+      }
+    })
+  } catch (error) {
+    if (error instanceof AuthError) throw error
+    throw new AuthError('The file is not a notebook archive', 400)
+  }
+}
+
+// File names are joined into storage paths, see isArchiveFileName
+const assertArchiveFileName = (name: string | null | undefined) => {
+  if (name != null && !isArchiveFileName(name)) {
+    throw new AuthError(`The archive has an invalid file name: ${name}`, 400)
+  }
+}
+
+const insertInBatches = async (supabase: SupabaseClient, table: string, rows: Record<string, unknown>[]) => {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase.from(table).insert(rows.slice(i, i + INSERT_BATCH_SIZE))
+    if (error) throw error
+  }
+}
+
+const uploadFile = async (supabase: SupabaseClient, bucket: string, path: string, data: Uint8Array) => {
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(path, new Blob([data]), {
+      contentType: path.endsWith('.txt') ? 'text/plain' : undefined,
+      upsert: false
+    })
+
+  if (error) throw new Error(`Failed to upload ${bucket}/${path}: ${error.message}`)
+}
+
+// Recreates a notebook from an export-notebook archive in the caller's
+// current workspace. Every id gets a new one, so the same archive can be
+// imported more than once. With reembed the stored chunks are skipped and the
+// caller runs the returned sources through process-document instead, e.g.
+// when the instances use different embedding models.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const caller = await authenticate(req)
+
+    const form = await req.formData().catch(() => null)
+    const archive = form?.get('archive')
+    const reembed = form?.get('reembed') === 'true'
+
+    if (!(archive instanceof File)) {
+      return jsonResponse({ success: false, error: 'archive is required' }, 400)
+    }
+
+    if (archive.size > MAX_ARCHIVE_BYTES) {
+      throw new AuthError('The archive is too large to import', 413)
+    }
+
+    const entries = unzipArchive(new Uint8Array(await archive.arrayBuffer()))
+
+    const manifest = readJson<ArchiveManifest>(entries, 'manifest.json')
+    if (manifest.format !== ARCHIVE_FORMAT) {
+      throw new AuthError('The file is not a notebook archive', 400)
+    }
+    if (manifest.version > ARCHIVE_VERSION) {
+      throw new AuthError('The archive was exported by a newer version and cannot be imported here', 400)
+    }
+
+    const notebook = readJson<ArchiveNotebook>(entries, 'notebook.json')
+    const sources = readJson<ArchiveSource[]>(entries, 'sources.json')
+    const notes = readJson<ArchiveNote[]>(entries, 'notes.json')
+    const documents = reembed ? [] : readDocuments(entries)
+
+    for (const source of sources) {
+      assertArchiveFileName(source.file)
+      assertArchiveFileName(source.extracted_text_file)
+    }
+    assertArchiveFileName(notebook.audio_file)
+
+    const { data: workspaceId, error: workspaceError } = await caller.supabase.rpc('current_workspace_id')
+    if (workspaceError) throw workspaceError
+    if (!workspaceId) throw new AuthError('You are not a member of any workspace', 403)
+
+    const ids = new Map<string, string>([[notebook.id, crypto.randomUUID()]])
+    for (const source of sources) ids.set(source.id, crypto.randomUUID())
+    for (const note of notes) ids.set(note.id, crypto.randomUUID())
+
+    const notebookId = ids.get(notebook.id)!
+    const notebookPath = `${workspaceId}/${notebookId}`
+
+    // Inserted with the caller's token, so workspace membership and limits
+    // are checked like for any new notebook
+    const { error: notebookError } = await caller.supabase
+      .from('notebooks')
+      .insert({
+        id: notebookId,
+        user_id: caller.userId,
+        workspace_id: workspaceId,
+        title: notebook.title,
+        description: notebook.description,
+        color: notebook.color,
+        icon: notebook.icon,
+        example_questions: notebook.example_questions,
+        generation_status: notebook.generation_status,
+        keyword_search_weight: notebook.keyword_search_weight,
+        semantic_search_weight: notebook.semantic_search_weight,
+        visibility: notebook.visibility
+      })
+
+    if (notebookError) {
+      if (notebookError.code === '42501') throw new AuthError(notebookError.message, 403)
+      throw notebookError
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    try {
+      const reprocess: ReprocessRequest[] = []
+      const sourceRows: Record<string, unknown>[] = []
+
+      for (const source of sources) {
+        const sourceId = ids.get(source.id)!
+        const filePath = source.file ? `${notebookPath}/${remapIds(source.file, ids)}` : null
+        const extractedTextPath = source.extracted_text_file
+          ? `${notebookPath}/${remapIds(source.extracted_text_file, ids)}`
+          : null
+
+        if (source.file && filePath) {
+          const data = entries[`${SOURCE_FILES_DIR}/${source.file}`]
+          if (!data) throw new AuthError(`The archive is missing the file of "${source.title}"`, 400)
+          await uploadFile(caller.supabase, 'sources', filePath, data)
+        }
+
+        if (source.extracted_text_file && extractedTextPath) {
+          const data = entries[`${SOURCE_FILES_DIR}/${source.extracted_text_file}`]
+          if (data) await uploadFile(caller.supabase, 'sources', extractedTextPath, data)
+        }
+
+        const metadata: Record<string, unknown> = { ...(remapJson(source.metadata, ids) ?? {}) }
+        if (extractedTextPath) {
+          metadata.extractedTextPath = extractedTextPath
+        } else {
+          delete metadata.extractedTextPath
+        }
+
+        // Stored text skips parsing and transcription, the original file is the fallback
+        const canReprocess = reembed && !!filePath
+        if (canReprocess) {
+          reprocess.push(extractedTextPath
+            ? { sourceId, filePath, sourceType: source.type, resumeFrom: 'chunk' }
+            : { sourceId, filePath, sourceType: ['text', 'website'].includes(source.type) ? 'text' : source.type })
+        }
+
+        sourceRows.push({
+          id: sourceId,
+          notebook_id: notebookId,
+          title: source.title,
+          display_name: source.display_name,
+          type: source.type,
+          url: source.url,
+          content: source.content,
+          summary: source.summary,
+          metadata,
+          file_path: filePath ?? source.url,
+          file_size: source.file_size,
+          processing_status: canReprocess ? 'pending' : source.processing_status
+        })
+      }
+
+      await insertInBatches(caller.supabase, 'sources', sourceRows)
+
+      // Chunks whose source isn't part of the archive would never be cleaned up
+      const importedSourceIds = new Set(sources.map(source => source.id))
+      await insertInBatches(caller.supabase, 'documents', documents
+        .filter(document => importedSourceIds.has(String(document.metadata?.source_id ?? '')))
+        .map(document => ({
+          content: document.content,
+          embedding: document.embedding,
+          metadata: remapJson(document.metadata, ids)
+        })))
+
+      await insertInBatches(caller.supabase, 'notes', notes.map(note => ({
+        id: ids.get(note.id),
+        user_id: caller.userId,
+        notebook_id: notebookId,
+        title: note.title,
+        content: remapIds(note.content, ids),
+        source_type: note.source_type,
+        extracted_text: note.extracted_text
+      })))
+
+      // Only the service role writes to the audio bucket
+      const audioData = notebook.audio_file ? entries[`${AUDIO_FILES_DIR}/${notebook.audio_file}`] : null
+      if (notebook.audio_file && audioData) {
+        const audioPath = `${notebookId}/${remapIds(notebook.audio_file, ids)}`
+        await uploadFile(supabaseAdmin, 'audio', audioPath, audioData)
+
+        const { data: signedUrl, error: signError } = await supabaseAdmin.storage
+          .from('audio')
+          .createSignedUrl(audioPath, AUDIO_URL_TTL_SECONDS)
+
+        if (signError) throw signError
+
+        const { error: audioError } = await supabaseAdmin
+          .from('notebooks')
+          .update({
+            audio_overview_url: signedUrl.signedUrl,
+            audio_url_expires_at: new Date(Date.now() + AUDIO_URL_TTL_SECONDS * 1000).toISOString(),
+            audio_overview_generation_status: 'completed'
+          })
+          .eq('id', notebookId)
+
+        if (audioError) throw audioError
+      }
+
+      const warnings: string[] = []
+      if (!reembed && documents.length > 0 && manifest.embedding_model !== getEmbeddingModel()) {
+        warnings.push(`The archive was embedded with ${manifest.embedding_model} and this instance uses ${getEmbeddingModel()}. Import again with re-embedding if answers look off.`)
+      }
+
+      console.log('Imported notebook:', { notebook_id: notebookId, from: manifest.exported_from, counts: manifest.counts, reembed })
+
+      return jsonResponse({
+        success: true,
+        notebookId,
+        title: notebook.title,
+        reprocess,
+        warnings
+      })
+    } catch (importError) {
+      await discardNotebook(supabaseAdmin, notebookId)
+      throw importError
+    }
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders)
+    }
+
+    console.error('Error in import-notebook function:', error)
+    return jsonResponse({ success: false, error: error.message }, 500)
+  }
+})
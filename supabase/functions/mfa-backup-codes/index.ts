@@ -0,0 +1,206 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authenticate, AuthError, authErrorResponse } from '../_shared/auth.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const BACKUP_CODE_COUNT = 10
+// Unambiguous characters, no 0/O or 1/I/L
+const BACKUP_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'
+// Wrong codes allowed per account within the window before redeeming is locked
+const MAX_FAILED_REDEMPTIONS = Number(Deno.env.get('MFA_BACKUP_CODE_MAX_ATTEMPTS') ?? 5)
+const REDEMPTION_WINDOW_MS = Number(Deno.env.get('MFA_BACKUP_CODE_WINDOW_MINUTES') ?? 15) * 60 * 1000
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+interface AttemptStart {
+  attempt_id: string | null;
+  locked: boolean;
+  failures: number | null;
+  locked_until: string | null;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+)
+
+// Codes are shown as xxxxx-xxxxx, but typed in any case with or without the dash
+const normalizeCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+// Bytes from here up are discarded, otherwise byte % length would make the
+// first characters of the alphabet more likely than the rest
+const UNBIASED_BYTE_LIMIT = 256 - (256 % BACKUP_CODE_ALPHABET.length)
+
+const generateCode = () => {
+  let chars = ''
+  while (chars.length < 10) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(16))) {
+      if (byte < UNBIASED_BYTE_LIMIT && chars.length < 10) {
+        chars += BACKUP_CODE_ALPHABET[byte % BACKUP_CODE_ALPHABET.length]
+      }
+    }
+  }
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`
+}
+
+const hashCode = async (code: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeCode(code)))
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const countRemainingCodes = async (supabase: SupabaseClient, userId: string) => {
+  const { count, error } = await supabase
+    .from('mfa_backup_codes')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('used_at', null)
+
+  if (error) throw error
+  return count ?? 0
+}
+
+// Check the lockout and record the attempt as failed in one step (see
+// begin_mfa_backup_code_attempt), so parallel guesses can't all get past the
+// check. An accepted code then marks it successful.
+const beginRedemptionAttempt = async (supabase: SupabaseClient, userId: string): Promise<AttemptStart> => {
+  const { data, error } = await supabase.rpc('begin_mfa_backup_code_attempt', {
+    p_user_id: userId,
+    p_window_seconds: Math.round(REDEMPTION_WINDOW_MS / 1000),
+    p_max_failures: MAX_FAILED_REDEMPTIONS
+  })
+
+  if (error) throw error
+  return data[0]
+}
+
+const lockedResponse = (lockedUntil: string | null) => jsonResponse({
+  success: false,
+  locked: true,
+  lockedUntil,
+  error: 'Too many incorrect backup codes. Please try again later.'
+}, 429)
+
+// Backup codes for users who lose their authenticator:
+//   status   - how many unused codes are left
+//   generate - replace the codes with a new set (needs an aal2 session)
+//   redeem   - use a code from a password-only session; removes the user's
+//              TOTP factors so they can sign in and enrol again
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const caller = await authenticate(req)
+    const { action, code } = await req.json()
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    if (action === 'status') {
+      return jsonResponse({ remaining: await countRemainingCodes(supabaseAdmin, caller.userId) })
+    }
+
+    if (action === 'generate') {
+      if (caller.aal !== 'aal2') {
+        throw new AuthError('Verify with your authenticator app before creating backup codes', 403)
+      }
+
+      const codes = Array.from({ length: BACKUP_CODE_COUNT }, generateCode)
+
+      const { error: deleteError } = await supabaseAdmin
+        .from('mfa_backup_codes')
+        .delete()
+        .eq('user_id', caller.userId)
+
+      if (deleteError) throw deleteError
+
+      const rows = await Promise.all(codes.map(async backupCode => ({
+        user_id: caller.userId,
+        code_hash: await hashCode(backupCode)
+      })))
+
+      const { error: insertError } = await supabaseAdmin.from('mfa_backup_codes').insert(rows)
+      if (insertError) throw insertError
+
+      console.log('Generated MFA backup codes for user:', caller.userId)
+      return jsonResponse({ codes })
+    }
+
+    if (action !== 'redeem') {
+      return jsonResponse({ error: `Unsupported action: ${action}` }, 400)
+    }
+
+    if (typeof code !== 'string' || !normalizeCode(code)) {
+      return jsonResponse({ error: 'code is required' }, 400)
+    }
+
+    const attempt = await beginRedemptionAttempt(supabaseAdmin, caller.userId)
+    if (attempt.locked) {
+      console.log('Backup code redemption locked for user:', caller.userId)
+      return lockedResponse(attempt.locked_until)
+    }
+
+    const { data: consumed, error: consumeError } = await supabaseAdmin.rpc('consume_mfa_backup_code', {
+      p_user_id: caller.userId,
+      p_code_hash: await hashCode(code)
+    })
+
+    if (consumeError) throw consumeError
+
+    if (!consumed) {
+      const remainingAttempts = MAX_FAILED_REDEMPTIONS - (attempt.failures ?? 0) - 1
+      if (remainingAttempts <= 0) {
+        return lockedResponse(new Date(Date.now() + REDEMPTION_WINDOW_MS).toISOString())
+      }
+
+      return jsonResponse({ success: false, remainingAttempts, error: 'Backup code is invalid or has already been used.' }, 400)
+    }
+
+    const { error: attemptError } = await supabaseAdmin
+      .from('mfa_backup_code_attempts')
+      .update({ success: true })
+      .eq('id', attempt.attempt_id)
+
+    if (attemptError) throw attemptError
+
+    const { data: factors, error: factorsError } = await supabaseAdmin.auth.admin.mfa.listFactors({
+      userId: caller.userId
+    })
+
+    if (factorsError) throw factorsError
+
+    for (const factor of factors.factors) {
+      const { error: deleteFactorError } = await supabaseAdmin.auth.admin.mfa.deleteFactor({
+        id: factor.id,
+        userId: caller.userId
+      })
+
+      if (deleteFactorError) throw deleteFactorError
+    }
+
+    // The remaining codes belonged to the removed factors
+    const { error: cleanupError } = await supabaseAdmin
+      .from('mfa_backup_codes')
+      .delete()
+      .eq('user_id', caller.userId)
+
+    if (cleanupError) throw cleanupError
+
+    console.log('Redeemed MFA backup code and removed factors for user:', caller.userId)
+    return jsonResponse({ success: true })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders)
+    }
+
+    console.error('Error in mfa-backup-codes function:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
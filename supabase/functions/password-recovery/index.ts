@@ -0,0 +1,221 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import bcrypt from 'https://esm.sh/bcryptjs@3.0.2'
+import { issueResetToken } from '../_shared/passwordReset.ts'
+import { createMailer } from '../_shared/mailer.ts'
+import { buildAppLink, renderPasswordResetEmail } from '../_shared/emailTemplates.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Failed answers allowed per account within the window before it is locked
+const MAX_FAILED_ATTEMPTS = Number(Deno.env.get('PASSWORD_RECOVERY_MAX_ATTEMPTS') ?? 5)
+const LOCKOUT_WINDOW_MS = Number(Deno.env.get('PASSWORD_RECOVERY_WINDOW_MINUTES') ?? 15) * 60 * 1000
+// Limit one client working through many accounts
+const MAX_FAILED_ATTEMPTS_PER_IP = MAX_FAILED_ATTEMPTS * 4
+// Emailed links take longer to act on than an answer checked in the browser
+const RESET_LINK_TTL_MINUTES = Number(Deno.env.get('PASSWORD_RESET_LINK_TTL_MINUTES') ?? 60)
+// Reset emails sent per account within the lockout window
+const MAX_RESET_EMAILS = 3
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+type RecoveryMethod = 'security_question' | 'email' | 'both'
+
+interface RecoverableUser {
+  id: string;
+  email: string;
+  security_question: string | null;
+  security_answer_hash: string | null;
+  recovery_method: RecoveryMethod;
+}
+
+interface AttemptStart {
+  attempt_id: string | null;
+  locked: boolean;
+  failures: number | null;
+  locked_until: string | null;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+)
+
+// Clients can put anything at the start of X-Forwarded-For, only the last
+// entry was added by the platform's proxy and is the address it saw
+const getClientIp = (req: Request) => {
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+  const ip = forwarded || req.headers.get('x-real-ip')?.trim()
+  // Anything else would be rejected by the inet column
+  return ip && /^[0-9a-fA-F:.]+$/.test(ip) ? ip : null
+}
+
+const findRecoverableUser = async (supabase: SupabaseClient, email: unknown): Promise<RecoverableUser | null> => {
+  if (typeof email !== 'string' || !email.trim()) return null
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('id, email, security_question, security_answer_hash, recovery_method')
+    .eq('email', email.trim().toLowerCase())
+    .maybeSingle()
+
+  return data ?? null
+}
+
+// The account's recovery preference decides which routes are open to it
+const canUseSecurityQuestion = (user: RecoverableUser | null): user is RecoverableUser & { security_question: string; security_answer_hash: string } =>
+  !!user?.security_question && !!user.security_answer_hash && user.recovery_method !== 'email'
+
+const canUseEmail = (user: RecoverableUser | null): user is RecoverableUser =>
+  !!user && user.recovery_method !== 'security_question'
+
+const countRecentResetEmails = async (supabase: SupabaseClient, userId: string) => {
+  const { count, error } = await supabase
+    .from('password_reset_tokens')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('delivery', 'email')
+    .gte('created_at', new Date(Date.now() - LOCKOUT_WINDOW_MS).toISOString())
+
+  if (error) throw error
+  return count ?? 0
+}
+
+const sendResetEmail = async (supabase: SupabaseClient, user: RecoverableUser, ip: string | null) => {
+  if (await countRecentResetEmails(supabase, user.id) >= MAX_RESET_EMAILS) {
+    console.log('Reset email limit reached for user:', user.id)
+    return
+  }
+
+  const { token } = await issueResetToken(supabase, user.id, ip, RESET_LINK_TTL_MINUTES * 60 * 1000, 'email')
+  const link = buildAppLink('/reset-password', { token })
+
+  await createMailer().send(renderPasswordResetEmail(user.email, link, RESET_LINK_TTL_MINUTES))
+  console.log('Sent password reset email to user:', user.id)
+}
+
+// Check the account and address lockouts and record the attempt as failed in
+// one step (see begin_security_question_attempt), so parallel guesses can't
+// all get past the check. A correct answer then marks it successful.
+const beginAttempt = async (supabase: SupabaseClient, userId: string, ip: string | null): Promise<AttemptStart> => {
+  const { data, error } = await supabase.rpc('begin_security_question_attempt', {
+    p_user_id: userId,
+    p_ip_address: ip,
+    p_window_seconds: Math.round(LOCKOUT_WINDOW_MS / 1000),
+    p_max_failures: MAX_FAILED_ATTEMPTS,
+    p_max_ip_failures: MAX_FAILED_ATTEMPTS_PER_IP
+  })
+
+  if (error) throw error
+  return data[0]
+}
+
+const isIpLocked = async (supabase: SupabaseClient, ip: string | null) => {
+  if (!ip) return false
+
+  const { count, error } = await supabase
+    .from('security_question_attempts')
+    .select('id', { count: 'exact', head: true })
+    .eq('ip_address', ip)
+    .eq('success', false)
+    .gte('attempted_at', new Date(Date.now() - LOCKOUT_WINDOW_MS).toISOString())
+
+  if (error) throw error
+  return (count ?? 0) >= MAX_FAILED_ATTEMPTS_PER_IP
+}
+
+const lockedResponse = (lockedUntil: string | null) => jsonResponse({
+  success: false,
+  locked: true,
+  lockedUntil,
+  error: 'Too many failed attempts. Please try again later.'
+}, 429)
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { action, email, answer } = await req.json()
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const user = await findRecoverableUser(supabase, email)
+
+    if (action === 'question') {
+      // Same response shape whether or not the account exists
+      return jsonResponse({ question: canUseSecurityQuestion(user) ? user.security_question : null })
+    }
+
+    if (action === 'email') {
+      const ip = getClientIp(req)
+
+      if (canUseEmail(user) && !(await isIpLocked(supabase, ip))) {
+        try {
+          await sendResetEmail(supabase, user, ip)
+        } catch (error) {
+          // Reported the same way so the response doesn't reveal the account
+          console.error('Error sending password reset email:', error)
+        }
+      }
+
+      return jsonResponse({ success: true })
+    }
+
+    if (action !== 'verify') {
+      return jsonResponse({ error: `Unsupported action: ${action}` }, 400)
+    }
+
+    if (typeof answer !== 'string' || !answer.trim()) {
+      return jsonResponse({ error: 'answer is required' }, 400)
+    }
+
+    const ip = getClientIp(req)
+    if (await isIpLocked(supabase, ip)) {
+      return lockedResponse(null)
+    }
+
+    if (!canUseSecurityQuestion(user)) {
+      return jsonResponse({ success: false, error: 'Security answer is incorrect.' })
+    }
+
+    const attempt = await beginAttempt(supabase, user.id, ip)
+    if (attempt.locked) {
+      console.log('Password recovery locked for user:', user.id)
+      return lockedResponse(attempt.locked_until)
+    }
+
+    const isValid = await bcrypt.compare(answer.toLowerCase().trim(), user.security_answer_hash)
+
+    if (!isValid) {
+      const remainingAttempts = MAX_FAILED_ATTEMPTS - (attempt.failures ?? 0) - 1
+      if (remainingAttempts <= 0) {
+        return lockedResponse(new Date(Date.now() + LOCKOUT_WINDOW_MS).toISOString())
+      }
+
+      return jsonResponse({ success: false, remainingAttempts, error: 'Security answer is incorrect.' })
+    }
+
+    const { error: attemptError } = await supabase
+      .from('security_question_attempts')
+      .update({ success: true })
+      .eq('id', attempt.attempt_id)
+
+    if (attemptError) throw attemptError
+
+    const { token, expiresAt } = await issueResetToken(supabase, user.id, ip)
+    console.log('Issued password reset token for user:', user.id)
+
+    return jsonResponse({ success: true, resetToken: token, expiresAt })
+  } catch (error) {
+    console.error('Error in password-recovery function:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -1,5 +1,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { getAIProvider } from "../_shared/ai/index.ts"
+import { assertCanManageSource, authenticate, AuthError, authErrorResponse } from "../_shared/auth.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,72 +15,54 @@ serve(async (req) => {
   }
 
   try {
+    const caller = await authenticate(req);
+
     const { type, notebookId, urls, title, content, timestamp, sourceIds } = await req.json();
     
     console.log(`Process additional sources received ${type} request for notebook ${notebookId}`);
 
-    // Get the webhook URL from Supabase secrets
-    const webhookUrl = Deno.env.get('ADDITIONAL_SOURCES_WEBHOOK_URL');
-    if (!webhookUrl) {
-      throw new Error('ADDITIONAL_SOURCES_WEBHOOK_URL not configured');
+    if (type !== 'multiple-websites' && type !== 'copied-text') {
+      throw new Error(`Unsupported type: ${type}`);
     }
 
-    // Get the auth token from Supabase secrets (same as generate-notebook-content)
-    const authToken = Deno.env.get('NOTEBOOK_GENERATION_AUTH');
-    if (!authToken) {
-      throw new Error('NOTEBOOK_GENERATION_AUTH not configured');
+    if (!Array.isArray(sourceIds) || sourceIds.length === 0) {
+      throw new AuthError('sourceIds are required', 400);
     }
 
-    // Prepare the webhook payload
-    let webhookPayload;
-    
-    if (type === 'multiple-websites') {
-      webhookPayload = {
-        type: 'multiple-websites',
-        notebookId,
-        urls,
-        sourceIds, // Array of source IDs corresponding to the URLs
-        timestamp
-      };
-    } else if (type === 'copied-text') {
-      webhookPayload = {
-        type: 'copied-text',
-        notebookId,
-        title,
-        content,
-        sourceId: sourceIds?.[0], // Single source ID for copied text
-        timestamp
-      };
-    } else {
-      throw new Error(`Unsupported type: ${type}`);
+    // The sources must already exist in a notebook the caller manages
+    for (const sourceId of sourceIds) {
+      await assertCanManageSource(caller, sourceId);
     }
 
-    console.log('Sending webhook payload:', JSON.stringify(webhookPayload, null, 2));
+    const { data: sources } = await caller.supabase
+      .from('sources')
+      .select('id')
+      .eq('notebook_id', notebookId)
+      .in('id', sourceIds);
 
-    // Send to webhook with authentication
-    const response = await fetch(webhookUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': authToken,
-        ...corsHeaders
-      },
-      body: JSON.stringify(webhookPayload)
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Webhook request failed:', response.status, errorText);
-      throw new Error(`Webhook request failed: ${response.status} - ${errorText}`);
+    if ((sources?.length ?? 0) !== sourceIds.length) {
+      throw new AuthError('Sources do not belong to this notebook', 403);
     }
 
-    const webhookResponse = await response.text();
-    console.log('Webhook response:', webhookResponse);
+    const provider = getAIProvider();
+    console.log('Processing additional sources with AI provider:', provider.name);
+
+    const result = await provider.processAdditionalSources({
+      type,
+      notebookId,
+      urls,
+      title,
+      content,
+      sourceIds,
+      timestamp
+    });
+
+    console.log('Additional sources result:', result);
 
     return new Response(JSON.stringify({ 
       success: true, 
-      message: `${type} data sent to webhook successfully`,
-      webhookResponse 
+      message: `${type} data sent for processing successfully`,
+      result
     }), {
       headers: { 
         'Content-Type': 'application/json',
@@ -87,6 +71,10 @@ serve(async (req) => {
     });
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders);
+    }
+
     console.error('Process additional sources error:', error);
     
     return new Response(JSON.stringify({ 
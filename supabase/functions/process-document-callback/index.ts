@@ -1,10 +1,12 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { recordSourceStage } from '../_shared/ai/jobs.ts'
+import { CALLBACK_SIGNATURE_HEADER, CALLBACK_TIMESTAMP_HEADER, CallbackAuthError, consumeCallbackNonce, verifyCallbackRequest } from '../_shared/ai/callbacks.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': `authorization, x-client-info, apikey, content-type, ${CALLBACK_SIGNATURE_HEADER}, ${CALLBACK_TIMESTAMP_HEADER}`,
 }
 
 serve(async (req) => {
@@ -13,12 +15,12 @@ serve(async (req) => {
   }
 
   try {
-    const payload = await req.json()
+    const payload = await verifyCallbackRequest(req)
     console.log('Document processing callback received:', payload);
 
-    const { source_id, content, summary, display_name, title, status, error } = payload
+    const { source_id, content, summary, display_name, title, status, error, callback_nonce } = payload
 
-    if (!source_id) {
+    if (typeof source_id !== 'string' || !source_id) {
       return new Response(
         JSON.stringify({ error: 'source_id is required' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -31,6 +33,9 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
+    // The nonce ties this callback to the job that was sent for the source
+    await consumeCallbackNonce(supabaseClient, 'process-document-callback', source_id, callback_nonce)
+
     // Prepare update data
     const updateData: any = {
       processing_status: status || 'completed',
@@ -77,12 +82,28 @@ serve(async (req) => {
 
     console.log('Source updated successfully:', data);
 
+    // The workflow only reports its end result: fail the stage it was in, or
+    // complete every stage up to summarize
+    if (updateData.processing_status === 'failed') {
+      await recordSourceStage(supabaseClient, source_id, null, 'failed', error || 'Document processing failed')
+    } else if (updateData.processing_status === 'completed') {
+      await recordSourceStage(supabaseClient, source_id, 'summarize', 'completed')
+    }
+
     return new Response(
       JSON.stringify({ success: true, message: 'Source updated successfully', data }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
 
   } catch (error) {
+    if (error instanceof CallbackAuthError) {
+      console.error('Rejected process-document-callback:', error.message)
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
     console.error('Error in process-document-callback function:', error)
     return new Response(
       JSON.stringify({ error: 'Internal server error' }),
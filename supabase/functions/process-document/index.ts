@@ -1,19 +1,52 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getAIProvider, SourceStage } from '../_shared/ai/index.ts'
+import { extractStructuredDocument, STRUCTURED_SOURCE_TYPES } from '../_shared/ai/formats.ts'
+import { canResumeFromExtractedText, getErrorMessage, recordSourceStage, storeExtractedText } from '../_shared/ai/jobs.ts'
+import { assertCanManageSource, authenticate, AuthError, authErrorResponse } from '../_shared/auth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Flatten a structured file, storing its text and sections on the source
+const extractStructuredSource = async (
+  supabaseClient: ReturnType<typeof createClient>,
+  sourceId: string,
+  filePath: string,
+  sourceType: string
+) => {
+  const { data: file, error: downloadError } = await supabaseClient.storage
+    .from('sources')
+    .download(filePath)
+
+  if (downloadError) throw downloadError
+
+  const { data: source } = await supabaseClient
+    .from('sources')
+    .select('title')
+    .eq('id', sourceId)
+    .single()
+
+  // The upload is stored under the source id, name sheets after the original file
+  const extracted = await extractStructuredDocument(file, sourceType, source?.title || filePath)
+  console.log('Extracted structured document:', { source_id: sourceId, sections: extracted.sections.length });
+
+  return await storeExtractedText(supabaseClient, sourceId, filePath, extracted.text, { sections: extracted.sections })
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
 
   try {
-    const { sourceId, filePath, sourceType } = await req.json()
+    const caller = await authenticate(req)
+
+    // resumeFrom is set by a retry, see retry_source_job
+    const { sourceId, filePath, sourceType, resumeFrom } = await req.json()
 
     if (!sourceId || !filePath || !sourceType) {
       return new Response(
@@ -22,88 +55,86 @@ serve(async (req) => {
       )
     }
 
-    console.log('Processing document:', { source_id: sourceId, file_path: filePath, source_type: sourceType });
-
-    // Get environment variables
-    const webhookUrl = Deno.env.get('DOCUMENT_PROCESSING_WEBHOOK_URL')
-    const authHeader = Deno.env.get('NOTEBOOK_GENERATION_AUTH')
-
-    if (!webhookUrl) {
-      console.error('Missing DOCUMENT_PROCESSING_WEBHOOK_URL environment variable')
-      
-      // Initialize Supabase client to update status
-      const supabaseClient = createClient(
-        Deno.env.get('SUPABASE_URL') ?? '',
-        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-      )
-
-      // Update source status to failed
-      await supabaseClient
-        .from('sources')
-        .update({ processing_status: 'failed' })
-        .eq('id', sourceId)
-
-      return new Response(
-        JSON.stringify({ error: 'Document processing webhook URL not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+    await assertCanManageSource(caller, sourceId)
 
-    console.log('Calling external webhook:', webhookUrl);
+    // Only files stored under the source's own notebook can be processed into it,
+    // either <workspace_id>/<notebook_id>/ or the older <notebook_id>/ layout
+    const { data: owner } = await caller.supabase
+      .from('sources')
+      .select('notebook_id, notebooks(workspace_id)')
+      .eq('id', sourceId)
+      .single()
 
-    // Create the file URL for public access
-    const fileUrl = `${Deno.env.get('SUPABASE_URL')}/storage/v1/object/public/sources/${filePath}`
+    const notebookPrefixes = owner
+      ? [`${owner.notebooks?.workspace_id}/${owner.notebook_id}/`, `${owner.notebook_id}/`]
+      : []
 
-    // Prepare the payload for the webhook with correct variable names
-    const payload = {
-      source_id: sourceId,
-      file_url: fileUrl,
-      file_path: filePath,
-      source_type: sourceType,
-      callback_url: `${Deno.env.get('SUPABASE_URL')}/functions/v1/process-document-callback`
+    if (!notebookPrefixes.some(prefix => filePath.startsWith(prefix))) {
+      throw new AuthError('filePath does not belong to this source', 403)
     }
 
-    console.log('Webhook payload:', payload);
+    console.log('Processing document:', { source_id: sourceId, file_path: filePath, source_type: sourceType, resume_from: resumeFrom });
 
-    // Call external webhook with proper headers
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    }
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
 
-    if (authHeader) {
-      headers['Authorization'] = authHeader
-    }
+    const provider = getAIProvider()
+    console.log('Processing document with AI provider:', provider.name);
 
-    const response = await fetch(webhookUrl, {
-      method: 'POST',
-      headers: headers,
-      body: JSON.stringify(payload)
-    })
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Webhook call failed:', response.status, errorText);
-      
-      // Initialize Supabase client to update status
-      const supabaseClient = createClient(
-        Deno.env.get('SUPABASE_URL') ?? '',
-        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-      )
+    let result
+    try {
+      let processFilePath = filePath
+      let processSourceType = sourceType
+      let processResumeFrom: SourceStage | undefined
 
-      // Update source status to failed
-      await supabaseClient
+      const { data: source } = await supabaseClient
         .from('sources')
-        .update({ processing_status: 'failed' })
+        .select('metadata')
         .eq('id', sourceId)
+        .single()
+
+      // Stored text outside the notebook is ignored and the file extracted again
+      const extractedTextPath = source?.metadata?.extractedTextPath
+      const hasExtractedText = typeof extractedTextPath === 'string' &&
+        notebookPrefixes.some(prefix => extractedTextPath.startsWith(prefix))
+
+      if (canResumeFromExtractedText(resumeFrom) && hasExtractedText) {
+        // Skip extraction, the text from the previous attempt is stored
+        processFilePath = extractedTextPath
+        processSourceType = 'text'
+        processResumeFrom = resumeFrom
+      } else {
+        await recordSourceStage(supabaseClient, sourceId, 'extract', 'running')
+
+        // Structured formats are flattened here so every provider indexes plain text
+        if (STRUCTURED_SOURCE_TYPES.includes(sourceType)) {
+          processFilePath = await extractStructuredSource(supabaseClient, sourceId, filePath, sourceType)
+          processSourceType = 'text'
+        }
+      }
+
+      result = await provider.processDocument({
+        sourceId,
+        filePath: processFilePath,
+        sourceType: processSourceType,
+        resumeFrom: processResumeFrom,
+        callbackUrl: `${Deno.env.get('SUPABASE_URL')}/functions/v1/process-document-callback`
+      })
+    } catch (error) {
+      console.error('Document processing failed to start:', error);
+
+      // Fails the current stage and the source, with the reason
+      await recordSourceStage(supabaseClient, sourceId, null, 'failed', error)
 
       return new Response(
-        JSON.stringify({ error: 'Document processing failed', details: errorText }),
+        JSON.stringify({ error: 'Document processing failed', details: getErrorMessage(error) }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    const result = await response.json()
-    console.log('Webhook response:', result);
+    console.log('Document processing result:', result);
 
     return new Response(
       JSON.stringify({ success: true, message: 'Document processing initiated', result }),
@@ -111,6 +142,10 @@ serve(async (req) => {
     )
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders)
+    }
+
     console.error('Error in process-document function:', error)
     return new Response(
       JSON.stringify({ error: 'Internal server error' }),
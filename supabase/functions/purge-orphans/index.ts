@@ -0,0 +1,87 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authenticate, AuthError, authErrorResponse, isServiceRoleRequest, requireAdmin } from '../_shared/auth.ts'
+import { processStorageDeletions } from '../_shared/storageDeletions.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const DEFAULT_BATCH_SIZE = 10000
+const TRASH_BATCH_SIZE = 100
+
+const deleteFunctions: Record<string, [string, string]> = {
+  notebook: ['delete_notebook', 'p_notebook_id'],
+  source: ['delete_source', 'p_source_id'],
+  note: ['delete_note', 'p_note_id'],
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Called on a schedule with the service role key, or by an admin
+    if (!isServiceRoleRequest(req)) {
+      requireAdmin(await authenticate(req))
+    }
+
+    const { limit } = await req.json().catch(() => ({}))
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Trash past the retention period. One failing item doesn't stop the rest,
+    // it is picked up again on the next run.
+    const { data: expired, error: expiredError } = await supabaseClient.rpc('get_expired_trash', {
+      p_limit: TRASH_BATCH_SIZE
+    })
+
+    if (expiredError) throw expiredError
+
+    const trash = { deleted: 0, failed: 0 }
+    for (const item of (expired ?? []) as { item_type: string; item_id: string }[]) {
+      const [fn, param] = deleteFunctions[item.item_type]
+      const { error: deleteError } = await supabaseClient.rpc(fn, { [param]: item.item_id })
+
+      if (deleteError) {
+        console.error('Error deleting expired trash:', item.item_type, item.item_id, deleteError)
+        trash.failed++
+      } else {
+        trash.deleted++
+      }
+    }
+
+    // Embeddings whose source or notebook no longer exists
+    const { data: documents, error: purgeError } = await supabaseClient.rpc('purge_orphaned_documents', {
+      p_limit: limit ?? DEFAULT_BATCH_SIZE
+    })
+
+    if (purgeError) throw purgeError
+
+    // Storage objects of the trash deleted above, and anything delete-content
+    // couldn't remove
+    const storage = await processStorageDeletions(supabaseClient)
+
+    console.log('Purged orphans:', { trash, documents, storage })
+
+    return new Response(
+      JSON.stringify({ success: true, trash, documents, storage }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders)
+    }
+
+    console.error('Error purging orphans:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
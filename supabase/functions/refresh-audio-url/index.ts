@@ -1,6 +1,7 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { assertCanReadNotebook, authenticate, AuthError, authErrorResponse } from '../_shared/auth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,12 +15,16 @@ serve(async (req) => {
   }
 
   try {
+    const caller = await authenticate(req)
     const { notebookId } = await req.json()
 
     if (!notebookId) {
       throw new Error('Notebook ID is required')
     }
 
+    // Anyone who can read the notebook can listen to its overview
+    await assertCanReadNotebook(caller, notebookId)
+
     // Initialize Supabase client
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -98,6 +103,10 @@ serve(async (req) => {
     )
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders)
+    }
+
     console.error('Error in refresh-audio-url function:', error)
     return new Response(
       JSON.stringify({ 
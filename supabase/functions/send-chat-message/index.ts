@@ -1,12 +1,84 @@
 
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { getAIProvider } from "../_shared/ai/index.ts"
+import {
+  assertCallerId,
+  assertCanReadNotebook,
+  authenticate,
+  AuthenticatedCaller,
+  AuthError,
+  authErrorResponse,
+} from "../_shared/auth.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const encoder = new TextEncoder();
+
+// Format a single Server-Sent Event frame
+const sseEvent = (data: Record<string, unknown>) => encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+
+// Relay the provider's answer tokens to the client as Server-Sent Events
+const streamAnswer = (tokens: AsyncIterable<string>) => {
+  return new ReadableStream({
+    async start(controller) {
+      try {
+        for await (const token of tokens) {
+          controller.enqueue(sseEvent({ type: 'token', content: token }));
+        }
+        controller.enqueue(sseEvent({ type: 'done' }));
+      } catch (error) {
+        console.error('Error relaying answer stream:', error);
+        controller.enqueue(sseEvent({ type: 'error', message: error.message || 'Stream interrupted' }));
+      } finally {
+        controller.close();
+      }
+    }
+  });
+};
+
+// Notebooks the calling user can read in their current workspace, checked
+// with their own token so RLS applies. Templates are left out.
+const getReadableNotebookIds = async (caller: AuthenticatedCaller) => {
+  const { data: workspaceId, error: workspaceError } = await caller.supabase.rpc('current_workspace_id');
+  if (workspaceError) throw workspaceError;
+  if (!workspaceId) return [];
+
+  const { data, error } = await caller.supabase
+    .from('notebooks')
+    .select('id')
+    .eq('workspace_id', workspaceId)
+    .eq('is_template', false)
+    .is('deleted_at', null);
+  if (error) throw error;
+
+  return (data ?? []).map((notebook: { id: string }) => notebook.id);
+};
+
+// The session id keys the chat memory, so it must be one of the caller's threads
+// and belong to the notebook being asked about (no notebook for workspace chat)
+const assertOwnThread = async (caller: AuthenticatedCaller, sessionId: unknown, notebookId: string | null) => {
+  if (typeof sessionId !== 'string' || !sessionId) {
+    throw new AuthError('session_id is required', 400);
+  }
+
+  let query = caller.supabase
+    .from('chat_threads')
+    .select('id')
+    .eq('id', sessionId)
+    .eq('user_id', caller.userId);
+  query = notebookId ? query.eq('notebook_id', notebookId) : query.is('notebook_id', null);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error || !data) {
+    throw new AuthError('Chat thread not found', 404);
+  }
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -14,51 +86,60 @@ serve(async (req) => {
   }
 
   try {
-    const { session_id, message, user_id } = await req.json();
-    
-    console.log('Received message:', { session_id, message, user_id });
+    const caller = await authenticate(req);
 
-    // Get the webhook URL and auth header from environment
-    const webhookUrl = Deno.env.get('NOTEBOOK_CHAT_URL');
-    const authHeader = Deno.env.get('NOTEBOOK_GENERATION_AUTH');
+    const { session_id, notebook_id, message, user_id, source_ids = null, stream = false } = await req.json();
     
-    if (!webhookUrl) {
-      throw new Error('NOTEBOOK_CHAT_URL environment variable not set');
+    console.log('Received message:', { session_id, notebook_id, message, user_id: caller.userId, source_ids, stream });
+
+    // user_id is only accepted if it is the caller's own
+    assertCallerId(caller, user_id);
+    await assertOwnThread(caller, session_id, notebook_id || null);
+    if (notebook_id) {
+      await assertCanReadNotebook(caller, notebook_id);
     }
 
-    if (!authHeader) {
-      throw new Error('NOTEBOOK_GENERATION_AUTH environment variable not set');
+    // Without a notebook_id this is a workspace chat across every readable notebook
+    // in the caller's current workspace
+    const notebookIds = notebook_id ? [notebook_id] : await getReadableNotebookIds(caller);
+    if (notebookIds.length === 0) {
+      throw new Error('No notebooks available to search');
     }
 
-    console.log('Sending to webhook with auth header');
-
-    // Send message to n8n webhook with authentication
-    const webhookResponse = await fetch(webhookUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': authHeader,
-      },
-      body: JSON.stringify({
-        session_id,
-        message,
-        user_id,
-        timestamp: new Date().toISOString()
-      })
+    const provider = getAIProvider();
+    console.log('Sending message with AI provider:', provider.name);
+
+    const tokens = await provider.chat({
+      // session_id scopes the chat memory to a thread, notebook_id scopes retrieval
+      sessionId: session_id,
+      notebookId: notebook_id ?? null,
+      notebookIds,
+      message,
+      userId: caller.userId,
+      // Restrict retrieval to these sources, null or empty means all sources
+      sourceIds: Array.isArray(source_ids) ? source_ids : [],
+      stream
     });
 
-    if (!webhookResponse.ok) {
-      console.error(`Webhook responded with status: ${webhookResponse.status}`);
-      const errorText = await webhookResponse.text();
-      console.error('Webhook error response:', errorText);
-      throw new Error(`Webhook responded with status: ${webhookResponse.status}`);
+    if (stream) {
+      return new Response(streamAnswer(tokens), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive'
+        }
+      });
     }
 
-    const webhookData = await webhookResponse.json();
-    console.log('Webhook response:', webhookData);
+    let answer = '';
+    for await (const token of tokens) {
+      answer += token;
+    }
+    console.log('Answer:', answer);
 
     return new Response(
-      JSON.stringify({ success: true, data: webhookData }),
+      JSON.stringify({ success: true, data: { output: answer } }),
       { 
         headers: { 
           ...corsHeaders,
@@ -68,11 +149,15 @@ serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders);
+    }
+
     console.error('Error in send-chat-message:', error);
     
     return new Response(
       JSON.stringify({ 
-        error: error.message || 'Failed to send message to webhook' 
+        error: error.message || 'Failed to send message' 
       }),
       { 
         status: 500,
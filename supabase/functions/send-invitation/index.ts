@@ -0,0 +1,174 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { assertWorkspaceAdmin, authenticate, AuthError, authErrorResponse, requireAdmin } from '../_shared/auth.ts'
+import { createMailer } from '../_shared/mailer.ts'
+import { buildAppLink, renderInvitationEmail, renderWorkspaceAddedEmail } from '../_shared/emailTemplates.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+)
+
+// Invites someone to the app. With a workspaceId the invitation is into that
+// workspace and can be sent by its workspace admins; people who already have
+// an account are added to it directly. Without one only admins can invite,
+// and the new user joins the default workspace.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const caller = await authenticate(req)
+
+    const { email, role = 'user', fullName, workspaceId, workspaceRole = 'member' } = await req.json()
+
+    if (workspaceId === undefined || workspaceId === null) {
+      requireAdmin(caller)
+    } else {
+      await assertWorkspaceAdmin(caller, workspaceId)
+    }
+
+    if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      return jsonResponse({ success: false, error: 'A valid email address is required' }, 400)
+    }
+
+    if (role !== 'user' && role !== 'admin') {
+      return jsonResponse({ success: false, error: `Unsupported role: ${role}` }, 400)
+    }
+
+    // Only admins hand out the app-wide admin role
+    if (role === 'admin') {
+      requireAdmin(caller)
+    }
+
+    if (workspaceRole !== 'member' && workspaceRole !== 'admin') {
+      return jsonResponse({ success: false, error: `Unsupported workspace role: ${workspaceRole}` }, 400)
+    }
+
+    const normalizedEmail = email.trim().toLowerCase()
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    let workspace: { id: string; name: string } | null = null
+    if (workspaceId) {
+      const { data, error: workspaceError } = await supabaseAdmin
+        .from('workspaces')
+        .select('id, name')
+        .eq('id', workspaceId)
+        .single()
+
+      if (workspaceError || !data) {
+        return jsonResponse({ success: false, error: 'Workspace not found' }, 404)
+      }
+      workspace = data
+
+      const { data: existing, error: existingError } = await supabaseAdmin
+        .from('profiles')
+        .select('id')
+        .eq('email', normalizedEmail)
+        .maybeSingle()
+
+      if (existingError) throw existingError
+
+      if (existing) {
+        const { error: memberError } = await supabaseAdmin
+          .from('workspace_members')
+          .upsert(
+            { workspace_id: workspace.id, user_id: existing.id, role: workspaceRole },
+            { onConflict: 'workspace_id,user_id' }
+          )
+
+        if (memberError) throw memberError
+
+        // The membership stands even if the email can't be delivered
+        let emailSent = true
+        try {
+          await createMailer().send(
+            renderWorkspaceAddedEmail(normalizedEmail, buildAppLink('/'), caller.user.email ?? 'A colleague', workspace.name)
+          )
+        } catch (mailError) {
+          console.error('Error sending workspace email:', mailError)
+          emailSent = false
+        }
+
+        console.log('Added existing user', normalizedEmail, 'to workspace', workspace.id)
+
+        return jsonResponse({ success: true, userId: existing.id, status: 'added', emailSent })
+      }
+    }
+
+    // Creates the account and returns the link instead of sending Supabase's
+    // own invite email, so it goes out through our mailer and template
+    const { data, error } = await supabaseAdmin.auth.admin.generateLink({
+      type: 'invite',
+      email: normalizedEmail,
+      options: {
+        redirectTo: buildAppLink('/accept-invitation'),
+        data: typeof fullName === 'string' && fullName.trim() ? { full_name: fullName.trim() } : undefined
+      }
+    })
+
+    if (error || !data.user) {
+      console.error('Error generating invitation link:', error)
+      return jsonResponse({ success: false, error: error?.message ?? 'Failed to create invitation' }, 400)
+    }
+
+    // Invited users have no security question until they set one up
+    const { error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .update({
+        role,
+        recovery_method: 'email',
+        ...(workspace ? { current_workspace_id: workspace.id } : {})
+      })
+      .eq('id', data.user.id)
+
+    if (profileError) throw profileError
+
+    // The new profile joined the default workspace on creation, move it to
+    // the one it was invited into
+    if (workspace) {
+      const { error: memberError } = await supabaseAdmin
+        .from('workspace_members')
+        .upsert(
+          { workspace_id: workspace.id, user_id: data.user.id, role: workspaceRole },
+          { onConflict: 'workspace_id,user_id' }
+        )
+
+      if (memberError) throw memberError
+
+      const { error: leaveError } = await supabaseAdmin
+        .from('workspace_members')
+        .delete()
+        .eq('user_id', data.user.id)
+        .neq('workspace_id', workspace.id)
+
+      if (leaveError) throw leaveError
+    }
+
+    const invitedBy = caller.user.email ?? 'An administrator'
+    await createMailer().send(
+      renderInvitationEmail(normalizedEmail, data.properties.action_link, invitedBy, role, workspace?.name)
+    )
+
+    console.log('Sent invitation to:', normalizedEmail, 'role:', role, 'workspace:', workspace?.id ?? 'default')
+
+    return jsonResponse({ success: true, userId: data.user.id, status: 'invited', emailSent: true })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders)
+    }
+
+    console.error('Error in send-invitation function:', error)
+    return jsonResponse({ success: false, error: error.message }, 500)
+  }
+})
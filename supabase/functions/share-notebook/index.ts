@@ -0,0 +1,163 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authenticate, AuthError, authErrorResponse } from '../_shared/auth.ts'
+import { createMailer } from '../_shared/mailer.ts'
+import { buildAppLink, renderNotebookShareEmail } from '../_shared/emailTemplates.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+)
+
+// Adds someone to a notebook by email. Existing users become members right
+// away if they belong to the notebook's workspace, other addresses get a
+// pending invitation that is claimed once they verify the address. Only the notebook's
+// owners (and admins) can share it, and only workspace admins can invite
+// people from outside, since accepting also joins the workspace.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const caller = await authenticate(req)
+    const { notebookId, email, role = 'viewer' } = await req.json()
+
+    if (typeof notebookId !== 'string' || !notebookId) {
+      return jsonResponse({ success: false, error: 'notebookId is required' }, 400)
+    }
+
+    if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      return jsonResponse({ success: false, error: 'A valid email address is required' }, 400)
+    }
+
+    if (role !== 'editor' && role !== 'viewer') {
+      return jsonResponse({ success: false, error: `Unsupported role: ${role}` }, 400)
+    }
+
+    const { data: canManage, error: permissionError } = await caller.supabase.rpc('can_manage_notebook', {
+      p_notebook_id: notebookId
+    })
+
+    if (permissionError || !canManage) {
+      throw new AuthError('Only the notebook owner can share it', 403)
+    }
+
+    const normalizedEmail = email.trim().toLowerCase()
+
+    if (normalizedEmail === caller.user.email?.toLowerCase()) {
+      return jsonResponse({ success: false, error: 'You already have access to this notebook' }, 400)
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data: notebook, error: notebookError } = await supabaseAdmin
+      .from('notebooks')
+      .select('id, title, user_id, workspace_id')
+      .eq('id', notebookId)
+      .single()
+
+    if (notebookError || !notebook) {
+      return jsonResponse({ success: false, error: 'Notebook not found' }, 404)
+    }
+
+    const { data: existingProfile, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('id')
+      .eq('email', normalizedEmail)
+      .maybeSingle()
+
+    if (profileError) throw profileError
+
+    // Anyone can register an address, so an account that hasn't verified it
+    // gets the invitation that is claimed on verification instead
+    let profile = existingProfile
+    if (profile) {
+      const { data: authUser, error: authUserError } = await supabaseAdmin.auth.admin.getUserById(profile.id)
+      if (authUserError) throw authUserError
+      if (!authUser.user?.email_confirmed_at) profile = null
+    }
+
+    if (profile?.id === notebook.user_id) {
+      return jsonResponse({ success: false, error: "The notebook's creator is always an owner" }, 400)
+    }
+
+    if (profile) {
+      const { data: workspaceMember, error: workspaceMemberError } = await supabaseAdmin
+        .from('workspace_members')
+        .select('user_id')
+        .eq('workspace_id', notebook.workspace_id)
+        .eq('user_id', profile.id)
+        .maybeSingle()
+
+      if (workspaceMemberError) throw workspaceMemberError
+
+      if (!workspaceMember) {
+        return jsonResponse({ success: false, error: `${normalizedEmail} isn't a member of this workspace` }, 400)
+      }
+
+      const { error: memberError } = await supabaseAdmin
+        .from('notebook_members')
+        .upsert({
+          notebook_id: notebookId,
+          user_id: profile.id,
+          role,
+          invited_by: caller.userId
+        }, { onConflict: 'notebook_id,user_id' })
+
+      if (memberError) throw memberError
+    } else {
+      const { data: isWorkspaceAdmin, error: workspaceAdminError } = await caller.supabase.rpc('is_workspace_admin', {
+        p_workspace_id: notebook.workspace_id
+      })
+
+      if (workspaceAdminError || !isWorkspaceAdmin) {
+        throw new AuthError('Only workspace admins can invite people who are new to the workspace', 403)
+      }
+
+      const { error: invitationError } = await supabaseAdmin
+        .from('notebook_invitations')
+        .upsert({
+          notebook_id: notebookId,
+          email: normalizedEmail,
+          role,
+          invited_by: caller.userId
+        }, { onConflict: 'notebook_id,email' })
+
+      if (invitationError) throw invitationError
+    }
+
+    const link = profile ? buildAppLink(`/notebook/${notebookId}`) : buildAppLink('/auth')
+    const sharedBy = caller.user.email ?? 'A colleague'
+
+    // The membership stands even if the email can't be delivered
+    let emailSent = true
+    try {
+      await createMailer().send(
+        renderNotebookShareEmail(normalizedEmail, link, sharedBy, notebook.title, role, !!profile)
+      )
+    } catch (mailError) {
+      console.error('Error sending notebook share email:', mailError)
+      emailSent = false
+    }
+
+    console.log('Shared notebook', notebookId, 'with', normalizedEmail, 'as', role, profile ? '(member)' : '(invited)')
+
+    return jsonResponse({ success: true, status: profile ? 'added' : 'invited', emailSent })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders)
+    }
+
+    console.error('Error in share-notebook function:', error)
+    return jsonResponse({ success: false, error: error.message }, 500)
+  }
+})
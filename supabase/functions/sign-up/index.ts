@@ -0,0 +1,112 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createMailer } from '../_shared/mailer.ts'
+import { buildAppLink, renderVerificationEmail } from '../_shared/emailTemplates.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const RECOVERY_METHODS = ['security_question', 'email', 'both']
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+)
+
+// Registration with email verification. The account is created unconfirmed
+// and the confirmation link is sent through our mailer and template, so
+// users can't sign in until they've verified their address.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const {
+      email,
+      password,
+      fullName,
+      securityQuestion,
+      securityAnswerHash,
+      recoveryMethod = 'both'
+    } = await req.json()
+
+    if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      return jsonResponse({ success: false, error: 'A valid email address is required' }, 400)
+    }
+
+    if (typeof password !== 'string' || password.length < 8) {
+      return jsonResponse({ success: false, error: 'Password must be at least 8 characters long' }, 400)
+    }
+
+    if (typeof fullName !== 'string' || !fullName.trim()) {
+      return jsonResponse({ success: false, error: 'Full name is required' }, 400)
+    }
+
+    if (!RECOVERY_METHODS.includes(recoveryMethod)) {
+      return jsonResponse({ success: false, error: `Unsupported recovery method: ${recoveryMethod}` }, 400)
+    }
+
+    const usesSecurityQuestion = recoveryMethod !== 'email'
+    if (usesSecurityQuestion && (typeof securityQuestion !== 'string' || !securityQuestion.trim() || typeof securityAnswerHash !== 'string')) {
+      return jsonResponse({ success: false, error: 'A security question and answer are required for this recovery method' }, 400)
+    }
+
+    const normalizedEmail = email.trim().toLowerCase()
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data, error } = await supabaseAdmin.auth.admin.generateLink({
+      type: 'signup',
+      email: normalizedEmail,
+      password,
+      options: {
+        redirectTo: buildAppLink('/'),
+        data: { full_name: fullName.trim() }
+      }
+    })
+
+    if (error || !data.user) {
+      const alreadyRegistered = error?.message?.toLowerCase().includes('already')
+      return jsonResponse({
+        success: false,
+        error: alreadyRegistered
+          ? 'An account with this email already exists. Please use a different email or try signing in.'
+          : error?.message ?? 'Failed to create account'
+      }, alreadyRegistered ? 409 : 400)
+    }
+
+    const { error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .update({
+        email: normalizedEmail,
+        full_name: fullName.trim(),
+        security_question: usesSecurityQuestion ? securityQuestion.trim() : null,
+        security_answer_hash: usesSecurityQuestion ? securityAnswerHash : null,
+        recovery_method: recoveryMethod
+      })
+      .eq('id', data.user.id)
+
+    if (profileError) throw profileError
+
+    try {
+      await createMailer().send(renderVerificationEmail(normalizedEmail, data.properties.action_link, fullName.trim()))
+    } catch (mailError) {
+      // Without the email the account could never be confirmed, so let the
+      // user register again
+      await supabaseAdmin.auth.admin.deleteUser(data.user.id)
+      throw mailError
+    }
+    console.log('Sent verification email to new user:', data.user.id)
+
+    return jsonResponse({ success: true })
+  } catch (error) {
+    console.error('Error in sign-up function:', error)
+    return jsonResponse({ success: false, error: error.message }, 500)
+  }
+})
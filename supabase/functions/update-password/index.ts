@@ -1,25 +1,95 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AuthenticatedCaller, authenticate, AuthError, authErrorResponse, requireAdmin } from '../_shared/auth.ts'
+import { consumeResetToken } from '../_shared/passwordReset.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+type SupabaseClient = ReturnType<typeof createClient>
+
+// A stolen session alone mustn't be enough to take over the account: once
+// the caller has a verified second factor the session has to be aal2
+const requireVerifiedSession = async (supabaseAdmin: SupabaseClient, caller: AuthenticatedCaller) => {
+  if (caller.aal === 'aal2') return
+
+  const { data, error } = await supabaseAdmin.auth.admin.mfa.listFactors({ userId: caller.userId })
+  if (error) throw error
+
+  if (data.factors.some(factor => factor.status === 'verified')) {
+    throw new AuthError('Verify with your authenticator app before changing a password', 403)
+  }
+}
+
+// Check the password with a throwaway sign-in, then end that session again
+const verifyCurrentPassword = async (caller: AuthenticatedCaller, currentPassword: unknown) => {
+  if (typeof currentPassword !== 'string' || !currentPassword || !caller.user.email) {
+    throw new AuthError('Current password is required', 400)
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  )
+
+  const { error } = await supabase.auth.signInWithPassword({
+    email: caller.user.email,
+    password: currentPassword
+  })
+
+  if (error) {
+    throw new AuthError('Current password is incorrect', 403)
+  }
+
+  await supabase.auth.signOut({ scope: 'local' })
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
 
   try {
-    const { userId, newPassword } = await req.json()
+    const { userId, newPassword, currentPassword, resetToken } = await req.json()
+
+    if (typeof newPassword !== 'string' || newPassword.length < 8) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Password must be at least 8 characters long' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
 
     const supabaseAdmin = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    const { error } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+    let targetUserId: string
+    if (resetToken) {
+      // Password recovery: the token from password-recovery stands in for a session
+      const tokenUserId = typeof resetToken === 'string' ? await consumeResetToken(supabaseAdmin, resetToken) : null
+      if (!tokenUserId) {
+        throw new AuthError('Reset link is invalid or has expired. Please start again.')
+      }
+      targetUserId = tokenUserId
+    } else {
+      // Users can change their own password by confirming the current one,
+      // only admins can set someone else's
+      const caller = await authenticate(req)
+      await requireVerifiedSession(supabaseAdmin, caller)
+
+      targetUserId = userId ?? caller.userId
+      if (targetUserId !== caller.userId) {
+        requireAdmin(caller)
+      } else {
+        await verifyCurrentPassword(caller, currentPassword)
+      }
+    }
+
+    const { error } = await supabaseAdmin.auth.admin.updateUserById(targetUserId, {
       password: newPassword
     })
 
@@ -35,9 +105,13 @@ serve(async (req) => {
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders)
+    }
+
     return new Response(
       JSON.stringify({ success: false, error: error.message }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
     )
   }
-})
\ No newline at end of file
+})
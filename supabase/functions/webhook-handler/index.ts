@@ -1,5 +1,6 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { authenticate, AuthError, authErrorResponse, requireAdmin } from "../_shared/auth.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +14,9 @@ serve(async (req) => {
   }
 
   try {
+    // Legacy entry point without source records, kept for admins only
+    requireAdmin(await authenticate(req));
+
     const { type, notebookId, urls, title, content, timestamp } = await req.json();
     
     console.log(`Webhook handler received ${type} request for notebook ${notebookId}`);
@@ -85,6 +89,10 @@ serve(async (req) => {
     });
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders);
+    }
+
     console.error('Webhook handler error:', error);
     
     return new Response(JSON.stringify({ 
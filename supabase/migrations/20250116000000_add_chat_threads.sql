@@ -0,0 +1,121 @@
+-- Add named chat threads so each user can hold several conversations per notebook.
+-- n8n_chat_histories.session_id now holds the thread id instead of the notebook id.
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.chat_threads (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    notebook_id uuid NOT NULL REFERENCES public.notebooks(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    title text NOT NULL DEFAULT 'New chat',
+    archived_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_threads_notebook_user ON public.chat_threads(notebook_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_chat_threads_updated_at ON public.chat_threads(updated_at DESC);
+
+CREATE TRIGGER update_chat_threads_updated_at
+    BEFORE UPDATE ON public.chat_threads
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- MIGRATE EXISTING CONVERSATIONS
+-- ============================================================================
+
+-- Every existing (notebook, user) conversation becomes that user's first thread
+INSERT INTO public.chat_threads (notebook_id, user_id, title, created_at, updated_at)
+SELECT DISTINCT h.session_id, h.user_id, 'Chat', timezone('utc'::text, now()), timezone('utc'::text, now())
+FROM public.n8n_chat_histories h
+JOIN public.notebooks n ON n.id = h.session_id
+WHERE h.user_id IS NOT NULL;
+
+UPDATE public.n8n_chat_histories h
+SET session_id = t.id
+FROM public.chat_threads t
+WHERE t.notebook_id = h.session_id
+  AND t.user_id = h.user_id;
+
+-- ============================================================================
+-- CHAT HISTORY TRIGGERS
+-- ============================================================================
+
+-- n8n writes messages without a user_id, so take it from the owning thread
+-- and bump the thread so recently used threads sort first
+CREATE OR REPLACE FUNCTION public.handle_chat_history_insert()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.user_id IS NULL THEN
+        SELECT user_id INTO NEW.user_id
+        FROM public.chat_threads
+        WHERE id = NEW.session_id;
+    END IF;
+
+    UPDATE public.chat_threads
+    SET updated_at = timezone('utc'::text, now())
+    WHERE id = NEW.session_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_chat_history_insert ON public.n8n_chat_histories;
+CREATE TRIGGER on_chat_history_insert
+    BEFORE INSERT ON public.n8n_chat_histories
+    FOR EACH ROW EXECUTE FUNCTION public.handle_chat_history_insert();
+
+-- Remove a thread's messages (and n8n memory) when the thread is deleted
+CREATE OR REPLACE FUNCTION public.handle_chat_thread_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+    DELETE FROM public.n8n_chat_histories WHERE session_id = OLD.id;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_chat_thread_delete ON public.chat_threads;
+CREATE TRIGGER on_chat_thread_delete
+    AFTER DELETE ON public.chat_threads
+    FOR EACH ROW EXECUTE FUNCTION public.handle_chat_thread_delete();
+
+-- ============================================================================
+-- RLS POLICIES - CHAT THREADS (USER-SPECIFIC)
+-- ============================================================================
+
+ALTER TABLE public.chat_threads ENABLE ROW LEVEL SECURITY;
+
+-- Users can only view their own threads
+CREATE POLICY "Users can view their own chat threads"
+    ON public.chat_threads FOR SELECT
+    USING (user_id = auth.uid());
+
+-- Users can only create threads for themselves in existing notebooks
+CREATE POLICY "Users can create their own chat threads"
+    ON public.chat_threads FOR INSERT
+    WITH CHECK (
+        user_id = auth.uid() AND
+        EXISTS (
+            SELECT 1 FROM public.notebooks
+            WHERE id = notebook_id
+        )
+    );
+
+-- Users can only rename or archive their own threads
+CREATE POLICY "Users can update their own chat threads"
+    ON public.chat_threads FOR UPDATE
+    USING (user_id = auth.uid());
+
+-- Users can only delete their own threads
+CREATE POLICY "Users can delete their own chat threads"
+    ON public.chat_threads FOR DELETE
+    USING (user_id = auth.uid());
+
+-- Service role can manage all threads
+CREATE POLICY "Service role can manage chat threads"
+    ON public.chat_threads FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
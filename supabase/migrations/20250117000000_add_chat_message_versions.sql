@@ -0,0 +1,148 @@
+-- Track regenerated and edited chat turns as a tree of message versions.
+-- Each message points at the message it follows (parent_id); messages sharing a
+-- parent are alternate versions. Only one path through the tree is active, and
+-- n8n's chat memory reads that path through the n8n_chat_active_histories view.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.n8n_chat_histories
+ADD COLUMN IF NOT EXISTS parent_id integer REFERENCES public.n8n_chat_histories(id) ON DELETE CASCADE;
+
+ALTER TABLE public.n8n_chat_histories
+ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_chat_histories_parent_id ON public.n8n_chat_histories(parent_id);
+CREATE INDEX IF NOT EXISTS idx_chat_histories_session_active ON public.n8n_chat_histories(session_id, is_active);
+
+-- Existing conversations are linear: link every message to the one before it
+UPDATE public.n8n_chat_histories h
+SET parent_id = linked.previous_id
+FROM (
+    SELECT id, LAG(id) OVER (PARTITION BY session_id ORDER BY id) AS previous_id
+    FROM public.n8n_chat_histories
+) linked
+WHERE linked.id = h.id
+  AND h.parent_id IS NULL
+  AND linked.previous_id IS NOT NULL;
+
+-- ============================================================================
+-- ACTIVE BRANCH VIEW (used by n8n Postgres Chat Memory)
+-- ============================================================================
+
+CREATE OR REPLACE VIEW public.n8n_chat_active_histories AS
+SELECT id, session_id, message
+FROM public.n8n_chat_histories
+WHERE is_active;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+-- New messages continue the active branch of their thread
+CREATE OR REPLACE FUNCTION public.handle_chat_history_insert()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.user_id IS NULL THEN
+        SELECT user_id INTO NEW.user_id
+        FROM public.chat_threads
+        WHERE id = NEW.session_id;
+    END IF;
+
+    IF NEW.parent_id IS NULL THEN
+        SELECT MAX(id) INTO NEW.parent_id
+        FROM public.n8n_chat_histories
+        WHERE session_id = NEW.session_id
+          AND is_active;
+    END IF;
+
+    UPDATE public.chat_threads
+    SET updated_at = timezone('utc'::text, now())
+    WHERE id = NEW.session_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Check the current user owns the thread a message belongs to
+CREATE OR REPLACE FUNCTION public.can_manage_chat_message(message_id integer)
+RETURNS boolean AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1 FROM public.n8n_chat_histories
+        WHERE id = message_id AND user_id = auth.uid()
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Prepare to resend a message as a new version: the message and everything
+-- after it on the active branch are set aside, so the next message inserted
+-- into the thread becomes a sibling of it.
+CREATE OR REPLACE FUNCTION public.branch_chat_message(message_id integer)
+RETURNS void AS $$
+DECLARE
+    v_session_id uuid;
+BEGIN
+    IF NOT public.can_manage_chat_message(message_id) THEN
+        RAISE EXCEPTION 'Chat message not found';
+    END IF;
+
+    SELECT session_id INTO v_session_id
+    FROM public.n8n_chat_histories
+    WHERE id = message_id;
+
+    -- The active branch is a single path with increasing ids
+    UPDATE public.n8n_chat_histories
+    SET is_active = false
+    WHERE session_id = v_session_id
+      AND is_active
+      AND id >= message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Make another version of a message active, following its most recent
+-- replies down to the end of that branch
+CREATE OR REPLACE FUNCTION public.switch_chat_message_version(message_id integer)
+RETURNS void AS $$
+DECLARE
+    v_session_id uuid;
+    v_parent_id integer;
+    v_current integer;
+BEGIN
+    IF NOT public.can_manage_chat_message(message_id) THEN
+        RAISE EXCEPTION 'Chat message not found';
+    END IF;
+
+    SELECT session_id, parent_id INTO v_session_id, v_parent_id
+    FROM public.n8n_chat_histories
+    WHERE id = message_id;
+
+    -- Deactivate the current branch from the point where the versions diverge
+    UPDATE public.n8n_chat_histories
+    SET is_active = false
+    WHERE session_id = v_session_id
+      AND is_active
+      AND id > COALESCE(v_parent_id, 0);
+
+    v_current := message_id;
+    WHILE v_current IS NOT NULL LOOP
+        UPDATE public.n8n_chat_histories
+        SET is_active = true
+        WHERE id = v_current;
+
+        SELECT id INTO v_current
+        FROM public.n8n_chat_histories
+        WHERE parent_id = v_current
+        ORDER BY id DESC
+        LIMIT 1;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.branch_chat_message(integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.switch_chat_message_version(integer) TO authenticated;
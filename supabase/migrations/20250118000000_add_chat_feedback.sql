@@ -0,0 +1,67 @@
+-- Store thumbs up/down feedback on AI answers so admins can find notebooks
+-- whose sources produce poor answers.
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.chat_feedback (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    notebook_id uuid NOT NULL REFERENCES public.notebooks(id) ON DELETE CASCADE,
+    thread_id uuid REFERENCES public.chat_threads(id) ON DELETE SET NULL,
+    message_id integer REFERENCES public.n8n_chat_histories(id) ON DELETE SET NULL,
+    rating text NOT NULL CHECK (rating IN ('up', 'down')),
+    comment text,
+    question text,
+    answer jsonb NOT NULL,
+    citations jsonb NOT NULL DEFAULT '[]'::jsonb,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CONSTRAINT chat_feedback_user_message_key UNIQUE (user_id, message_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_feedback_notebook_rating ON public.chat_feedback(notebook_id, rating);
+CREATE INDEX IF NOT EXISTS idx_chat_feedback_created_at ON public.chat_feedback(created_at DESC);
+
+CREATE TRIGGER update_chat_feedback_updated_at
+    BEFORE UPDATE ON public.chat_feedback
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- RLS POLICIES - CHAT FEEDBACK
+-- ============================================================================
+
+ALTER TABLE public.chat_feedback ENABLE ROW LEVEL SECURITY;
+
+-- Users see their own feedback, admins see everything for review
+CREATE POLICY "Users can view their own feedback or admins all"
+    ON public.chat_feedback FOR SELECT
+    USING (
+        user_id = auth.uid() OR
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Users can only leave feedback as themselves
+CREATE POLICY "Users can create their own feedback"
+    ON public.chat_feedback FOR INSERT
+    WITH CHECK (user_id = auth.uid());
+
+-- Users can change their own rating or comment
+CREATE POLICY "Users can update their own feedback"
+    ON public.chat_feedback FOR UPDATE
+    USING (user_id = auth.uid());
+
+-- Users can withdraw their feedback, admins can remove reviewed feedback
+CREATE POLICY "Users can delete their own feedback or admins all"
+    ON public.chat_feedback FOR DELETE
+    USING (
+        user_id = auth.uid() OR
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
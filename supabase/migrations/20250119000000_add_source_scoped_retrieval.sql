@@ -0,0 +1,41 @@
+-- Allow chat retrieval to be limited to a subset of a notebook's sources.
+-- The filter may carry a "source_ids" key, either a JSON array or a
+-- comma-separated string (as sent by n8n metadata filters). It is matched
+-- against documents.metadata->>'source_id'; an empty value means all sources.
+
+CREATE OR REPLACE FUNCTION public.match_documents(
+    query_embedding vector,
+    match_count integer DEFAULT NULL,
+    filter jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE(
+    id bigint,
+    content text,
+    metadata jsonb,
+    similarity double precision
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    source_ids text[];
+BEGIN
+    IF jsonb_typeof(filter->'source_ids') = 'array' THEN
+        SELECT array_agg(value) INTO source_ids
+        FROM jsonb_array_elements_text(filter->'source_ids');
+    ELSIF NULLIF(trim(filter->>'source_ids'), '') IS NOT NULL THEN
+        source_ids := string_to_array(replace(filter->>'source_ids', ' ', ''), ',');
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        documents.id,
+        documents.content,
+        documents.metadata,
+        1 - (documents.embedding <=> query_embedding) as similarity
+    FROM documents
+    WHERE documents.metadata @> (filter - 'source_ids')
+      AND (source_ids IS NULL OR documents.metadata->>'source_id' = ANY(source_ids))
+    ORDER BY documents.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
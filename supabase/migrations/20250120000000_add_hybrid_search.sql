@@ -0,0 +1,171 @@
+-- Hybrid keyword + vector retrieval.
+-- Pure vector similarity misses exact identifiers, part numbers and acronyms,
+-- so chunks are also ranked with Postgres full-text search and both rankings
+-- are combined with reciprocal rank fusion (RRF). Each notebook can weight the
+-- keyword and semantic rankings differently.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS fts tsvector GENERATED ALWAYS AS (to_tsvector('english', COALESCE(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_documents_fts ON public.documents USING gin(fts);
+
+ALTER TABLE public.notebooks
+ADD COLUMN IF NOT EXISTS keyword_search_weight double precision NOT NULL DEFAULT 1.0
+    CHECK (keyword_search_weight >= 0);
+
+ALTER TABLE public.notebooks
+ADD COLUMN IF NOT EXISTS semantic_search_weight double precision NOT NULL DEFAULT 1.0
+    CHECK (semantic_search_weight >= 0);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Rank chunks by full-text match and by vector distance, then fuse the two
+-- rankings: score = keyword_weight / (rrf_k + keyword_rank)
+--                 + semantic_weight / (rrf_k + semantic_rank).
+-- Weights default to the notebook's settings (filter->>'notebook_id').
+-- The filter accepts the same keys as match_documents, including source_ids.
+CREATE OR REPLACE FUNCTION public.hybrid_match_documents(
+    query_text text,
+    query_embedding vector,
+    match_count integer DEFAULT 10,
+    filter jsonb DEFAULT '{}'::jsonb,
+    full_text_weight double precision DEFAULT NULL,
+    semantic_weight double precision DEFAULT NULL,
+    rrf_k integer DEFAULT 50
+)
+RETURNS TABLE(
+    id bigint,
+    content text,
+    metadata jsonb,
+    similarity double precision,
+    score double precision
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    source_ids text[];
+    metadata_filter jsonb := filter - 'source_ids' - 'query_text';
+    result_count integer := COALESCE(match_count, 10);
+    keyword_weight double precision := full_text_weight;
+    vector_weight double precision := semantic_weight;
+BEGIN
+    IF jsonb_typeof(filter->'source_ids') = 'array' THEN
+        SELECT array_agg(value) INTO source_ids
+        FROM jsonb_array_elements_text(filter->'source_ids');
+    ELSIF NULLIF(trim(filter->>'source_ids'), '') IS NOT NULL THEN
+        source_ids := string_to_array(replace(filter->>'source_ids', ' ', ''), ',');
+    END IF;
+
+    IF keyword_weight IS NULL OR vector_weight IS NULL THEN
+        SELECT
+            COALESCE(keyword_weight, n.keyword_search_weight),
+            COALESCE(vector_weight, n.semantic_search_weight)
+        INTO keyword_weight, vector_weight
+        FROM public.notebooks n
+        WHERE n.id::text = filter->>'notebook_id';
+    END IF;
+
+    keyword_weight := COALESCE(keyword_weight, 1.0);
+    vector_weight := COALESCE(vector_weight, 1.0);
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT d.id, d.fts, d.embedding
+        FROM public.documents d
+        WHERE d.metadata @> metadata_filter
+          AND (source_ids IS NULL OR d.metadata->>'source_id' = ANY(source_ids))
+    ),
+    keyword_matches AS (
+        SELECT
+            c.id,
+            row_number() OVER (
+                ORDER BY ts_rank_cd(c.fts, websearch_to_tsquery('english', query_text)) DESC
+            ) AS rank_ix
+        FROM candidates c
+        WHERE c.fts @@ websearch_to_tsquery('english', query_text)
+        ORDER BY rank_ix
+        LIMIT result_count * 2
+    ),
+    semantic_matches AS (
+        SELECT
+            c.id,
+            row_number() OVER (ORDER BY c.embedding <=> query_embedding) AS rank_ix
+        FROM candidates c
+        ORDER BY rank_ix
+        LIMIT result_count * 2
+    )
+    SELECT
+        d.id,
+        d.content,
+        d.metadata,
+        1 - (d.embedding <=> query_embedding) AS similarity,
+        (
+            COALESCE(keyword_weight / (rrf_k + k.rank_ix), 0.0) +
+            COALESCE(vector_weight / (rrf_k + s.rank_ix), 0.0)
+        )::double precision AS score
+    FROM keyword_matches k
+    FULL OUTER JOIN semantic_matches s ON s.id = k.id
+    JOIN public.documents d ON d.id = COALESCE(k.id, s.id)
+    ORDER BY 5 DESC
+    LIMIT result_count;
+END;
+$$;
+
+-- match_documents keeps its signature for the n8n vector store node. When the
+-- filter carries the user's question as "query_text" it delegates to the hybrid
+-- ranking, otherwise it is plain vector similarity as before.
+CREATE OR REPLACE FUNCTION public.match_documents(
+    query_embedding vector,
+    match_count integer DEFAULT NULL,
+    filter jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE(
+    id bigint,
+    content text,
+    metadata jsonb,
+    similarity double precision
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    source_ids text[];
+BEGIN
+    IF NULLIF(trim(filter->>'query_text'), '') IS NOT NULL THEN
+        RETURN QUERY
+        SELECT h.id, h.content, h.metadata, h.similarity
+        FROM public.hybrid_match_documents(
+            filter->>'query_text',
+            query_embedding,
+            match_count,
+            filter - 'query_text'
+        ) h;
+        RETURN;
+    END IF;
+
+    IF jsonb_typeof(filter->'source_ids') = 'array' THEN
+        SELECT array_agg(value) INTO source_ids
+        FROM jsonb_array_elements_text(filter->'source_ids');
+    ELSIF NULLIF(trim(filter->>'source_ids'), '') IS NOT NULL THEN
+        source_ids := string_to_array(replace(filter->>'source_ids', ' ', ''), ',');
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        documents.id,
+        documents.content,
+        documents.metadata,
+        1 - (documents.embedding <=> query_embedding) as similarity
+    FROM documents
+    WHERE documents.metadata @> (filter - 'source_ids' - 'query_text')
+      AND (source_ids IS NULL OR documents.metadata->>'source_id' = ANY(source_ids))
+    ORDER BY documents.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
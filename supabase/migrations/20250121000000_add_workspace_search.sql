@@ -0,0 +1,115 @@
+-- Full-text search across notebooks, sources and the user's notes for the
+-- /search page. Each table gets a weighted search vector (titles rank above
+-- summaries and body text) and search_workspace() returns ranked hits with
+-- highlighted snippets. It runs as the caller, so RLS limits what is found.
+
+-- ============================================================================
+-- SEARCH VECTORS
+-- ============================================================================
+
+ALTER TABLE public.notebooks
+ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+) STORED;
+
+-- Source text is capped to stay well inside the tsvector size limit
+ALTER TABLE public.sources
+ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(summary, '')), 'B') ||
+    setweight(to_tsvector('english', LEFT(COALESCE(content, ''), 250000)), 'C')
+) STORED;
+
+ALTER TABLE public.notes
+ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(content, '')), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_notebooks_search_vector ON public.notebooks USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_sources_search_vector ON public.sources USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_notes_search_vector ON public.notes USING gin(search_vector);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Snippets mark matched words with <mark></mark>; the client renders them as text
+CREATE OR REPLACE FUNCTION public.search_workspace(
+    search_query text,
+    result_limit integer DEFAULT 50
+)
+RETURNS TABLE(
+    result_type text,
+    notebook_id uuid,
+    notebook_title text,
+    item_id uuid,
+    title text,
+    snippet text,
+    rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', search_query) AS q
+    ),
+    hits AS (
+        (
+            SELECT 'notebook'::text AS result_type, n.id AS notebook_id, n.id AS item_id,
+                   ts_rank(n.search_vector, query.q) AS rank
+            FROM notebooks n, query
+            WHERE n.search_vector @@ query.q
+            ORDER BY rank DESC
+            LIMIT result_limit
+        )
+        UNION ALL
+        (
+            SELECT 'source'::text, s.notebook_id, s.id,
+                   ts_rank(s.search_vector, query.q)
+            FROM sources s, query
+            WHERE s.search_vector @@ query.q
+            ORDER BY 4 DESC
+            LIMIT result_limit
+        )
+        UNION ALL
+        (
+            SELECT 'note'::text, nt.notebook_id, nt.id,
+                   ts_rank(nt.search_vector, query.q)
+            FROM notes nt, query
+            WHERE nt.search_vector @@ query.q
+              AND nt.user_id = auth.uid()
+            ORDER BY 4 DESC
+            LIMIT result_limit
+        )
+    ),
+    top_hits AS (
+        SELECT * FROM hits ORDER BY rank DESC LIMIT result_limit
+    )
+    -- Headlines are only built for the rows that are returned
+    SELECT
+        h.result_type,
+        h.notebook_id,
+        nb.title AS notebook_title,
+        h.item_id,
+        COALESCE(s.title, nt.title, nb.title) AS title,
+        ts_headline(
+            'english',
+            CASE h.result_type
+                WHEN 'notebook' THEN COALESCE(NULLIF(nb.description, ''), nb.title)
+                WHEN 'source' THEN concat_ws(E'\n', s.summary, LEFT(s.content, 250000))
+                ELSE nt.content
+            END,
+            query.q,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+        ) AS snippet,
+        h.rank
+    FROM top_hits h
+    CROSS JOIN query
+    LEFT JOIN notebooks nb ON nb.id = h.notebook_id
+    LEFT JOIN sources s ON h.result_type = 'source' AND s.id = h.item_id
+    LEFT JOIN notes nt ON h.result_type = 'note' AND nt.id = h.item_id
+    ORDER BY h.rank DESC;
+$$;
@@ -0,0 +1,192 @@
+-- Workspace chat: ask one question across every notebook the user can read.
+-- A chat thread without a notebook_id is a workspace thread. Retrieval for
+-- these threads passes the readable notebooks as "notebook_ids" in the
+-- match filter instead of a single notebook_id.
+
+-- ============================================================================
+-- CHAT THREADS
+-- ============================================================================
+
+ALTER TABLE public.chat_threads ALTER COLUMN notebook_id DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_chat_threads_workspace_user
+    ON public.chat_threads(user_id)
+    WHERE notebook_id IS NULL;
+
+-- Users can create workspace threads or threads in existing notebooks
+DROP POLICY IF EXISTS "Users can create their own chat threads" ON public.chat_threads;
+CREATE POLICY "Users can create their own chat threads"
+    ON public.chat_threads FOR INSERT
+    WITH CHECK (
+        user_id = auth.uid() AND (
+            notebook_id IS NULL OR
+            EXISTS (
+                SELECT 1 FROM public.notebooks
+                WHERE id = notebook_id
+            )
+        )
+    );
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Read a list of ids from a match filter key, either a JSON array or a
+-- comma-separated string (as sent by n8n metadata filters). NULL when empty.
+CREATE OR REPLACE FUNCTION public.filter_id_list(filter jsonb, key text)
+RETURNS text[]
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    ids text[];
+BEGIN
+    IF jsonb_typeof(filter->key) = 'array' THEN
+        SELECT array_agg(value) INTO ids
+        FROM jsonb_array_elements_text(filter->key);
+    ELSIF NULLIF(trim(filter->>key), '') IS NOT NULL THEN
+        ids := string_to_array(replace(filter->>key, ' ', ''), ',');
+    END IF;
+
+    RETURN ids;
+END;
+$$;
+
+-- Same ranking as before, with "notebook_ids" limiting retrieval to a set of
+-- notebooks. An empty notebook_id (workspace chat through n8n) is ignored.
+-- Notebook weights only apply when a single notebook_id is given.
+CREATE OR REPLACE FUNCTION public.hybrid_match_documents(
+    query_text text,
+    query_embedding vector,
+    match_count integer DEFAULT 10,
+    filter jsonb DEFAULT '{}'::jsonb,
+    full_text_weight double precision DEFAULT NULL,
+    semantic_weight double precision DEFAULT NULL,
+    rrf_k integer DEFAULT 50
+)
+RETURNS TABLE(
+    id bigint,
+    content text,
+    metadata jsonb,
+    similarity double precision,
+    score double precision
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    source_ids text[] := public.filter_id_list(filter, 'source_ids');
+    notebook_ids text[] := public.filter_id_list(filter, 'notebook_ids');
+    metadata_filter jsonb := filter - 'source_ids' - 'notebook_ids' - 'query_text';
+    result_count integer := COALESCE(match_count, 10);
+    keyword_weight double precision := full_text_weight;
+    vector_weight double precision := semantic_weight;
+BEGIN
+    IF NULLIF(trim(filter->>'notebook_id'), '') IS NULL THEN
+        metadata_filter := metadata_filter - 'notebook_id';
+    END IF;
+
+    IF keyword_weight IS NULL OR vector_weight IS NULL THEN
+        SELECT
+            COALESCE(keyword_weight, n.keyword_search_weight),
+            COALESCE(vector_weight, n.semantic_search_weight)
+        INTO keyword_weight, vector_weight
+        FROM public.notebooks n
+        WHERE n.id::text = filter->>'notebook_id';
+    END IF;
+
+    keyword_weight := COALESCE(keyword_weight, 1.0);
+    vector_weight := COALESCE(vector_weight, 1.0);
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT d.id, d.fts, d.embedding
+        FROM public.documents d
+        WHERE d.metadata @> metadata_filter
+          AND (source_ids IS NULL OR d.metadata->>'source_id' = ANY(source_ids))
+          AND (notebook_ids IS NULL OR d.metadata->>'notebook_id' = ANY(notebook_ids))
+    ),
+    keyword_matches AS (
+        SELECT
+            c.id,
+            row_number() OVER (
+                ORDER BY ts_rank_cd(c.fts, websearch_to_tsquery('english', query_text)) DESC
+            ) AS rank_ix
+        FROM candidates c
+        WHERE c.fts @@ websearch_to_tsquery('english', query_text)
+        ORDER BY rank_ix
+        LIMIT result_count * 2
+    ),
+    semantic_matches AS (
+        SELECT
+            c.id,
+            row_number() OVER (ORDER BY c.embedding <=> query_embedding) AS rank_ix
+        FROM candidates c
+        ORDER BY rank_ix
+        LIMIT result_count * 2
+    )
+    SELECT
+        d.id,
+        d.content,
+        d.metadata,
+        1 - (d.embedding <=> query_embedding) AS similarity,
+        (
+            COALESCE(keyword_weight / (rrf_k + k.rank_ix), 0.0) +
+            COALESCE(vector_weight / (rrf_k + s.rank_ix), 0.0)
+        )::double precision AS score
+    FROM keyword_matches k
+    FULL OUTER JOIN semantic_matches s ON s.id = k.id
+    JOIN public.documents d ON d.id = COALESCE(k.id, s.id)
+    ORDER BY 5 DESC
+    LIMIT result_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.match_documents(
+    query_embedding vector,
+    match_count integer DEFAULT NULL,
+    filter jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE(
+    id bigint,
+    content text,
+    metadata jsonb,
+    similarity double precision
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    source_ids text[] := public.filter_id_list(filter, 'source_ids');
+    notebook_ids text[] := public.filter_id_list(filter, 'notebook_ids');
+    metadata_filter jsonb := filter - 'source_ids' - 'notebook_ids' - 'query_text';
+BEGIN
+    IF NULLIF(trim(filter->>'query_text'), '') IS NOT NULL THEN
+        RETURN QUERY
+        SELECT h.id, h.content, h.metadata, h.similarity
+        FROM public.hybrid_match_documents(
+            filter->>'query_text',
+            query_embedding,
+            match_count,
+            filter - 'query_text'
+        ) h;
+        RETURN;
+    END IF;
+
+    IF NULLIF(trim(filter->>'notebook_id'), '') IS NULL THEN
+        metadata_filter := metadata_filter - 'notebook_id';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        documents.id,
+        documents.content,
+        documents.metadata,
+        1 - (documents.embedding <=> query_embedding) as similarity
+    FROM documents
+    WHERE documents.metadata @> metadata_filter
+      AND (source_ids IS NULL OR documents.metadata->>'source_id' = ANY(source_ids))
+      AND (notebook_ids IS NULL OR documents.metadata->>'notebook_id' = ANY(notebook_ids))
+    ORDER BY documents.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,42 @@
+-- Structured file sources: office documents, spreadsheets, e-books and markup.
+-- process-document flattens these to text and records their slides, sheets,
+-- chapters and headings in sources.metadata->'sections' so citations can name
+-- a location. The flattened text is stored next to the original file.
+
+-- ============================================================================
+-- SOURCE TYPES
+-- ============================================================================
+
+ALTER TYPE source_type ADD VALUE IF NOT EXISTS 'docx';
+ALTER TYPE source_type ADD VALUE IF NOT EXISTS 'pptx';
+ALTER TYPE source_type ADD VALUE IF NOT EXISTS 'xlsx';
+ALTER TYPE source_type ADD VALUE IF NOT EXISTS 'csv';
+ALTER TYPE source_type ADD VALUE IF NOT EXISTS 'epub';
+ALTER TYPE source_type ADD VALUE IF NOT EXISTS 'markdown';
+ALTER TYPE source_type ADD VALUE IF NOT EXISTS 'html';
+
+-- ============================================================================
+-- STORAGE
+-- ============================================================================
+
+-- Accept the new upload formats in the sources bucket
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+    'application/pdf',
+    'text/plain',
+    'text/csv',
+    'text/markdown',
+    'text/html',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-excel',
+    'application/epub+zip',
+    'application/octet-stream',
+    'audio/mpeg',
+    'audio/wav',
+    'audio/mp4',
+    'audio/m4a'
+]
+WHERE id = 'sources';
@@ -0,0 +1,243 @@
+-- Staged ingestion: every source gets a source_jobs row tracking the stages
+-- upload -> extract -> chunk -> embed -> summarize with their timing and
+-- failure reason. The row is streamed to the sources sidebar over Realtime,
+-- and a failed job can be retried from the stage that failed.
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.source_jobs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    source_id uuid NOT NULL UNIQUE REFERENCES public.sources(id) ON DELETE CASCADE,
+    notebook_id uuid NOT NULL REFERENCES public.notebooks(id) ON DELETE CASCADE,
+    status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    current_stage text CHECK (current_stage IN ('upload', 'extract', 'chunk', 'embed', 'summarize')),
+    -- { "<stage>": { "status", "started_at", "finished_at", "error" } }
+    stages jsonb NOT NULL DEFAULT '{}'::jsonb,
+    error_message text,
+    attempts integer NOT NULL DEFAULT 1,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_source_jobs_notebook_id ON public.source_jobs(notebook_id);
+
+CREATE TRIGGER update_source_jobs_updated_at
+    BEFORE UPDATE ON public.source_jobs
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- RLS POLICIES - SOURCE JOBS
+-- ============================================================================
+
+ALTER TABLE public.source_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility as the source itself. Jobs are written through the
+-- functions below only.
+CREATE POLICY "Users can view source jobs based on role"
+    ON public.source_jobs FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.notebooks
+            WHERE id = notebook_id AND user_id = auth.uid()
+        ) OR
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Edge functions (service role), the notebook owner and admins may update a
+-- source's job
+CREATE OR REPLACE FUNCTION public.can_manage_source(p_source_id uuid)
+RETURNS boolean AS $$
+BEGIN
+    RETURN auth.role() = 'service_role' OR EXISTS (
+        SELECT 1 FROM public.sources s
+        JOIN public.notebooks n ON n.id = s.notebook_id
+        WHERE s.id = p_source_id AND (
+            n.user_id = auth.uid() OR
+            EXISTS (
+                SELECT 1 FROM public.profiles
+                WHERE id = auth.uid() AND role = 'admin'
+            )
+        )
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Record that a stage is running, completed or failed. Stages run in order,
+-- so starting or completing a stage also completes the earlier stages of the
+-- job that were never reported (the n8n workflow only reports the end result).
+-- A NULL stage means the job's current stage. A failure marks the source failed.
+CREATE OR REPLACE FUNCTION public.record_source_job_stage(
+    p_source_id uuid,
+    p_stage text,
+    p_status text,
+    p_error text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+    v_all_stages text[] := ARRAY['upload', 'extract', 'chunk', 'embed', 'summarize'];
+    v_job public.source_jobs%ROWTYPE;
+    v_stage text;
+    v_stages jsonb;
+    v_started boolean := false;
+    v_now timestamp with time zone := timezone('utc'::text, now());
+BEGIN
+    IF p_status NOT IN ('running', 'completed', 'failed') THEN
+        RAISE EXCEPTION 'Invalid stage status: %', p_status;
+    END IF;
+
+    IF NOT public.can_manage_source(p_source_id) THEN
+        RAISE EXCEPTION 'Source not found';
+    END IF;
+
+    INSERT INTO public.source_jobs (source_id, notebook_id)
+    SELECT id, notebook_id FROM public.sources WHERE id = p_source_id
+    ON CONFLICT (source_id) DO NOTHING;
+
+    SELECT * INTO v_job
+    FROM public.source_jobs
+    WHERE source_id = p_source_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Source not found';
+    END IF;
+
+    p_stage := COALESCE(p_stage, v_job.current_stage, 'extract');
+    IF NOT p_stage = ANY(v_all_stages) THEN
+        RAISE EXCEPTION 'Invalid stage: %', p_stage;
+    END IF;
+
+    v_stages := v_job.stages;
+
+    FOREACH v_stage IN ARRAY v_all_stages LOOP
+        EXIT WHEN v_stage = p_stage;
+
+        IF v_stages ? v_stage THEN
+            v_started := true;
+        END IF;
+
+        IF v_started AND v_stages->v_stage->>'status' IS DISTINCT FROM 'completed' THEN
+            v_stages := v_stages || jsonb_build_object(
+                v_stage,
+                COALESCE(v_stages->v_stage, '{}'::jsonb) || jsonb_build_object(
+                    'status', 'completed',
+                    'finished_at', v_now,
+                    'error', NULL
+                )
+            );
+        END IF;
+    END LOOP;
+
+    IF p_status = 'running' THEN
+        v_stages := v_stages || jsonb_build_object(
+            p_stage,
+            jsonb_build_object('status', 'running', 'started_at', v_now)
+        );
+    ELSE
+        v_stages := v_stages || jsonb_build_object(
+            p_stage,
+            COALESCE(v_stages->p_stage, '{}'::jsonb) || jsonb_build_object(
+                'status', p_status,
+                'finished_at', v_now,
+                'error', p_error
+            )
+        );
+    END IF;
+
+    UPDATE public.source_jobs
+    SET
+        stages = v_stages,
+        current_stage = p_stage,
+        status = CASE
+            WHEN p_status = 'failed' THEN 'failed'
+            WHEN p_status = 'completed' AND p_stage = 'summarize' THEN 'completed'
+            ELSE 'running'
+        END,
+        error_message = CASE WHEN p_status = 'failed' THEN p_error END
+    WHERE id = v_job.id;
+
+    IF p_status = 'failed' THEN
+        UPDATE public.sources
+        SET processing_status = 'failed'
+        WHERE id = p_source_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Prepare a failed source for another attempt and return the stage to resume
+-- from. The failed stage and everything after it are cleared. Sources that
+-- failed before jobs were tracked restart from extraction.
+CREATE OR REPLACE FUNCTION public.retry_source_job(p_source_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_all_stages text[] := ARRAY['upload', 'extract', 'chunk', 'embed', 'summarize'];
+    v_job public.source_jobs%ROWTYPE;
+    v_stage text;
+    v_resume_stage text;
+    v_stages jsonb := '{}'::jsonb;
+BEGIN
+    IF NOT public.can_manage_source(p_source_id) THEN
+        RAISE EXCEPTION 'Source not found';
+    END IF;
+
+    SELECT * INTO v_job
+    FROM public.source_jobs
+    WHERE source_id = p_source_id
+    FOR UPDATE;
+
+    IF FOUND THEN
+        FOREACH v_stage IN ARRAY v_all_stages LOOP
+            IF v_resume_stage IS NULL AND v_job.stages->v_stage->>'status' IS DISTINCT FROM 'completed'
+               AND (v_job.stages ? v_stage OR v_stage <> 'upload') THEN
+                v_resume_stage := v_stage;
+            END IF;
+
+            IF v_resume_stage IS NULL AND v_job.stages ? v_stage THEN
+                v_stages := v_stages || jsonb_build_object(v_stage, v_job.stages->v_stage);
+            END IF;
+        END LOOP;
+    END IF;
+
+    IF v_resume_stage IS NULL THEN
+        v_resume_stage := 'extract';
+        v_stages := v_stages - 'extract' - 'chunk' - 'embed' - 'summarize';
+    END IF;
+
+    -- Nothing was stored, the file has to be added again
+    IF v_resume_stage = 'upload' THEN
+        RETURN v_resume_stage;
+    END IF;
+
+    INSERT INTO public.source_jobs (source_id, notebook_id, stages, attempts)
+    SELECT id, notebook_id, v_stages, 1 FROM public.sources WHERE id = p_source_id
+    ON CONFLICT (source_id) DO UPDATE
+    SET
+        stages = EXCLUDED.stages,
+        status = 'running',
+        current_stage = NULL,
+        error_message = NULL,
+        attempts = public.source_jobs.attempts + 1;
+
+    UPDATE public.sources
+    SET processing_status = 'processing'
+    WHERE id = p_source_id;
+
+    RETURN v_resume_stage;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+ALTER TABLE public.source_jobs REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.source_jobs;
@@ -0,0 +1,161 @@
+-- Durable outbound n8n webhook calls. Edge functions store every call in
+-- webhook_jobs before sending it. Failed deliveries are retried with
+-- exponential backoff (first inside the calling function, then by the
+-- dispatch-webhook-jobs function) and jobs that run out of attempts are
+-- dead-lettered for admins to inspect and re-drive.
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.webhook_jobs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    kind text NOT NULL CHECK (kind IN (
+        'process-document',
+        'process-additional-sources',
+        'generate-notebook-content',
+        'generate-audio-overview'
+    )),
+    -- Name of the secret holding the webhook URL, so a changed URL applies to re-drives
+    webhook_url_env text NOT NULL,
+    payload jsonb NOT NULL,
+    -- Identifies the logical request: an identical request made while a job is
+    -- pending or running joins that job instead of calling n8n again
+    idempotency_key text NOT NULL,
+    status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'dead')),
+    attempts integer NOT NULL DEFAULT 0,
+    max_attempts integer NOT NULL DEFAULT 8,
+    timeout_ms integer NOT NULL DEFAULT 30000,
+    next_attempt_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    locked_until timestamp with time zone,
+    last_error text,
+    last_status_code integer,
+    response jsonb,
+    -- Sources or notebook the job works on, updated when it is dead-lettered
+    target_ids text[] NOT NULL DEFAULT '{}',
+    completed_at timestamp with time zone,
+    dead_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_jobs_active_idempotency_key
+    ON public.webhook_jobs(idempotency_key)
+    WHERE status IN ('pending', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_webhook_jobs_due
+    ON public.webhook_jobs(next_attempt_at)
+    WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_jobs_dead
+    ON public.webhook_jobs(dead_at DESC)
+    WHERE status = 'dead';
+
+CREATE TRIGGER update_webhook_jobs_updated_at
+    BEFORE UPDATE ON public.webhook_jobs
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- RLS POLICIES - WEBHOOK JOBS
+-- ============================================================================
+
+ALTER TABLE public.webhook_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Edge functions write with the service role, admins can inspect the queue
+CREATE POLICY "Admins can view webhook jobs"
+    ON public.webhook_jobs FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Lock due jobs for delivery. Running jobs whose lock expired (the function
+-- delivering them was killed) are picked up again. With p_job_id only that
+-- job is claimed, if it is due.
+CREATE OR REPLACE FUNCTION public.claim_webhook_jobs(
+    p_limit integer DEFAULT 10,
+    p_job_id uuid DEFAULT NULL
+)
+RETURNS SETOF public.webhook_jobs AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.webhook_jobs j
+    SET
+        status = 'running',
+        locked_until = timezone('utc'::text, now())
+            + make_interval(secs => j.timeout_ms / 1000.0 + 30)
+    WHERE j.id IN (
+        SELECT c.id
+        FROM public.webhook_jobs c
+        WHERE (p_job_id IS NULL OR c.id = p_job_id)
+          AND (
+              (c.status = 'pending' AND c.next_attempt_at <= timezone('utc'::text, now())) OR
+              (c.status = 'running' AND c.locked_until < timezone('utc'::text, now()))
+          )
+        ORDER BY c.next_attempt_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_jobs(integer, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_webhook_jobs(integer, uuid) TO service_role;
+
+-- Put a dead-lettered job back in the queue with a fresh set of attempts and
+-- return what it works on to its in-progress state
+CREATE OR REPLACE FUNCTION public.redrive_webhook_job(p_job_id uuid)
+RETURNS void AS $$
+DECLARE
+    v_job public.webhook_jobs%ROWTYPE;
+    v_target_id text;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Only admins can re-drive webhook jobs';
+    END IF;
+
+    UPDATE public.webhook_jobs
+    SET
+        status = 'pending',
+        attempts = 0,
+        next_attempt_at = timezone('utc'::text, now()),
+        locked_until = NULL,
+        dead_at = NULL
+    WHERE id = p_job_id AND status = 'dead'
+    RETURNING * INTO v_job;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Dead-lettered webhook job not found';
+    END IF;
+
+    FOREACH v_target_id IN ARRAY v_job.target_ids LOOP
+        IF v_job.kind IN ('process-document', 'process-additional-sources') THEN
+            UPDATE public.sources
+            SET processing_status = 'processing'
+            WHERE id = v_target_id::uuid;
+
+            IF EXISTS (SELECT 1 FROM public.source_jobs WHERE source_id = v_target_id::uuid) THEN
+                PERFORM public.record_source_job_stage(v_target_id::uuid, NULL, 'running');
+            END IF;
+        ELSIF v_job.kind = 'generate-notebook-content' THEN
+            UPDATE public.notebooks
+            SET generation_status = 'generating'
+            WHERE id = v_target_id::uuid;
+        ELSIF v_job.kind = 'generate-audio-overview' THEN
+            UPDATE public.notebooks
+            SET audio_overview_generation_status = 'generating'
+            WHERE id = v_target_id::uuid;
+        END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,65 @@
+-- Nonces for the n8n processing callbacks. Every outbound job gets a fresh
+-- nonce that process-document-callback / audio-generation-callback require
+-- back (alongside the HMAC signature), so a captured callback can't be
+-- replayed or aimed at a different source or notebook.
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.callback_nonces (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    nonce text NOT NULL UNIQUE,
+    callback text NOT NULL CHECK (callback IN ('process-document-callback', 'audio-generation-callback')),
+    -- Source or notebook the callback is allowed to update
+    target_id uuid NOT NULL,
+    expires_at timestamp with time zone NOT NULL,
+    used_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_callback_nonces_target
+    ON public.callback_nonces(callback, target_id);
+
+CREATE INDEX IF NOT EXISTS idx_callback_nonces_expires_at
+    ON public.callback_nonces(expires_at);
+
+-- Only edge functions (service role) read or write nonces
+ALTER TABLE public.callback_nonces ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Mark a nonce used if it belongs to this callback and target and is still
+-- valid. Accepting a callback also retires the other nonces for the target,
+-- so callbacks from superseded runs are rejected.
+CREATE OR REPLACE FUNCTION public.consume_callback_nonce(
+    p_callback text,
+    p_target_id uuid,
+    p_nonce text
+)
+RETURNS boolean AS $$
+BEGIN
+    UPDATE public.callback_nonces
+    SET used_at = timezone('utc'::text, now())
+    WHERE nonce = p_nonce
+      AND callback = p_callback
+      AND target_id = p_target_id
+      AND used_at IS NULL
+      AND expires_at > timezone('utc'::text, now());
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    DELETE FROM public.callback_nonces
+    WHERE (callback = p_callback AND target_id = p_target_id AND nonce <> p_nonce)
+       OR expires_at <= timezone('utc'::text, now());
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.consume_callback_nonce(text, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_callback_nonce(text, uuid, text) TO service_role;
@@ -0,0 +1,29 @@
+-- Edge functions and RLS policies take the caller's role from profiles, so
+-- users must not be able to change it themselves. The "Users can update
+-- their own profile" policy covers every column, this trigger keeps the role
+-- column to admins and the service role.
+
+CREATE OR REPLACE FUNCTION public.prevent_profile_role_escalation()
+RETURNS trigger AS $$
+BEGIN
+    IF (TG_OP = 'INSERT' AND NEW.role <> 'user') OR
+       (TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role) THEN
+        -- auth.uid() is NULL for the signup trigger and SQL run by the owner
+        IF auth.uid() IS NOT NULL
+           AND COALESCE(auth.role(), '') <> 'service_role'
+           AND NOT EXISTS (
+               SELECT 1 FROM public.profiles
+               WHERE id = auth.uid() AND role = 'admin'
+           ) THEN
+            RAISE EXCEPTION 'Only admins can change user roles';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prevent_profile_role_escalation ON public.profiles;
+CREATE TRIGGER prevent_profile_role_escalation
+    BEFORE INSERT OR UPDATE OF role ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_profile_role_escalation();
@@ -0,0 +1,64 @@
+-- Server-side password recovery. The password-recovery edge function checks
+-- security answers, records every attempt in security_question_attempts and
+-- issues a short-lived single-use reset token that update-password accepts
+-- in place of a session. Only the token's SHA-256 hash is stored.
+
+-- ============================================================================
+-- SECURITY QUESTION ATTEMPTS
+-- ============================================================================
+
+-- Attempts drive the lockout, so only the edge function (service role) may
+-- record them
+DROP POLICY IF EXISTS "Users can insert their own security attempts" ON public.security_question_attempts;
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.password_reset_tokens (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    token_hash text NOT NULL UNIQUE,
+    ip_address inet,
+    expires_at timestamp with time zone NOT NULL,
+    used_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_id ON public.password_reset_tokens(user_id);
+
+-- No policies: tokens are only read and written by edge functions
+ALTER TABLE public.password_reset_tokens ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Use up a reset token and return the user it was issued to, or NULL if it
+-- is unknown, expired or already used. The user's other outstanding tokens
+-- are revoked with it.
+CREATE OR REPLACE FUNCTION public.consume_password_reset_token(p_token_hash text)
+RETURNS uuid AS $$
+DECLARE
+    v_user_id uuid;
+BEGIN
+    UPDATE public.password_reset_tokens
+    SET used_at = timezone('utc'::text, now())
+    WHERE token_hash = p_token_hash
+      AND used_at IS NULL
+      AND expires_at > timezone('utc'::text, now())
+    RETURNING user_id INTO v_user_id;
+
+    IF v_user_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    DELETE FROM public.password_reset_tokens
+    WHERE user_id = v_user_id AND used_at IS NULL;
+
+    RETURN v_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.consume_password_reset_token(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_password_reset_token(text) TO service_role;
@@ -0,0 +1,22 @@
+-- Email-based account flows. Users choose whether they recover their
+-- password with their security question, an emailed reset link or either.
+-- Reset tokens record how they were delivered so emailed links can be rate
+-- limited separately from security answers.
+
+-- ============================================================================
+-- PROFILES
+-- ============================================================================
+
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS recovery_method text NOT NULL DEFAULT 'both'
+    CHECK (recovery_method IN ('security_question', 'email', 'both'));
+
+-- ============================================================================
+-- PASSWORD RESET TOKENS
+-- ============================================================================
+
+ALTER TABLE public.password_reset_tokens
+    ADD COLUMN IF NOT EXISTS delivery text NOT NULL DEFAULT 'security_question'
+    CHECK (delivery IN ('security_question', 'email'));
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_created_at ON public.password_reset_tokens(user_id, created_at);
@@ -0,0 +1,262 @@
+-- TOTP multi-factor authentication. Factors are enrolled and challenged
+-- through Supabase Auth, which raises the session's aal claim to aal2 once a
+-- code is verified. Admins can require MFA for a role; callers with that role
+-- then need an aal2 session for admin operations, enforced by restrictive RLS
+-- policies here and by requireAdmin in the edge functions. Backup codes are
+-- stored hashed and redeemed through the mfa-backup-codes edge function.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.role_security_policies (
+    role text PRIMARY KEY CHECK (role IN ('admin', 'user')),
+    require_mfa boolean NOT NULL DEFAULT false,
+    updated_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+INSERT INTO public.role_security_policies (role)
+VALUES ('admin')
+ON CONFLICT (role) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_role_security_policies_updated_at ON public.role_security_policies;
+CREATE TRIGGER update_role_security_policies_updated_at
+    BEFORE UPDATE ON public.role_security_policies
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.mfa_backup_codes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    code_hash text NOT NULL,
+    used_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (user_id, code_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_backup_codes_user_id ON public.mfa_backup_codes(user_id);
+
+-- No policies: codes are only read and written by the edge function
+ALTER TABLE public.mfa_backup_codes ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- True unless the caller's role requires MFA and the session hasn't been
+-- verified with a second factor
+CREATE OR REPLACE FUNCTION public.mfa_requirement_satisfied()
+RETURNS boolean AS $$
+BEGIN
+    RETURN COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2' OR NOT EXISTS (
+        SELECT 1 FROM public.profiles p
+        JOIN public.role_security_policies r ON r.role = p.role
+        WHERE p.id = auth.uid() AND r.require_mfa
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Use up a backup code. Returns false if it is unknown or already used.
+CREATE OR REPLACE FUNCTION public.consume_mfa_backup_code(p_user_id uuid, p_code_hash text)
+RETURNS boolean AS $$
+BEGIN
+    UPDATE public.mfa_backup_codes
+    SET used_at = timezone('utc'::text, now())
+    WHERE user_id = p_user_id AND code_hash = p_code_hash AND used_at IS NULL;
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.consume_mfa_backup_code(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_mfa_backup_code(uuid, text) TO service_role;
+
+-- Admins need a verified session to manage sources through the admin branch
+CREATE OR REPLACE FUNCTION public.can_manage_source(p_source_id uuid)
+RETURNS boolean AS $$
+BEGIN
+    RETURN auth.role() = 'service_role' OR EXISTS (
+        SELECT 1 FROM public.sources s
+        JOIN public.notebooks n ON n.id = s.notebook_id
+        WHERE s.id = p_source_id AND (
+            n.user_id = auth.uid() OR
+            EXISTS (
+                SELECT 1 FROM public.profiles
+                WHERE id = auth.uid() AND role = 'admin'
+            )
+        )
+    ) AND public.mfa_requirement_satisfied();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Re-driving needs a verified session too when the admin role requires MFA
+CREATE OR REPLACE FUNCTION public.redrive_webhook_job(p_job_id uuid)
+RETURNS void AS $$
+DECLARE
+    v_job public.webhook_jobs%ROWTYPE;
+    v_target_id text;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Only admins can re-drive webhook jobs';
+    END IF;
+
+    IF NOT public.mfa_requirement_satisfied() THEN
+        RAISE EXCEPTION 'Multi-factor authentication is required to re-drive webhook jobs';
+    END IF;
+
+    UPDATE public.webhook_jobs
+    SET
+        status = 'pending',
+        attempts = 0,
+        next_attempt_at = timezone('utc'::text, now()),
+        locked_until = NULL,
+        dead_at = NULL
+    WHERE id = p_job_id AND status = 'dead'
+    RETURNING * INTO v_job;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Dead-lettered webhook job not found';
+    END IF;
+
+    FOREACH v_target_id IN ARRAY v_job.target_ids LOOP
+        IF v_job.kind IN ('process-document', 'process-additional-sources') THEN
+            UPDATE public.sources
+            SET processing_status = 'processing'
+            WHERE id = v_target_id::uuid;
+
+            IF EXISTS (SELECT 1 FROM public.source_jobs WHERE source_id = v_target_id::uuid) THEN
+                PERFORM public.record_source_job_stage(v_target_id::uuid, NULL, 'running');
+            END IF;
+        ELSIF v_job.kind = 'generate-notebook-content' THEN
+            UPDATE public.notebooks
+            SET generation_status = 'generating'
+            WHERE id = v_target_id::uuid;
+        ELSIF v_job.kind = 'generate-audio-overview' THEN
+            UPDATE public.notebooks
+            SET audio_overview_generation_status = 'generating'
+            WHERE id = v_target_id::uuid;
+        END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- RLS POLICIES - ROLE SECURITY POLICIES
+-- ============================================================================
+
+ALTER TABLE public.role_security_policies ENABLE ROW LEVEL SECURITY;
+
+-- The frontend reads the policy to prompt for enrolment
+CREATE POLICY "Authenticated users can view role security policies"
+    ON public.role_security_policies FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Admins can only turn the requirement on from a verified session, so they
+-- can't lock themselves out before enrolling
+CREATE POLICY "Admins can update role security policies"
+    ON public.role_security_policies FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        ) AND public.mfa_requirement_satisfied()
+    )
+    WITH CHECK (
+        (NOT require_mfa OR COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2') AND
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- ============================================================================
+-- RLS POLICIES - MFA ENFORCEMENT
+-- ============================================================================
+
+-- Restrictive policies are ANDed with the existing permissive ones, so they
+-- take the admin branch away from sessions that still need a second factor
+-- without changing anything for everyone else.
+
+DROP POLICY IF EXISTS "Require MFA to create notebooks" ON public.notebooks;
+CREATE POLICY "Require MFA to create notebooks"
+    ON public.notebooks AS RESTRICTIVE FOR INSERT
+    TO authenticated
+    WITH CHECK (public.mfa_requirement_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA to update notebooks" ON public.notebooks;
+CREATE POLICY "Require MFA to update notebooks"
+    ON public.notebooks AS RESTRICTIVE FOR UPDATE
+    TO authenticated
+    USING (public.mfa_requirement_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA to delete notebooks" ON public.notebooks;
+CREATE POLICY "Require MFA to delete notebooks"
+    ON public.notebooks AS RESTRICTIVE FOR DELETE
+    TO authenticated
+    USING (public.mfa_requirement_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA to create sources" ON public.sources;
+CREATE POLICY "Require MFA to create sources"
+    ON public.sources AS RESTRICTIVE FOR INSERT
+    TO authenticated
+    WITH CHECK (public.mfa_requirement_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA to update sources" ON public.sources;
+CREATE POLICY "Require MFA to update sources"
+    ON public.sources AS RESTRICTIVE FOR UPDATE
+    TO authenticated
+    USING (public.mfa_requirement_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA to delete sources" ON public.sources;
+CREATE POLICY "Require MFA to delete sources"
+    ON public.sources AS RESTRICTIVE FOR DELETE
+    TO authenticated
+    USING (public.mfa_requirement_satisfied());
+
+-- Users keep access to their own profile so they can finish signing in
+DROP POLICY IF EXISTS "Require MFA to view other profiles" ON public.profiles;
+CREATE POLICY "Require MFA to view other profiles"
+    ON public.profiles AS RESTRICTIVE FOR SELECT
+    TO authenticated
+    USING (auth.uid() = id OR public.mfa_requirement_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA to update other profiles" ON public.profiles;
+CREATE POLICY "Require MFA to update other profiles"
+    ON public.profiles AS RESTRICTIVE FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = id OR public.mfa_requirement_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA to delete profiles" ON public.profiles;
+CREATE POLICY "Require MFA to delete profiles"
+    ON public.profiles AS RESTRICTIVE FOR DELETE
+    TO authenticated
+    USING (public.mfa_requirement_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA to view others' feedback" ON public.chat_feedback;
+CREATE POLICY "Require MFA to view others' feedback"
+    ON public.chat_feedback AS RESTRICTIVE FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid() OR public.mfa_requirement_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA to delete others' feedback" ON public.chat_feedback;
+CREATE POLICY "Require MFA to delete others' feedback"
+    ON public.chat_feedback AS RESTRICTIVE FOR DELETE
+    TO authenticated
+    USING (user_id = auth.uid() OR public.mfa_requirement_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA to view webhook jobs" ON public.webhook_jobs;
+CREATE POLICY "Require MFA to view webhook jobs"
+    ON public.webhook_jobs AS RESTRICTIVE FOR SELECT
+    TO authenticated
+    USING (public.mfa_requirement_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA to view source jobs" ON public.source_jobs;
+CREATE POLICY "Require MFA to view source jobs"
+    ON public.source_jobs AS RESTRICTIVE FOR SELECT
+    TO authenticated
+    USING (public.mfa_requirement_satisfied());
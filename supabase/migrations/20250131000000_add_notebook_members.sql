@@ -0,0 +1,419 @@
+-- Per-notebook sharing. Each notebook has members with an owner, editor or
+-- viewer role, replacing the global read / admin-only write model from
+-- make_notebooks_global. Owners manage members, editors add sources and
+-- regenerate overviews, viewers read and chat. Private notebooks are only
+-- visible to their members; workspace notebooks can also be read by every
+-- signed-in user. Admins keep full access. Invitations to addresses without
+-- an account are kept until someone signs up with that email.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Existing notebooks were readable by everyone, keep them that way. New
+-- notebooks start private.
+ALTER TABLE public.notebooks
+    ADD COLUMN IF NOT EXISTS visibility text NOT NULL DEFAULT 'workspace'
+    CHECK (visibility IN ('private', 'workspace'));
+
+ALTER TABLE public.notebooks ALTER COLUMN visibility SET DEFAULT 'private';
+
+CREATE TABLE IF NOT EXISTS public.notebook_members (
+    notebook_id uuid NOT NULL REFERENCES public.notebooks(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    role text NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    invited_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    PRIMARY KEY (notebook_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notebook_members_user_id ON public.notebook_members(user_id);
+
+DROP TRIGGER IF EXISTS update_notebook_members_updated_at ON public.notebook_members;
+CREATE TRIGGER update_notebook_members_updated_at
+    BEFORE UPDATE ON public.notebook_members
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.notebook_invitations (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    notebook_id uuid NOT NULL REFERENCES public.notebooks(id) ON DELETE CASCADE,
+    email text NOT NULL,
+    role text NOT NULL CHECK (role IN ('editor', 'viewer')),
+    invited_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (notebook_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notebook_invitations_email ON public.notebook_invitations(email);
+
+-- Every existing notebook's creator becomes its owner
+INSERT INTO public.notebook_members (notebook_id, user_id, role)
+SELECT n.id, n.user_id, 'owner'
+FROM public.notebooks n
+JOIN public.profiles p ON p.id = n.user_id
+ON CONFLICT (notebook_id, user_id) DO NOTHING;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- The caller's effective role on a notebook: 'owner' for its creator and for
+-- admins, their membership, 'viewer' for workspace notebooks they aren't a
+-- member of, or NULL when they can't see it. Admins need a verified session
+-- when their role requires MFA.
+CREATE OR REPLACE FUNCTION public.notebook_role(p_notebook_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_notebook public.notebooks%ROWTYPE;
+    v_role text;
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND role = 'admin'
+    ) AND public.mfa_requirement_satisfied() THEN
+        RETURN 'owner';
+    END IF;
+
+    SELECT * INTO v_notebook FROM public.notebooks WHERE id = p_notebook_id;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_notebook.user_id = auth.uid() THEN
+        RETURN 'owner';
+    END IF;
+
+    SELECT role INTO v_role
+    FROM public.notebook_members
+    WHERE notebook_id = p_notebook_id AND user_id = auth.uid();
+
+    IF v_role IS NOT NULL THEN
+        RETURN v_role;
+    END IF;
+
+    IF auth.uid() IS NOT NULL AND v_notebook.visibility = 'workspace' THEN
+        RETURN 'viewer';
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_view_notebook(p_notebook_id uuid)
+RETURNS boolean AS $$
+    SELECT public.notebook_role(p_notebook_id) IS NOT NULL;
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_edit_notebook(p_notebook_id uuid)
+RETURNS boolean AS $$
+    SELECT COALESCE(public.notebook_role(p_notebook_id) IN ('owner', 'editor'), false);
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_manage_notebook(p_notebook_id uuid)
+RETURNS boolean AS $$
+    SELECT COALESCE(public.notebook_role(p_notebook_id) = 'owner', false);
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Storage paths start with the notebook id. Returns NULL for paths that
+-- don't, so the policies below deny them instead of failing the cast.
+CREATE OR REPLACE FUNCTION public.notebook_id_from_path(p_name text)
+RETURNS uuid AS $$
+DECLARE
+    v_folder text := (storage.foldername(p_name))[1];
+BEGIN
+    IF v_folder ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+        RETURN v_folder::uuid;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- Documents are tied to their notebook through metadata
+CREATE OR REPLACE FUNCTION public.is_notebook_owner_for_document(doc_metadata jsonb)
+RETURNS boolean AS $$
+    SELECT public.can_edit_notebook((doc_metadata->>'notebook_id')::uuid);
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_view_document(doc_metadata jsonb)
+RETURNS boolean AS $$
+    SELECT public.can_view_notebook((doc_metadata->>'notebook_id')::uuid);
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Editors can manage sources too
+CREATE OR REPLACE FUNCTION public.can_manage_source(p_source_id uuid)
+RETURNS boolean AS $$
+BEGIN
+    RETURN auth.role() = 'service_role' OR EXISTS (
+        SELECT 1 FROM public.sources s
+        WHERE s.id = p_source_id AND public.can_edit_notebook(s.notebook_id)
+    ) AND public.mfa_requirement_satisfied();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Members of a notebook with their names, for anyone who can see it.
+-- Profiles of other users aren't readable directly.
+CREATE OR REPLACE FUNCTION public.get_notebook_members(p_notebook_id uuid)
+RETURNS TABLE(
+    user_id uuid,
+    email text,
+    full_name text,
+    role text,
+    created_at timestamp with time zone
+) AS $$
+BEGIN
+    IF NOT public.can_view_notebook(p_notebook_id) THEN
+        RAISE EXCEPTION 'Notebook not found';
+    END IF;
+
+    RETURN QUERY
+    SELECT m.user_id, p.email, p.full_name, m.role, m.created_at
+    FROM public.notebook_members m
+    JOIN public.profiles p ON p.id = m.user_id
+    WHERE m.notebook_id = p_notebook_id
+    ORDER BY CASE m.role WHEN 'owner' THEN 0 WHEN 'editor' THEN 1 ELSE 2 END, p.email;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- The creator becomes the notebook's owner
+CREATE OR REPLACE FUNCTION public.add_notebook_owner()
+RETURNS trigger AS $$
+BEGIN
+    INSERT INTO public.notebook_members (notebook_id, user_id, role)
+    VALUES (NEW.id, NEW.user_id, 'owner')
+    ON CONFLICT (notebook_id, user_id) DO UPDATE SET role = 'owner';
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_notebook_created_add_owner ON public.notebooks;
+CREATE TRIGGER on_notebook_created_add_owner
+    AFTER INSERT ON public.notebooks
+    FOR EACH ROW EXECUTE FUNCTION public.add_notebook_owner();
+
+-- Editors can update a notebook, but only its owners decide who can see it
+-- or who created it
+CREATE OR REPLACE FUNCTION public.prevent_notebook_sharing_changes()
+RETURNS trigger AS $$
+BEGIN
+    IF (NEW.visibility IS DISTINCT FROM OLD.visibility OR NEW.user_id IS DISTINCT FROM OLD.user_id)
+       AND auth.uid() IS NOT NULL
+       AND COALESCE(auth.role(), '') <> 'service_role'
+       AND NOT public.can_manage_notebook(OLD.id) THEN
+        RAISE EXCEPTION 'Only notebook owners can change who has access';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prevent_notebook_sharing_changes ON public.notebooks;
+CREATE TRIGGER prevent_notebook_sharing_changes
+    BEFORE UPDATE OF visibility, user_id ON public.notebooks
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_notebook_sharing_changes();
+
+-- Turn pending invitations into memberships when the invited email signs up
+CREATE OR REPLACE FUNCTION public.claim_notebook_invitations()
+RETURNS trigger AS $$
+BEGIN
+    INSERT INTO public.notebook_members (notebook_id, user_id, role, invited_by)
+    SELECT i.notebook_id, NEW.id, i.role, i.invited_by
+    FROM public.notebook_invitations i
+    WHERE i.email = lower(NEW.email)
+    ON CONFLICT (notebook_id, user_id) DO NOTHING;
+
+    DELETE FROM public.notebook_invitations WHERE email = lower(NEW.email);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_profile_created_claim_invitations ON public.profiles;
+CREATE TRIGGER on_profile_created_claim_invitations
+    AFTER INSERT ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.claim_notebook_invitations();
+
+-- ============================================================================
+-- RLS POLICIES - NOTEBOOKS
+-- ============================================================================
+
+DROP POLICY IF EXISTS "All users can view all notebooks" ON public.notebooks;
+DROP POLICY IF EXISTS "Only admin can create notebooks" ON public.notebooks;
+DROP POLICY IF EXISTS "Only admin can update notebooks" ON public.notebooks;
+DROP POLICY IF EXISTS "Only admin can delete notebooks" ON public.notebooks;
+
+-- The creator is checked on the row itself as well, so a notebook can be
+-- returned from the insert that creates it
+CREATE POLICY "Members can view notebooks"
+    ON public.notebooks FOR SELECT
+    USING (user_id = auth.uid() OR public.can_view_notebook(id));
+
+-- Anyone can create a notebook for themselves, admins for anyone
+CREATE POLICY "Users can create their own notebooks"
+    ON public.notebooks FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        user_id = auth.uid() OR
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Editors can update notebooks"
+    ON public.notebooks FOR UPDATE
+    USING (user_id = auth.uid() OR public.can_edit_notebook(id));
+
+CREATE POLICY "Owners can delete notebooks"
+    ON public.notebooks FOR DELETE
+    USING (user_id = auth.uid() OR public.can_manage_notebook(id));
+
+-- ============================================================================
+-- RLS POLICIES - NOTEBOOK MEMBERS
+-- ============================================================================
+
+ALTER TABLE public.notebook_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notebook_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Everyone sees their own memberships, owners see the whole list. Other
+-- members read it through get_notebook_members.
+CREATE POLICY "Users can view notebook memberships"
+    ON public.notebook_members FOR SELECT
+    USING (user_id = auth.uid() OR public.can_manage_notebook(notebook_id));
+
+-- New members are added by the share-notebook edge function. Owners can
+-- change roles and remove members, but never the notebook's creator, and
+-- members can leave.
+CREATE POLICY "Owners can update notebook members"
+    ON public.notebook_members FOR UPDATE
+    USING (public.can_manage_notebook(notebook_id))
+    WITH CHECK (
+        public.can_manage_notebook(notebook_id) AND
+        NOT EXISTS (
+            SELECT 1 FROM public.notebooks
+            WHERE id = notebook_id AND notebooks.user_id = notebook_members.user_id
+        )
+    );
+
+CREATE POLICY "Owners can remove notebook members"
+    ON public.notebook_members FOR DELETE
+    USING (
+        (public.can_manage_notebook(notebook_id) OR user_id = auth.uid()) AND
+        NOT EXISTS (
+            SELECT 1 FROM public.notebooks
+            WHERE id = notebook_id AND notebooks.user_id = notebook_members.user_id
+        )
+    );
+
+CREATE POLICY "Owners can view notebook invitations"
+    ON public.notebook_invitations FOR SELECT
+    USING (public.can_manage_notebook(notebook_id));
+
+CREATE POLICY "Owners can delete notebook invitations"
+    ON public.notebook_invitations FOR DELETE
+    USING (public.can_manage_notebook(notebook_id));
+
+-- ============================================================================
+-- RLS POLICIES - SOURCES
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view sources based on role" ON public.sources;
+DROP POLICY IF EXISTS "Users can create sources based on role" ON public.sources;
+DROP POLICY IF EXISTS "Users can update sources based on role" ON public.sources;
+DROP POLICY IF EXISTS "Users can delete sources based on role" ON public.sources;
+
+CREATE POLICY "Members can view sources"
+    ON public.sources FOR SELECT
+    USING (public.can_view_notebook(notebook_id));
+
+CREATE POLICY "Editors can create sources"
+    ON public.sources FOR INSERT
+    WITH CHECK (public.can_edit_notebook(notebook_id));
+
+CREATE POLICY "Editors can update sources"
+    ON public.sources FOR UPDATE
+    USING (public.can_edit_notebook(notebook_id));
+
+CREATE POLICY "Editors can delete sources"
+    ON public.sources FOR DELETE
+    USING (public.can_edit_notebook(notebook_id));
+
+DROP POLICY IF EXISTS "Users can view source jobs based on role" ON public.source_jobs;
+CREATE POLICY "Members can view source jobs"
+    ON public.source_jobs FOR SELECT
+    USING (public.can_view_notebook(notebook_id));
+
+-- ============================================================================
+-- RLS POLICIES - DOCUMENTS
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view documents based on ownership" ON public.documents;
+DROP POLICY IF EXISTS "Users can insert documents based on ownership" ON public.documents;
+
+CREATE POLICY "Members can view documents"
+    ON public.documents FOR SELECT
+    USING (public.can_view_document(metadata));
+
+CREATE POLICY "Editors can insert documents"
+    ON public.documents FOR INSERT
+    WITH CHECK (public.is_notebook_owner_for_document(metadata));
+
+-- ============================================================================
+-- STORAGE POLICIES
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view their own source files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload source files to their notebooks" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update their own source files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own source files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can view their own audio files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own audio files" ON storage.objects;
+
+CREATE POLICY "Members can view source files"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'sources' AND
+  public.can_view_notebook(public.notebook_id_from_path(name))
+);
+
+CREATE POLICY "Editors can upload source files"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'sources' AND
+  public.can_edit_notebook(public.notebook_id_from_path(name))
+);
+
+CREATE POLICY "Editors can update source files"
+ON storage.objects FOR UPDATE
+USING (
+  bucket_id = 'sources' AND
+  public.can_edit_notebook(public.notebook_id_from_path(name))
+);
+
+CREATE POLICY "Editors can delete source files"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'sources' AND
+  public.can_edit_notebook(public.notebook_id_from_path(name))
+);
+
+CREATE POLICY "Members can view audio files"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'audio' AND
+  public.can_view_notebook(public.notebook_id_from_path(name))
+);
+
+CREATE POLICY "Editors can delete audio files"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'audio' AND
+  public.can_edit_notebook(public.notebook_id_from_path(name))
+);
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+-- The dashboard refreshes when the user is added to or removed from a notebook
+ALTER TABLE public.notebook_members REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notebook_members;
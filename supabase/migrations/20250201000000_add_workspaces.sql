@@ -0,0 +1,838 @@
+-- Workspaces for hosting several departments on one instance. Every notebook
+-- belongs to a workspace and is only reachable by that workspace's members;
+-- workspace admins manage its members and have owner access to its notebooks.
+-- Admins (profiles.role) manage every workspace and set usage limits. Source
+-- files are stored under <workspace_id>/<notebook_id>/, and document retrieval
+-- is always scoped to a single workspace.
+--
+-- Existing data moves into a default workspace that new sign-ups also join.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.workspaces (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL CHECK (length(trim(name)) > 0),
+    is_default boolean NOT NULL DEFAULT false,
+    -- Usage limits, NULL means unlimited
+    max_notebooks integer CHECK (max_notebooks >= 0),
+    max_sources integer CHECK (max_sources >= 0),
+    max_storage_bytes bigint CHECK (max_storage_bytes >= 0),
+    max_members integer CHECK (max_members >= 0),
+    created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Only one workspace takes new sign-ups
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workspaces_single_default
+    ON public.workspaces(is_default)
+    WHERE is_default;
+
+DROP TRIGGER IF EXISTS update_workspaces_updated_at ON public.workspaces;
+CREATE TRIGGER update_workspaces_updated_at
+    BEFORE UPDATE ON public.workspaces
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+    workspace_id uuid NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    role text NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON public.workspace_members(user_id);
+
+-- The workspace picked in the dashboard's switcher. Search and "ask all
+-- notebooks" chat are limited to it.
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS current_workspace_id uuid REFERENCES public.workspaces(id) ON DELETE SET NULL;
+
+ALTER TABLE public.notebooks
+    ADD COLUMN IF NOT EXISTS workspace_id uuid REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_notebooks_workspace_id ON public.notebooks(workspace_id);
+
+-- ============================================================================
+-- DEFAULT WORKSPACE
+-- ============================================================================
+
+INSERT INTO public.workspaces (name, is_default)
+SELECT 'Default workspace', true
+WHERE NOT EXISTS (SELECT 1 FROM public.workspaces WHERE is_default);
+
+-- Admins become admins of the default workspace, everyone else a member
+INSERT INTO public.workspace_members (workspace_id, user_id, role)
+SELECT w.id, p.id, CASE WHEN p.role = 'admin' THEN 'admin' ELSE 'member' END
+FROM public.profiles p
+CROSS JOIN public.workspaces w
+WHERE w.is_default
+ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+UPDATE public.profiles
+SET current_workspace_id = (SELECT id FROM public.workspaces WHERE is_default)
+WHERE current_workspace_id IS NULL;
+
+UPDATE public.notebooks
+SET workspace_id = (SELECT id FROM public.workspaces WHERE is_default)
+WHERE workspace_id IS NULL;
+
+ALTER TABLE public.notebooks ALTER COLUMN workspace_id SET NOT NULL;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Admins can reach every workspace once their session meets the MFA policy
+CREATE OR REPLACE FUNCTION public.is_workspace_member(p_workspace_id uuid)
+RETURNS boolean AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.workspace_members
+        WHERE workspace_id = p_workspace_id AND user_id = auth.uid()
+    ) OR (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        ) AND public.mfa_requirement_satisfied()
+    );
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_workspace_admin(p_workspace_id uuid)
+RETURNS boolean AS $$
+    SELECT (
+        EXISTS (
+            SELECT 1 FROM public.workspace_members
+            WHERE workspace_id = p_workspace_id AND user_id = auth.uid() AND role = 'admin'
+        ) OR EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    ) AND public.mfa_requirement_satisfied();
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- The user's selected workspace if they still belong to it (admins can pick
+-- any), otherwise the first one they joined
+CREATE OR REPLACE FUNCTION public.current_workspace_id(p_user_id uuid DEFAULT auth.uid())
+RETURNS uuid AS $$
+    SELECT COALESCE(
+        (
+            SELECT p.current_workspace_id
+            FROM public.profiles p
+            WHERE p.id = p_user_id
+              AND (
+                  p.role = 'admin' OR
+                  EXISTS (
+                      SELECT 1 FROM public.workspace_members m
+                      WHERE m.workspace_id = p.current_workspace_id AND m.user_id = p.id
+                  )
+              )
+        ),
+        (
+            SELECT workspace_id
+            FROM public.workspace_members
+            WHERE user_id = p_user_id
+            ORDER BY created_at
+            LIMIT 1
+        )
+    );
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Notebooks outside the caller's workspaces are invisible, whatever their
+-- membership or visibility. Workspace admins own every notebook in it.
+CREATE OR REPLACE FUNCTION public.notebook_role(p_notebook_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_notebook public.notebooks%ROWTYPE;
+    v_role text;
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND role = 'admin'
+    ) AND public.mfa_requirement_satisfied() THEN
+        RETURN 'owner';
+    END IF;
+
+    SELECT * INTO v_notebook FROM public.notebooks WHERE id = p_notebook_id;
+    IF NOT FOUND OR NOT public.is_workspace_member(v_notebook.workspace_id) THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_notebook.user_id = auth.uid() OR public.is_workspace_admin(v_notebook.workspace_id) THEN
+        RETURN 'owner';
+    END IF;
+
+    SELECT role INTO v_role
+    FROM public.notebook_members
+    WHERE notebook_id = p_notebook_id AND user_id = auth.uid();
+
+    IF v_role IS NOT NULL THEN
+        RETURN v_role;
+    END IF;
+
+    IF v_notebook.visibility = 'workspace' THEN
+        RETURN 'viewer';
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Source files live under <workspace_id>/<notebook_id>/. Files uploaded
+-- before workspaces existed are under <notebook_id>/ and still resolve.
+-- A workspace prefix that doesn't match the notebook's workspace resolves to
+-- NULL, which every policy denies.
+CREATE OR REPLACE FUNCTION public.notebook_id_from_path(p_name text)
+RETURNS uuid AS $$
+DECLARE
+    v_folders text[] := storage.foldername(p_name);
+    v_uuid_pattern text := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+    v_notebook_id uuid;
+BEGIN
+    IF array_length(v_folders, 1) = 2 THEN
+        IF v_folders[1] !~* v_uuid_pattern OR v_folders[2] !~* v_uuid_pattern THEN
+            RETURN NULL;
+        END IF;
+
+        SELECT id INTO v_notebook_id
+        FROM public.notebooks
+        WHERE id = v_folders[2]::uuid AND workspace_id = v_folders[1]::uuid;
+
+        RETURN v_notebook_id;
+    END IF;
+
+    IF array_length(v_folders, 1) = 1 AND v_folders[1] ~* v_uuid_pattern THEN
+        RETURN v_folders[1]::uuid;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Notebooks created without a workspace go into the creator's current one
+CREATE OR REPLACE FUNCTION public.set_notebook_workspace()
+RETURNS trigger AS $$
+BEGIN
+    IF NEW.workspace_id IS NULL THEN
+        NEW.workspace_id := COALESCE(
+            public.current_workspace_id(NEW.user_id),
+            (SELECT id FROM public.workspaces WHERE is_default)
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_notebook_workspace ON public.notebooks;
+CREATE TRIGGER set_notebook_workspace
+    BEFORE INSERT ON public.notebooks
+    FOR EACH ROW EXECUTE FUNCTION public.set_notebook_workspace();
+
+-- Notebooks stay in the workspace they were created in
+CREATE OR REPLACE FUNCTION public.prevent_notebook_workspace_change()
+RETURNS trigger AS $$
+BEGIN
+    IF NEW.workspace_id IS DISTINCT FROM OLD.workspace_id THEN
+        RAISE EXCEPTION 'Notebooks cannot be moved between workspaces';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS prevent_notebook_workspace_change ON public.notebooks;
+CREATE TRIGGER prevent_notebook_workspace_change
+    BEFORE UPDATE OF workspace_id ON public.notebooks
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_notebook_workspace_change();
+
+-- Current usage of a workspace, for its members
+CREATE OR REPLACE FUNCTION public.get_workspace_usage(p_workspace_id uuid)
+RETURNS TABLE(
+    notebooks bigint,
+    sources bigint,
+    storage_bytes bigint,
+    members bigint
+) AS $$
+BEGIN
+    IF NOT public.is_workspace_member(p_workspace_id) THEN
+        RAISE EXCEPTION 'Workspace not found';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        (SELECT count(*) FROM public.notebooks n WHERE n.workspace_id = p_workspace_id),
+        (SELECT count(*) FROM public.sources s JOIN public.notebooks n ON n.id = s.notebook_id WHERE n.workspace_id = p_workspace_id),
+        (SELECT COALESCE(sum(s.file_size), 0)::bigint FROM public.sources s JOIN public.notebooks n ON n.id = s.notebook_id WHERE n.workspace_id = p_workspace_id),
+        (SELECT count(*) FROM public.workspace_members m WHERE m.workspace_id = p_workspace_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- ============================================================================
+-- USAGE LIMITS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.enforce_workspace_notebook_limit()
+RETURNS trigger AS $$
+DECLARE
+    v_limit integer;
+BEGIN
+    SELECT max_notebooks INTO v_limit FROM public.workspaces WHERE id = NEW.workspace_id;
+
+    IF v_limit IS NOT NULL AND (
+        SELECT count(*) FROM public.notebooks WHERE workspace_id = NEW.workspace_id
+    ) >= v_limit THEN
+        RAISE EXCEPTION 'This workspace has reached its limit of % notebooks', v_limit;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Named to run after set_notebook_workspace has filled in the workspace
+DROP TRIGGER IF EXISTS validate_workspace_notebook_limit ON public.notebooks;
+CREATE TRIGGER validate_workspace_notebook_limit
+    BEFORE INSERT ON public.notebooks
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_workspace_notebook_limit();
+
+CREATE OR REPLACE FUNCTION public.enforce_workspace_source_limits()
+RETURNS trigger AS $$
+DECLARE
+    v_workspace public.workspaces%ROWTYPE;
+    v_used bigint;
+BEGIN
+    SELECT w.* INTO v_workspace
+    FROM public.workspaces w
+    JOIN public.notebooks n ON n.workspace_id = w.id
+    WHERE n.id = NEW.notebook_id;
+
+    IF TG_OP = 'INSERT' AND v_workspace.max_sources IS NOT NULL AND (
+        SELECT count(*)
+        FROM public.sources s
+        JOIN public.notebooks n ON n.id = s.notebook_id
+        WHERE n.workspace_id = v_workspace.id
+    ) >= v_workspace.max_sources THEN
+        RAISE EXCEPTION 'This workspace has reached its limit of % sources', v_workspace.max_sources;
+    END IF;
+
+    IF v_workspace.max_storage_bytes IS NOT NULL
+       AND COALESCE(NEW.file_size, 0) > COALESCE(CASE WHEN TG_OP = 'UPDATE' THEN OLD.file_size END, 0) THEN
+        SELECT COALESCE(sum(s.file_size), 0) INTO v_used
+        FROM public.sources s
+        JOIN public.notebooks n ON n.id = s.notebook_id
+        WHERE n.workspace_id = v_workspace.id AND s.id <> NEW.id;
+
+        IF v_used + NEW.file_size > v_workspace.max_storage_bytes THEN
+            RAISE EXCEPTION 'This workspace has run out of storage (% MB limit)',
+                round(v_workspace.max_storage_bytes / 1048576.0);
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_workspace_source_limits ON public.sources;
+CREATE TRIGGER enforce_workspace_source_limits
+    BEFORE INSERT OR UPDATE OF file_size ON public.sources
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_workspace_source_limits();
+
+CREATE OR REPLACE FUNCTION public.enforce_workspace_member_limit()
+RETURNS trigger AS $$
+DECLARE
+    v_limit integer;
+BEGIN
+    SELECT max_members INTO v_limit FROM public.workspaces WHERE id = NEW.workspace_id;
+
+    IF v_limit IS NOT NULL AND (
+        SELECT count(*) FROM public.workspace_members WHERE workspace_id = NEW.workspace_id
+    ) >= v_limit THEN
+        RAISE EXCEPTION 'This workspace has reached its limit of % members', v_limit;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_workspace_member_limit ON public.workspace_members;
+CREATE TRIGGER enforce_workspace_member_limit
+    BEFORE INSERT ON public.workspace_members
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_workspace_member_limit();
+
+-- Workspace admins can rename their workspace, limits and the default flag
+-- are up to admins
+CREATE OR REPLACE FUNCTION public.prevent_workspace_limit_changes()
+RETURNS trigger AS $$
+BEGIN
+    IF (NEW.max_notebooks IS DISTINCT FROM OLD.max_notebooks OR
+        NEW.max_sources IS DISTINCT FROM OLD.max_sources OR
+        NEW.max_storage_bytes IS DISTINCT FROM OLD.max_storage_bytes OR
+        NEW.max_members IS DISTINCT FROM OLD.max_members OR
+        NEW.is_default IS DISTINCT FROM OLD.is_default)
+       AND auth.uid() IS NOT NULL
+       AND COALESCE(auth.role(), '') <> 'service_role'
+       AND NOT EXISTS (
+           SELECT 1 FROM public.profiles
+           WHERE id = auth.uid() AND role = 'admin'
+       ) THEN
+        RAISE EXCEPTION 'Only admins can change workspace limits';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prevent_workspace_limit_changes ON public.workspaces;
+CREATE TRIGGER prevent_workspace_limit_changes
+    BEFORE UPDATE ON public.workspaces
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_workspace_limit_changes();
+
+-- ============================================================================
+-- NEW USERS
+-- ============================================================================
+
+-- Sign-ups join the default workspace, if there is one
+CREATE OR REPLACE FUNCTION public.set_profile_default_workspace()
+RETURNS trigger AS $$
+BEGIN
+    IF NEW.current_workspace_id IS NULL THEN
+        NEW.current_workspace_id := (SELECT id FROM public.workspaces WHERE is_default);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_profile_default_workspace ON public.profiles;
+CREATE TRIGGER set_profile_default_workspace
+    BEFORE INSERT ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.set_profile_default_workspace();
+
+CREATE OR REPLACE FUNCTION public.add_profile_to_workspace()
+RETURNS trigger AS $$
+BEGIN
+    IF NEW.current_workspace_id IS NOT NULL THEN
+        INSERT INTO public.workspace_members (workspace_id, user_id)
+        VALUES (NEW.current_workspace_id, NEW.id)
+        ON CONFLICT (workspace_id, user_id) DO NOTHING;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_profile_created_add_workspace ON public.profiles;
+CREATE TRIGGER on_profile_created_add_workspace
+    AFTER INSERT ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.add_profile_to_workspace();
+
+-- Someone invited to a notebook also joins the notebook's workspace
+CREATE OR REPLACE FUNCTION public.claim_notebook_invitations()
+RETURNS trigger AS $$
+BEGIN
+    INSERT INTO public.workspace_members (workspace_id, user_id)
+    SELECT DISTINCT n.workspace_id, NEW.id
+    FROM public.notebook_invitations i
+    JOIN public.notebooks n ON n.id = i.notebook_id
+    WHERE i.email = lower(NEW.email)
+    ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+    INSERT INTO public.notebook_members (notebook_id, user_id, role, invited_by)
+    SELECT i.notebook_id, NEW.id, i.role, i.invited_by
+    FROM public.notebook_invitations i
+    WHERE i.email = lower(NEW.email)
+    ON CONFLICT (notebook_id, user_id) DO NOTHING;
+
+    DELETE FROM public.notebook_invitations WHERE email = lower(NEW.email);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- RETRIEVAL
+-- ============================================================================
+
+-- The workspace a match filter is scoped to: "workspace_id", or the
+-- workspace of "notebook_id" or of the first of "notebook_ids". Retrieval
+-- without any of them is refused rather than searching every workspace.
+CREATE OR REPLACE FUNCTION public.match_filter_workspace_id(filter jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    notebook_ids text[] := public.filter_id_list(filter, 'notebook_ids');
+    workspace uuid;
+BEGIN
+    IF NULLIF(trim(filter->>'workspace_id'), '') IS NOT NULL THEN
+        RETURN (filter->>'workspace_id')::uuid;
+    END IF;
+
+    SELECT n.workspace_id INTO workspace
+    FROM public.notebooks n
+    WHERE n.id::text = COALESCE(NULLIF(trim(filter->>'notebook_id'), ''), notebook_ids[1]);
+
+    IF workspace IS NULL THEN
+        RAISE EXCEPTION 'Document retrieval needs a notebook_id, notebook_ids or workspace_id filter';
+    END IF;
+
+    RETURN workspace;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.hybrid_match_documents(
+    query_text text,
+    query_embedding vector,
+    match_count integer DEFAULT 10,
+    filter jsonb DEFAULT '{}'::jsonb,
+    full_text_weight double precision DEFAULT NULL,
+    semantic_weight double precision DEFAULT NULL,
+    rrf_k integer DEFAULT 50
+)
+RETURNS TABLE(
+    id bigint,
+    content text,
+    metadata jsonb,
+    similarity double precision,
+    score double precision
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    source_ids text[] := public.filter_id_list(filter, 'source_ids');
+    notebook_ids text[] := public.filter_id_list(filter, 'notebook_ids');
+    workspace uuid := public.match_filter_workspace_id(filter);
+    metadata_filter jsonb := filter - 'source_ids' - 'notebook_ids' - 'workspace_id' - 'query_text';
+    result_count integer := COALESCE(match_count, 10);
+    keyword_weight double precision := full_text_weight;
+    vector_weight double precision := semantic_weight;
+BEGIN
+    IF NULLIF(trim(filter->>'notebook_id'), '') IS NULL THEN
+        metadata_filter := metadata_filter - 'notebook_id';
+    END IF;
+
+    IF keyword_weight IS NULL OR vector_weight IS NULL THEN
+        SELECT
+            COALESCE(keyword_weight, n.keyword_search_weight),
+            COALESCE(vector_weight, n.semantic_search_weight)
+        INTO keyword_weight, vector_weight
+        FROM public.notebooks n
+        WHERE n.id::text = filter->>'notebook_id';
+    END IF;
+
+    keyword_weight := COALESCE(keyword_weight, 1.0);
+    vector_weight := COALESCE(vector_weight, 1.0);
+
+    RETURN QUERY
+    WITH workspace_notebooks AS (
+        SELECT n.id::text AS notebook_id
+        FROM public.notebooks n
+        WHERE n.workspace_id = workspace
+    ),
+    candidates AS (
+        SELECT d.id, d.fts, d.embedding
+        FROM public.documents d
+        WHERE d.metadata @> metadata_filter
+          AND d.metadata->>'notebook_id' IN (SELECT wn.notebook_id FROM workspace_notebooks wn)
+          AND (source_ids IS NULL OR d.metadata->>'source_id' = ANY(source_ids))
+          AND (notebook_ids IS NULL OR d.metadata->>'notebook_id' = ANY(notebook_ids))
+    ),
+    keyword_matches AS (
+        SELECT
+            c.id,
+            row_number() OVER (
+                ORDER BY ts_rank_cd(c.fts, websearch_to_tsquery('english', query_text)) DESC
+            ) AS rank_ix
+        FROM candidates c
+        WHERE c.fts @@ websearch_to_tsquery('english', query_text)
+        ORDER BY rank_ix
+        LIMIT result_count * 2
+    ),
+    semantic_matches AS (
+        SELECT
+            c.id,
+            row_number() OVER (ORDER BY c.embedding <=> query_embedding) AS rank_ix
+        FROM candidates c
+        ORDER BY rank_ix
+        LIMIT result_count * 2
+    )
+    SELECT
+        d.id,
+        d.content,
+        d.metadata,
+        1 - (d.embedding <=> query_embedding) AS similarity,
+        (
+            COALESCE(keyword_weight / (rrf_k + k.rank_ix), 0.0) +
+            COALESCE(vector_weight / (rrf_k + s.rank_ix), 0.0)
+        )::double precision AS score
+    FROM keyword_matches k
+    FULL OUTER JOIN semantic_matches s ON s.id = k.id
+    JOIN public.documents d ON d.id = COALESCE(k.id, s.id)
+    ORDER BY 5 DESC
+    LIMIT result_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.match_documents(
+    query_embedding vector,
+    match_count integer DEFAULT NULL,
+    filter jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE(
+    id bigint,
+    content text,
+    metadata jsonb,
+    similarity double precision
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    source_ids text[] := public.filter_id_list(filter, 'source_ids');
+    notebook_ids text[] := public.filter_id_list(filter, 'notebook_ids');
+    workspace uuid := public.match_filter_workspace_id(filter);
+    metadata_filter jsonb := filter - 'source_ids' - 'notebook_ids' - 'workspace_id' - 'query_text';
+BEGIN
+    IF NULLIF(trim(filter->>'query_text'), '') IS NOT NULL THEN
+        RETURN QUERY
+        SELECT h.id, h.content, h.metadata, h.similarity
+        FROM public.hybrid_match_documents(
+            filter->>'query_text',
+            query_embedding,
+            match_count,
+            filter - 'query_text'
+        ) h;
+        RETURN;
+    END IF;
+
+    IF NULLIF(trim(filter->>'notebook_id'), '') IS NULL THEN
+        metadata_filter := metadata_filter - 'notebook_id';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        documents.id,
+        documents.content,
+        documents.metadata,
+        1 - (documents.embedding <=> query_embedding) as similarity
+    FROM documents
+    WHERE documents.metadata @> metadata_filter
+      AND documents.metadata->>'notebook_id' IN (
+          SELECT n.id::text FROM public.notebooks n WHERE n.workspace_id = workspace
+      )
+      AND (source_ids IS NULL OR documents.metadata->>'source_id' = ANY(source_ids))
+      AND (notebook_ids IS NULL OR documents.metadata->>'notebook_id' = ANY(notebook_ids))
+    ORDER BY documents.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
+
+-- Same search as before, limited to the caller's current workspace
+CREATE OR REPLACE FUNCTION public.search_workspace(
+    search_query text,
+    result_limit integer DEFAULT 50
+)
+RETURNS TABLE(
+    result_type text,
+    notebook_id uuid,
+    notebook_title text,
+    item_id uuid,
+    title text,
+    snippet text,
+    rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', search_query) AS q
+    ),
+    scope AS (
+        SELECT id FROM notebooks WHERE workspace_id = public.current_workspace_id()
+    ),
+    hits AS (
+        (
+            SELECT 'notebook'::text AS result_type, n.id AS notebook_id, n.id AS item_id,
+                   ts_rank(n.search_vector, query.q) AS rank
+            FROM notebooks n, query
+            WHERE n.search_vector @@ query.q
+              AND n.id IN (SELECT id FROM scope)
+            ORDER BY rank DESC
+            LIMIT result_limit
+        )
+        UNION ALL
+        (
+            SELECT 'source'::text, s.notebook_id, s.id,
+                   ts_rank(s.search_vector, query.q)
+            FROM sources s, query
+            WHERE s.search_vector @@ query.q
+              AND s.notebook_id IN (SELECT id FROM scope)
+            ORDER BY 4 DESC
+            LIMIT result_limit
+        )
+        UNION ALL
+        (
+            SELECT 'note'::text, nt.notebook_id, nt.id,
+                   ts_rank(nt.search_vector, query.q)
+            FROM notes nt, query
+            WHERE nt.search_vector @@ query.q
+              AND nt.user_id = auth.uid()
+              AND nt.notebook_id IN (SELECT id FROM scope)
+            ORDER BY 4 DESC
+            LIMIT result_limit
+        )
+    ),
+    top_hits AS (
+        SELECT * FROM hits ORDER BY rank DESC LIMIT result_limit
+    )
+    -- Headlines are only built for the rows that are returned
+    SELECT
+        h.result_type,
+        h.notebook_id,
+        nb.title AS notebook_title,
+        h.item_id,
+        COALESCE(s.title, nt.title, nb.title) AS title,
+        ts_headline(
+            'english',
+            CASE h.result_type
+                WHEN 'notebook' THEN COALESCE(NULLIF(nb.description, ''), nb.title)
+                WHEN 'source' THEN concat_ws(E'\n', s.summary, LEFT(s.content, 250000))
+                ELSE nt.content
+            END,
+            query.q,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+        ) AS snippet,
+        h.rank
+    FROM top_hits h
+    CROSS JOIN query
+    LEFT JOIN notebooks nb ON nb.id = h.notebook_id
+    LEFT JOIN sources s ON h.result_type = 'source' AND s.id = h.item_id
+    LEFT JOIN notes nt ON h.result_type = 'note' AND nt.id = h.item_id
+    ORDER BY h.rank DESC;
+$$;
+
+-- ============================================================================
+-- RLS POLICIES - WORKSPACES
+-- ============================================================================
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their workspaces"
+    ON public.workspaces FOR SELECT
+    USING (public.is_workspace_member(id));
+
+CREATE POLICY "Admins can create workspaces"
+    ON public.workspaces FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        ) AND public.mfa_requirement_satisfied()
+    );
+
+CREATE POLICY "Workspace admins can update workspaces"
+    ON public.workspaces FOR UPDATE
+    USING (public.is_workspace_admin(id));
+
+CREATE POLICY "Admins can delete workspaces"
+    ON public.workspaces FOR DELETE
+    USING (
+        NOT is_default AND
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        ) AND public.mfa_requirement_satisfied()
+    );
+
+CREATE POLICY "Members can view workspace members"
+    ON public.workspace_members FOR SELECT
+    USING (public.is_workspace_member(workspace_id));
+
+-- Invitations by email go through the send-invitation edge function
+CREATE POLICY "Workspace admins can add workspace members"
+    ON public.workspace_members FOR INSERT
+    WITH CHECK (public.is_workspace_admin(workspace_id));
+
+CREATE POLICY "Workspace admins can update workspace members"
+    ON public.workspace_members FOR UPDATE
+    USING (public.is_workspace_admin(workspace_id));
+
+CREATE POLICY "Workspace admins can remove workspace members"
+    ON public.workspace_members FOR DELETE
+    USING (public.is_workspace_admin(workspace_id) OR user_id = auth.uid());
+
+-- Member names for the workspace's admins, like get_notebook_members
+CREATE OR REPLACE FUNCTION public.get_workspace_members(p_workspace_id uuid)
+RETURNS TABLE(
+    user_id uuid,
+    email text,
+    full_name text,
+    role text,
+    created_at timestamp with time zone
+) AS $$
+BEGIN
+    IF NOT public.is_workspace_member(p_workspace_id) THEN
+        RAISE EXCEPTION 'Workspace not found';
+    END IF;
+
+    RETURN QUERY
+    SELECT m.user_id, p.email, p.full_name, m.role, m.created_at
+    FROM public.workspace_members m
+    JOIN public.profiles p ON p.id = m.user_id
+    WHERE m.workspace_id = p_workspace_id
+    ORDER BY CASE m.role WHEN 'admin' THEN 0 ELSE 1 END, p.email;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- ============================================================================
+-- RLS POLICIES - NOTEBOOKS
+-- ============================================================================
+
+-- The creator check on the row itself (see add_notebook_members) now also
+-- needs them to still be in the notebook's workspace
+DROP POLICY IF EXISTS "Members can view notebooks" ON public.notebooks;
+CREATE POLICY "Members can view notebooks"
+    ON public.notebooks FOR SELECT
+    USING (
+        (user_id = auth.uid() AND public.is_workspace_member(workspace_id)) OR
+        public.can_view_notebook(id)
+    );
+
+DROP POLICY IF EXISTS "Users can create their own notebooks" ON public.notebooks;
+CREATE POLICY "Users can create notebooks in their workspaces"
+    ON public.notebooks FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        public.is_workspace_member(workspace_id) AND (
+            user_id = auth.uid() OR
+            public.is_workspace_admin(workspace_id)
+        )
+    );
+
+DROP POLICY IF EXISTS "Editors can update notebooks" ON public.notebooks;
+CREATE POLICY "Editors can update notebooks"
+    ON public.notebooks FOR UPDATE
+    USING (
+        (user_id = auth.uid() AND public.is_workspace_member(workspace_id)) OR
+        public.can_edit_notebook(id)
+    );
+
+DROP POLICY IF EXISTS "Owners can delete notebooks" ON public.notebooks;
+CREATE POLICY "Owners can delete notebooks"
+    ON public.notebooks FOR DELETE
+    USING (
+        (user_id = auth.uid() AND public.is_workspace_member(workspace_id)) OR
+        public.can_manage_notebook(id)
+    );
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+-- The workspace switcher refreshes when the user joins or leaves a workspace
+ALTER TABLE public.workspace_members REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.workspace_members;
@@ -0,0 +1,300 @@
+-- Delete sources and notebooks in one database transaction instead of a
+-- series of calls from the browser. delete_source() and delete_notebook()
+-- remove the embeddings in documents (linked only through metadata), chat
+-- history and citations pointing at the deleted sources, and queue their
+-- storage objects in storage_deletions. The delete-content edge function
+-- removes the queued objects right after the transaction commits, and the
+-- purge-orphans maintenance job retries whatever is left and removes
+-- documents rows whose source or notebook no longer exists.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Storage objects to remove. Storage can't take part in the database
+-- transaction, so objects are queued with it and removed through the Storage
+-- API afterwards. A prefix entry removes everything under that folder.
+CREATE TABLE IF NOT EXISTS public.storage_deletions (
+    id bigserial PRIMARY KEY,
+    bucket text NOT NULL CHECK (bucket IN ('sources', 'audio')),
+    path text NOT NULL CHECK (length(path) > 0),
+    is_prefix boolean NOT NULL DEFAULT false,
+    attempts integer NOT NULL DEFAULT 0,
+    last_error text,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_deletions_created_at ON public.storage_deletions(created_at);
+
+DROP TRIGGER IF EXISTS update_storage_deletions_updated_at ON public.storage_deletions;
+CREATE TRIGGER update_storage_deletions_updated_at
+    BEFORE UPDATE ON public.storage_deletions
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only the edge functions (service role) read and clear the queue
+ALTER TABLE public.storage_deletions ENABLE ROW LEVEL SECURITY;
+
+-- Deleting a source, and the per-source cleanup below, look embeddings up by source
+CREATE INDEX IF NOT EXISTS idx_documents_source_id ON public.documents ((metadata->>'source_id'));
+CREATE INDEX IF NOT EXISTS idx_documents_notebook_id ON public.documents ((metadata->>'notebook_id'));
+
+-- ============================================================================
+-- HELPER FUNCTIONS
+-- ============================================================================
+
+-- Drops citations of the given sources from a citation array, as stored in
+-- chat_feedback (source_id) and in n8n output items (chunk_source_id)
+CREATE OR REPLACE FUNCTION public.without_source_citations(p_citations jsonb, p_source_ids text[])
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN jsonb_typeof(p_citations) <> 'array' THEN p_citations
+        ELSE COALESCE((
+            SELECT jsonb_agg(c ORDER BY ord)
+            FROM jsonb_array_elements(p_citations) WITH ORDINALITY AS e(c, ord)
+            WHERE NOT (COALESCE(c->>'source_id', c->>'chunk_source_id', '') = ANY(p_source_ids))
+        ), '[]'::jsonb)
+    END;
+$$;
+
+-- AI messages keep n8n's structured output as a JSON string. Content that
+-- isn't in that format is returned unchanged.
+CREATE OR REPLACE FUNCTION public.strip_message_citations(p_content text, p_source_ids text[])
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_parsed jsonb;
+BEGIN
+    BEGIN
+        v_parsed := p_content::jsonb;
+    EXCEPTION WHEN others THEN
+        RETURN p_content;
+    END;
+
+    IF jsonb_typeof(v_parsed) <> 'object' OR jsonb_typeof(v_parsed->'output') <> 'array' THEN
+        RETURN p_content;
+    END IF;
+
+    RETURN jsonb_set(v_parsed, '{output}', (
+        SELECT COALESCE(jsonb_agg(
+            CASE
+                WHEN o ? 'citations' THEN jsonb_set(o, '{citations}', public.without_source_citations(o->'citations', p_source_ids))
+                ELSE o
+            END
+            ORDER BY ord
+        ), '[]'::jsonb)
+        FROM jsonb_array_elements(v_parsed->'output') WITH ORDINALITY AS e(o, ord)
+    ))::text;
+END;
+$$;
+
+-- Removes citations of the given sources from chat history and feedback in
+-- the notebook's threads and in workspace chats (threads without a notebook)
+CREATE OR REPLACE FUNCTION public.remove_source_citations(p_notebook_id uuid, p_source_ids text[])
+RETURNS void AS $$
+BEGIN
+    IF p_source_ids IS NULL OR array_length(p_source_ids, 1) IS NULL THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.n8n_chat_histories h
+    SET message = jsonb_set(
+        h.message,
+        '{content}',
+        to_jsonb(public.strip_message_citations(h.message->>'content', p_source_ids))
+    )
+    WHERE h.message->>'type' = 'ai'
+      AND jsonb_typeof(h.message->'content') = 'string'
+      AND h.session_id IN (
+          SELECT t.id FROM public.chat_threads t
+          WHERE t.notebook_id = p_notebook_id OR t.notebook_id IS NULL
+      )
+      AND EXISTS (
+          SELECT 1 FROM unnest(p_source_ids) AS sid
+          WHERE strpos(h.message->>'content', sid) > 0
+      );
+
+    UPDATE public.chat_feedback f
+    SET citations = public.without_source_citations(f.citations, p_source_ids),
+        answer = CASE
+            WHEN jsonb_typeof(f.answer) = 'object' AND f.answer ? 'citations'
+                THEN jsonb_set(f.answer, '{citations}', public.without_source_citations(f.answer->'citations', p_source_ids))
+            ELSE f.answer
+        END
+    WHERE EXISTS (
+        SELECT 1 FROM jsonb_array_elements(
+            CASE WHEN jsonb_typeof(f.citations) = 'array' THEN f.citations ELSE '[]'::jsonb END
+        ) c
+        WHERE c->>'source_id' = ANY(p_source_ids)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Queues a source's uploaded file and its stored extracted text. Website
+-- sources keep their URL in file_path until the text has been stored.
+CREATE OR REPLACE FUNCTION public.queue_source_storage_deletion(p_source public.sources)
+RETURNS void AS $$
+BEGIN
+    INSERT INTO public.storage_deletions (bucket, path)
+    SELECT 'sources', path
+    FROM unnest(ARRAY[p_source.file_path, p_source.metadata->>'extractedTextPath']) AS path
+    WHERE path IS NOT NULL AND path !~* '^https?://';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- REFERENTIAL INTEGRITY
+-- ============================================================================
+
+-- Embeddings go with their source however it is deleted, including the
+-- cascade from a deleted notebook
+CREATE OR REPLACE FUNCTION public.delete_source_documents()
+RETURNS trigger AS $$
+BEGIN
+    DELETE FROM public.documents WHERE metadata->>'source_id' = OLD.id::text;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS delete_source_documents ON public.sources;
+CREATE TRIGGER delete_source_documents
+    AFTER DELETE ON public.sources
+    FOR EACH ROW EXECUTE FUNCTION public.delete_source_documents();
+
+-- ============================================================================
+-- DELETE FUNCTIONS
+-- ============================================================================
+
+-- Deletes a source for its notebook's editors. Returns the title for the
+-- confirmation message.
+CREATE OR REPLACE FUNCTION public.delete_source(p_source_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_source public.sources%ROWTYPE;
+BEGIN
+    IF NOT public.can_manage_source(p_source_id) THEN
+        RAISE EXCEPTION 'Source not found or you do not have permission to delete it'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO v_source FROM public.sources WHERE id = p_source_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Source not found or you do not have permission to delete it'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    PERFORM public.queue_source_storage_deletion(v_source);
+    PERFORM public.remove_source_citations(v_source.notebook_id, ARRAY[p_source_id::text]);
+
+    -- Embeddings are removed by the delete_source_documents trigger
+    DELETE FROM public.sources WHERE id = p_source_id;
+
+    RETURN v_source.title;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deletes a notebook for its owners, with its sources, embeddings, chat
+-- threads and history, and its files in both buckets
+CREATE OR REPLACE FUNCTION public.delete_notebook(p_notebook_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_notebook public.notebooks%ROWTYPE;
+    v_source public.sources%ROWTYPE;
+    v_source_ids text[];
+BEGIN
+    IF NOT public.can_manage_notebook(p_notebook_id) THEN
+        RAISE EXCEPTION 'Only notebook owners can delete notebooks'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_notebook FROM public.notebooks WHERE id = p_notebook_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Notebook not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    FOR v_source IN SELECT * FROM public.sources WHERE notebook_id = p_notebook_id LOOP
+        PERFORM public.queue_source_storage_deletion(v_source);
+    END LOOP;
+
+    -- Anything else stored for the notebook, e.g. audio overviews written by n8n
+    INSERT INTO public.storage_deletions (bucket, path, is_prefix)
+    VALUES
+        ('sources', v_notebook.workspace_id::text || '/' || p_notebook_id::text, true),
+        ('sources', p_notebook_id::text, true),
+        ('audio', p_notebook_id::text, true);
+
+    SELECT array_agg(id::text) INTO v_source_ids
+    FROM public.sources
+    WHERE notebook_id = p_notebook_id;
+
+    -- Workspace chats may have cited this notebook's sources
+    PERFORM public.remove_source_citations(p_notebook_id, v_source_ids);
+
+    DELETE FROM public.n8n_chat_histories
+    WHERE session_id IN (SELECT id FROM public.chat_threads WHERE notebook_id = p_notebook_id);
+
+    DELETE FROM public.documents WHERE metadata->>'notebook_id' = p_notebook_id::text;
+
+    -- Cascades to sources, notes, chat threads, feedback and members
+    DELETE FROM public.notebooks WHERE id = p_notebook_id;
+
+    RETURN v_notebook.title;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- MAINTENANCE
+-- ============================================================================
+
+-- Removes embeddings whose source or notebook no longer exists, e.g. rows
+-- written by an ingestion run that finished after its source was deleted.
+-- Run by the purge-orphans edge function; returns the number of rows removed.
+CREATE OR REPLACE FUNCTION public.purge_orphaned_documents(p_limit integer DEFAULT 10000)
+RETURNS integer AS $$
+DECLARE
+    v_deleted integer;
+BEGIN
+    IF COALESCE(auth.role(), '') <> 'service_role' AND NOT (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        ) AND public.mfa_requirement_satisfied()
+    ) THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    WITH orphans AS (
+        SELECT d.id
+        FROM public.documents d
+        WHERE (
+            d.metadata->>'source_id' IS NOT NULL AND NOT EXISTS (
+                SELECT 1 FROM public.sources s WHERE s.id::text = d.metadata->>'source_id'
+            )
+        ) OR (
+            d.metadata->>'notebook_id' IS NOT NULL AND NOT EXISTS (
+                SELECT 1 FROM public.notebooks n WHERE n.id::text = d.metadata->>'notebook_id'
+            )
+        )
+        LIMIT p_limit
+    )
+    DELETE FROM public.documents d
+    USING orphans
+    WHERE d.id = orphans.id;
+
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+    RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- PERMISSIONS
+-- ============================================================================
+
+-- Internal helpers, only reached through the delete functions
+REVOKE EXECUTE ON FUNCTION public.remove_source_citations(uuid, text[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_source_storage_deletion(public.sources) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,799 @@
+-- Soft delete for notebooks, sources and notes. Deleting moves an item to the
+-- trash (deleted_at) where it is hidden from everyone but admins, and its
+-- embeddings are left out of retrieval. Admins restore items from the trash
+-- or delete them for good with delete_source()/delete_notebook()/delete_note(),
+-- which now only take trashed items. The purge-orphans job permanently
+-- deletes whatever has been in the trash longer than the retention period in
+-- app_settings.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE public.notebooks
+    ADD COLUMN IF NOT EXISTS deleted_at timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.sources
+    ADD COLUMN IF NOT EXISTS deleted_at timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.notes
+    ADD COLUMN IF NOT EXISTS deleted_at timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notebooks_deleted_at ON public.notebooks(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sources_deleted_at ON public.sources(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_notes_deleted_at ON public.notes(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Instance-wide settings, a single row
+CREATE TABLE IF NOT EXISTS public.app_settings (
+    id boolean PRIMARY KEY DEFAULT true CHECK (id),
+    trash_retention_days integer NOT NULL DEFAULT 30 CHECK (trash_retention_days >= 1),
+    updated_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+INSERT INTO public.app_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_app_settings_updated_at ON public.app_settings;
+CREATE TRIGGER update_app_settings_updated_at
+    BEFORE UPDATE ON public.app_settings
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- ACCESS HELPERS
+-- ============================================================================
+
+-- Admins manage the trash; the service role runs the retention job
+CREATE OR REPLACE FUNCTION public.is_trash_admin()
+RETURNS boolean AS $$
+    SELECT COALESCE(auth.role(), '') = 'service_role' OR (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        ) AND public.mfa_requirement_satisfied()
+    );
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- A trashed notebook has no members until it is restored; admins still own
+-- it so they can look into it from the trash
+CREATE OR REPLACE FUNCTION public.notebook_role(p_notebook_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_notebook public.notebooks%ROWTYPE;
+    v_role text;
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND role = 'admin'
+    ) AND public.mfa_requirement_satisfied() THEN
+        RETURN 'owner';
+    END IF;
+
+    SELECT * INTO v_notebook FROM public.notebooks WHERE id = p_notebook_id;
+    IF NOT FOUND OR v_notebook.deleted_at IS NOT NULL OR NOT public.is_workspace_member(v_notebook.workspace_id) THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_notebook.user_id = auth.uid() OR public.is_workspace_admin(v_notebook.workspace_id) THEN
+        RETURN 'owner';
+    END IF;
+
+    SELECT role INTO v_role
+    FROM public.notebook_members
+    WHERE notebook_id = p_notebook_id AND user_id = auth.uid();
+
+    IF v_role IS NOT NULL THEN
+        RETURN v_role;
+    END IF;
+
+    IF v_notebook.visibility = 'workspace' THEN
+        RETURN 'viewer';
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Embeddings of a trashed source stay in place for a restore but can't be read
+CREATE OR REPLACE FUNCTION public.can_view_document(doc_metadata jsonb)
+RETURNS boolean AS $$
+    SELECT public.can_view_notebook((doc_metadata->>'notebook_id')::uuid)
+       AND NOT EXISTS (
+           SELECT 1 FROM public.sources s
+           WHERE s.id::text = doc_metadata->>'source_id' AND s.deleted_at IS NOT NULL
+       );
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- deleted_at and deleted_by only change through the trash and restore
+-- functions below. This trigger is deliberately not SECURITY DEFINER:
+-- current_user is the API role for direct updates and the function owner
+-- inside those functions.
+CREATE OR REPLACE FUNCTION public.prevent_trash_changes()
+RETURNS trigger AS $$
+BEGIN
+    IF (NEW.deleted_at IS DISTINCT FROM OLD.deleted_at OR NEW.deleted_by IS DISTINCT FROM OLD.deleted_by)
+       AND current_user IN ('anon', 'authenticated') THEN
+        RAISE EXCEPTION 'Use the trash to delete or restore items';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS prevent_trash_changes ON public.notebooks;
+CREATE TRIGGER prevent_trash_changes
+    BEFORE UPDATE OF deleted_at, deleted_by ON public.notebooks
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_trash_changes();
+
+DROP TRIGGER IF EXISTS prevent_trash_changes ON public.sources;
+CREATE TRIGGER prevent_trash_changes
+    BEFORE UPDATE OF deleted_at, deleted_by ON public.sources
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_trash_changes();
+
+DROP TRIGGER IF EXISTS prevent_trash_changes ON public.notes;
+CREATE TRIGGER prevent_trash_changes
+    BEFORE UPDATE OF deleted_at, deleted_by ON public.notes
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_trash_changes();
+
+-- ============================================================================
+-- TRASH AND RESTORE
+-- ============================================================================
+
+-- Moving to the trash takes the same permission deleting used to: owners for
+-- notebooks, editors for sources and the author for notes. Each returns the
+-- title for the confirmation message.
+CREATE OR REPLACE FUNCTION public.trash_notebook(p_notebook_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_title text;
+BEGIN
+    IF NOT public.can_manage_notebook(p_notebook_id) THEN
+        RAISE EXCEPTION 'Only notebook owners can delete notebooks'
+            USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.notebooks
+    SET deleted_at = timezone('utc'::text, now()), deleted_by = auth.uid()
+    WHERE id = p_notebook_id AND deleted_at IS NULL
+    RETURNING title INTO v_title;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Notebook not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_title;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.trash_source(p_source_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_title text;
+BEGIN
+    IF NOT public.can_manage_source(p_source_id) THEN
+        RAISE EXCEPTION 'Source not found or you do not have permission to delete it'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    UPDATE public.sources
+    SET deleted_at = timezone('utc'::text, now()), deleted_by = auth.uid()
+    WHERE id = p_source_id AND deleted_at IS NULL
+    RETURNING title INTO v_title;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Source not found or you do not have permission to delete it'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_title;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.trash_note(p_note_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_title text;
+BEGIN
+    UPDATE public.notes
+    SET deleted_at = timezone('utc'::text, now()), deleted_by = auth.uid()
+    WHERE id = p_note_id
+      AND deleted_at IS NULL
+      AND (user_id = auth.uid() OR public.is_trash_admin())
+    RETURNING title INTO v_title;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Note not found or you do not have permission to delete it'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_title;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only admins restore. Sources and notes go back into their notebook, so the
+-- notebook has to be restored first.
+CREATE OR REPLACE FUNCTION public.restore_notebook(p_notebook_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_title text;
+BEGIN
+    IF NOT public.is_trash_admin() THEN
+        RAISE EXCEPTION 'Only admins can restore items from the trash' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.notebooks
+    SET deleted_at = NULL, deleted_by = NULL
+    WHERE id = p_notebook_id AND deleted_at IS NOT NULL
+    RETURNING title INTO v_title;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Notebook not found in the trash' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_title;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.restore_source(p_source_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_title text;
+BEGIN
+    IF NOT public.is_trash_admin() THEN
+        RAISE EXCEPTION 'Only admins can restore items from the trash' USING ERRCODE = '42501';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.sources s
+        JOIN public.notebooks n ON n.id = s.notebook_id
+        WHERE s.id = p_source_id AND n.deleted_at IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'Restore the notebook of this source first';
+    END IF;
+
+    UPDATE public.sources
+    SET deleted_at = NULL, deleted_by = NULL
+    WHERE id = p_source_id AND deleted_at IS NOT NULL
+    RETURNING title INTO v_title;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Source not found in the trash' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_title;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.restore_note(p_note_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_title text;
+BEGIN
+    IF NOT public.is_trash_admin() THEN
+        RAISE EXCEPTION 'Only admins can restore items from the trash' USING ERRCODE = '42501';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.notes nt
+        JOIN public.notebooks n ON n.id = nt.notebook_id
+        WHERE nt.id = p_note_id AND n.deleted_at IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'Restore the notebook of this note first';
+    END IF;
+
+    UPDATE public.notes
+    SET deleted_at = NULL, deleted_by = NULL
+    WHERE id = p_note_id AND deleted_at IS NOT NULL
+    RETURNING title INTO v_title;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Note not found in the trash' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_title;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- PERMANENT DELETION
+-- ============================================================================
+
+-- Same cleanup as before (see add_transactional_deletion), now only for
+-- admins and only for items already in the trash
+CREATE OR REPLACE FUNCTION public.delete_source(p_source_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_source public.sources%ROWTYPE;
+BEGIN
+    IF NOT public.is_trash_admin() THEN
+        RAISE EXCEPTION 'Only admins can permanently delete items' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_source FROM public.sources WHERE id = p_source_id FOR UPDATE;
+    IF NOT FOUND OR v_source.deleted_at IS NULL THEN
+        RAISE EXCEPTION 'Source not found in the trash' USING ERRCODE = 'P0002';
+    END IF;
+
+    PERFORM public.queue_source_storage_deletion(v_source);
+    PERFORM public.remove_source_citations(v_source.notebook_id, ARRAY[p_source_id::text]);
+
+    -- Embeddings are removed by the delete_source_documents trigger
+    DELETE FROM public.sources WHERE id = p_source_id;
+
+    RETURN v_source.title;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.delete_notebook(p_notebook_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_notebook public.notebooks%ROWTYPE;
+    v_source public.sources%ROWTYPE;
+    v_source_ids text[];
+BEGIN
+    IF NOT public.is_trash_admin() THEN
+        RAISE EXCEPTION 'Only admins can permanently delete items' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_notebook FROM public.notebooks WHERE id = p_notebook_id FOR UPDATE;
+    IF NOT FOUND OR v_notebook.deleted_at IS NULL THEN
+        RAISE EXCEPTION 'Notebook not found in the trash' USING ERRCODE = 'P0002';
+    END IF;
+
+    FOR v_source IN SELECT * FROM public.sources WHERE notebook_id = p_notebook_id LOOP
+        PERFORM public.queue_source_storage_deletion(v_source);
+    END LOOP;
+
+    -- Anything else stored for the notebook, e.g. audio overviews written by n8n
+    INSERT INTO public.storage_deletions (bucket, path, is_prefix)
+    VALUES
+        ('sources', v_notebook.workspace_id::text || '/' || p_notebook_id::text, true),
+        ('sources', p_notebook_id::text, true),
+        ('audio', p_notebook_id::text, true);
+
+    SELECT array_agg(id::text) INTO v_source_ids
+    FROM public.sources
+    WHERE notebook_id = p_notebook_id;
+
+    -- Workspace chats may have cited this notebook's sources
+    PERFORM public.remove_source_citations(p_notebook_id, v_source_ids);
+
+    DELETE FROM public.n8n_chat_histories
+    WHERE session_id IN (SELECT id FROM public.chat_threads WHERE notebook_id = p_notebook_id);
+
+    DELETE FROM public.documents WHERE metadata->>'notebook_id' = p_notebook_id::text;
+
+    -- Cascades to sources, notes, chat threads, feedback and members
+    DELETE FROM public.notebooks WHERE id = p_notebook_id;
+
+    RETURN v_notebook.title;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.delete_note(p_note_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_title text;
+BEGIN
+    IF NOT public.is_trash_admin() THEN
+        RAISE EXCEPTION 'Only admins can permanently delete items' USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM public.notes
+    WHERE id = p_note_id AND deleted_at IS NOT NULL
+    RETURNING title INTO v_title;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Note not found in the trash' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_title;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- TRASH VIEW AND RETENTION
+-- ============================================================================
+
+-- Everything in the trash across workspaces. Sources and notes of a trashed
+-- notebook are listed with the notebook only, they go wherever it goes.
+-- Notes don't always belong to a notebook.
+CREATE OR REPLACE FUNCTION public.get_trash()
+RETURNS TABLE(
+    item_type text,
+    item_id uuid,
+    title text,
+    notebook_id uuid,
+    notebook_title text,
+    workspace_name text,
+    deleted_at timestamp with time zone,
+    deleted_by_email text,
+    purge_at timestamp with time zone
+) AS $$
+DECLARE
+    v_retention integer;
+BEGIN
+    IF NOT public.is_trash_admin() THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT trash_retention_days INTO v_retention FROM public.app_settings;
+    v_retention := COALESCE(v_retention, 30);
+
+    RETURN QUERY
+    WITH items AS (
+        SELECT 'notebook'::text AS item_type, n.id AS item_id, n.title, n.id AS notebook_id,
+               n.deleted_at, n.deleted_by
+        FROM public.notebooks n
+        WHERE n.deleted_at IS NOT NULL
+        UNION ALL
+        SELECT 'source'::text, s.id, s.title, s.notebook_id, s.deleted_at, s.deleted_by
+        FROM public.sources s
+        JOIN public.notebooks n ON n.id = s.notebook_id
+        WHERE s.deleted_at IS NOT NULL AND n.deleted_at IS NULL
+        UNION ALL
+        SELECT 'note'::text, nt.id, nt.title, nt.notebook_id, nt.deleted_at, nt.deleted_by
+        FROM public.notes nt
+        LEFT JOIN public.notebooks n ON n.id = nt.notebook_id
+        WHERE nt.deleted_at IS NOT NULL AND n.deleted_at IS NULL
+    )
+    SELECT
+        i.item_type,
+        i.item_id,
+        i.title,
+        i.notebook_id,
+        n.title,
+        w.name,
+        i.deleted_at,
+        p.email,
+        i.deleted_at + make_interval(days => v_retention)
+    FROM items i
+    LEFT JOIN public.notebooks n ON n.id = i.notebook_id
+    LEFT JOIN public.workspaces w ON w.id = n.workspace_id
+    LEFT JOIN public.profiles p ON p.id = i.deleted_by
+    ORDER BY i.deleted_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Trash older than the retention period, for the purge-orphans job
+CREATE OR REPLACE FUNCTION public.get_expired_trash(p_limit integer DEFAULT 100)
+RETURNS TABLE(
+    item_type text,
+    item_id uuid
+) AS $$
+BEGIN
+    IF NOT public.is_trash_admin() THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT t.item_type, t.item_id
+    FROM public.get_trash() t
+    WHERE t.purge_at <= timezone('utc'::text, now())
+    ORDER BY t.purge_at
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- ============================================================================
+-- RETRIEVAL AND SEARCH
+-- ============================================================================
+
+-- As in add_workspaces, leaving out trashed notebooks and the embeddings of
+-- trashed sources
+CREATE OR REPLACE FUNCTION public.hybrid_match_documents(
+    query_text text,
+    query_embedding vector,
+    match_count integer DEFAULT 10,
+    filter jsonb DEFAULT '{}'::jsonb,
+    full_text_weight double precision DEFAULT NULL,
+    semantic_weight double precision DEFAULT NULL,
+    rrf_k integer DEFAULT 50
+)
+RETURNS TABLE(
+    id bigint,
+    content text,
+    metadata jsonb,
+    similarity double precision,
+    score double precision
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    source_ids text[] := public.filter_id_list(filter, 'source_ids');
+    notebook_ids text[] := public.filter_id_list(filter, 'notebook_ids');
+    workspace uuid := public.match_filter_workspace_id(filter);
+    metadata_filter jsonb := filter - 'source_ids' - 'notebook_ids' - 'workspace_id' - 'query_text';
+    result_count integer := COALESCE(match_count, 10);
+    keyword_weight double precision := full_text_weight;
+    vector_weight double precision := semantic_weight;
+BEGIN
+    IF NULLIF(trim(filter->>'notebook_id'), '') IS NULL THEN
+        metadata_filter := metadata_filter - 'notebook_id';
+    END IF;
+
+    IF keyword_weight IS NULL OR vector_weight IS NULL THEN
+        SELECT
+            COALESCE(keyword_weight, n.keyword_search_weight),
+            COALESCE(vector_weight, n.semantic_search_weight)
+        INTO keyword_weight, vector_weight
+        FROM public.notebooks n
+        WHERE n.id::text = filter->>'notebook_id';
+    END IF;
+
+    keyword_weight := COALESCE(keyword_weight, 1.0);
+    vector_weight := COALESCE(vector_weight, 1.0);
+
+    RETURN QUERY
+    WITH workspace_notebooks AS (
+        SELECT n.id::text AS notebook_id
+        FROM public.notebooks n
+        WHERE n.workspace_id = workspace AND n.deleted_at IS NULL
+    ),
+    candidates AS (
+        SELECT d.id, d.fts, d.embedding
+        FROM public.documents d
+        WHERE d.metadata @> metadata_filter
+          AND d.metadata->>'notebook_id' IN (SELECT wn.notebook_id FROM workspace_notebooks wn)
+          AND NOT EXISTS (
+              SELECT 1 FROM public.sources s
+              WHERE s.id::text = d.metadata->>'source_id' AND s.deleted_at IS NOT NULL
+          )
+          AND (source_ids IS NULL OR d.metadata->>'source_id' = ANY(source_ids))
+          AND (notebook_ids IS NULL OR d.metadata->>'notebook_id' = ANY(notebook_ids))
+    ),
+    keyword_matches AS (
+        SELECT
+            c.id,
+            row_number() OVER (
+                ORDER BY ts_rank_cd(c.fts, websearch_to_tsquery('english', query_text)) DESC
+            ) AS rank_ix
+        FROM candidates c
+        WHERE c.fts @@ websearch_to_tsquery('english', query_text)
+        ORDER BY rank_ix
+        LIMIT result_count * 2
+    ),
+    semantic_matches AS (
+        SELECT
+            c.id,
+            row_number() OVER (ORDER BY c.embedding <=> query_embedding) AS rank_ix
+        FROM candidates c
+        ORDER BY rank_ix
+        LIMIT result_count * 2
+    )
+    SELECT
+        d.id,
+        d.content,
+        d.metadata,
+        1 - (d.embedding <=> query_embedding) AS similarity,
+        (
+            COALESCE(keyword_weight / (rrf_k + k.rank_ix), 0.0) +
+            COALESCE(vector_weight / (rrf_k + s.rank_ix), 0.0)
+        )::double precision AS score
+    FROM keyword_matches k
+    FULL OUTER JOIN semantic_matches s ON s.id = k.id
+    JOIN public.documents d ON d.id = COALESCE(k.id, s.id)
+    ORDER BY 5 DESC
+    LIMIT result_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.match_documents(
+    query_embedding vector,
+    match_count integer DEFAULT NULL,
+    filter jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE(
+    id bigint,
+    content text,
+    metadata jsonb,
+    similarity double precision
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    source_ids text[] := public.filter_id_list(filter, 'source_ids');
+    notebook_ids text[] := public.filter_id_list(filter, 'notebook_ids');
+    workspace uuid := public.match_filter_workspace_id(filter);
+    metadata_filter jsonb := filter - 'source_ids' - 'notebook_ids' - 'workspace_id' - 'query_text';
+BEGIN
+    IF NULLIF(trim(filter->>'query_text'), '') IS NOT NULL THEN
+        RETURN QUERY
+        SELECT h.id, h.content, h.metadata, h.similarity
+        FROM public.hybrid_match_documents(
+            filter->>'query_text',
+            query_embedding,
+            match_count,
+            filter - 'query_text'
+        ) h;
+        RETURN;
+    END IF;
+
+    IF NULLIF(trim(filter->>'notebook_id'), '') IS NULL THEN
+        metadata_filter := metadata_filter - 'notebook_id';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        documents.id,
+        documents.content,
+        documents.metadata,
+        1 - (documents.embedding <=> query_embedding) as similarity
+    FROM documents
+    WHERE documents.metadata @> metadata_filter
+      AND documents.metadata->>'notebook_id' IN (
+          SELECT n.id::text FROM public.notebooks n
+          WHERE n.workspace_id = workspace AND n.deleted_at IS NULL
+      )
+      AND NOT EXISTS (
+          SELECT 1 FROM public.sources s
+          WHERE s.id::text = documents.metadata->>'source_id' AND s.deleted_at IS NOT NULL
+      )
+      AND (source_ids IS NULL OR documents.metadata->>'source_id' = ANY(source_ids))
+      AND (notebook_ids IS NULL OR documents.metadata->>'notebook_id' = ANY(notebook_ids))
+    ORDER BY documents.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
+
+-- Trashed notebooks, sources and notes don't show up, not even for admins
+CREATE OR REPLACE FUNCTION public.search_workspace(
+    search_query text,
+    result_limit integer DEFAULT 50
+)
+RETURNS TABLE(
+    result_type text,
+    notebook_id uuid,
+    notebook_title text,
+    item_id uuid,
+    title text,
+    snippet text,
+    rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', search_query) AS q
+    ),
+    scope AS (
+        SELECT id FROM notebooks
+        WHERE workspace_id = public.current_workspace_id() AND deleted_at IS NULL
+    ),
+    hits AS (
+        (
+            SELECT 'notebook'::text AS result_type, n.id AS notebook_id, n.id AS item_id,
+                   ts_rank(n.search_vector, query.q) AS rank
+            FROM notebooks n, query
+            WHERE n.search_vector @@ query.q
+              AND n.id IN (SELECT id FROM scope)
+            ORDER BY rank DESC
+            LIMIT result_limit
+        )
+        UNION ALL
+        (
+            SELECT 'source'::text, s.notebook_id, s.id,
+                   ts_rank(s.search_vector, query.q)
+            FROM sources s, query
+            WHERE s.search_vector @@ query.q
+              AND s.deleted_at IS NULL
+              AND s.notebook_id IN (SELECT id FROM scope)
+            ORDER BY 4 DESC
+            LIMIT result_limit
+        )
+        UNION ALL
+        (
+            SELECT 'note'::text, nt.notebook_id, nt.id,
+                   ts_rank(nt.search_vector, query.q)
+            FROM notes nt, query
+            WHERE nt.search_vector @@ query.q
+              AND nt.deleted_at IS NULL
+              AND nt.user_id = auth.uid()
+              AND nt.notebook_id IN (SELECT id FROM scope)
+            ORDER BY 4 DESC
+            LIMIT result_limit
+        )
+    ),
+    top_hits AS (
+        SELECT * FROM hits ORDER BY rank DESC LIMIT result_limit
+    )
+    -- Headlines are only built for the rows that are returned
+    SELECT
+        h.result_type,
+        h.notebook_id,
+        nb.title AS notebook_title,
+        h.item_id,
+        COALESCE(s.title, nt.title, nb.title) AS title,
+        ts_headline(
+            'english',
+            CASE h.result_type
+                WHEN 'notebook' THEN COALESCE(NULLIF(nb.description, ''), nb.title)
+                WHEN 'source' THEN concat_ws(E'\n', s.summary, LEFT(s.content, 250000))
+                ELSE nt.content
+            END,
+            query.q,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+        ) AS snippet,
+        h.rank
+    FROM top_hits h
+    CROSS JOIN query
+    LEFT JOIN notebooks nb ON nb.id = h.notebook_id
+    LEFT JOIN sources s ON h.result_type = 'source' AND s.id = h.item_id
+    LEFT JOIN notes nt ON h.result_type = 'note' AND nt.id = h.item_id
+    ORDER BY h.rank DESC;
+$$;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+-- Restrictive policies are ANDed with the existing permissive ones: trashed
+-- rows are hidden from everyone but admins, can't be edited, and are only
+-- deleted for good through the delete functions
+DROP POLICY IF EXISTS "Hide trashed notebooks" ON public.notebooks;
+CREATE POLICY "Hide trashed notebooks"
+    ON public.notebooks AS RESTRICTIVE FOR SELECT
+    USING (deleted_at IS NULL OR public.is_trash_admin());
+
+DROP POLICY IF EXISTS "Trashed notebooks are read-only" ON public.notebooks;
+CREATE POLICY "Trashed notebooks are read-only"
+    ON public.notebooks AS RESTRICTIVE FOR UPDATE
+    USING (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Only trashed notebooks can be deleted" ON public.notebooks;
+CREATE POLICY "Only trashed notebooks can be deleted"
+    ON public.notebooks AS RESTRICTIVE FOR DELETE
+    USING (deleted_at IS NOT NULL AND public.is_trash_admin());
+
+DROP POLICY IF EXISTS "Hide trashed sources" ON public.sources;
+CREATE POLICY "Hide trashed sources"
+    ON public.sources AS RESTRICTIVE FOR SELECT
+    USING (deleted_at IS NULL OR public.is_trash_admin());
+
+DROP POLICY IF EXISTS "Trashed sources are read-only" ON public.sources;
+CREATE POLICY "Trashed sources are read-only"
+    ON public.sources AS RESTRICTIVE FOR UPDATE
+    USING (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Only trashed sources can be deleted" ON public.sources;
+CREATE POLICY "Only trashed sources can be deleted"
+    ON public.sources AS RESTRICTIVE FOR DELETE
+    USING (deleted_at IS NOT NULL AND public.is_trash_admin());
+
+DROP POLICY IF EXISTS "Hide trashed notes" ON public.notes;
+CREATE POLICY "Hide trashed notes"
+    ON public.notes AS RESTRICTIVE FOR SELECT
+    USING (deleted_at IS NULL OR public.is_trash_admin());
+
+DROP POLICY IF EXISTS "Trashed notes are read-only" ON public.notes;
+CREATE POLICY "Trashed notes are read-only"
+    ON public.notes AS RESTRICTIVE FOR UPDATE
+    USING (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Only trashed notes can be deleted" ON public.notes;
+CREATE POLICY "Only trashed notes can be deleted"
+    ON public.notes AS RESTRICTIVE FOR DELETE
+    USING (deleted_at IS NOT NULL AND public.is_trash_admin());
+
+DROP POLICY IF EXISTS "Authenticated users can view app settings" ON public.app_settings;
+CREATE POLICY "Authenticated users can view app settings"
+    ON public.app_settings FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Admins can update app settings" ON public.app_settings;
+CREATE POLICY "Admins can update app settings"
+    ON public.app_settings FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        ) AND public.mfa_requirement_satisfied()
+    );
@@ -0,0 +1,164 @@
+-- Duplicating notebooks and notebook templates. A template is a notebook with
+-- is_template set: workspace admins build it like any other notebook (sources,
+-- description, icon and colour, example questions) and everyone in the
+-- workspace can start a new notebook from it. The duplicate-notebook edge
+-- function copies the rows and files; copy_notebook_documents() copies the
+-- existing embeddings so nothing has to be processed again.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE public.notebooks
+    ADD COLUMN IF NOT EXISTS is_template boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_notebooks_templates ON public.notebooks(workspace_id) WHERE is_template;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Copy the chunks of the given sources into another notebook, pointing them at
+-- the new source ids. p_source_ids maps old source ids to new ones; chunks of
+-- sources that aren't in it are left out.
+CREATE OR REPLACE FUNCTION public.copy_notebook_documents(
+    p_from_notebook_id uuid,
+    p_to_notebook_id uuid,
+    p_source_ids jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_count integer;
+BEGIN
+    IF NOT public.can_view_notebook(p_from_notebook_id) OR NOT public.can_edit_notebook(p_to_notebook_id) THEN
+        RAISE EXCEPTION 'Notebook not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO documents (content, metadata, embedding)
+    SELECT
+        d.content,
+        d.metadata || jsonb_build_object(
+            'notebook_id', p_to_notebook_id,
+            'source_id', p_source_ids ->> (d.metadata->>'source_id')
+        ),
+        d.embedding
+    FROM documents d
+    WHERE d.metadata->>'notebook_id' = p_from_notebook_id::text
+      AND p_source_ids ? (d.metadata->>'source_id')
+    ORDER BY d.id;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- Templates are building blocks rather than content, so workspace search
+-- leaves them out like trashed notebooks
+CREATE OR REPLACE FUNCTION public.search_workspace(
+    search_query text,
+    result_limit integer DEFAULT 50
+)
+RETURNS TABLE(
+    result_type text,
+    notebook_id uuid,
+    notebook_title text,
+    item_id uuid,
+    title text,
+    snippet text,
+    rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', search_query) AS q
+    ),
+    scope AS (
+        SELECT id FROM notebooks
+        WHERE workspace_id = public.current_workspace_id() AND deleted_at IS NULL AND NOT is_template
+    ),
+    hits AS (
+        (
+            SELECT 'notebook'::text AS result_type, n.id AS notebook_id, n.id AS item_id,
+                   ts_rank(n.search_vector, query.q) AS rank
+            FROM notebooks n, query
+            WHERE n.search_vector @@ query.q
+              AND n.id IN (SELECT id FROM scope)
+            ORDER BY rank DESC
+            LIMIT result_limit
+        )
+        UNION ALL
+        (
+            SELECT 'source'::text, s.notebook_id, s.id,
+                   ts_rank(s.search_vector, query.q)
+            FROM sources s, query
+            WHERE s.search_vector @@ query.q
+              AND s.deleted_at IS NULL
+              AND s.notebook_id IN (SELECT id FROM scope)
+            ORDER BY 4 DESC
+            LIMIT result_limit
+        )
+        UNION ALL
+        (
+            SELECT 'note'::text, nt.notebook_id, nt.id,
+                   ts_rank(nt.search_vector, query.q)
+            FROM notes nt, query
+            WHERE nt.search_vector @@ query.q
+              AND nt.deleted_at IS NULL
+              AND nt.user_id = auth.uid()
+              AND nt.notebook_id IN (SELECT id FROM scope)
+            ORDER BY 4 DESC
+            LIMIT result_limit
+        )
+    ),
+    top_hits AS (
+        SELECT * FROM hits ORDER BY rank DESC LIMIT result_limit
+    )
+    -- Headlines are only built for the rows that are returned
+    SELECT
+        h.result_type,
+        h.notebook_id,
+        nb.title AS notebook_title,
+        h.item_id,
+        COALESCE(s.title, nt.title, nb.title) AS title,
+        ts_headline(
+            'english',
+            CASE h.result_type
+                WHEN 'notebook' THEN COALESCE(NULLIF(nb.description, ''), nb.title)
+                WHEN 'source' THEN concat_ws(E'\n', s.summary, LEFT(s.content, 250000))
+                ELSE nt.content
+            END,
+            query.q,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+        ) AS snippet,
+        h.rank
+    FROM top_hits h
+    CROSS JOIN query
+    LEFT JOIN notebooks nb ON nb.id = h.notebook_id
+    LEFT JOIN sources s ON h.result_type = 'source' AND s.id = h.item_id
+    LEFT JOIN notes nt ON h.result_type = 'note' AND nt.id = h.item_id
+    ORDER BY h.rank DESC;
+$$;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+-- Only workspace admins create templates or turn notebooks into one
+DROP POLICY IF EXISTS "Workspace admins manage templates" ON public.notebooks;
+CREATE POLICY "Workspace admins manage templates"
+    ON public.notebooks AS RESTRICTIVE FOR INSERT
+    TO authenticated
+    WITH CHECK (NOT is_template OR public.is_workspace_admin(workspace_id));
+
+DROP POLICY IF EXISTS "Workspace admins update templates" ON public.notebooks;
+CREATE POLICY "Workspace admins update templates"
+    ON public.notebooks AS RESTRICTIVE FOR UPDATE
+    TO authenticated
+    USING (NOT is_template OR public.is_workspace_admin(workspace_id))
+    WITH CHECK (NOT is_template OR public.is_workspace_admin(workspace_id));
@@ -0,0 +1,285 @@
+-- Organising notebooks on the dashboard. Folders (nested) and coloured tags
+-- belong to a workspace and are shared by its members; anyone who can edit a
+-- notebook can move it between folders and tag it. Favourites and recently
+-- opened notebooks are per user.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.notebook_folders (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id uuid NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    -- Deleting a folder deletes its subfolders; their notebooks become unfiled
+    parent_id uuid REFERENCES public.notebook_folders(id) ON DELETE CASCADE,
+    name text NOT NULL CHECK (length(trim(name)) > 0),
+    created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_notebook_folders_workspace_id ON public.notebook_folders(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_notebook_folders_parent_id ON public.notebook_folders(parent_id);
+
+DROP TRIGGER IF EXISTS update_notebook_folders_updated_at ON public.notebook_folders;
+CREATE TRIGGER update_notebook_folders_updated_at
+    BEFORE UPDATE ON public.notebook_folders
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.notebooks
+    ADD COLUMN IF NOT EXISTS folder_id uuid REFERENCES public.notebook_folders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notebooks_folder_id ON public.notebooks(folder_id);
+
+CREATE TABLE IF NOT EXISTS public.tags (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id uuid NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    name text NOT NULL CHECK (length(trim(name)) > 0),
+    color text NOT NULL DEFAULT 'gray'
+        CHECK (color IN ('gray', 'red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink')),
+    created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_workspace_name ON public.tags(workspace_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS public.notebook_tags (
+    notebook_id uuid NOT NULL REFERENCES public.notebooks(id) ON DELETE CASCADE,
+    tag_id uuid NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    PRIMARY KEY (notebook_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notebook_tags_tag_id ON public.notebook_tags(tag_id);
+
+CREATE TABLE IF NOT EXISTS public.notebook_favorites (
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    notebook_id uuid NOT NULL REFERENCES public.notebooks(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    PRIMARY KEY (user_id, notebook_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.notebook_visits (
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    notebook_id uuid NOT NULL REFERENCES public.notebooks(id) ON DELETE CASCADE,
+    last_opened_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    PRIMARY KEY (user_id, notebook_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notebook_visits_recent ON public.notebook_visits(user_id, last_opened_at DESC);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- A folder's parent must be in the same workspace and can't be the folder
+-- itself or one of its subfolders
+CREATE OR REPLACE FUNCTION public.check_notebook_folder_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.parent_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM notebook_folders
+        WHERE id = NEW.parent_id AND workspace_id = NEW.workspace_id
+    ) THEN
+        RAISE EXCEPTION 'The parent folder is not in this workspace' USING ERRCODE = '23514';
+    END IF;
+
+    IF EXISTS (
+        WITH RECURSIVE ancestors AS (
+            SELECT id, parent_id FROM notebook_folders WHERE id = NEW.parent_id
+            UNION
+            SELECT f.id, f.parent_id
+            FROM notebook_folders f
+            JOIN ancestors a ON f.id = a.parent_id
+        )
+        SELECT 1 FROM ancestors WHERE id = NEW.id
+    ) THEN
+        RAISE EXCEPTION 'A folder can''t be moved into itself' USING ERRCODE = '23514';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_notebook_folder_parent ON public.notebook_folders;
+CREATE TRIGGER check_notebook_folder_parent
+    BEFORE INSERT OR UPDATE OF parent_id, workspace_id ON public.notebook_folders
+    FOR EACH ROW EXECUTE FUNCTION public.check_notebook_folder_parent();
+
+-- Notebooks can only be filed in folders of their own workspace
+CREATE OR REPLACE FUNCTION public.check_notebook_folder()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.folder_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM notebook_folders
+        WHERE id = NEW.folder_id AND workspace_id = NEW.workspace_id
+    ) THEN
+        RAISE EXCEPTION 'The folder is not in the notebook''s workspace' USING ERRCODE = '23514';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_notebook_folder ON public.notebooks;
+CREATE TRIGGER check_notebook_folder
+    BEFORE INSERT OR UPDATE OF folder_id, workspace_id ON public.notebooks
+    FOR EACH ROW EXECUTE FUNCTION public.check_notebook_folder();
+
+-- The source types in each notebook of a workspace, for filtering the
+-- dashboard. Runs with the caller's rights, so RLS decides what is counted.
+CREATE OR REPLACE FUNCTION public.get_notebook_source_types(p_workspace_id uuid)
+RETURNS TABLE(notebook_id uuid, source_types text[])
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT s.notebook_id, array_agg(DISTINCT s.type::text) AS source_types
+    FROM sources s
+    JOIN notebooks n ON n.id = s.notebook_id
+    WHERE n.workspace_id = p_workspace_id
+      AND n.deleted_at IS NULL
+      AND s.deleted_at IS NULL
+    GROUP BY s.notebook_id;
+$$;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE public.notebook_folders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notebook_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notebook_favorites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notebook_visits ENABLE ROW LEVEL SECURITY;
+
+-- Folders and tags: every member creates them, their creator and workspace
+-- admins change or remove them
+DROP POLICY IF EXISTS "Members can view folders" ON public.notebook_folders;
+CREATE POLICY "Members can view folders"
+    ON public.notebook_folders FOR SELECT
+    USING (public.is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Members can create folders" ON public.notebook_folders;
+CREATE POLICY "Members can create folders"
+    ON public.notebook_folders FOR INSERT
+    TO authenticated
+    WITH CHECK (public.is_workspace_member(workspace_id) AND created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Creators and workspace admins can update folders" ON public.notebook_folders;
+CREATE POLICY "Creators and workspace admins can update folders"
+    ON public.notebook_folders FOR UPDATE
+    USING (
+        (created_by = auth.uid() AND public.is_workspace_member(workspace_id)) OR
+        public.is_workspace_admin(workspace_id)
+    );
+
+DROP POLICY IF EXISTS "Creators and workspace admins can delete folders" ON public.notebook_folders;
+CREATE POLICY "Creators and workspace admins can delete folders"
+    ON public.notebook_folders FOR DELETE
+    USING (
+        (created_by = auth.uid() AND public.is_workspace_member(workspace_id)) OR
+        public.is_workspace_admin(workspace_id)
+    );
+
+DROP POLICY IF EXISTS "Members can view tags" ON public.tags;
+CREATE POLICY "Members can view tags"
+    ON public.tags FOR SELECT
+    USING (public.is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Members can create tags" ON public.tags;
+CREATE POLICY "Members can create tags"
+    ON public.tags FOR INSERT
+    TO authenticated
+    WITH CHECK (public.is_workspace_member(workspace_id) AND created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Creators and workspace admins can update tags" ON public.tags;
+CREATE POLICY "Creators and workspace admins can update tags"
+    ON public.tags FOR UPDATE
+    USING (
+        (created_by = auth.uid() AND public.is_workspace_member(workspace_id)) OR
+        public.is_workspace_admin(workspace_id)
+    );
+
+DROP POLICY IF EXISTS "Creators and workspace admins can delete tags" ON public.tags;
+CREATE POLICY "Creators and workspace admins can delete tags"
+    ON public.tags FOR DELETE
+    USING (
+        (created_by = auth.uid() AND public.is_workspace_member(workspace_id)) OR
+        public.is_workspace_admin(workspace_id)
+    );
+
+-- Tagging follows the notebook's access, with tags from its own workspace
+DROP POLICY IF EXISTS "Members can view notebook tags" ON public.notebook_tags;
+CREATE POLICY "Members can view notebook tags"
+    ON public.notebook_tags FOR SELECT
+    USING (public.can_view_notebook(notebook_id));
+
+DROP POLICY IF EXISTS "Editors can tag notebooks" ON public.notebook_tags;
+CREATE POLICY "Editors can tag notebooks"
+    ON public.notebook_tags FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        public.can_edit_notebook(notebook_id) AND EXISTS (
+            SELECT 1
+            FROM public.tags t
+            JOIN public.notebooks n ON n.workspace_id = t.workspace_id
+            WHERE t.id = tag_id AND n.id = notebook_id
+        )
+    );
+
+DROP POLICY IF EXISTS "Editors can untag notebooks" ON public.notebook_tags;
+CREATE POLICY "Editors can untag notebooks"
+    ON public.notebook_tags FOR DELETE
+    USING (public.can_edit_notebook(notebook_id));
+
+-- Favourites and visits are the user's own, for notebooks they can open
+DROP POLICY IF EXISTS "Users can view their favorites" ON public.notebook_favorites;
+CREATE POLICY "Users can view their favorites"
+    ON public.notebook_favorites FOR SELECT
+    USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can add favorites" ON public.notebook_favorites;
+CREATE POLICY "Users can add favorites"
+    ON public.notebook_favorites FOR INSERT
+    TO authenticated
+    WITH CHECK (user_id = auth.uid() AND public.can_view_notebook(notebook_id));
+
+DROP POLICY IF EXISTS "Users can remove their favorites" ON public.notebook_favorites;
+CREATE POLICY "Users can remove their favorites"
+    ON public.notebook_favorites FOR DELETE
+    USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can view their visits" ON public.notebook_visits;
+CREATE POLICY "Users can view their visits"
+    ON public.notebook_visits FOR SELECT
+    USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can record visits" ON public.notebook_visits;
+CREATE POLICY "Users can record visits"
+    ON public.notebook_visits FOR INSERT
+    TO authenticated
+    WITH CHECK (user_id = auth.uid() AND public.can_view_notebook(notebook_id));
+
+DROP POLICY IF EXISTS "Users can update their visits" ON public.notebook_visits;
+CREATE POLICY "Users can update their visits"
+    ON public.notebook_visits FOR UPDATE
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid() AND public.can_view_notebook(notebook_id));
+
+DROP POLICY IF EXISTS "Users can remove their visits" ON public.notebook_visits;
+CREATE POLICY "Users can remove their visits"
+    ON public.notebook_visits FOR DELETE
+    USING (user_id = auth.uid());
@@ -0,0 +1,8 @@
+-- Callback nonces are now issued on every delivery attempt of a webhook job
+-- instead of being stored in its payload, where a re-driven or late retried
+-- job would send one that had expired or been used up. Drop the stored ones
+-- from jobs that may still be sent.
+
+UPDATE public.webhook_jobs
+SET payload = payload - 'callback_nonce' - 'callbackNonce' - 'callbackNonces'
+WHERE status IN ('pending', 'running', 'dead');
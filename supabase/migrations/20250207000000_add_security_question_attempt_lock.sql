@@ -0,0 +1,81 @@
+-- Checking the security question lockouts and recording the attempt in one
+-- step. With a separate count and insert, parallel requests could all pass
+-- the check before any of them was recorded and get more guesses than allowed.
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Serialises attempts per account and per address, then either reports the
+-- lockout or records the attempt as failed before the answer is checked. The
+-- caller marks it successful if the answer turns out to be right.
+CREATE OR REPLACE FUNCTION public.begin_security_question_attempt(
+    p_user_id uuid,
+    p_ip_address inet,
+    p_window_seconds integer,
+    p_max_failures integer,
+    p_max_ip_failures integer
+)
+RETURNS TABLE (attempt_id uuid, locked boolean, failures integer, locked_until timestamp with time zone) AS $$
+DECLARE
+    v_since timestamp with time zone := timezone('utc'::text, now()) - make_interval(secs => p_window_seconds);
+    v_last_success timestamp with time zone;
+    v_failures integer;
+    v_locked_from timestamp with time zone;
+    v_attempt_id uuid;
+BEGIN
+    -- Always user then address, so two requests can't wait on each other
+    PERFORM pg_advisory_xact_lock(hashtext('security_question_attempts:user:' || p_user_id::text));
+    IF p_ip_address IS NOT NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtext('security_question_attempts:ip:' || host(p_ip_address)));
+
+        IF (
+            SELECT count(*) FROM public.security_question_attempts
+            WHERE ip_address = p_ip_address
+              AND success = false
+              AND attempted_at >= v_since
+        ) >= p_max_ip_failures THEN
+            RETURN QUERY SELECT NULL::uuid, true, NULL::integer, NULL::timestamp with time zone;
+            RETURN;
+        END IF;
+    END IF;
+
+    -- The account is locked once it has p_max_failures failures in the
+    -- window since its last successful answer
+    SELECT max(attempted_at) INTO v_last_success
+    FROM public.security_question_attempts
+    WHERE user_id = p_user_id
+      AND success = true
+      AND attempted_at >= v_since;
+
+    SELECT count(*) INTO v_failures
+    FROM public.security_question_attempts
+    WHERE user_id = p_user_id
+      AND success = false
+      AND attempted_at >= greatest(v_since, coalesce(v_last_success, v_since));
+
+    IF v_failures >= p_max_failures THEN
+        -- Unlocks when the oldest failure that counts leaves the window
+        SELECT attempted_at INTO v_locked_from
+        FROM public.security_question_attempts
+        WHERE user_id = p_user_id
+          AND success = false
+          AND attempted_at >= greatest(v_since, coalesce(v_last_success, v_since))
+        ORDER BY attempted_at DESC
+        OFFSET p_max_failures - 1
+        LIMIT 1;
+
+        RETURN QUERY SELECT NULL::uuid, true, v_failures, v_locked_from + make_interval(secs => p_window_seconds);
+        RETURN;
+    END IF;
+
+    INSERT INTO public.security_question_attempts (user_id, ip_address, success)
+    VALUES (p_user_id, p_ip_address, false)
+    RETURNING id INTO v_attempt_id;
+
+    RETURN QUERY SELECT v_attempt_id, false, v_failures, NULL::timestamp with time zone;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.begin_security_question_attempt(uuid, inet, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.begin_security_question_attempt(uuid, inet, integer, integer, integer) TO service_role;
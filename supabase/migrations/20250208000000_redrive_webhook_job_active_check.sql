@@ -0,0 +1,77 @@
+-- Re-driving a dead job while a newer job for the same request is pending or
+-- running broke idx_webhook_jobs_active_idempotency_key and showed admins a
+-- raw unique violation. Report that the request is already queued instead.
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.redrive_webhook_job(p_job_id uuid)
+RETURNS void AS $$
+DECLARE
+    v_job public.webhook_jobs%ROWTYPE;
+    v_target_id text;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Only admins can re-drive webhook jobs';
+    END IF;
+
+    IF NOT public.mfa_requirement_satisfied() THEN
+        RAISE EXCEPTION 'Multi-factor authentication is required to re-drive webhook jobs';
+    END IF;
+
+    SELECT * INTO v_job
+    FROM public.webhook_jobs
+    WHERE id = p_job_id AND status = 'dead'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Dead-lettered webhook job not found';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.webhook_jobs
+        WHERE idempotency_key = v_job.idempotency_key
+          AND status IN ('pending', 'running')
+    ) THEN
+        RAISE EXCEPTION 'This request is already queued in a newer webhook job';
+    END IF;
+
+    BEGIN
+        UPDATE public.webhook_jobs
+        SET
+            status = 'pending',
+            attempts = 0,
+            next_attempt_at = timezone('utc'::text, now()),
+            locked_until = NULL,
+            dead_at = NULL
+        WHERE id = p_job_id;
+    EXCEPTION WHEN unique_violation THEN
+        -- A job for the same request was queued after the check above
+        RAISE EXCEPTION 'This request is already queued in a newer webhook job';
+    END;
+
+    FOREACH v_target_id IN ARRAY v_job.target_ids LOOP
+        IF v_job.kind IN ('process-document', 'process-additional-sources') THEN
+            UPDATE public.sources
+            SET processing_status = 'processing'
+            WHERE id = v_target_id::uuid;
+
+            IF EXISTS (SELECT 1 FROM public.source_jobs WHERE source_id = v_target_id::uuid) THEN
+                PERFORM public.record_source_job_stage(v_target_id::uuid, NULL, 'running');
+            END IF;
+        ELSIF v_job.kind = 'generate-notebook-content' THEN
+            UPDATE public.notebooks
+            SET generation_status = 'generating'
+            WHERE id = v_target_id::uuid;
+        ELSIF v_job.kind = 'generate-audio-overview' THEN
+            UPDATE public.notebooks
+            SET audio_overview_generation_status = 'generating'
+            WHERE id = v_target_id::uuid;
+        END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
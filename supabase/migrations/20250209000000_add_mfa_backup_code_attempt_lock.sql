@@ -0,0 +1,82 @@
+-- Redeeming a backup code from a password-only session removes the account's
+-- TOTP factors, so guesses are recorded and limited like security question
+-- answers (see begin_security_question_attempt).
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.mfa_backup_code_attempts (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    attempted_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    success boolean NOT NULL DEFAULT false
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_backup_code_attempts_user_time
+    ON public.mfa_backup_code_attempts(user_id, attempted_at);
+
+-- No policies: attempts are only read and written by the edge function
+ALTER TABLE public.mfa_backup_code_attempts ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Serialises attempts per account, then either reports the lockout or records
+-- the attempt as failed before the code is checked. The caller marks it
+-- successful if the code is accepted.
+CREATE OR REPLACE FUNCTION public.begin_mfa_backup_code_attempt(
+    p_user_id uuid,
+    p_window_seconds integer,
+    p_max_failures integer
+)
+RETURNS TABLE (attempt_id uuid, locked boolean, failures integer, locked_until timestamp with time zone) AS $$
+DECLARE
+    v_since timestamp with time zone := timezone('utc'::text, now()) - make_interval(secs => p_window_seconds);
+    v_last_success timestamp with time zone;
+    v_failures integer;
+    v_locked_from timestamp with time zone;
+    v_attempt_id uuid;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('mfa_backup_code_attempts:user:' || p_user_id::text));
+
+    -- The account is locked once it has p_max_failures failures in the
+    -- window since its last accepted code
+    SELECT max(attempted_at) INTO v_last_success
+    FROM public.mfa_backup_code_attempts
+    WHERE user_id = p_user_id
+      AND success = true
+      AND attempted_at >= v_since;
+
+    SELECT count(*) INTO v_failures
+    FROM public.mfa_backup_code_attempts
+    WHERE user_id = p_user_id
+      AND success = false
+      AND attempted_at >= greatest(v_since, coalesce(v_last_success, v_since));
+
+    IF v_failures >= p_max_failures THEN
+        -- Unlocks when the oldest failure that counts leaves the window
+        SELECT attempted_at INTO v_locked_from
+        FROM public.mfa_backup_code_attempts
+        WHERE user_id = p_user_id
+          AND success = false
+          AND attempted_at >= greatest(v_since, coalesce(v_last_success, v_since))
+        ORDER BY attempted_at DESC
+        OFFSET p_max_failures - 1
+        LIMIT 1;
+
+        RETURN QUERY SELECT NULL::uuid, true, v_failures, v_locked_from + make_interval(secs => p_window_seconds);
+        RETURN;
+    END IF;
+
+    INSERT INTO public.mfa_backup_code_attempts (user_id, success)
+    VALUES (p_user_id, false)
+    RETURNING id INTO v_attempt_id;
+
+    RETURN QUERY SELECT v_attempt_id, false, v_failures, NULL::timestamp with time zone;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.begin_mfa_backup_code_attempt(uuid, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.begin_mfa_backup_code_attempt(uuid, integer, integer) TO service_role;
@@ -0,0 +1,89 @@
+-- Sources' file_path and metadata.extractedTextPath name objects the service
+-- role later downloads and deletes. Editors can update sources, so a path
+-- pointing outside the source's own notebook could have another workspace's
+-- file deleted when the source is purged. Paths are now checked when they are
+-- written and again when they are queued for deletion.
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Files for a notebook are stored under <workspace_id>/<notebook_id>/ or the
+-- older <notebook_id>/ layout
+CREATE OR REPLACE FUNCTION public.is_notebook_storage_path(p_notebook_id uuid, p_path text)
+RETURNS boolean AS $$
+    SELECT p_path IS NOT NULL
+       AND position('..' IN p_path) = 0
+       AND (
+           starts_with(p_path, p_notebook_id::text || '/') OR
+           EXISTS (
+               SELECT 1 FROM public.notebooks n
+               WHERE n.id = p_notebook_id
+                 AND n.workspace_id IS NOT NULL
+                 AND starts_with(p_path, n.workspace_id::text || '/' || p_notebook_id::text || '/')
+           )
+       );
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Only paths inside the source's own notebook are queued, anything else is
+-- left alone. Website sources keep their URL in file_path until the text has
+-- been stored, those never match.
+CREATE OR REPLACE FUNCTION public.queue_source_storage_deletion(p_source public.sources)
+RETURNS void AS $$
+BEGIN
+    INSERT INTO public.storage_deletions (bucket, path)
+    SELECT 'sources', path
+    FROM unnest(ARRAY[p_source.file_path, p_source.metadata->>'extractedTextPath']) AS path
+    WHERE public.is_notebook_storage_path(p_source.notebook_id, path);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.queue_source_storage_deletion(public.sources) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- SOURCE PATH GUARD
+-- ============================================================================
+
+-- Clients set file_path once, after uploading into the notebook, and only
+-- copy extractedTextPath along when duplicating or importing a notebook.
+-- Everything else is written by edge functions with the service role.
+CREATE OR REPLACE FUNCTION public.guard_source_storage_paths()
+RETURNS trigger AS $$
+BEGIN
+    -- auth.uid() is NULL for SQL run by the owner
+    IF auth.uid() IS NULL OR COALESCE(auth.role(), '') = 'service_role' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.file_path IS NOT NULL AND NOT public.is_notebook_storage_path(NEW.notebook_id, NEW.file_path) THEN
+            RAISE EXCEPTION 'Source files must be stored in their own notebook' USING ERRCODE = '42501';
+        END IF;
+
+        IF NEW.metadata ? 'extractedTextPath'
+           AND NOT public.is_notebook_storage_path(NEW.notebook_id, NEW.metadata->>'extractedTextPath') THEN
+            RAISE EXCEPTION 'Source files must be stored in their own notebook' USING ERRCODE = '42501';
+        END IF;
+
+        RETURN NEW;
+    END IF;
+
+    IF NEW.file_path IS DISTINCT FROM OLD.file_path AND (
+        OLD.file_path IS NOT NULL OR
+        NOT public.is_notebook_storage_path(NEW.notebook_id, NEW.file_path)
+    ) THEN
+        RAISE EXCEPTION 'A source''s file path can only be set once, to a file in its own notebook' USING ERRCODE = '42501';
+    END IF;
+
+    IF NEW.metadata->'extractedTextPath' IS DISTINCT FROM OLD.metadata->'extractedTextPath' THEN
+        RAISE EXCEPTION 'Extracted text paths are managed by the server' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_source_storage_paths ON public.sources;
+CREATE TRIGGER guard_source_storage_paths
+    BEFORE INSERT OR UPDATE OF file_path, metadata ON public.sources
+    FOR EACH ROW EXECUTE FUNCTION public.guard_source_storage_paths();
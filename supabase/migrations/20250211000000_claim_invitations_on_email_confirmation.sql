@@ -0,0 +1,49 @@
+-- Pending notebook invitations were claimed when the profile was created,
+-- which happens before the address is verified. Whoever registered an
+-- invited address first got the invitee's access. They are now claimed once
+-- auth.users has a confirmed email, by the sign-up or invite link or by an
+-- account created already confirmed.
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Runs on auth.users, after on_auth_user_created has added the profile
+CREATE OR REPLACE FUNCTION public.claim_notebook_invitations()
+RETURNS trigger AS $$
+BEGIN
+    IF NEW.email_confirmed_at IS NULL OR NEW.email IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.workspace_members (workspace_id, user_id)
+    SELECT DISTINCT n.workspace_id, NEW.id
+    FROM public.notebook_invitations i
+    JOIN public.notebooks n ON n.id = i.notebook_id
+    WHERE i.email = lower(NEW.email)
+    ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+    INSERT INTO public.notebook_members (notebook_id, user_id, role, invited_by)
+    SELECT i.notebook_id, NEW.id, i.role, i.invited_by
+    FROM public.notebook_invitations i
+    WHERE i.email = lower(NEW.email)
+    ON CONFLICT (notebook_id, user_id) DO NOTHING;
+
+    DELETE FROM public.notebook_invitations WHERE email = lower(NEW.email);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS on_profile_created_claim_invitations ON public.profiles;
+
+-- Triggers fire in name order, so the profile exists by the time this runs
+-- for an account inserted already confirmed. A changed email is only written
+-- once the new address has been confirmed.
+DROP TRIGGER IF EXISTS on_auth_user_email_confirmed_claim_invitations ON auth.users;
+CREATE TRIGGER on_auth_user_email_confirmed_claim_invitations
+    AFTER INSERT OR UPDATE OF email_confirmed_at, email ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.claim_notebook_invitations();